@@ -0,0 +1,25 @@
+// Shows routine reminders for the app and opens the checklist when one is tapped.
+// Reminders are scheduled by the page (see src/utils/routineReminders.ts).
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/routine';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(clients => {
+      const client = clients.find(c => new URL(c.url).origin === self.location.origin);
+      if (client) {
+        return client.focus().then(focused => (focused.navigate ? focused.navigate(url) : focused));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
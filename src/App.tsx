@@ -3,11 +3,18 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
-import { StrictMode } from "react";
+import { StrictMode, useEffect } from "react";
 import Landing from "./pages/landing";
 import Index from "./pages/Index";
 import Feedback from "./pages/Feedback";
 import Progress from "./pages/progress";
+import Dashboard from "./pages/Dashboard";
+import Auth from "./pages/Auth";
+import Profile from "./pages/Profile";
+import Routine from "./pages/Routine";
+import ProtectedRoute from "./components/ProtectedRoute";
+import { AuthProvider } from "./contexts/auth-provider";
+import { startRoutineReminders } from "./utils/routineReminders";
 
 // Create a client
 const queryClient = new QueryClient({
@@ -19,33 +26,49 @@ const queryClient = new QueryClient({
 });
 
 const App = () => {
+  useEffect(() => startRoutineReminders(), []);
+
   return (
     <StrictMode>
       <div className="min-h-screen app-background">
         <BrowserRouter>
           <QueryClientProvider client={queryClient}>
-            <TooltipProvider>
-              <main>
-                <Routes>
-                  {/* Landing page is the default route */}
-                  <Route path="/" element={<Landing />} />
-                  
-                  {/* Therapy session route */}
-                  <Route path="/therapy" element={<Index />} />
-                  
-                  {/* Progress page route */}
-                  <Route path="/progress" element={<Progress />} />
-                  
-                  {/* Feedback route */}
-                  <Route path="/feedback" element={<Feedback />} />
-                  
-                  {/* Catch all other routes and redirect to landing */}
-                  <Route path="*" element={<Navigate to="/" replace />} />
-                </Routes>
-              </main>
-              <Toaster />
-              <Sonner />
-            </TooltipProvider>
+            <AuthProvider>
+              <TooltipProvider>
+                <main>
+                  <Routes>
+                    {/* Landing page is the default route */}
+                    <Route path="/" element={<Landing />} />
+                  
+                    {/* Sign in, sign up and magic link */}
+                    <Route path="/auth" element={<Auth />} />
+                  
+                    {/* Therapy session route */}
+                    <Route path="/therapy" element={<ProtectedRoute><Index /></ProtectedRoute>} />
+                  
+                    {/* Progress page route */}
+                    <Route path="/progress" element={<ProtectedRoute><Progress /></ProtectedRoute>} />
+                  
+                    {/* Analytics dashboard route */}
+                    <Route path="/dashboard" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
+                  
+                    {/* Profile route */}
+                    <Route path="/profile" element={<ProtectedRoute><Profile /></ProtectedRoute>} />
+                  
+                    {/* Daily routine checklist and reminders */}
+                    <Route path="/routine" element={<ProtectedRoute><Routine /></ProtectedRoute>} />
+                  
+                    {/* Feedback route */}
+                    <Route path="/feedback" element={<Feedback />} />
+                  
+                    {/* Catch all other routes and redirect to landing */}
+                    <Route path="*" element={<Navigate to="/" replace />} />
+                  </Routes>
+                </main>
+                <Toaster />
+                <Sonner />
+              </TooltipProvider>
+            </AuthProvider>
           </QueryClientProvider>
         </BrowserRouter>
       </div>
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ClipboardList } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceArea,
+  ResponsiveContainer
+} from 'recharts';
+import QuestionnaireDialog from '@/components/QuestionnaireDialog';
+import CrisisPanel from '@/components/CrisisPanel';
+import type { AssessmentRecord } from '@/utils/db';
+import type { RiskAssessment } from '@/utils/riskClassifier';
+import {
+  QUESTIONNAIRES,
+  QuestionnaireId,
+  SeverityBand,
+  getSeverityBand,
+  loadAssessments
+} from '@/utils/assessments';
+
+const BAND_FILLS: Record<SeverityBand['severity'], string> = {
+  none: '#d1fae5',
+  mild: '#fef3c7',
+  moderate: '#ffedd5',
+  severe: '#ffe4e6'
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const AssessmentTrends: React.FC = () => {
+  const [assessments, setAssessments] = useState<AssessmentRecord[]>([]);
+  const [showQuestionnaire, setShowQuestionnaire] = useState(false);
+  const [risk, setRisk] = useState<RiskAssessment | null>(null);
+
+  useEffect(() => {
+    loadAssessments().then(setAssessments);
+  }, []);
+
+  const handleComplete = (result: AssessmentRecord, assessmentRisk: RiskAssessment | null) => {
+    setAssessments(prev => [...prev, result]);
+    if (assessmentRisk) {
+      setShowQuestionnaire(false);
+      setRisk(assessmentRisk);
+    }
+  };
+
+  const taken = (Object.keys(QUESTIONNAIRES) as QuestionnaireId[])
+    .filter(id => assessments.some(a => a.questionnaireId === id));
+
+  return (
+    <Card className="overflow-hidden bg-white hover:shadow-md transition-shadow duration-300">
+      <CardHeader className="space-y-1 sm:space-y-2 bg-gradient-to-r from-indigo-50 to-white border-b border-indigo-100">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-indigo-600">
+            <ClipboardList className="w-5 h-5 sm:w-6 sm:h-6" />
+            <CardTitle className="text-lg sm:text-xl font-semibold">Standardized Measures</CardTitle>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => setShowQuestionnaire(true)}>
+            Take a Questionnaire
+          </Button>
+        </div>
+        <CardDescription className="text-sm sm:text-base text-indigo-600/80">
+          PHQ-9, GAD-7, PSS-10 and WHO-5 scores over time
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6">
+        {taken.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {taken.map(id => {
+              const questionnaire = QUESTIONNAIRES[id];
+              const results = assessments.filter(a => a.questionnaireId === id);
+              const latest = results[results.length - 1];
+              const band = getSeverityBand(id, latest.score);
+              const data = results.map(result => ({
+                date: formatDate(result.completedAt),
+                score: result.score
+              }));
+
+              return (
+                <div key={id} className="p-4 rounded-xl border border-indigo-100 bg-indigo-50/30 space-y-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <h4 className="font-medium text-gray-900">{questionnaire.shortName} · {questionnaire.measures}</h4>
+                      <p className="text-xs text-gray-500">
+                        {questionnaire.higherIsBetter ? 'Higher is better' : 'Lower is better'}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-2xl font-bold text-indigo-600">{latest.score}</p>
+                      <p className="text-xs text-gray-600">{band.label}</p>
+                    </div>
+                  </div>
+                  <div className="h-40">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={data}>
+                        {questionnaire.bands.map(b => (
+                          <ReferenceArea
+                            key={b.label}
+                            y1={b.min}
+                            y2={b.max}
+                            fill={BAND_FILLS[b.severity]}
+                            fillOpacity={0.6}
+                            ifOverflow="extendDomain"
+                          />
+                        ))}
+                        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                        <XAxis dataKey="date" tick={{ fontSize: 10 }} />
+                        <YAxis domain={[0, questionnaire.maxScore]} tick={{ fontSize: 10 }} width={30} />
+                        <Tooltip
+                          formatter={(value: number) => [`${value} · ${getSeverityBand(id, value).label}`, questionnaire.shortName]}
+                        />
+                        <Line type="monotone" dataKey="score" stroke="#4f46e5" strokeWidth={2} dot={{ r: 3 }} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-8 bg-gray-50/50 rounded-xl border border-gray-100">
+            <ClipboardList className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+            <p className="text-gray-500 mb-2">No questionnaires completed yet</p>
+            <p className="text-sm text-gray-400">Take one to start tracking your scores over time</p>
+          </div>
+        )}
+      </CardContent>
+
+      <QuestionnaireDialog
+        open={showQuestionnaire}
+        timing="standalone"
+        onClose={() => setShowQuestionnaire(false)}
+        onComplete={handleComplete}
+      />
+
+      <CrisisPanel assessment={risk} onClose={() => setRisk(null)} />
+    </Card>
+  );
+};
+
+export default AssessmentTrends;
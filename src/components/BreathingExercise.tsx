@@ -0,0 +1,364 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Wind, Pause, Play, Square, Volume2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import type { BreathingExerciseRecord } from '@/utils/db';
+import {
+  BREATHING_PATTERNS,
+  BREATHING_PATTERN_IDS,
+  BreathingPatternId,
+  BreathingPhaseKind,
+  DURATION_OPTIONS,
+  PHASE_CUES,
+  getCycleCount,
+  getCycleSeconds,
+  getPacerState,
+  saveBreathingExercise
+} from '@/utils/breathing';
+import { generateSpeech, isSpeechConfigured } from '@/utils/tts';
+
+interface BreathingExerciseProps {
+  open: boolean;
+  // Pattern to start with, e.g. the one Dr. Sky suggested
+  patternId?: BreathingPatternId;
+  source?: BreathingExerciseRecord['source'];
+  onClose: () => void;
+  onComplete?: (exercise: BreathingExerciseRecord) => void;
+}
+
+type Stage = 'setup' | 'running' | 'rating' | 'done';
+
+const DEFAULT_CALM = 5;
+
+const formatClock = (seconds: number) => {
+  const whole = Math.max(0, Math.ceil(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+const CalmRating: React.FC<{
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}> = ({ label, value, onChange }) => (
+  <div className="space-y-3">
+    <div className="flex items-center justify-between">
+      <p className="text-sm font-medium text-slate-700">{label}</p>
+      <span className="text-lg font-semibold text-indigo-600">{value}</span>
+    </div>
+    <Slider min={0} max={10} step={1} value={[value]} onValueChange={([next]) => onChange(next)} />
+    <div className="flex justify-between text-xs text-slate-500">
+      <span>Very tense</span>
+      <span>Completely calm</span>
+    </div>
+  </div>
+);
+
+const BreathingExercise: React.FC<BreathingExerciseProps> = ({
+  open,
+  patternId = 'coherent',
+  source = 'client',
+  onClose,
+  onComplete
+}) => {
+  const [stage, setStage] = useState<Stage>('setup');
+  const [selectedId, setSelectedId] = useState<BreathingPatternId>(patternId);
+  const [minutes, setMinutes] = useState(DURATION_OPTIONS[1]);
+  const [spokenCues, setSpokenCues] = useState(false);
+  const [cueError, setCueError] = useState<string | null>(null);
+  const [calmBefore, setCalmBefore] = useState(DEFAULT_CALM);
+  const [calmAfter, setCalmAfter] = useState(DEFAULT_CALM);
+  const [elapsed, setElapsed] = useState(0);
+  const [isPaused, setIsPaused] = useState(false);
+  const [result, setResult] = useState<BreathingExerciseRecord | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startedAtRef = useRef<string>('');
+  // Seconds completed before the current run, so pausing doesn't lose time
+  const elapsedBeforeRef = useRef(0);
+  const runStartRef = useRef(0);
+  const lastPhaseRef = useRef<string | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const cueBuffersRef = useRef<Partial<Record<BreathingPhaseKind, AudioBuffer>>>({});
+
+  const pattern = BREATHING_PATTERNS[selectedId];
+  const cycles = getCycleCount(pattern, minutes);
+  const totalSeconds = cycles * getCycleSeconds(pattern);
+  const pacer = getPacerState(pattern, Math.min(elapsed, totalSeconds - 0.001));
+
+  useEffect(() => {
+    if (!open) return;
+
+    setStage('setup');
+    setSelectedId(patternId);
+    setCalmBefore(DEFAULT_CALM);
+    setCalmAfter(DEFAULT_CALM);
+    setElapsed(0);
+    setIsPaused(false);
+    setResult(null);
+    setCueError(null);
+  }, [open, patternId]);
+
+  // Close any audio when the dialog goes away
+  useEffect(() => {
+    if (open) return;
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+    cueBuffersRef.current = {};
+  }, [open]);
+
+  useEffect(() => {
+    if (stage !== 'running' || isPaused) return;
+
+    runStartRef.current = performance.now();
+    let frame = 0;
+    const tick = () => {
+      const next = elapsedBeforeRef.current + (performance.now() - runStartRef.current) / 1000;
+      setElapsed(next);
+      if (next >= totalSeconds) {
+        setStage('rating');
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      elapsedBeforeRef.current += (performance.now() - runStartRef.current) / 1000;
+    };
+  }, [stage, isPaused, totalSeconds]);
+
+  // Speak the cue at the start of every phase
+  useEffect(() => {
+    if (stage !== 'running') return;
+    const key = `${pacer.cycle}:${pacer.phaseIndex}`;
+    if (lastPhaseRef.current === key) return;
+    lastPhaseRef.current = key;
+
+    const context = audioContextRef.current;
+    const buffer = cueBuffersRef.current[pacer.phase.kind];
+    if (!spokenCues || isPaused || !context || !buffer) return;
+
+    const sourceNode = context.createBufferSource();
+    sourceNode.buffer = buffer;
+    sourceNode.connect(context.destination);
+    sourceNode.start(0);
+  }, [stage, pacer.cycle, pacer.phaseIndex, pacer.phase.kind, spokenCues, isPaused]);
+
+  // Cues are generated once per exercise so each phase can start on time
+  const prepareCues = async () => {
+    const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+    const context = new AudioContextClass();
+    audioContextRef.current = context;
+
+    const kinds = [...new Set(pattern.phases.map(phase => phase.kind))];
+    const buffers = await Promise.all(kinds.map(async kind =>
+      [kind, await context.decodeAudioData(await generateSpeech(PHASE_CUES[kind]))] as const
+    ));
+    cueBuffersRef.current = Object.fromEntries(buffers);
+  };
+
+  const handleStart = async () => {
+    if (spokenCues) {
+      try {
+        await prepareCues();
+      } catch (error) {
+        console.error('Error preparing spoken cues:', error);
+        setCueError('Spoken cues are unavailable right now, so follow the circle instead.');
+      }
+    }
+
+    startedAtRef.current = new Date().toISOString();
+    elapsedBeforeRef.current = 0;
+    lastPhaseRef.current = null;
+    setElapsed(0);
+    setIsPaused(false);
+    setStage('running');
+  };
+
+  const handleSave = async (withRating: boolean) => {
+    setIsSaving(true);
+    const completedSeconds = Math.min(elapsed, totalSeconds);
+    const saved = await saveBreathingExercise({
+      patternId: selectedId,
+      source,
+      durationSeconds: Math.round(completedSeconds),
+      cycles: Math.floor(completedSeconds / getCycleSeconds(pattern)),
+      calmBefore,
+      calmAfter: withRating ? calmAfter : undefined,
+      startedAt: startedAtRef.current
+    });
+    setIsSaving(false);
+
+    if (saved) {
+      onComplete?.(saved);
+    }
+    setResult(saved);
+    setStage('done');
+  };
+
+  const renderSetup = () => (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        {BREATHING_PATTERN_IDS.map(id => {
+          const { name, description } = BREATHING_PATTERNS[id];
+          return (
+            <button
+              key={id}
+              type="button"
+              onClick={() => setSelectedId(id)}
+              className={`w-full text-left p-4 rounded-xl border transition-colors ${
+                selectedId === id
+                  ? 'border-indigo-400 bg-indigo-50/70'
+                  : 'border-slate-200 hover:border-indigo-300 hover:bg-indigo-50/50'
+              }`}
+            >
+              <p className="font-medium text-slate-900">{name}</p>
+              <p className="text-sm text-slate-500">{description}</p>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex gap-2">
+          {DURATION_OPTIONS.map(option => (
+            <Button
+              key={option}
+              size="sm"
+              variant={minutes === option ? 'default' : 'outline'}
+              onClick={() => setMinutes(option)}
+            >
+              {option} min
+            </Button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          <Switch
+            checked={spokenCues}
+            onCheckedChange={setSpokenCues}
+            disabled={!isSpeechConfigured()}
+          />
+          <Volume2 className="w-4 h-4" />
+          Spoken cues
+        </label>
+      </div>
+
+      <CalmRating label="How calm do you feel right now?" value={calmBefore} onChange={setCalmBefore} />
+    </div>
+  );
+
+  const renderPacer = () => (
+    <div className="flex flex-col items-center gap-6 py-4">
+      <div className="relative w-56 h-56 flex items-center justify-center">
+        <div className="absolute inset-0 rounded-full border-2 border-indigo-100" />
+        <motion.div
+          className="absolute rounded-full bg-gradient-to-br from-indigo-400 to-sky-300 shadow-lg"
+          style={{
+            width: '100%',
+            height: '100%',
+            scale: 0.35 + pacer.fill * 0.65
+          }}
+        />
+        <div className="relative text-center text-white drop-shadow">
+          <p className="text-xl font-semibold">{PHASE_CUES[pacer.phase.kind]}</p>
+          <p className="text-3xl font-bold">{pacer.secondsLeft}</p>
+        </div>
+      </div>
+      <div className="text-center space-y-1">
+        <p className="text-sm text-slate-600">Breath {Math.min(pacer.cycle + 1, cycles)} of {cycles}</p>
+        <p className="text-xs text-slate-500">{formatClock(totalSeconds - elapsed)} left</p>
+      </div>
+      {cueError && <p className="text-sm text-slate-500 text-center">{cueError}</p>}
+    </div>
+  );
+
+  const renderResult = () => {
+    const change = result?.calmAfter !== undefined ? result.calmAfter - result.calmBefore : null;
+    return (
+      <div className="space-y-3 text-center py-4">
+        <p className="text-lg font-semibold text-slate-900">
+          {formatClock(result?.durationSeconds ?? 0)} of {pattern.name.toLowerCase()}
+        </p>
+        {change !== null && (
+          <p className="text-sm text-slate-600">
+            {change > 0
+              ? `Your calm went from ${result?.calmBefore} to ${result?.calmAfter}.`
+              : change === 0
+                ? 'Your calm stayed the same. Some days it takes a few rounds to notice a difference.'
+                : "You're feeling less calm than before. It might help to tell Dr. Sky what's on your mind."}
+          </p>
+        )}
+        {!result && <p className="text-sm text-therapy-accent-error">This exercise couldn't be saved.</p>}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wind className="w-5 h-5 text-indigo-600" />
+            {stage === 'setup' ? 'Guided Breathing' : pattern.name}
+          </DialogTitle>
+          <DialogDescription>
+            {stage === 'setup' && 'Choose a pattern and follow the circle as it grows and shrinks.'}
+            {stage === 'running' && 'Breathe in as the circle grows and out as it shrinks.'}
+            {stage === 'rating' && 'Take a moment to notice how you feel.'}
+            {stage === 'done' && 'Nice work taking this time for yourself.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {stage === 'setup' && renderSetup()}
+        {stage === 'running' && renderPacer()}
+        {stage === 'rating' && (
+          <CalmRating label="How calm do you feel now?" value={calmAfter} onChange={setCalmAfter} />
+        )}
+        {stage === 'done' && renderResult()}
+
+        <DialogFooter className="gap-2">
+          {stage === 'setup' && (
+            <>
+              <Button variant="outline" onClick={onClose}>Not Now</Button>
+              <Button onClick={handleStart}>Start</Button>
+            </>
+          )}
+          {stage === 'running' && (
+            <>
+              <Button variant="ghost" onClick={() => setStage('rating')} className="mr-auto">
+                <Square className="w-4 h-4 mr-1.5" />
+                Finish Early
+              </Button>
+              <Button variant="outline" onClick={() => setIsPaused(!isPaused)}>
+                {isPaused ? <Play className="w-4 h-4 mr-1.5" /> : <Pause className="w-4 h-4 mr-1.5" />}
+                {isPaused ? 'Resume' : 'Pause'}
+              </Button>
+            </>
+          )}
+          {stage === 'rating' && (
+            <>
+              <Button variant="ghost" onClick={() => handleSave(false)} disabled={isSaving}>Skip</Button>
+              <Button onClick={() => handleSave(true)} disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save'}
+              </Button>
+            </>
+          )}
+          {stage === 'done' && <Button onClick={onClose}>Done</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BreathingExercise;
@@ -1,4 +1,5 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Card,
   CardContent,
@@ -9,6 +10,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
 import {
   Brain,
   Sparkles,
@@ -22,61 +24,37 @@ import {
   ExternalLink,
   Clock,
   Star,
-  User
+  User,
+  CheckCircle2,
+  ListChecks,
+  X
 } from "lucide-react";
-import type { ContentCategory } from '@/utils/contentRecommender';
+import type { ContentCategory, ContentItem, ContentRecommendation } from '@/utils/contentRecommender';
+import { CATEGORY_METADATA, getCatalogItem, getYouTubeVideoId, isVerifiedUrl } from '@/utils/contentCatalog';
+import { ContentFeedbackEvent, loadContentFeedback, recordContentFeedback } from '@/utils/contentFeedback';
+import { RoutineTime, saveRoutineFromSuggestion } from '@/utils/routines';
 import YouTubePlayer from './YouTubePlayer';
-import { searchYouTube, getRelevantYouTubeQuery } from '@/utils/youtubeSearch';
+import BreathingExercise from './BreathingExercise';
 
-interface ContentItem {
-  title: string;
-  url: string;
-  description: string;
-  category: ContentCategory;
-  duration?: string;
-  difficulty?: 'beginner' | 'intermediate' | 'advanced';
-  tags?: string[];
-  benefits?: string[];
-  practitioner?: string;
-  iconType?: 'Brain' | 'Sparkles' | 'BookOpen' | 'Rocket' | 'Wind' | 'Heart' | 'Activity' | 'Moon';
-  themeColor?: {
-    bg: string;
-    text: string;
-    border: string;
-  };
+// The latest reaction to each item, for showing what the user already did
+interface ItemFeedback {
+  completed?: boolean;
+  skipped?: boolean;
+  rating?: number;
 }
 
-type RoutineTime = 'morning' | 'afternoon' | 'evening';
+const RATINGS = [1, 2, 3, 4, 5];
+
+const toItemFeedback = (event: ContentFeedbackEvent, rating?: number): ItemFeedback => {
+  if (event === 'completed') return { completed: true, skipped: false };
+  if (event === 'skipped') return { skipped: true };
+  if (event === 'rated') return { rating };
+  return {};
+};
 
 interface ContentRecommendationsProps {
-  recommendations: {
-    meditation: ContentItem[];
-    relaxation: ContentItem[];
-    educational: ContentItem[];
-    motivation: ContentItem[];
-    breathing: ContentItem[];
-    mindfulness: ContentItem[];
-    exercise: ContentItem[];
-    sleep: ContentItem[];
-    reason: string;
-    userMood: string;
-    focusAreas: string[];
-    suggestedRoutine?: {
-      [K in RoutineTime]: ContentItem[];
-    };
-    categories: {
-      [key in ContentCategory]: {
-        title: string;
-        description: string;
-        icon: string;
-        themeColor: {
-          bg: string;
-          text: string;
-          border: string;
-        };
-      };
-    };
-  };
+  recommendations: Pick<ContentRecommendation, ContentCategory | 'reason'>
+    & Partial<Pick<ContentRecommendation, 'focusAreas' | 'suggestedRoutine'>>;
 }
 
 const iconComponents = {
@@ -100,9 +78,7 @@ const defaultRecommendations: ContentRecommendationsProps['recommendations'] = {
   exercise: [],
   sleep: [],
   reason: '',
-  userMood: '',
   focusAreas: [],
-  categories: {} as ContentRecommendationsProps['recommendations']['categories'],
   suggestedRoutine: {
     morning: [],
     afternoon: [],
@@ -115,55 +91,86 @@ const ContentRecommendations: React.FC<ContentRecommendationsProps> = ({
 }) => {
   const [activeTab, setActiveTab] = useState<ContentCategory>('meditation');
   const [activeVideo, setActiveVideo] = React.useState<string | null>(null);
+  const [feedback, setFeedback] = useState<Record<string, ItemFeedback>>({});
+  const [isSavingRoutine, setIsSavingRoutine] = useState(false);
+  const [showBreathing, setShowBreathing] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const categories = CATEGORY_METADATA;
+
+  useEffect(() => {
+    loadContentFeedback().then(records => {
+      const latest: Record<string, ItemFeedback> = {};
+      records.forEach(record => {
+        latest[record.itemId] = { ...latest[record.itemId], ...toItemFeedback(record.event, record.rating) };
+      });
+      setFeedback(latest);
+    });
+  }, []);
+
+  const handleFeedback = async (item: ContentItem, event: ContentFeedbackEvent, rating?: number) => {
+    const catalogItem = item.id ? getCatalogItem(item.id) : undefined;
+    if (!catalogItem) return;
+
+    const record = await recordContentFeedback(catalogItem, event, rating);
+    if (record) {
+      setFeedback(prev => ({ ...prev, [catalogItem.id]: { ...prev[catalogItem.id], ...toItemFeedback(event, rating) } }));
+    }
+  };
 
   const openInNewTab = (url: string) => {
     window.open(url, '_blank', 'noopener,noreferrer');
   };
 
-  const handleOpenLink = (item: ContentItem, category: ContentCategory) => {
-    const videoId = getVideoId(item.url);
+  const handleOpen = (item: ContentItem) => {
+    const videoId = getYouTubeVideoId(item.url);
     if (videoId) {
       setActiveVideo(videoId);
     } else {
-      const searchQuery = getRelevantYouTubeQuery(category, item.title);
-      const searchUrl = searchYouTube(searchQuery);
-      openInNewTab(searchUrl);
+      openInNewTab(item.url);
     }
+    handleFeedback(item, 'opened');
   };
 
-  const getVideoId = (url: string): string | null => {
-    if (!url) return null;
-    
+  // Only catalog links that pass verification are ever shown
+  const verifiedItems = (items: ContentItem[] | undefined) =>
+    Array.isArray(items) ? items.filter(item => isVerifiedUrl(item.url)) : [];
+
+  const itemsFor = (category: ContentCategory) => verifiedItems(recommendations?.[category]);
+
+  const totalRecommendations = (Object.keys(categories) as ContentCategory[])
+    .reduce((sum, category) => sum + itemsFor(category).length, 0);
+
+  const routine = recommendations?.suggestedRoutine && {
+    morning: verifiedItems(recommendations.suggestedRoutine.morning),
+    afternoon: verifiedItems(recommendations.suggestedRoutine.afternoon),
+    evening: verifiedItems(recommendations.suggestedRoutine.evening)
+  };
+
+  const handleSaveRoutine = async () => {
+    if (!routine) return;
+    setIsSavingRoutine(true);
     try {
-      if (url.includes('youtube.com/watch')) {
-        const urlParams = new URLSearchParams(url.split('?')[1]);
-        return urlParams.get('v');
-      }
-      
-      if (url.includes('youtu.be/')) {
-        return url.split('youtu.be/')[1]?.split('?')[0];
-      }
-      
-      if (url.includes('youtube.com/embed/')) {
-        return url.split('youtube.com/embed/')[1]?.split('?')[0];
-      }
+      await saveRoutineFromSuggestion(routine);
+      navigate('/routine');
     } catch (error) {
-      console.error('Error parsing YouTube URL:', error);
+      console.error('Error saving routine:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to save your routine. Please try again.",
+      });
+    } finally {
+      setIsSavingRoutine(false);
     }
-    return null;
   };
 
-  // Safely check if recommendations exist and have content
-  const hasRecommendations = recommendations && Object.keys(recommendations).length > 0;
-  const hasCategories = recommendations?.categories && Object.keys(recommendations.categories).length > 0;
-
-  const totalRecommendations = hasRecommendations ? 
-    Object.entries(recommendations)
-      .filter(([key]) => key !== 'categories' && key !== 'reason' && key !== 'userMood' && key !== 'focusAreas' && key !== 'suggestedRoutine')
-      .reduce((sum, [_, items]) => (Array.isArray(items) ? sum + items.length : sum), 0)
-    : 0;
+  const selectedTab = itemsFor(activeTab).length > 0
+    ? activeTab
+    : (Object.keys(categories) as ContentCategory[]).find(category => itemsFor(category).length > 0) || activeTab;
 
-  if (!hasRecommendations || !hasCategories || totalRecommendations === 0) {
+  if (totalRecommendations === 0) {
     return (
       <Card className="overflow-hidden bg-white hover:shadow-md transition-shadow duration-300">
         <CardHeader className="space-y-1 sm:space-y-2 bg-gradient-to-r from-indigo-50 to-white border-b border-indigo-100">
@@ -196,7 +203,7 @@ const ContentRecommendations: React.FC<ContentRecommendationsProps> = ({
           <CardDescription className="text-sm sm:text-base text-indigo-600/80">
             {recommendations.reason || 'Curated content to support your therapy journey'}
           </CardDescription>
-          {recommendations.focusAreas?.length > 0 && (
+          {recommendations.focusAreas && recommendations.focusAreas.length > 0 && (
             <div className="flex flex-wrap gap-2 mt-2">
               {recommendations.focusAreas.map((area, index) => (
                 <Badge 
@@ -211,11 +218,23 @@ const ContentRecommendations: React.FC<ContentRecommendationsProps> = ({
         </CardHeader>
         <CardContent className="p-6">
           {/* Daily Routine Section */}
-          {recommendations.suggestedRoutine && Object.entries(recommendations.suggestedRoutine).some(([_, items]) => items.length > 0) && (
+          {routine && Object.values(routine).some(items => items.length > 0) && (
             <div className="mb-8">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4">Suggested Daily Routine</h3>
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Suggested Daily Routine</h3>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleSaveRoutine}
+                  disabled={isSavingRoutine}
+                  className="text-indigo-600 hover:text-indigo-700 hover:bg-indigo-50"
+                >
+                  <ListChecks className="w-4 h-4 mr-2" />
+                  Make this my routine
+                </Button>
+              </div>
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                {(Object.entries(recommendations.suggestedRoutine) as [RoutineTime, ContentItem[]][]).map(([time, items]) => (
+                {(Object.entries(routine) as [RoutineTime, ContentItem[]][]).map(([time, items]) => (
                   items.length > 0 && (
                     <div 
                       key={time}
@@ -259,56 +278,54 @@ const ContentRecommendations: React.FC<ContentRecommendationsProps> = ({
           )}
 
           {/* Categories Grid */}
-          {hasCategories && (
-            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-8">
-              {Object.entries(recommendations.categories).map(([category, metadata]) => {
-                const hasContent = recommendations[category as ContentCategory]?.length > 0;
-                const Icon = iconComponents[metadata.icon as keyof typeof iconComponents];
-                
-                if (!Icon) return null;
-                
-                return (
-                  <div 
-                    key={category}
-                    className={`${metadata.themeColor.bg} p-4 rounded-xl border ${metadata.themeColor.border} 
-                      text-center ${!hasContent ? 'opacity-50' : ''} transition-all duration-300 
-                      hover:shadow-md cursor-pointer`}
-                    onClick={() => hasContent && setActiveTab(category as ContentCategory)}
-                  >
-                    <div className={`w-10 h-10 rounded-full bg-white/80 flex items-center 
-                      justify-center mx-auto`}>
-                      <Icon className={`w-5 h-5 ${metadata.themeColor.text}`} />
-                    </div>
-                    <h5 className={`${metadata.themeColor.text} font-medium mt-2`}>
-                      {metadata.title}
-                    </h5>
-                    <p className={`text-sm ${metadata.themeColor.text}/80 mt-1`}>
-                      {metadata.description}
-                    </p>
-                    {hasContent && (
-                      <Badge 
-                        className={`mt-2 ${metadata.themeColor.bg} ${metadata.themeColor.text} 
-                          ${metadata.themeColor.border}`}
-                      >
-                        {recommendations[category as ContentCategory].length} items
-                      </Badge>
-                    )}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-8">
+            {Object.entries(categories).map(([category, metadata]) => {
+              const hasContent = itemsFor(category as ContentCategory).length > 0;
+              const Icon = iconComponents[metadata.icon as keyof typeof iconComponents];
+              
+              if (!Icon) return null;
+              
+              return (
+                <div 
+                  key={category}
+                  className={`${metadata.themeColor.bg} p-4 rounded-xl border ${metadata.themeColor.border} 
+                    text-center ${!hasContent ? 'opacity-50' : ''} transition-all duration-300 
+                    hover:shadow-md cursor-pointer`}
+                  onClick={() => hasContent && setActiveTab(category as ContentCategory)}
+                >
+                  <div className={`w-10 h-10 rounded-full bg-white/80 flex items-center 
+                    justify-center mx-auto`}>
+                    <Icon className={`w-5 h-5 ${metadata.themeColor.text}`} />
                   </div>
-                );
-              })}
-            </div>
-          )}
+                  <h5 className={`${metadata.themeColor.text} font-medium mt-2`}>
+                    {metadata.title}
+                  </h5>
+                  <p className={`text-sm ${metadata.themeColor.text}/80 mt-1`}>
+                    {metadata.description}
+                  </p>
+                  {hasContent && (
+                    <Badge 
+                      className={`mt-2 ${metadata.themeColor.bg} ${metadata.themeColor.text} 
+                        ${metadata.themeColor.border}`}
+                    >
+                      {itemsFor(category as ContentCategory).length} items
+                    </Badge>
+                  )}
+                </div>
+              );
+            })}
+          </div>
 
           {/* Content Tabs */}
           <Tabs 
-            value={activeTab} 
+            value={selectedTab} 
             onValueChange={(value) => setActiveTab(value as ContentCategory)}
             className="mt-6"
           >
             <TabsList className="grid grid-cols-4 lg:grid-cols-8 mb-4">
-              {Object.entries(recommendations.categories).map(([category, metadata]) => {
+              {Object.entries(categories).map(([category, metadata]) => {
                 const Icon = iconComponents[metadata.icon as keyof typeof iconComponents];
-                const hasContent = recommendations[category as ContentCategory]?.length > 0;
+                const hasContent = itemsFor(category as ContentCategory).length > 0;
                 
                 if (!Icon) return null;
                 
@@ -326,18 +343,35 @@ const ContentRecommendations: React.FC<ContentRecommendationsProps> = ({
               })}
             </TabsList>
 
-            {Object.entries(recommendations.categories).map(([category, metadata]) => {
-              const items = recommendations[category as ContentCategory];
-              if (!Array.isArray(items) || items.length === 0) return null;
+            {Object.entries(categories).map(([category, metadata]) => {
+              const items = itemsFor(category as ContentCategory);
+              if (items.length === 0) return null;
               
               return (
                 <TabsContent key={category} value={category}>
                   <div className="space-y-4">
-                    {items.map((item, index) => (
+                    {category === 'breathing' && (
+                      <div className={`flex flex-wrap items-center justify-between gap-2 p-4 rounded-lg border ${metadata.themeColor.border}`}>
+                        <p className="text-sm text-gray-600">Or practice right here with a paced guide.</p>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setShowBreathing(true)}
+                          className={metadata.themeColor.text}
+                        >
+                          <Wind className="w-4 h-4 mr-2" />
+                          Start Guided Breathing
+                        </Button>
+                      </div>
+                    )}
+                    {items.map((item, index) => {
+                      const itemFeedback = (item.id && feedback[item.id]) || {};
+                      return (
                       <div
                         key={index}
                         className={`${metadata.themeColor.bg} p-4 rounded-lg hover:shadow-md 
-                          transition-all duration-300 border ${metadata.themeColor.border}`}
+                          transition-all duration-300 border ${metadata.themeColor.border}
+                          ${itemFeedback.skipped ? 'opacity-60' : ''}`}
                       >
                         <div className="flex justify-between items-start">
                           <div className="flex-1">
@@ -345,6 +379,9 @@ const ContentRecommendations: React.FC<ContentRecommendationsProps> = ({
                               {item.title}
                             </h4>
                             <p className="text-sm text-gray-600 mt-1">{item.description}</p>
+                            {item.reason && (
+                              <p className={`text-sm italic mt-1 ${metadata.themeColor.text}`}>{item.reason}</p>
+                            )}
                             
                             {/* Additional Content Details */}
                             <div className="flex flex-wrap gap-3 mt-3">
@@ -394,11 +431,11 @@ const ContentRecommendations: React.FC<ContentRecommendationsProps> = ({
                           </div>
                           
                           <div className="flex flex-col gap-2">
-                          {getVideoId(item.url) ? (
+                          {getYouTubeVideoId(item.url) ? (
                             <Button
                               variant="ghost"
                               size="sm"
-                              onClick={() => setActiveVideo(getVideoId(item.url))}
+                              onClick={() => handleOpen(item)}
                                 className={`flex items-center gap-2 ${metadata.themeColor.text}`}
                             >
                               <Play className="h-4 w-4" />
@@ -408,17 +445,62 @@ const ContentRecommendations: React.FC<ContentRecommendationsProps> = ({
                             <Button
                               variant="ghost"
                               size="sm"
-                              onClick={() => handleOpenLink(item, category as ContentCategory)}
+                              onClick={() => handleOpen(item)}
                                 className={`flex items-center gap-2 ${metadata.themeColor.text}`}
                             >
                               <ExternalLink className="h-4 w-4" />
-                              Find Videos
+                              Open
                             </Button>
                           )}
                           </div>
                         </div>
+
+                        {/* Feedback */}
+                        {item.id && getCatalogItem(item.id) && (
+                          <div className="flex flex-wrap items-center gap-3 mt-3 pt-3 border-t border-gray-200/60">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={itemFeedback.completed}
+                              onClick={() => handleFeedback(item, 'completed')}
+                              className={`flex items-center gap-1 h-7 px-2 ${metadata.themeColor.text}`}
+                            >
+                              <CheckCircle2 className="h-4 w-4" />
+                              {itemFeedback.completed ? 'Done' : 'Mark done'}
+                            </Button>
+                            <div className="flex items-center" aria-label="Rate this">
+                              {RATINGS.map(rating => (
+                                <button
+                                  key={rating}
+                                  type="button"
+                                  aria-label={`${rating} star${rating === 1 ? '' : 's'}`}
+                                  onClick={() => handleFeedback(item, 'rated', rating)}
+                                  className="p-0.5"
+                                >
+                                  <Star
+                                    className={`w-4 h-4 ${(itemFeedback.rating || 0) >= rating
+                                      ? 'fill-amber-400 text-amber-400'
+                                      : 'text-gray-300'}`}
+                                  />
+                                </button>
+                              ))}
+                            </div>
+                            {!itemFeedback.skipped && !itemFeedback.completed && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleFeedback(item, 'skipped')}
+                                className="flex items-center gap-1 h-7 px-2 text-gray-500"
+                              >
+                                <X className="h-4 w-4" />
+                                Not for me
+                              </Button>
+                            )}
+                          </div>
+                        )}
                       </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 </TabsContent>
               );
@@ -432,6 +514,8 @@ const ContentRecommendations: React.FC<ContentRecommendationsProps> = ({
         isOpen={!!activeVideo}
         onClose={() => setActiveVideo(null)}
       />
+
+      <BreathingExercise open={showBreathing} onClose={() => setShowBreathing(false)} />
     </>
   );
 };
@@ -1,5 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { getCopingStrategies } from '@/utils/gemini';
+import { recordCopingCompletion } from '@/utils/copingCompletions';
+import BreathingExercise from './BreathingExercise';
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -25,9 +27,14 @@ interface Strategy {
   category: string;
 }
 
+// Strategies the guided breathing player can walk the client through
+const isBreathingStrategy = (strategy: Strategy) =>
+  /breath/i.test(`${strategy.title} ${strategy.description}`);
+
 interface CopingStrategiesProps {
   currentEmotion: string;
   intensity: number;
+  confidence?: number;
   sessionData: any[];
   messages: { text: string; isUser: boolean }[];
 }
@@ -35,6 +42,7 @@ interface CopingStrategiesProps {
 const CopingStrategies: React.FC<CopingStrategiesProps> = ({
   currentEmotion,
   intensity,
+  confidence,
   messages
 }) => {
   const [strategies, setStrategies] = useState<Strategy[]>([]);
@@ -49,7 +57,8 @@ const CopingStrategies: React.FC<CopingStrategiesProps> = ({
         const newStrategies = await getCopingStrategies(
           currentEmotion,
           intensity,
-          recentMessages
+          recentMessages,
+          confidence
         );
         setStrategies(newStrategies);
       } catch (error) {
@@ -62,7 +71,7 @@ const CopingStrategies: React.FC<CopingStrategiesProps> = ({
     if (currentEmotion && messages.length > 0) {
       fetchStrategies();
     }
-  }, [currentEmotion, intensity, messages]);
+  }, [currentEmotion, intensity, confidence, messages]);
 
   const getCategoryIcon = (category: string) => {
     switch (category.toLowerCase()) {
@@ -81,16 +90,24 @@ const CopingStrategies: React.FC<CopingStrategiesProps> = ({
 
   const [activeStrategy, setActiveStrategy] = useState<number | null>(null);
   const [progress, setProgress] = useState<Record<number, number>>({});
+  const [breathingStrategy, setBreathingStrategy] = useState<number | null>(null);
 
   const handleStrategyClick = (index: number) => {
     setActiveStrategy(activeStrategy === index ? null : index);
   };
 
   const handleStepComplete = (strategyIndex: number, totalSteps: number) => {
+    const stepsDone = Math.round(((progress[strategyIndex] || 0) / 100) * totalSteps);
+    if (stepsDone >= totalSteps) return;
+
     setProgress(prev => ({
       ...prev,
-      [strategyIndex]: Math.min(((prev[strategyIndex] || 0) + 1) * (100 / totalSteps), 100)
+      [strategyIndex]: ((stepsDone + 1) / totalSteps) * 100
     }));
+
+    if (stepsDone + 1 === totalSteps) {
+      recordCopingCompletion(strategies[strategyIndex]);
+    }
   };
 
   if (loading) {
@@ -177,9 +194,16 @@ const CopingStrategies: React.FC<CopingStrategiesProps> = ({
                       <Button variant="ghost" size="icon" className="ml-auto">
                         <Bookmark className="h-4 w-4" />
                       </Button>
-                      <Button variant="ghost" size="icon">
-                        <PlayCircle className="h-4 w-4" />
-                      </Button>
+                      {isBreathingStrategy(strategy) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label="Start guided breathing"
+                          onClick={() => setBreathingStrategy(index)}
+                        >
+                          <PlayCircle className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
 
                     {activeStrategy === index && (
@@ -213,6 +237,12 @@ const CopingStrategies: React.FC<CopingStrategiesProps> = ({
           })}
         </div>
       </ScrollArea>
+
+      <BreathingExercise
+        open={breathingStrategy !== null}
+        onClose={() => setBreathingStrategy(null)}
+        onComplete={() => breathingStrategy !== null && recordCopingCompletion(strategies[breathingStrategy])}
+      />
     </Card>
   );
 };
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Phone, MessageSquare, ExternalLink, HeartHandshake, ShieldAlert, Wind } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CRISIS_REGIONS, getCrisisRegion, getCrisisResources, saveCrisisRegion } from '@/utils/crisisResources';
+import type { RiskAssessment } from '@/utils/riskClassifier';
+
+interface CrisisPanelProps {
+  assessment: RiskAssessment | null;
+  onClose: () => void;
+  // Opens a guided breathing exercise; the panel is shown again afterwards
+  onStartBreathing?: () => void;
+}
+
+const CrisisPanel: React.FC<CrisisPanelProps> = ({ assessment, onClose, onStartBreathing }) => {
+  const [region, setRegion] = useState(getCrisisRegion);
+  const crisisResources = assessment ? getCrisisResources(assessment.categories, region) : null;
+  const isImminent = assessment?.level === 'imminent';
+
+  return (
+    <AnimatePresence>
+      {assessment && crisisResources && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/40 backdrop-blur-sm z-[200] flex items-center justify-center p-4"
+          role="alertdialog"
+          aria-modal="true"
+          aria-labelledby="crisis-panel-title"
+        >
+          <motion.div
+            initial={{ scale: 0.95, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.95, opacity: 0 }}
+            className="w-full max-w-lg bg-white rounded-3xl shadow-2xl border border-rose-100 overflow-hidden"
+          >
+            <div className="flex items-center gap-3 p-6 border-b border-rose-100 bg-rose-50/60">
+              <div className="p-2.5 bg-rose-100 rounded-xl">
+                <HeartHandshake className="w-5 h-5 text-rose-600" />
+              </div>
+              <div>
+                <h2 id="crisis-panel-title" className="text-xl font-semibold text-slate-900">
+                  You don't have to go through this alone
+                </h2>
+                <p className="text-sm text-slate-600">
+                  What you shared matters. Trained people are available to talk right now.
+                </p>
+              </div>
+            </div>
+
+            <div className="p-6 space-y-4">
+              {isImminent && (
+                <div className="flex items-start gap-3 p-4 rounded-2xl bg-rose-600 text-white">
+                  <ShieldAlert className="w-5 h-5 mt-0.5 shrink-0" />
+                  <p className="text-sm font-medium">
+                    If you are in immediate danger, please call {crisisResources.emergencyNumber} now
+                    or go to your nearest emergency department.
+                  </p>
+                </div>
+              )}
+
+              <ul className="space-y-3">
+                {crisisResources.resources.map(resource => (
+                  <li
+                    key={resource.name}
+                    className="p-4 rounded-2xl border border-slate-100 bg-slate-50/60"
+                  >
+                    <p className="font-medium text-slate-900">{resource.name}</p>
+                    <p className="text-sm text-slate-600 mb-3">{resource.description}</p>
+                    <div className="flex flex-wrap gap-2">
+                      {resource.phone && (
+                        <Button asChild size="sm" className="bg-rose-600 hover:bg-rose-700 text-white">
+                          <a href={`tel:${resource.phone.replace(/\s/g, '')}`}>
+                            <Phone className="w-4 h-4 mr-1.5" />
+                            Call {resource.phone}
+                          </a>
+                        </Button>
+                      )}
+                      {resource.text && (
+                        <Button asChild size="sm" variant="outline">
+                          <a href={`sms:${resource.text}`}>
+                            <MessageSquare className="w-4 h-4 mr-1.5" />
+                            Text {resource.text}
+                          </a>
+                        </Button>
+                      )}
+                      {resource.url && (
+                        <Button asChild size="sm" variant="ghost">
+                          <a href={resource.url} target="_blank" rel="noopener noreferrer">
+                            <ExternalLink className="w-4 h-4 mr-1.5" />
+                            Website
+                          </a>
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+                <p>Dr. Sky is an AI companion and cannot provide emergency help.</p>
+                <label htmlFor="crisis-region">Showing resources for</label>
+                <Select
+                  value={region}
+                  onValueChange={(value) => {
+                    saveCrisisRegion(value);
+                    setRegion(value);
+                  }}
+                >
+                  <SelectTrigger id="crisis-region" className="h-8 w-auto gap-1 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  {/* Above the panel's own overlay */}
+                  <SelectContent className="z-[210]">
+                    {CRISIS_REGIONS.map(({ code, name }) => (
+                      <SelectItem key={code} value={code}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="p-6 pt-0 space-y-2">
+              {onStartBreathing && (
+                <Button variant="ghost" className="w-full" onClick={onStartBreathing}>
+                  <Wind className="w-4 h-4 mr-1.5" />
+                  Slow my breathing down first
+                </Button>
+              )}
+              <Button variant="outline" className="w-full" onClick={onClose}>
+                I'm safe right now, continue the session
+              </Button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default CrisisPanel;
@@ -3,6 +3,7 @@ import { Card } from "@/components/ui/card";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import './EmotionalDashboard.css';
 import CopingStrategies from './CopingStrategies';
+import { POSITIVE_EMOTIONS } from '@/utils/emotionAnalysis';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ChevronLeft, ChevronRight, PieChart, Info, Activity, BarChart } from 'lucide-react';
 
@@ -10,6 +11,11 @@ interface EmotionData {
   timestamp: string;
   emotion: string;
   intensity: number;
+  confidence?: number;
+  valence?: number; // -1 to 1, from facial expression
+  arousal?: number;
+  source?: 'fused' | 'face';
+  incongruence?: string;
   trigger?: string;
   recommendation?: string;
 }
@@ -29,7 +35,7 @@ const EmotionalDashboard: React.FC<EmotionalDashboardProps> = ({
   sessionData,
   messages 
 }) => {
-  const [wellbeingScore, setWellbeingScore] = useState(50);
+  const [positiveShare, setPositiveShare] = useState(50);
   const [insights, setInsights] = useState<Insight[]>([]);
   const [currentEmotion, setCurrentEmotion] = useState<EmotionData | null>(null);
   const [visible, setVisible] = useState(false);
@@ -49,15 +55,22 @@ const EmotionalDashboard: React.FC<EmotionalDashboardProps> = ({
 
   useEffect(() => {
     analyzeEmotionalPatterns(sessionData);
-    // Update current emotion when session data changes
-    if (sessionData.length > 0) {
-      setCurrentEmotion(sessionData[sessionData.length - 1]);
+    // Coping strategies follow what the client says; face samples arrive every second
+    const latestSpoken = [...sessionData].reverse().find(entry => entry.source !== 'face');
+    if (latestSpoken) {
+      setCurrentEmotion(latestSpoken);
     }
   }, [sessionData]);
 
+  // Facial valence on the same 0-100 scale as intensity
+  const chartData = sessionData.map(entry => ({
+    ...entry,
+    mood: entry.valence !== undefined ? Math.round((entry.valence + 1) * 50) : undefined
+  }));
+
   const analyzeEmotionalPatterns = (data: EmotionData[]) => {
     if (!Array.isArray(data) || data.length === 0) {
-      setWellbeingScore(50);
+      setPositiveShare(50);
       setInsights([
         {
           pattern: "Getting Started",
@@ -89,13 +102,12 @@ const EmotionalDashboard: React.FC<EmotionalDashboardProps> = ({
       .slice(0, 2)
       .map(([emotion]) => emotion);
 
-    // Calculate wellbeing score
-    const positiveEmotions = ['joy', 'gratitude', 'hope', 'love'];
-    const positiveCount = positiveEmotions.reduce((sum, emotion) => 
+    // Share of positive emotions; a session mood indicator, not an outcome measure
+    const positiveCount = POSITIVE_EMOTIONS.reduce((sum, emotion) => 
       sum + (emotionFrequency[emotion] || 0), 0);
     const totalEmotions = Object.values(emotionFrequency).reduce((a, b) => a + b, 0);
-    const wellbeingScore = totalEmotions > 0 ? Math.round((positiveCount / totalEmotions) * 100) : 50;
-    setWellbeingScore(wellbeingScore);
+    const positiveShare = totalEmotions > 0 ? Math.round((positiveCount / totalEmotions) * 100) : 50;
+    setPositiveShare(positiveShare);
 
     // Generate dynamic insights
     const newInsights = [
@@ -226,19 +238,19 @@ const EmotionalDashboard: React.FC<EmotionalDashboardProps> = ({
       {/* Dashboard Content with Fixed Height */}
       <div className="custom-scrollbar flex-1 px-6 py-4 h-[calc(100vh-15rem)] overflow-y-auto bg-transparent">
         <div className="space-y-6">
-          {/* Wellbeing Card */}
+          {/* Positive Emotion Card */}
           <motion.div
             initial={{ scale: 0.95, opacity: 0 }}
             animate={{ scale: 1, opacity: 1 }}
             transition={{ delay: 0.1 }}
             className="bg-white/10 border border-white/10 backdrop-blur-sm rounded-2xl p-5 relative overflow-hidden group hover:bg-white/20 transition-all duration-300"
           >
-            <h3 className="text-base font-semibold mb-3 text-slate-900/70">Emotional Wellbeing</h3>
+            <h3 className="text-base font-semibold mb-3 text-slate-900/70">Positive Emotions</h3>
             <div 
               className="score-circle relative z-10" 
-              style={{ '--score': `${wellbeingScore}%` } as React.CSSProperties}
+              style={{ '--score': `${positiveShare}%` } as React.CSSProperties}
             >
-              <span className="text-xl font-bold text-indigo-600">{wellbeingScore}%</span>
+              <span className="text-xl font-bold text-indigo-600">{positiveShare}%</span>
             </div>
           </motion.div>
 
@@ -252,7 +264,7 @@ const EmotionalDashboard: React.FC<EmotionalDashboardProps> = ({
             <h3 className="text-base font-semibold mb-3 text-slate-900/70">Emotional Journey</h3>
             <div className="relative z-10">
               <ResponsiveContainer width="100%" height={180}>
-                <LineChart data={sessionData}>
+                <LineChart data={chartData}>
                   <XAxis dataKey="timestamp" tick={{ fontSize: 10 }} />
                   <YAxis tick={{ fontSize: 10 }} />
                   <Tooltip 
@@ -271,6 +283,16 @@ const EmotionalDashboard: React.FC<EmotionalDashboardProps> = ({
                     strokeWidth={2}
                     dot={{ fill: 'rgb(79, 70, 229)', strokeWidth: 2, r: 3 }}
                     activeDot={{ r: 5, fill: 'rgb(79, 70, 229)' }}
+                    connectNulls
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="mood"
+                    name="facial mood"
+                    stroke="rgb(16, 185, 129)"
+                    strokeWidth={1.5}
+                    dot={false}
+                    connectNulls
                   />
                 </LineChart>
               </ResponsiveContainer>
@@ -320,6 +342,7 @@ const EmotionalDashboard: React.FC<EmotionalDashboardProps> = ({
               <CopingStrategies
                 currentEmotion={currentEmotion.emotion}
                 intensity={currentEmotion.intensity}
+                confidence={currentEmotion.confidence}
                 sessionData={sessionData}
                 messages={messages}
               />
@@ -6,11 +6,18 @@ import VideoFeed from './VideoFeed';
 import ProgressTracker from './ProgressTracker';
 import ContentRecommendations from './ContentRecommendations';
 import { Button } from './ui/button';
-import { MessageSquare, Brain, Activity, Settings, X, Heart, Clock, ChevronRight, ChevronLeft, MessageCircle } from 'lucide-react';
+import { MessageSquare, Brain, Activity, Settings, X, Heart, Clock, ChevronRight, ChevronLeft, MessageCircle, History, Plus, Lock, LayoutDashboard, NotebookPen } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { initializeProgressTracker } from '@/utils/progressTracking';
-import { initializeContentRecommender } from '@/utils/contentRecommender';
+import { initializeContentRecommender, saveRecommendations } from '@/utils/contentRecommender';
+import { loadContentPreferences } from '@/utils/contentFeedback';
+import { lockVault } from '@/utils/vault';
+import { isLLMConfigured } from '@/utils/llmProvider';
 import { useToast } from '@/components/ui/use-toast';
+import type { FaceExpressionSample } from '@/utils/faceExpression';
+import type { VoiceProsodySample } from '@/utils/voiceProsody';
+import { getSession } from '@/utils/session';
+import { MessageInput, SessionTiming, computeSessionMetrics, formatDuration, getActiveDurationMs } from '@/utils/sessionMetrics';
 import {
   Tooltip,
   TooltipContent,
@@ -48,6 +55,8 @@ interface ContentItem {
 
 interface ProgressData {
   goals?: Array<{
+    goalId?: string;
+    goal: string;
     progress?: number;
     status?: string;
   }>;
@@ -66,12 +75,22 @@ interface ProgressData {
 
 interface FlexibleLayoutProps {
   messages: Message[];
-  onSendMessage: (message: string) => void;
+  onSendMessage: (message: string, input?: MessageInput) => void;
   isProcessing: boolean;
   lastResponse?: string;
+  streamingResponse?: string;
   onFrame: (imageData: string) => void;
   conversationState?: 'idle' | 'listening' | 'speaking' | 'thinking';
   onStateChange?: (state: 'idle' | 'listening' | 'speaking' | 'thinking') => void;
+  isPaused?: boolean;
+  onNewSession?: () => void;
+  onEndSession?: () => void;
+  onShowHistory?: () => void;
+  onShowThoughtRecord?: () => void;
+  sessionId?: string;
+  sessionTiming?: SessionTiming;
+  onExpression?: (sample: FaceExpressionSample) => void;
+  onProsody?: (sample: VoiceProsodySample) => void;
 }
 
 interface ContentRecommendation {
@@ -91,9 +110,19 @@ const FlexibleLayout: React.FC<FlexibleLayoutProps> = ({
   onSendMessage,
   isProcessing,
   lastResponse = '',
+  streamingResponse = '',
   onFrame,
   conversationState = 'idle',
-  onStateChange
+  onStateChange,
+  isPaused = false,
+  onNewSession,
+  onEndSession,
+  onShowHistory,
+  onShowThoughtRecord,
+  sessionId,
+  sessionTiming,
+  onExpression,
+  onProsody
 }) => {
   const navigate = useNavigate();
   const [videoSize, setVideoSize] = useState(500);
@@ -102,7 +131,7 @@ const FlexibleLayout: React.FC<FlexibleLayoutProps> = ({
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [sessionEnded, setSessionEnded] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
-  const [sessionTime, setSessionTime] = useState(0);
+  const [now, setNow] = useState(Date.now());
   const [progressData, setProgressData] = useState<ProgressData | null>(null);
   const [contentRecommendations, setContentRecommendations] = useState<ContentRecommendation>({
     meditation: [],
@@ -123,21 +152,20 @@ const FlexibleLayout: React.FC<FlexibleLayoutProps> = ({
 
   const { toast } = useToast();
 
+  const sessionEndTime = sessionTiming?.endTime;
+
+  // Re-render once a second; the elapsed time itself comes from the session's timing
   useEffect(() => {
-    const timer = setInterval(() => {
-      setSessionTime(prev => prev + 1);
-    }, 1000);
+    if (sessionEndTime) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
     return () => clearInterval(timer);
-  }, []);
+  }, [sessionEndTime]);
 
-  const formatTime = (seconds: number) => {
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
-  };
+  const sessionElapsedMs = sessionTiming ? getActiveDurationMs(sessionTiming, now) : 0;
 
   const handleEndSession = async () => {
     setSessionEnded(true);
+    onEndSession?.();
     toast({
       title: "Session Ending",
       description: "Analyzing your session data...",
@@ -148,7 +176,7 @@ const FlexibleLayout: React.FC<FlexibleLayoutProps> = ({
 
   const analyzeConversation = async () => {
     const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-    if (!apiKey || messages.length < 2) {
+    if (!isLLMConfigured(apiKey) || messages.length < 2) {
       toast({
         title: "Cannot analyze conversation",
         description: "Not enough conversation data to analyze.",
@@ -161,19 +189,24 @@ const FlexibleLayout: React.FC<FlexibleLayoutProps> = ({
       setIsAnalyzing(true);
       const progressTracker = initializeProgressTracker(apiKey);
 
-      // Add timestamps if not present
-      const messagesWithTimestamp = messages.map((m, index) => ({
-        ...m,
-        timestamp: m.timestamp ? new Date(m.timestamp).toISOString() : 
-                  new Date(Date.now() - (messages.length - index) * 60000).toISOString()
-      }));
-
-      // Get comprehensive analysis including emotions and engagement
-      const progress = await progressTracker.trackProgressWithEmotions(messagesWithTimestamp);
+      // The stored session has the real message times and the measured metrics
+      const session = sessionId ? await getSession(sessionId) : null;
+      const sessionMessages = session
+        ? session.messages.map(m => ({ text: m.content, isUser: m.role === 'user', timestamp: m.timestamp }))
+        : messages.map(m => ({ ...m, timestamp: m.timestamp || new Date().toISOString() }));
+
+      // Get comprehensive analysis including emotions and engagement, and update the client profile
+      const progress = await progressTracker.endSession(
+        sessionMessages,
+        sessionId,
+        session ? session.metrics || computeSessionMetrics(session) : undefined
+      );
       
       // Process and validate the progress data
       const processedProgress: ProgressData = {
         goals: (progress.goals || []).map(g => ({
+          goalId: g.goalId,
+          goal: g.goal,
           progress: Math.min(100, Math.max(0, g.progress || 0)),
           status: g.status || 'not-started'
         })),
@@ -199,10 +232,13 @@ const FlexibleLayout: React.FC<FlexibleLayoutProps> = ({
       
       let recommendations: ContentRecommendation;
       try {
-        recommendations = await contentRecommender.getRecommendations(
+        const fetched = await contentRecommender.getRecommendations(
           dominantEmotion,
-          processedProgress.sessionSummary || ''
+          processedProgress.sessionSummary || '',
+          await loadContentPreferences()
         );
+        await saveRecommendations(fetched, sessionId);
+        recommendations = fetched;
       } catch (error) {
         console.error('Error getting content recommendations:', error);
         recommendations = {
@@ -218,14 +254,6 @@ const FlexibleLayout: React.FC<FlexibleLayoutProps> = ({
         };
       }
 
-      // Save progress and recommendations to localStorage
-      try {
-        localStorage.setItem('current-progress', JSON.stringify(processedProgress));
-        localStorage.setItem('content-recommendations', JSON.stringify(recommendations));
-      } catch (error) {
-        console.error('Error saving to localStorage:', error);
-      }
-
       // Set state before navigation
       setProgressData(processedProgress);
       setContentRecommendations(recommendations);
@@ -254,8 +282,7 @@ const FlexibleLayout: React.FC<FlexibleLayoutProps> = ({
 
   const handleNewSession = () => {
     setSessionEnded(false);
-    onSendMessage('');
-    setSessionTime(0);
+    onNewSession?.();
     setEmotionalState({ currentEmotion: 'neutral', intensity: 0 });
     toast({
       title: "New Session Started",
@@ -320,8 +347,83 @@ const FlexibleLayout: React.FC<FlexibleLayoutProps> = ({
             <div className="flex items-center gap-2">
               <div className="flex items-center gap-1 px-2 py-1 bg-slate-100 rounded-full">
                 <Clock className="w-3 h-3 md:w-4 md:h-4 text-indigo-600" />
-                <span className="text-xs md:text-sm font-medium text-slate-700">{formatTime(sessionTime)}</span>
+                <span className="text-xs md:text-sm font-medium text-slate-700">{formatDuration(sessionElapsedMs)}</span>
               </div>
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      onClick={lockVault}
+                      variant="ghost"
+                      size="sm"
+                      className="text-slate-700 hover:text-indigo-600 hover:bg-indigo-50 px-2 py-1 h-auto"
+                    >
+                      <Lock className="w-4 h-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Lock</TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      onClick={() => navigate('/dashboard')}
+                      variant="ghost"
+                      size="sm"
+                      className="text-slate-700 hover:text-indigo-600 hover:bg-indigo-50 px-2 py-1 h-auto"
+                    >
+                      <LayoutDashboard className="w-4 h-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Dashboard</TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+              {onShowHistory && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        onClick={onShowHistory}
+                        variant="ghost"
+                        size="sm"
+                        className="text-slate-700 hover:text-indigo-600 hover:bg-indigo-50 px-2 py-1 h-auto"
+                      >
+                        <History className="w-4 h-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>Previous sessions</TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+              {onShowThoughtRecord && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        onClick={onShowThoughtRecord}
+                        variant="ghost"
+                        size="sm"
+                        className="text-slate-700 hover:text-indigo-600 hover:bg-indigo-50 px-2 py-1 h-auto"
+                      >
+                        <NotebookPen className="w-4 h-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>Thought record</TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+              {onNewSession && (
+                <Button
+                  onClick={handleNewSession}
+                  variant="ghost"
+                  size="sm"
+                  className="text-xs md:text-sm text-slate-700 hover:text-indigo-600 hover:bg-indigo-50 px-2 py-1 h-auto"
+                >
+                  <Plus className="w-3 h-3 md:w-4 md:h-4 mr-1" />
+                  New Session
+                </Button>
+              )}
               <Button
                 onClick={handleEndSession}
                 variant="ghost"
@@ -357,9 +459,11 @@ const FlexibleLayout: React.FC<FlexibleLayoutProps> = ({
                   <VideoFeed
                     onFrame={onFrame}
                     isLoading={isProcessing}
-                    botResponse={lastResponse}
+                    botResponse={streamingResponse || lastResponse}
                     avatarState={conversationState || (isProcessing ? 'thinking' : lastResponse ? 'speaking' : 'idle')}
                     onStateChange={(state) => onStateChange?.(state)}
+                    isPaused={isPaused}
+                    onExpression={onExpression}
                   />
 
                   {/* Voice Input Component */}
@@ -367,7 +471,10 @@ const FlexibleLayout: React.FC<FlexibleLayoutProps> = ({
                     onTranscript={onSendMessage}
                     isProcessing={isProcessing}
                     lastResponse={lastResponse}
+                    streamingResponse={streamingResponse}
                     onStateChange={(state) => onStateChange?.(state)}
+                    onProsody={onProsody}
+                    isPaused={isPaused}
                     onSpeechEvent={(event) => {
                       // Handle speech events if needed
                     }}
@@ -375,9 +482,9 @@ const FlexibleLayout: React.FC<FlexibleLayoutProps> = ({
 
                   {/* Chat Interface - Updated to use TherapyChat's toggleable functionality */}
                   <TherapyChat
-                    messages={messages}
+                    messages={streamingResponse ? [...messages, { text: streamingResponse, isUser: false }] : messages}
                     onSendMessage={onSendMessage}
-                    isTyping={isProcessing}
+                    isTyping={isProcessing && !streamingResponse}
                     visible={showChat}
                     onToggleVisibility={() => setShowChat(!showChat)}
                   />
@@ -0,0 +1,435 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { cn } from "@/lib/utils";
+import { Target, Activity, Lightbulb, Plus, Pencil, Trash2, CalendarDays } from 'lucide-react';
+import { LineChart, Line, ResponsiveContainer, Tooltip, YAxis } from 'recharts';
+import type { GoalRecord } from '@/utils/db';
+import { GoalStatus, createGoal, deleteGoal, loadGoals, updateGoal } from '@/utils/goals';
+
+const STATUS_LABELS: Record<GoalStatus, string> = {
+  'not-started': 'Identified',
+  'in-progress': 'In Progress',
+  'achieved': 'Achieved'
+};
+
+// Class names spelled out in full so Tailwind picks them up
+const OVERVIEW = [
+  {
+    status: 'achieved' as const,
+    label: 'Achieved',
+    caption: 'Completed goals',
+    icon: Target,
+    card: 'bg-emerald-50/50 border-emerald-100',
+    heading: 'text-emerald-800',
+    count: 'text-emerald-600',
+    text: 'text-emerald-600/80',
+    badge: 'bg-emerald-100'
+  },
+  {
+    status: 'in-progress' as const,
+    label: 'In Progress',
+    caption: 'Active goals',
+    icon: Activity,
+    card: 'bg-blue-50/50 border-blue-100',
+    heading: 'text-blue-800',
+    count: 'text-blue-600',
+    text: 'text-blue-600/80',
+    badge: 'bg-blue-100'
+  },
+  {
+    status: 'not-started' as const,
+    label: 'Identified',
+    caption: 'New goals',
+    icon: Lightbulb,
+    card: 'bg-gray-50/50 border-gray-100',
+    heading: 'text-gray-800',
+    count: 'text-gray-600',
+    text: 'text-gray-600/80',
+    badge: 'bg-gray-100'
+  }
+];
+
+interface ProgressBarProps extends React.HTMLAttributes<HTMLDivElement> {
+  value: number;
+  indicatorClassName?: string;
+}
+
+const ProgressBar: React.FC<ProgressBarProps> = ({
+  value,
+  className,
+  indicatorClassName,
+  ...props
+}) => {
+  return (
+    <div
+      className={cn("h-2 w-full overflow-hidden rounded-full bg-gray-100", className)}
+      {...props}
+    >
+      <div
+        className={cn("h-full w-full flex-1 bg-blue-500 transition-all", indicatorClassName)}
+        style={{ width: `${value}%` }}
+      />
+    </div>
+  );
+};
+
+const emptyForm = {
+  title: '',
+  description: '',
+  targetDate: '',
+  progress: 0
+};
+
+const statusColor = (status: GoalStatus) =>
+  status === 'achieved' ? 'bg-emerald-500' :
+  status === 'in-progress' ? 'bg-blue-500' :
+  'bg-gray-400';
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const GoalManager: React.FC = () => {
+  const { toast } = useToast();
+  const [goals, setGoals] = useState<GoalRecord[]>([]);
+  const [editing, setEditing] = useState<GoalRecord | 'new' | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const refresh = async () => setGoals(await loadGoals());
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const openEditor = (goal: GoalRecord | 'new') => {
+    setEditing(goal);
+    setFormData(goal === 'new' ? emptyForm : {
+      title: goal.title,
+      description: goal.description,
+      targetDate: goal.targetDate || '',
+      progress: goal.progress
+    });
+  };
+
+  const showError = (description: string) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing || !formData.title.trim()) return;
+
+    setIsSaving(true);
+    try {
+      if (editing === 'new') {
+        await createGoal({
+          title: formData.title,
+          description: formData.description,
+          targetDate: formData.targetDate || undefined
+        });
+      } else {
+        await updateGoal(editing.id, {
+          title: formData.title.trim(),
+          description: formData.description.trim(),
+          targetDate: formData.targetDate || undefined,
+          progress: formData.progress
+        });
+      }
+      setEditing(null);
+      await refresh();
+    } catch (error) {
+      console.error('Error saving goal:', error);
+      showError("Failed to save the goal. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStatusChange = async (goal: GoalRecord, status: GoalStatus) => {
+    try {
+      await updateGoal(goal.id, { status });
+      await refresh();
+    } catch (error) {
+      console.error('Error updating goal status:', error);
+      showError("Failed to update the goal. Please try again.");
+    }
+  };
+
+  const handleDelete = async (goal: GoalRecord) => {
+    try {
+      await deleteGoal(goal.id);
+      await refresh();
+    } catch (error) {
+      console.error('Error removing goal:', error);
+      showError("Failed to remove the goal. Please try again.");
+    }
+  };
+
+  return (
+    <Card className="overflow-hidden bg-white hover:shadow-md transition-shadow duration-300">
+      <CardHeader className="space-y-1 sm:space-y-2 bg-gradient-to-r from-blue-50 to-white border-b border-blue-100">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-blue-600">
+            <Target className="w-5 h-5 sm:w-6 sm:h-6" />
+            <CardTitle className="text-lg sm:text-xl font-semibold">Therapy Goals & Progress</CardTitle>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => openEditor('new')} className="flex items-center gap-1.5">
+            <Plus className="w-4 h-4" />
+            Add Goal
+          </Button>
+        </div>
+        <CardDescription className="text-sm sm:text-base text-blue-600/80">
+          Goals from your sessions and ones you've set yourself
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6">
+        {goals.length > 0 ? (
+          <div className="space-y-6">
+            {/* Goals Overview */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {OVERVIEW.map(({ status, label, caption, icon: Icon, ...classes }) => (
+                <div
+                  key={status}
+                  className={`${classes.card} p-4 rounded-xl border flex items-center justify-between`}
+                >
+                  <div>
+                    <h4 className={`${classes.heading} font-medium`}>{label}</h4>
+                    <p className={`text-2xl font-bold ${classes.count} mt-1`}>
+                      {goals.filter(g => g.status === status).length}
+                    </p>
+                    <p className={`text-sm ${classes.text} mt-1`}>{caption}</p>
+                  </div>
+                  <div className={`w-12 h-12 rounded-full ${classes.badge} flex items-center justify-center`}>
+                    <Icon className={`w-6 h-6 ${classes.count}`} />
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Goals List */}
+            <div className="space-y-4">
+              {goals.map(goal => (
+                <div
+                  key={goal.id}
+                  className="p-6 rounded-xl bg-gradient-to-r from-blue-50/50 to-white border border-blue-100
+                    hover:shadow-md transition-all duration-300 group"
+                >
+                  <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                    <div className="flex-1 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <div className={`w-2 h-2 rounded-full ${statusColor(goal.status)}`} />
+                        <h4 className="font-medium text-gray-900 group-hover:text-blue-600 transition-colors">
+                          {goal.title}
+                        </h4>
+                      </div>
+                      {goal.description && (
+                        <p className="text-sm text-gray-600">{goal.description}</p>
+                      )}
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-500">
+                        <span>Started {formatDate(goal.createdAt)}</span>
+                        {goal.targetDate && (
+                          <span className="flex items-center gap-1">
+                            <CalendarDays className="w-3.5 h-3.5" />
+                            Target {formatDate(goal.targetDate)}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={goal.status}
+                        onValueChange={(value) => handleStatusChange(goal, value as GoalStatus)}
+                      >
+                        <SelectTrigger className="w-[140px] h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(STATUS_LABELS) as GoalStatus[]).map(status => (
+                            <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEditor(goal)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-8 w-8 text-gray-500">
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Remove this goal?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              "{goal.title}" and its progress history will be removed from your goals.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(goal)}>Remove</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
+
+                  <div className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-4 items-center">
+                    <div className="sm:col-span-2 space-y-2">
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-600">Progress towards goal</span>
+                        <span className="font-medium text-gray-700">{goal.progress}%</span>
+                      </div>
+                      <ProgressBar
+                        value={goal.progress}
+                        className="h-2.5 bg-blue-100"
+                        indicatorClassName={statusColor(goal.status)}
+                      />
+                    </div>
+
+                    {/* Progress across sessions */}
+                    {goal.history.length > 1 ? (
+                      <div className="h-12">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <LineChart data={goal.history}>
+                            <YAxis domain={[0, 100]} hide />
+                            <Tooltip
+                              formatter={(value: number) => [`${value}%`, 'Progress']}
+                              labelFormatter={(_, payload) =>
+                                payload?.[0] ? formatDate(payload[0].payload.timestamp) : ''}
+                            />
+                            <Line
+                              type="monotone"
+                              dataKey="progress"
+                              stroke="#3b82f6"
+                              strokeWidth={2}
+                              dot={{ r: 2 }}
+                            />
+                          </LineChart>
+                        </ResponsiveContainer>
+                      </div>
+                    ) : (
+                      <p className="text-xs text-gray-500">Progress over time appears after your next session</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="text-center py-8 bg-gray-50/50 rounded-xl border border-gray-100">
+            <Target className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+            <p className="text-gray-500 mb-2">No goals yet</p>
+            <p className="text-sm text-gray-400">Add one yourself, or they'll be identified from your therapy conversations</p>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <form onSubmit={handleSave} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{editing === 'new' ? 'Add a Goal' : 'Edit Goal'}</DialogTitle>
+              <DialogDescription>
+                Dr. Sky will track this goal across your sessions.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <label htmlFor="goalTitle" className="text-sm font-medium">Goal</label>
+              <Input
+                id="goalTitle"
+                value={formData.title}
+                onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+                placeholder="e.g. Sleep seven hours most nights"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="goalDescription" className="text-sm font-medium">Description</label>
+              <Textarea
+                id="goalDescription"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="What would achieving this look like?"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="goalTargetDate" className="text-sm font-medium">Target date</label>
+              <Input
+                id="goalTargetDate"
+                type="date"
+                value={formData.targetDate}
+                onChange={(e) => setFormData(prev => ({ ...prev, targetDate: e.target.value }))}
+              />
+            </div>
+
+            {editing !== 'new' && (
+              <div className="space-y-3">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium">Progress</span>
+                  <span>{formData.progress}%</span>
+                </div>
+                <Slider
+                  value={[formData.progress]}
+                  onValueChange={([value]) => setFormData(prev => ({ ...prev, progress: value }))}
+                  max={100}
+                  step={5}
+                />
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving || !formData.title.trim()}>
+                {isSaving ? 'Saving...' : 'Save Goal'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default GoalManager;
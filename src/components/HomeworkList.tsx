@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/components/ui/use-toast";
+import { cn } from "@/lib/utils";
+import { BookOpenCheck, CalendarDays, X } from 'lucide-react';
+import type { HomeworkRecord } from '@/utils/db';
+import { deleteHomework, isHomeworkDone, isHomeworkOverdue, loadHomework, setHomeworkDone } from '@/utils/homework';
+import { toDateKey } from '@/utils/routines';
+
+// Due dates are local calendar days, so parse them as local midnight
+const formatDueDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+const HomeworkList: React.FC = () => {
+  const { toast } = useToast();
+  const [homework, setHomework] = useState<HomeworkRecord[]>([]);
+
+  useEffect(() => {
+    loadHomework().then(setHomework);
+  }, []);
+
+  const replaceItem = (updated: HomeworkRecord) =>
+    setHomework(prev => prev.map(item => item.id === updated.id ? updated : item));
+
+  const handleToggle = async (id: string, done: boolean) => {
+    try {
+      replaceItem(await setHomeworkDone(id, done));
+    } catch (error) {
+      console.error('Error updating homework:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to save your homework. Please try again.",
+      });
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      await deleteHomework(id);
+      setHomework(prev => prev.filter(item => item.id !== id));
+    } catch (error) {
+      console.error('Error removing homework:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to remove homework. Please try again.",
+      });
+    }
+  };
+
+  const today = toDateKey();
+  // Open homework first, soonest due at the top; finished items sink below
+  const sorted = [...homework].sort((a, b) =>
+    Number(isHomeworkDone(a)) - Number(isHomeworkDone(b)) || a.dueDate.localeCompare(b.dueDate));
+  const outstanding = homework.filter(item => !isHomeworkDone(item)).length;
+
+  return (
+    <Card className="overflow-hidden bg-white hover:shadow-md transition-shadow duration-300">
+      <CardHeader className="space-y-1 sm:space-y-2 bg-gradient-to-r from-indigo-50 to-white border-b border-indigo-100">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-indigo-600">
+            <BookOpenCheck className="w-5 h-5 sm:w-6 sm:h-6" />
+            <CardTitle className="text-lg sm:text-xl font-semibold">Homework</CardTitle>
+          </div>
+          {homework.length > 0 && (
+            <span className="text-sm text-indigo-600/80">{outstanding} to do</span>
+          )}
+        </div>
+        <CardDescription className="text-sm sm:text-base text-indigo-600/80">
+          Practice agreed at the end of your sessions. Dr. Sky will ask how it went next time.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6">
+        {homework.length > 0 ? (
+          <ul className="space-y-3">
+            {sorted.map(item => {
+              const done = isHomeworkDone(item);
+              const overdue = isHomeworkOverdue(item, today);
+              return (
+                <li
+                  key={item.id}
+                  className="flex items-start gap-3 p-4 rounded-xl border border-indigo-100 bg-indigo-50/30"
+                >
+                  <Checkbox
+                    id={item.id}
+                    className="mt-0.5"
+                    checked={done}
+                    onCheckedChange={(checked) => handleToggle(item.id, checked === true)}
+                  />
+                  <div className={cn("flex-1 min-w-0 space-y-1", done && "opacity-60")}>
+                    <label htmlFor={item.id} className={cn("font-medium text-gray-900", done && "line-through")}>
+                      {item.title}
+                    </label>
+                    {item.description && <p className="text-sm text-gray-600">{item.description}</p>}
+                    <p className={cn("flex items-center gap-1 text-xs", overdue ? "text-rose-600" : "text-gray-500")}>
+                      <CalendarDays className="w-3.5 h-3.5" />
+                      {overdue ? 'Was due' : 'Due'} {formatDueDate(item.dueDate)}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Remove ${item.title}`}
+                    onClick={() => handleRemove(item.id)}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <div className="text-center py-8 bg-gray-50/50 rounded-xl border border-gray-100">
+            <BookOpenCheck className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+            <p className="text-gray-500 mb-2">No homework yet</p>
+            <p className="text-sm text-gray-400">End a session to get a few things to practice before the next one</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HomeworkList;
@@ -7,7 +7,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Brain, Target, TrendingUp, Activity, Heart, Lightbulb } from 'lucide-react';
+import { Brain, TrendingUp, Activity, Heart, Lightbulb, Timer } from 'lucide-react';
 import { 
   AreaChart, 
   Area, 
@@ -23,17 +23,10 @@ import {
   PolarRadiusAxis
 } from 'recharts';
 import { Card as TremorCard, Title, DonutChart } from "@tremor/react";
-import { cn } from "@/lib/utils";
+import { SessionMetrics, formatDuration } from '@/utils/sessionMetrics';
 
 interface ProgressTrackerProps {
   sessionSummary: string;
-  goals: Array<{
-    goal: string;
-    progress: number;
-    status: 'not-started' | 'in-progress' | 'achieved';
-    title?: string;
-    description?: string;
-  }>;
   improvements: {
     strengths: string[];
     challenges: string[];
@@ -51,6 +44,7 @@ interface ProgressTrackerProps {
     }>;
     engagementLevel: number[];
   };
+  sessionMetrics?: SessionMetrics;
   timestamp?: string;
 }
 
@@ -66,35 +60,11 @@ const defaultImprovements = {
   recommendations: []
 };
 
-interface ProgressBarProps extends React.HTMLAttributes<HTMLDivElement> {
-  value: number;
-  indicatorClassName?: string;
-}
-
-const ProgressBar: React.FC<ProgressBarProps> = ({
-  value,
-  className,
-  indicatorClassName,
-  ...props
-}) => {
-  return (
-    <div
-      className={cn("h-2 w-full overflow-hidden rounded-full bg-gray-100", className)}
-      {...props}
-    >
-      <div
-        className={cn("h-full w-full flex-1 bg-blue-500 transition-all", indicatorClassName)}
-        style={{ width: `${value}%` }}
-      />
-    </div>
-  );
-};
-
 const ProgressTracker: React.FC<ProgressTrackerProps> = ({
   sessionSummary = '',
-  goals = [],
   improvements = defaultImprovements,
   emotionalJourney = defaultEmotionalJourney,
+  sessionMetrics,
   timestamp
 }) => {
   const [isLoading, setIsLoading] = React.useState(false);
@@ -327,186 +297,50 @@ const ProgressTracker: React.FC<ProgressTrackerProps> = ({
         </CardContent>
       </Card>
 
-      {/* Goals Progress */}
-      <Card className="overflow-hidden bg-white hover:shadow-md transition-shadow duration-300">
-        <CardHeader className="space-y-1 sm:space-y-2 bg-gradient-to-r from-blue-50 to-white border-b border-blue-100">
-          <div className="flex items-center gap-2 text-blue-600">
-            <Target className="w-5 h-5 sm:w-6 sm:h-6" />
-            <CardTitle className="text-lg sm:text-xl font-semibold">Therapy Goals & Progress</CardTitle>
-          </div>
-          <CardDescription className="text-sm sm:text-base text-blue-600/80">
-            Goals identified from your therapy conversation
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="p-6">
-          {goals.length > 0 ? (
-            <div className="space-y-6">
-              {/* Goals Overview */}
-              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-                <div className="bg-emerald-50/50 p-4 rounded-xl border border-emerald-100 flex items-center justify-between">
-                  <div>
-                    <h4 className="text-emerald-800 font-medium">Achieved</h4>
-                    <p className="text-2xl font-bold text-emerald-600 mt-1">
-                      {goals.filter(g => g.status === 'achieved').length}
-                    </p>
-                    <p className="text-sm text-emerald-600/80 mt-1">Completed goals</p>
-                  </div>
-                  <div className="w-12 h-12 rounded-full bg-emerald-100 flex items-center justify-center">
-                    <Target className="w-6 h-6 text-emerald-600" />
-                  </div>
-                </div>
-                <div className="bg-blue-50/50 p-4 rounded-xl border border-blue-100 flex items-center justify-between">
-                  <div>
-                    <h4 className="text-blue-800 font-medium">In Progress</h4>
-                    <p className="text-2xl font-bold text-blue-600 mt-1">
-                      {goals.filter(g => g.status === 'in-progress').length}
-                    </p>
-                    <p className="text-sm text-blue-600/80 mt-1">Active goals</p>
-                  </div>
-                  <div className="w-12 h-12 rounded-full bg-blue-100 flex items-center justify-center">
-                    <Activity className="w-6 h-6 text-blue-600" />
-                  </div>
-                </div>
-                <div className="bg-gray-50/50 p-4 rounded-xl border border-gray-100 flex items-center justify-between">
-                  <div>
-                    <h4 className="text-gray-800 font-medium">Identified</h4>
-                    <p className="text-2xl font-bold text-gray-600 mt-1">
-                      {goals.filter(g => g.status === 'not-started').length}
-                    </p>
-                    <p className="text-sm text-gray-600/80 mt-1">New goals</p>
-                  </div>
-                  <div className="w-12 h-12 rounded-full bg-gray-100 flex items-center justify-center">
-                    <Lightbulb className="w-6 h-6 text-gray-600" />
-                  </div>
-                </div>
-              </div>
-
-              {/* Goals List */}
-              <div className="space-y-4">
-                {goals.map((goal, index) => (
-                  <div 
-                    key={index}
-                    className="p-6 rounded-xl bg-gradient-to-r from-blue-50/50 to-white border border-blue-100
-                      hover:shadow-md transition-all duration-300 group"
-                  >
-                    <div className="flex flex-col sm:flex-row sm:items-start gap-4">
-                      <div className="flex-1 space-y-3">
-                        <div className="flex items-start justify-between gap-4">
-                          <div className="flex-1">
-                            <div className="flex items-center gap-2 mb-2">
-                              <div className={`w-2 h-2 rounded-full ${
-                                goal.status === 'achieved' ? 'bg-emerald-500' :
-                                goal.status === 'in-progress' ? 'bg-blue-500' :
-                                'bg-gray-400'
-                              }`} />
-                              <h4 className="font-medium text-gray-900 group-hover:text-blue-600 transition-colors">
-                                {goal.title || goal.goal}
-                              </h4>
-                              <Badge 
-                                className={`
-                                  ${goal.status === 'achieved' ? 'bg-emerald-100 text-emerald-700 border-emerald-200' :
-                                    goal.status === 'in-progress' ? 'bg-blue-100 text-blue-700 border-blue-200' :
-                                    'bg-gray-100 text-gray-700 border-gray-200'}
-                                  px-3 py-1 rounded-full text-xs font-medium border whitespace-nowrap
-                                `}
-                              >
-                                {goal.status === 'not-started' ? 'Identified' :
-                                  goal.status.split('-').map(word => 
-                                    word.charAt(0).toUpperCase() + word.slice(1)
-                                  ).join(' ')}
-                  </Badge>
-                            </div>
-                            {goal.description && (
-                              <p className="text-sm text-gray-600">{goal.description}</p>
-                            )}
-              </div>
-            </div>
-                        
-                        <div className="space-y-2">
-                          <div className="flex justify-between text-sm">
-                            <span className="text-gray-600">Progress towards goal</span>
-                            <span className={`font-medium ${
-                              goal.status === 'achieved' ? 'text-emerald-600' :
-                              goal.status === 'in-progress' ? 'text-blue-600' :
-                              'text-gray-600'
-                            }`}>
-                              {goal.progress}%
-                            </span>
-                          </div>
-                          <div className="relative pb-8">
-                            <ProgressBar 
-                              value={goal.progress} 
-                              className="h-2.5 bg-blue-100" 
-                              indicatorClassName={`
-                                ${goal.status === 'achieved' ? 'bg-emerald-500' :
-                                  goal.status === 'in-progress' ? 'bg-blue-500' :
-                                  'bg-gray-400'}
-                              `}
-                            />
-                            {/* Progress Milestones */}
-                            <div className="absolute -bottom-1 left-0 w-full flex justify-between">
-                              <div className="flex flex-col items-center">
-                                <div className={`w-1 h-3 ${goal.progress > 0 ? 'bg-blue-500' : 'bg-gray-300'}`} />
-                                <span className="text-xs text-gray-500 mt-1">Initial</span>
-                              </div>
-                              <div className="flex flex-col items-center">
-                                <div className={`w-1 h-3 ${goal.progress >= 25 ? 'bg-blue-500' : 'bg-gray-300'}`} />
-                                <span className="text-xs text-gray-500 mt-1">Early</span>
-                              </div>
-                              <div className="flex flex-col items-center">
-                                <div className={`w-1 h-3 ${goal.progress >= 50 ? 'bg-blue-500' : 'bg-gray-300'}`} />
-                                <span className="text-xs text-gray-500 mt-1">Halfway</span>
-                              </div>
-                              <div className="flex flex-col items-center">
-                                <div className={`w-1 h-3 ${goal.progress >= 75 ? 'bg-blue-500' : 'bg-gray-300'}`} />
-                                <span className="text-xs text-gray-500 mt-1">Advanced</span>
-                              </div>
-                              <div className="flex flex-col items-center">
-                                <div className={`w-1 h-3 ${goal.progress >= 100 ? 'bg-emerald-500' : 'bg-gray-300'}`} />
-                                <span className="text-xs text-gray-500 mt-1">Complete</span>
-            </div>
-          </div>
-                          </div>
-                        </div>
-
-                        {/* Goal Insights */}
-                        <div className="mt-4 pt-4 border-t border-gray-100">
-                          <div className="flex items-center gap-2 text-sm">
-                            <div className={`w-2 h-2 rounded-full ${
-                              goal.progress >= 75 ? 'bg-emerald-500' :
-                              goal.progress >= 25 ? 'bg-blue-500' :
-                              'bg-gray-400'
-                            }`} />
-                            <span className={`${
-                              goal.progress >= 75 ? 'text-emerald-700' :
-                              goal.progress >= 50 ? 'text-blue-700' :
-                              goal.progress >= 25 ? 'text-blue-700' :
-                              goal.progress > 0 ? 'text-blue-700' :
-                              'text-gray-600'
-                            }`}>
-                              {goal.progress >= 75 ? 'Excellent progress! Keep up the great work!' :
-                               goal.progress >= 50 ? 'Strong progress on this goal - halfway there!' :
-                               goal.progress >= 25 ? 'Making steady progress - keep going!' :
-                               goal.progress > 0 ? 'Taking the first steps toward this goal' :
-                               'Goal identified from your conversation'}
-                            </span>
-                          </div>
-                        </div>
-                    </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
+      {/* Session Metrics */}
+      {sessionMetrics && (
+        <Card className="overflow-hidden bg-white hover:shadow-md transition-shadow duration-300">
+          <CardHeader className="space-y-1 sm:space-y-2 bg-gradient-to-r from-teal-50 to-white border-b border-teal-100">
+            <div className="flex items-center gap-2 text-teal-600">
+              <Timer className="w-5 h-5 sm:w-6 sm:h-6" />
+              <CardTitle className="text-lg sm:text-xl font-semibold">Session Metrics</CardTitle>
             </div>
-          ) : (
-            <div className="text-center py-8 bg-gray-50/50 rounded-xl border border-gray-100">
-              <Target className="w-12 h-12 text-gray-400 mx-auto mb-3" />
-              <p className="text-gray-500 mb-2">No goals identified yet</p>
-              <p className="text-sm text-gray-400">Goals will be automatically identified from your therapy conversations</p>
+            <CardDescription className="text-sm sm:text-base text-teal-600/80">
+              Measured during your conversation
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: 'Duration', value: formatDuration(sessionMetrics.durationMs) },
+                {
+                  label: 'Your turns',
+                  value: String(sessionMetrics.userTurns),
+                  detail: `${sessionMetrics.voiceTurns} spoken · ${sessionMetrics.textTurns} typed`
+                },
+                {
+                  label: 'Words',
+                  value: String(sessionMetrics.userWords),
+                  detail: `Dr. Sky: ${sessionMetrics.therapistWords}`
+                },
+                {
+                  label: 'Speaking time',
+                  value: formatDuration(sessionMetrics.speakingMs),
+                  detail: sessionMetrics.averageLatencyMs !== null
+                    ? `Replies in ${(sessionMetrics.averageLatencyMs / 1000).toFixed(1)}s on average`
+                    : undefined
+                }
+              ].map(({ label, value, detail }) => (
+                <div key={label} className="p-4 rounded-xl bg-teal-50/40 border border-teal-100">
+                  <p className="text-sm text-gray-600">{label}</p>
+                  <p className="text-xl font-bold text-gray-900 mt-1">{value}</p>
+                  {detail && <p className="text-xs text-gray-500 mt-1">{detail}</p>}
+                </div>
+              ))}
             </div>
-          )}
-        </CardContent>
-      </Card>
+          </CardContent>
+        </Card>
+      )}
 
       {/* Progress Insights */}
       <Card className="overflow-hidden bg-white hover:shadow-md transition-shadow duration-300">
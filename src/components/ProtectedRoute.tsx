@@ -0,0 +1,31 @@
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import VaultGate from '@/components/VaultGate';
+
+interface ProtectedRouteProps {
+  children: React.ReactNode;
+}
+
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-therapy-background">
+        <Loader2 className="h-8 w-8 animate-spin text-therapy-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    // Send them back where they were headed once they've signed in
+    return <Navigate to="/auth" replace state={{ from: location.pathname }} />;
+  }
+
+  return <VaultGate>{children}</VaultGate>;
+};
+
+export default ProtectedRoute;
@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import { ClipboardList, ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import type { AssessmentRecord } from '@/utils/db';
+import type { RiskAssessment } from '@/utils/riskClassifier';
+import {
+  AssessmentTiming,
+  QUESTIONNAIRES,
+  QuestionnaireId,
+  getDueQuestionnaires,
+  getSeverityBand,
+  loadAssessments,
+  saveAssessment,
+  screenAssessmentRisk
+} from '@/utils/assessments';
+
+interface QuestionnaireDialogProps {
+  open: boolean;
+  timing: AssessmentTiming;
+  sessionId?: string;
+  onClose: () => void;
+  // Called with a risk assessment when an answer needs a safety follow-up
+  onComplete?: (result: AssessmentRecord, risk: RiskAssessment | null) => void;
+}
+
+const TIMING_DESCRIPTIONS: Record<AssessmentTiming, string> = {
+  'pre-session': 'A quick check-in before you start helps you and Dr. Sky see how things change over time.',
+  'post-session': 'A quick check-in after your session helps you see how things change over time.',
+  'standalone': 'Standard questionnaires used by clinicians to track how you are doing over time.'
+};
+
+const SEVERITY_STYLES = {
+  none: 'bg-emerald-100 text-emerald-700 border-emerald-200',
+  mild: 'bg-amber-100 text-amber-700 border-amber-200',
+  moderate: 'bg-orange-100 text-orange-700 border-orange-200',
+  severe: 'bg-rose-100 text-rose-700 border-rose-200'
+};
+
+const QuestionnaireDialog: React.FC<QuestionnaireDialogProps> = ({
+  open,
+  timing,
+  sessionId,
+  onClose,
+  onComplete
+}) => {
+  const [dueIds, setDueIds] = useState<QuestionnaireId[]>([]);
+  const [selected, setSelected] = useState<QuestionnaireId | null>(null);
+  const [answers, setAnswers] = useState<Array<number | undefined>>([]);
+  const [result, setResult] = useState<AssessmentRecord | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setSelected(null);
+    setResult(null);
+    setError(null);
+    loadAssessments().then(assessments => setDueIds(getDueQuestionnaires(assessments)));
+  }, [open]);
+
+  const questionnaire = selected ? QUESTIONNAIRES[selected] : null;
+  const isComplete = !!questionnaire && questionnaire.items.every((_, index) => answers[index] !== undefined);
+
+  const handleSelect = (id: QuestionnaireId) => {
+    setSelected(id);
+    setAnswers(new Array(QUESTIONNAIRES[id].items.length).fill(undefined));
+  };
+
+  const handleSubmit = async () => {
+    if (!selected || !isComplete) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const submitted = answers as number[];
+      const saved = await saveAssessment(selected, submitted, timing, sessionId);
+      setResult(saved);
+      onComplete?.(saved, screenAssessmentRisk(selected, submitted));
+    } catch (error) {
+      console.error('Error saving assessment:', error);
+      setError('Failed to save your answers. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderChooser = () => (
+    <div className="space-y-3">
+      {(Object.keys(QUESTIONNAIRES) as QuestionnaireId[]).map(id => {
+        const { shortName, name, measures, items } = QUESTIONNAIRES[id];
+        return (
+          <button
+            key={id}
+            type="button"
+            onClick={() => handleSelect(id)}
+            className="w-full text-left p-4 rounded-xl border border-slate-200 hover:border-indigo-300 hover:bg-indigo-50/50 transition-colors"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <p className="font-medium text-slate-900">{shortName} · {measures}</p>
+              {dueIds.includes(id) && (
+                <Badge variant="outline" className="text-indigo-600 border-indigo-200">Due</Badge>
+              )}
+            </div>
+            <p className="text-sm text-slate-500">{name} · {items.length} questions</p>
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  const renderItems = () => questionnaire && (
+    <ScrollArea className="h-[55vh] pr-4">
+      <p className="text-sm font-medium text-slate-700 mb-4">{questionnaire.prompt}</p>
+      <ol className="space-y-5">
+        {questionnaire.items.map((item, index) => (
+          <li key={index} className="space-y-2">
+            <p className="text-sm text-slate-900">{index + 1}. {item}</p>
+            <RadioGroup
+              value={answers[index] !== undefined ? String(answers[index]) : ''}
+              onValueChange={(value) => setAnswers(prev => prev.map((answer, i) => i === index ? Number(value) : answer))}
+              className="grid grid-cols-1 sm:grid-cols-2 gap-2"
+            >
+              {questionnaire.options.map(option => (
+                <label
+                  key={option.value}
+                  className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer"
+                >
+                  <RadioGroupItem value={String(option.value)} />
+                  {option.label}
+                </label>
+              ))}
+            </RadioGroup>
+          </li>
+        ))}
+      </ol>
+    </ScrollArea>
+  );
+
+  const renderResult = () => {
+    if (!result || !questionnaire) return null;
+    const band = getSeverityBand(result.questionnaireId, result.score);
+
+    return (
+      <div className="space-y-4 text-center py-4">
+        <p className="text-4xl font-bold text-slate-900">
+          {result.score}
+          <span className="text-lg font-normal text-slate-500"> / {questionnaire.maxScore}</span>
+        </p>
+        <Badge className={`${SEVERITY_STYLES[band.severity]} border px-3 py-1`}>{band.label}</Badge>
+        <p className="text-sm text-slate-600">
+          This is a screening result, not a diagnosis. Talk to a clinician about what it means for you.
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardList className="w-5 h-5 text-indigo-600" />
+            {questionnaire ? `${questionnaire.shortName} · ${questionnaire.measures}` : 'Check-in Questionnaires'}
+          </DialogTitle>
+          <DialogDescription>
+            {questionnaire ? questionnaire.name : TIMING_DESCRIPTIONS[timing]}
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? renderResult() : questionnaire ? renderItems() : renderChooser()}
+
+        {error && <p className="text-sm text-therapy-accent-error">{error}</p>}
+
+        <DialogFooter className="gap-2">
+          {result ? (
+            <Button onClick={onClose}>Done</Button>
+          ) : questionnaire ? (
+            <>
+              <Button variant="ghost" onClick={() => setSelected(null)} className="mr-auto">
+                <ArrowLeft className="w-4 h-4 mr-1.5" />
+                Back
+              </Button>
+              <Button onClick={handleSubmit} disabled={!isComplete || isSaving}>
+                {isSaving ? 'Saving...' : 'See My Score'}
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={onClose}>Not Now</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuestionnaireDialog;
@@ -1127,6 +1127,8 @@ const RPMAvatar: React.FC<RPMAvatarProps> = ({ avatarUrl, currentState, isSpeaki
   const morphTargetsRef = useRef<{ [key: string]: number }>({});
   const currentAnimationRef = useRef<THREE.AnimationAction | null>(null);
   const animationsRef = useRef<{ [key: string]: THREE.AnimationClip }>({});
+  // Where lip-sync left off, so a streamed response that grows keeps going instead of restarting
+  const lipSyncProgressRef = useRef<{ text: string; wordIndex: number }>({ text: '', wordIndex: 0 });
 
   // Add new refs for advanced features
   const personalityRef = useRef<PersonalityTraits>(DEFAULT_PERSONALITY);
@@ -1207,6 +1209,7 @@ const RPMAvatar: React.FC<RPMAvatarProps> = ({ avatarUrl, currentState, isSpeaki
   // Handle speech events and lip-sync with improved response timing
   useEffect(() => {
     if (!isSpeaking || !modelRef.current) {
+      lipSyncProgressRef.current = { text: '', wordIndex: 0 };
       // Reset to silent viseme when not speaking
       if (modelRef.current) {
         resetMouth(modelRef.current);
@@ -1368,8 +1371,10 @@ const RPMAvatar: React.FC<RPMAvatarProps> = ({ avatarUrl, currentState, isSpeaki
       // Process text into speech-friendly word sequences
       const words = processTextForSpeech(speechText);
       
-      let currentIndex = 0;
+      const previous = lipSyncProgressRef.current;
+      let currentIndex = previous.text && speechText.startsWith(previous.text) ? previous.wordIndex : 0;
       let lastWordTime = Date.now();
+      lipSyncProgressRef.current = { text: speechText, wordIndex: currentIndex };
       
       const processWords = () => {
         const currentTime = Date.now();
@@ -1382,6 +1387,7 @@ const RPMAvatar: React.FC<RPMAvatarProps> = ({ avatarUrl, currentState, isSpeaki
             processWord(word, modelRef.current!);
             lastWordTime = currentTime;
             currentIndex++;
+            lipSyncProgressRef.current.wordIndex = currentIndex;
           }
         }
 
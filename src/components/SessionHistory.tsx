@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { History, X, PlayCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Session, loadSessions } from '@/utils/session';
+
+interface SessionHistoryProps {
+  open: boolean;
+  currentSessionId?: string;
+  onClose: () => void;
+  onResume: (sessionId: string) => void;
+}
+
+const formatSessionDate = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+const SessionHistory: React.FC<SessionHistoryProps> = ({
+  open,
+  currentSessionId,
+  onClose,
+  onResume
+}) => {
+  const [sessions, setSessions] = useState<Session[]>([]);
+
+  // Re-read on every open so sessions saved since the last look show up
+  useEffect(() => {
+    if (!open) return;
+
+    loadSessions().then(loaded => {
+      setSessions(
+        loaded
+          .filter(session => session.messages.length > 0 || session.id === currentSessionId)
+          .sort((a, b) => b.startTime.localeCompare(a.startTime))
+      );
+    });
+  }, [open, currentSessionId]);
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/20 backdrop-blur-sm z-50"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.95, opacity: 0 }}
+            className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-lg px-4"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="bg-white/90 backdrop-blur-md rounded-3xl shadow-2xl border border-white/20">
+              <div className="flex items-center justify-between p-6 border-b border-slate-100/50">
+                <div className="flex items-center gap-3">
+                  <div className="p-2.5 bg-primary/10 rounded-xl">
+                    <History className="w-5 h-5 text-primary" />
+                  </div>
+                  <h2 className="text-xl font-semibold text-slate-900">Your Sessions</h2>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={onClose}
+                  className="text-slate-500 hover:text-slate-700"
+                >
+                  <X className="w-5 h-5" />
+                </Button>
+              </div>
+
+              <ScrollArea className="max-h-[60vh]">
+                <div className="p-6 space-y-3">
+                  {sessions.length === 0 && (
+                    <p className="text-sm text-slate-500 text-center">No previous sessions yet.</p>
+                  )}
+                  {sessions.map(session => {
+                    const isCurrent = session.id === currentSessionId;
+                    const firstMessage = session.messages.find(m => m.role === 'user')?.content;
+
+                    return (
+                      <div
+                        key={session.id}
+                        className="flex items-start justify-between gap-4 p-4 rounded-2xl border border-slate-100 bg-white/60"
+                      >
+                        <div className="min-w-0 space-y-1">
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium text-slate-900">{formatSessionDate(session.startTime)}</p>
+                            {isCurrent ? (
+                              <Badge className="bg-emerald-100 text-emerald-700">Current</Badge>
+                            ) : session.endTime ? (
+                              <Badge className="bg-slate-100 text-slate-600">Ended</Badge>
+                            ) : null}
+                          </div>
+                          <p className="text-xs text-slate-500">{session.messages.length} messages</p>
+                          {firstMessage && (
+                            <p className="text-sm text-slate-600 truncate">{firstMessage}</p>
+                          )}
+                        </div>
+                        {!isCurrent && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => onResume(session.id)}
+                            className="shrink-0"
+                          >
+                            <PlayCircle className="w-4 h-4 mr-1.5" />
+                            Resume
+                          </Button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </ScrollArea>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default SessionHistory;
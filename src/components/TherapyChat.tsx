@@ -30,7 +30,6 @@ const TherapyChat: React.FC<TherapyChatProps> = ({
   const scrollRef = useRef<HTMLDivElement>(null);
   const [newMessage, setNewMessage] = useState("");
   const [isRecording, setIsRecording] = useState(false);    
-  const [sessionTime, setSessionTime] = useState(0);
   const [showSettings, setShowSettings] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
 
@@ -46,26 +45,12 @@ const TherapyChat: React.FC<TherapyChatProps> = ({
     return () => window.removeEventListener('resize', checkMobile);
   }, []);
 
-  useEffect(() => {
-    const timer = setInterval(() => {
-      setSessionTime(prev => prev + 1);
-    }, 1000);
-
-    return () => clearInterval(timer);
-  }, []);
-
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
   }, [messages]);
 
-  const formatTime = (seconds: number) => {
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
-  };
-
   const handleSendMessage = () => {
     if (newMessage.trim() && onSendMessage) {
       onSendMessage(newMessage);
@@ -0,0 +1,329 @@
+import React, { useEffect, useState } from 'react';
+import { NotebookPen, Plus, Sparkles, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Slider } from '@/components/ui/slider';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { getLLMProvider, isLLMConfigured } from '@/utils/llmProvider';
+import type { SessionMessage } from '@/utils/session';
+import {
+  COGNITIVE_DISTORTIONS,
+  CognitiveDistortionId,
+  DISTORTION_IDS,
+  ThoughtRecord,
+  ThoughtRecordDraft,
+  ThoughtRecordEmotion,
+  createThoughtRecord,
+  prefillThoughtRecord
+} from '@/utils/thoughtRecords';
+
+interface ThoughtRecordDialogProps {
+  open: boolean;
+  // Recent conversation, used to draft the record
+  messages: SessionMessage[];
+  // An existing record to edit; a new one is started otherwise
+  record?: ThoughtRecord | null;
+  // Draft from the conversation as soon as the dialog opens
+  autoPrefill?: boolean;
+  onSave: (record: ThoughtRecord) => Promise<void> | void;
+  onClose: () => void;
+}
+
+const MAX_EMOTIONS = 3;
+const DEFAULT_INTENSITY = 50;
+
+// Fills in only what the client hasn't written yet
+const mergeDraft = (current: ThoughtRecord, draft: ThoughtRecordDraft): ThoughtRecord => ({
+  ...current,
+  situation: current.situation || draft.situation,
+  automaticThought: current.automaticThought || draft.automaticThought,
+  emotions: current.emotions.length > 0 ? current.emotions : draft.emotions,
+  distortions: [...new Set([...current.distortions, ...draft.distortions])],
+  evidenceFor: current.evidenceFor || draft.evidenceFor,
+  evidenceAgainst: current.evidenceAgainst || draft.evidenceAgainst,
+  balancedThought: current.balancedThought || draft.balancedThought,
+  prefilled: true
+});
+
+const Section: React.FC<{
+  step: number;
+  title: string;
+  hint: string;
+  children: React.ReactNode;
+}> = ({ step, title, hint, children }) => (
+  <section className="space-y-2">
+    <div>
+      <h4 className="text-sm font-semibold text-slate-900">{step}. {title}</h4>
+      <p className="text-xs text-slate-500">{hint}</p>
+    </div>
+    {children}
+  </section>
+);
+
+const ThoughtRecordDialog: React.FC<ThoughtRecordDialogProps> = ({
+  open,
+  messages,
+  record,
+  autoPrefill = false,
+  onSave,
+  onClose
+}) => {
+  const [form, setForm] = useState<ThoughtRecord>(() => record || createThoughtRecord());
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
+  const canDraft = isLLMConfigured(apiKey) && messages.some(message => message.role === 'user');
+
+  const handleDraft = async () => {
+    setIsDrafting(true);
+    setError(null);
+    const draft = await prefillThoughtRecord(getLLMProvider(apiKey), messages);
+    if (draft) {
+      setForm(current => mergeDraft(current, draft));
+    } else {
+      setError("Couldn't draft from the conversation. You can fill it in yourself.");
+    }
+    setIsDrafting(false);
+  };
+
+  useEffect(() => {
+    if (!open) return;
+
+    setForm(record || createThoughtRecord());
+    setError(null);
+    if (autoPrefill && !record && canDraft) {
+      handleDraft();
+    }
+    // Only when the dialog opens; drafting reads the latest messages itself
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const update = (changes: Partial<ThoughtRecord>) => setForm(current => ({ ...current, ...changes }));
+
+  const updateEmotion = (index: number, changes: Partial<ThoughtRecordEmotion>) =>
+    update({ emotions: form.emotions.map((emotion, i) => i === index ? { ...emotion, ...changes } : emotion) });
+
+  const toggleDistortion = (id: CognitiveDistortionId) =>
+    update({
+      distortions: form.distortions.includes(id)
+        ? form.distortions.filter(distortion => distortion !== id)
+        : [...form.distortions, id]
+    });
+
+  const namedEmotions = form.emotions.filter(emotion => emotion.emotion.trim());
+  const isComplete = !!form.situation.trim() && !!form.automaticThought.trim();
+
+  const handleSave = async () => {
+    if (!isComplete) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave({ ...form, emotions: namedEmotions });
+    } catch (error) {
+      console.error('Error saving thought record:', error);
+      setError('Failed to save your thought record. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <NotebookPen className="w-5 h-5 text-indigo-600" />
+            Thought Record
+          </DialogTitle>
+          <DialogDescription>
+            Slow down one upsetting moment, look at the thought behind it and find a more balanced view.
+          </DialogDescription>
+        </DialogHeader>
+
+        {canDraft && (
+          <div className="flex items-center justify-between gap-2 p-3 rounded-xl bg-indigo-50/70 border border-indigo-100">
+            <p className="text-sm text-indigo-700">
+              {isDrafting
+                ? 'Dr. Sky is drafting this from your conversation...'
+                : form.prefilled
+                  ? 'Drafted from your conversation. Change anything that isn\'t quite right.'
+                  : 'Dr. Sky can start this from what you\'ve talked about.'}
+            </p>
+            {!form.prefilled && (
+              <Button size="sm" variant="outline" onClick={handleDraft} disabled={isDrafting}>
+                <Sparkles className="w-4 h-4 mr-1.5" />
+                Draft It
+              </Button>
+            )}
+          </div>
+        )}
+
+        <ScrollArea className="h-[55vh] pr-4">
+          <div className="space-y-6">
+            <Section step={1} title="Situation" hint="Where were you, who were you with, what happened?">
+              <Textarea
+                value={form.situation}
+                onChange={(e) => update({ situation: e.target.value })}
+                rows={2}
+              />
+            </Section>
+
+            <Section step={2} title="Automatic thought" hint="What went through your mind? Write it the way you thought it.">
+              <Textarea
+                value={form.automaticThought}
+                onChange={(e) => update({ automaticThought: e.target.value })}
+                rows={2}
+              />
+            </Section>
+
+            <Section step={3} title="Emotions" hint="What did you feel, and how strongly, from 0 to 100?">
+              <div className="space-y-3">
+                {form.emotions.map((emotion, index) => (
+                  <div key={index} className="flex items-center gap-3">
+                    <Input
+                      value={emotion.emotion}
+                      onChange={(e) => updateEmotion(index, { emotion: e.target.value })}
+                      placeholder="e.g. anxious"
+                      aria-label="Emotion"
+                      className="w-36"
+                    />
+                    <Slider
+                      min={0}
+                      max={100}
+                      step={5}
+                      value={[emotion.intensity]}
+                      onValueChange={([intensity]) => updateEmotion(index, { intensity })}
+                      className="flex-1"
+                    />
+                    <span className="w-8 text-sm text-slate-600 text-right">{emotion.intensity}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Remove emotion"
+                      onClick={() => update({ emotions: form.emotions.filter((_, i) => i !== index) })}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                {form.emotions.length < MAX_EMOTIONS && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => update({ emotions: [...form.emotions, { emotion: '', intensity: DEFAULT_INTENSITY }] })}
+                  >
+                    <Plus className="w-4 h-4 mr-1.5" />
+                    Add Emotion
+                  </Button>
+                )}
+              </div>
+            </Section>
+
+            <Section step={4} title="Thinking traps" hint="Do any of these fit the thought? Pick as many as apply.">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {DISTORTION_IDS.map(id => {
+                  const { name, description } = COGNITIVE_DISTORTIONS[id];
+                  const isSelected = form.distortions.includes(id);
+                  return (
+                    <button
+                      key={id}
+                      type="button"
+                      aria-pressed={isSelected}
+                      onClick={() => toggleDistortion(id)}
+                      className={`text-left p-3 rounded-xl border transition-colors ${
+                        isSelected
+                          ? 'border-indigo-400 bg-indigo-50/70'
+                          : 'border-slate-200 hover:border-indigo-300 hover:bg-indigo-50/50'
+                      }`}
+                    >
+                      <p className="text-sm font-medium text-slate-900">{name}</p>
+                      <p className="text-xs text-slate-500">{description}</p>
+                    </button>
+                  );
+                })}
+              </div>
+            </Section>
+
+            <Section step={5} title="Evidence" hint="Stick to facts someone else would agree with.">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label htmlFor="evidence-for">Supports the thought</Label>
+                  <Textarea
+                    id="evidence-for"
+                    value={form.evidenceFor}
+                    onChange={(e) => update({ evidenceFor: e.target.value })}
+                    rows={3}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="evidence-against">Doesn't fit the thought</Label>
+                  <Textarea
+                    id="evidence-against"
+                    value={form.evidenceAgainst}
+                    onChange={(e) => update({ evidenceAgainst: e.target.value })}
+                    rows={3}
+                  />
+                </div>
+              </div>
+            </Section>
+
+            <Section step={6} title="Balanced thought" hint="Weighing all the evidence, what's a fairer way to see it?">
+              <Textarea
+                value={form.balancedThought}
+                onChange={(e) => update({ balancedThought: e.target.value })}
+                rows={2}
+              />
+            </Section>
+
+            {namedEmotions.length > 0 && (
+              <Section step={7} title="Re-rate your emotions" hint="How strong is each feeling now?">
+                <div className="space-y-3">
+                  {form.emotions.map((emotion, index) => emotion.emotion.trim() && (
+                    <div key={index} className="flex items-center gap-3">
+                      <span className="w-36 text-sm text-slate-700 truncate">{emotion.emotion}</span>
+                      <Slider
+                        min={0}
+                        max={100}
+                        step={5}
+                        value={[emotion.rerated ?? emotion.intensity]}
+                        onValueChange={([rerated]) => updateEmotion(index, { rerated })}
+                        className="flex-1"
+                      />
+                      <span className="w-16 text-sm text-slate-600 text-right">
+                        {emotion.intensity} → {emotion.rerated ?? emotion.intensity}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </Section>
+            )}
+          </div>
+        </ScrollArea>
+
+        {error && <p className="text-sm text-therapy-accent-error">{error}</p>}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!isComplete || isSaving || isDrafting}>
+            {isSaving ? 'Saving...' : 'Save Record'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ThoughtRecordDialog;
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowRight, NotebookPen, Pencil } from 'lucide-react';
+import ThoughtRecordDialog from '@/components/ThoughtRecordDialog';
+import { getSession } from '@/utils/session';
+import {
+  COGNITIVE_DISTORTIONS,
+  SessionThoughtRecord,
+  ThoughtRecord,
+  loadThoughtRecords,
+  saveThoughtRecord
+} from '@/utils/thoughtRecords';
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const ThoughtRecordHistory: React.FC = () => {
+  const [records, setRecords] = useState<SessionThoughtRecord[]>([]);
+  const [editing, setEditing] = useState<SessionThoughtRecord | null>(null);
+
+  useEffect(() => {
+    loadThoughtRecords().then(setRecords);
+  }, []);
+
+  // Records live on their session, so edits go back through it
+  const handleSave = async (record: ThoughtRecord) => {
+    const { sessionId, ...edited } = record as SessionThoughtRecord;
+    const session = await getSession(sessionId);
+    if (!session) throw new Error(`Session ${sessionId} not found`);
+    await saveThoughtRecord(session, edited);
+    setRecords(await loadThoughtRecords());
+    setEditing(null);
+  };
+
+  return (
+    <Card className="overflow-hidden bg-white hover:shadow-md transition-shadow duration-300">
+      <CardHeader className="space-y-1 sm:space-y-2 bg-gradient-to-r from-indigo-50 to-white border-b border-indigo-100">
+        <div className="flex items-center gap-2 text-indigo-600">
+          <NotebookPen className="w-5 h-5 sm:w-6 sm:h-6" />
+          <CardTitle className="text-lg sm:text-xl font-semibold">Thought Records</CardTitle>
+        </div>
+        <CardDescription className="text-sm sm:text-base text-indigo-600/80">
+          Upsetting thoughts you've examined and the balanced views you found
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6">
+        {records.length > 0 ? (
+          <div className="space-y-4">
+            {records.map(record => (
+              <div key={record.id} className="p-4 rounded-xl border border-indigo-100 bg-indigo-50/30 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-xs text-gray-500">{formatDate(record.createdAt)}</p>
+                    <p className="text-sm text-gray-700">{record.situation}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Edit thought record"
+                    onClick={() => setEditing(record)}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                <p className="font-medium text-gray-900">"{record.automaticThought}"</p>
+
+                {record.distortions.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5">
+                    {record.distortions.map(id => (
+                      <Badge key={id} variant="secondary">{COGNITIVE_DISTORTIONS[id].name}</Badge>
+                    ))}
+                  </div>
+                )}
+
+                {record.balancedThought && (
+                  <div className="flex items-start gap-2 text-sm text-indigo-700">
+                    <ArrowRight className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    <p>{record.balancedThought}</p>
+                  </div>
+                )}
+
+                {record.emotions.length > 0 && (
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+                    {record.emotions.map(emotion => (
+                      <span key={emotion.emotion}>
+                        <span className="capitalize">{emotion.emotion}</span>{' '}
+                        {emotion.intensity}
+                        {emotion.rerated !== undefined && ` → ${emotion.rerated}`}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 bg-gray-50/50 rounded-xl border border-gray-100">
+            <NotebookPen className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+            <p className="text-gray-500 mb-2">No thought records yet</p>
+            <p className="text-sm text-gray-400">Start one from a session when a thought keeps bothering you</p>
+          </div>
+        )}
+      </CardContent>
+
+      <ThoughtRecordDialog
+        open={!!editing}
+        messages={[]}
+        record={editing}
+        onSave={handleSave}
+        onClose={() => setEditing(null)}
+      />
+    </Card>
+  );
+};
+
+export default ThoughtRecordHistory;
@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import { Lock, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { clearClientProfile } from '@/utils/clientMemory';
+import { deleteDatabase, sealPlaintextRecords } from '@/utils/db';
+import {
+  MIN_PASSPHRASE_LENGTH,
+  forgetVault,
+  isVaultConfigured,
+  isVaultUnlocked,
+  onVaultChange,
+  setupVault,
+  touchVault,
+  unlockVault
+} from '@/utils/vault';
+
+interface VaultGateProps {
+  children: React.ReactNode;
+}
+
+// Other values the app keeps in localStorage; the client profile is cleared through clientMemory
+const LOCAL_DATA_KEYS = ['user-profile', 'active-session-id'];
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'scroll', 'touchstart'] as const;
+
+/**
+ * Keeps stored therapy data out of reach until the vault is unlocked: asks for a
+ * new passphrase the first time, the existing one after that, and again
+ * whenever the vault auto-locks.
+ */
+const VaultGate: React.FC<VaultGateProps> = ({ children }) => {
+  const [unlocked, setUnlocked] = useState(isVaultUnlocked);
+  const [configured, setConfigured] = useState(isVaultConfigured);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => onVaultChange(setUnlocked), []);
+
+  useEffect(() => {
+    if (!unlocked) return;
+
+    const handleActivity = () => touchVault();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    };
+  }, [unlocked]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!configured && passphrase !== confirmation) {
+      setError('Passphrases do not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      if (configured) {
+        if (!await unlockVault(passphrase)) {
+          setError('Incorrect passphrase');
+          return;
+        }
+      } else {
+        await setupVault(passphrase);
+        setConfigured(true);
+      }
+      await sealPlaintextRecords();
+      setPassphrase('');
+      setConfirmation('');
+    } catch (error) {
+      console.error('Error unlocking vault:', error);
+      setError(error instanceof Error ? error.message : 'Failed to unlock. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await deleteDatabase();
+      LOCAL_DATA_KEYS.forEach(key => localStorage.removeItem(key));
+      clearClientProfile();
+      forgetVault();
+      setConfigured(false);
+      setPassphrase('');
+      setError(null);
+    } catch (error) {
+      console.error('Error resetting vault:', error);
+      setError('Failed to erase local data. Close other tabs and try again.');
+    }
+  };
+
+  if (unlocked) {
+    return <>{children}</>;
+  }
+
+  return (
+    <div className="min-h-screen bg-therapy-background p-4 flex items-center justify-center">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-md space-y-6 bg-therapy-surface p-6 rounded-xl border border-therapy-border-light/10"
+      >
+        <div className="flex items-center gap-3">
+          {configured ? (
+            <Lock className="h-6 w-6 text-therapy-primary" />
+          ) : (
+            <ShieldCheck className="h-6 w-6 text-therapy-primary" />
+          )}
+          <h1 className="text-2xl font-semibold text-therapy-text-primary">
+            {configured ? 'Unlock Your Sessions' : 'Protect Your Sessions'}
+          </h1>
+        </div>
+
+        <p className="text-sm text-therapy-text-secondary">
+          {configured
+            ? 'Your sessions are encrypted on this device. Enter your passphrase or PIN to continue.'
+            : 'Choose a passphrase or PIN. Everything you share is encrypted on this device with it, so others using this computer cannot read it. It cannot be recovered if forgotten.'}
+        </p>
+
+        <div className="space-y-2">
+          <label htmlFor="passphrase" className="text-sm font-medium text-therapy-text-primary">
+            Passphrase or PIN
+          </label>
+          <Input
+            id="passphrase"
+            type="password"
+            autoComplete={configured ? 'current-password' : 'new-password'}
+            autoFocus
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            required
+            minLength={MIN_PASSPHRASE_LENGTH}
+            className="bg-therapy-card border-therapy-border-light/10 text-therapy-text-primary"
+          />
+        </div>
+
+        {!configured && (
+          <div className="space-y-2">
+            <label htmlFor="confirmation" className="text-sm font-medium text-therapy-text-primary">
+              Confirm passphrase or PIN
+            </label>
+            <Input
+              id="confirmation"
+              type="password"
+              autoComplete="new-password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              required
+              className="bg-therapy-card border-therapy-border-light/10 text-therapy-text-primary"
+            />
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-therapy-accent-error">{error}</p>
+        )}
+
+        <Button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full bg-therapy-primary hover:bg-therapy-primary/90"
+        >
+          {isSubmitting ? 'Unlocking...' : configured ? 'Unlock' : 'Set Passphrase'}
+        </Button>
+
+        {configured && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button type="button" variant="ghost" className="w-full text-therapy-text-muted">
+                Forgot your passphrase?
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Erase data on this device?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Your passphrase can't be recovered. Starting over permanently erases the sessions,
+                  progress and goals stored on this device. Anything already synced to your account
+                  will download again once you set a new passphrase.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleReset}>Erase and Start Over</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default VaultGate;
@@ -2,6 +2,7 @@ import React, { useRef, useEffect, useState } from 'react';
 import { motion, AnimatePresence, useMotionValue } from 'framer-motion';
 import RPMAvatar from '@/components/RPMAvatar';
 import { GripVertical } from 'lucide-react';
+import { FaceExpressionEstimator, FaceExpressionSample } from '@/utils/faceExpression';
 
 interface VideoFeedProps {
   onFrame: (imageData: string) => void;
@@ -10,6 +11,8 @@ interface VideoFeedProps {
   avatarState: 'idle' | 'listening' | 'speaking' | 'thinking';
   onStateChange: (state: 'idle' | 'listening' | 'speaking' | 'thinking') => void;
   speechEvents?: Array<{ type: 'start' | 'end' | 'boundary'; value: string }>;
+  isPaused?: boolean; // Holds the avatar still, e.g. while the crisis panel is open
+  onExpression?: (sample: FaceExpressionSample) => void; // On-device facial expression, once per captured frame
 }
 
 const VideoFeed: React.FC<VideoFeedProps> = ({ 
@@ -18,10 +21,15 @@ const VideoFeed: React.FC<VideoFeedProps> = ({
   isLoading,
   avatarState,
   onStateChange,
-  speechEvents = []
+  speechEvents = [],
+  isPaused = false,
+  onExpression
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const estimatorRef = useRef<FaceExpressionEstimator | null>(null);
+  const onExpressionRef = useRef(onExpression);
+  onExpressionRef.current = onExpression;
   
   // Motion values for position
   const x = useMotionValue(0);
@@ -106,6 +114,27 @@ const VideoFeed: React.FC<VideoFeedProps> = ({
     };
   }, []);
 
+  // Load the face landmark model; frames are still sent to the LLM if this fails
+  useEffect(() => {
+    let isComponentMounted = true;
+
+    FaceExpressionEstimator.create()
+      .then(estimator => {
+        if (isComponentMounted) {
+          estimatorRef.current = estimator;
+        } else {
+          estimator.close();
+        }
+      })
+      .catch(error => console.error('Error loading face expression model:', error));
+
+    return () => {
+      isComponentMounted = false;
+      estimatorRef.current?.close();
+      estimatorRef.current = null;
+    };
+  }, []);
+
   // Handle frame capture
   useEffect(() => {
     const video = videoRef.current;
@@ -114,12 +143,18 @@ const VideoFeed: React.FC<VideoFeedProps> = ({
 
     const captureInterval = setInterval(() => {
       const context = canvas.getContext('2d');
-      if (!context) return;
+      if (!context || !video.videoWidth) return;
 
       canvas.width = video.videoWidth;
       canvas.height = video.videoHeight;
       context.drawImage(video, 0, 0, canvas.width, canvas.height);
 
+      // Estimate expression from the same frame, before it leaves the device
+      const sample = estimatorRef.current?.estimate(canvas);
+      if (sample) {
+        onExpressionRef.current?.(sample);
+      }
+
       const imageData = canvas.toDataURL('image/jpeg', 0.8);
       onFrame(imageData);
     }, 1000); // Capture every second
@@ -146,10 +181,10 @@ const VideoFeed: React.FC<VideoFeedProps> = ({
           <div className="w-full h-full" style={{ maxWidth: '1600px' }}>
             <RPMAvatar 
               avatarUrl="/models/avatar.glb"
-              currentState={avatarState}
-              isSpeaking={avatarState === 'speaking'}
-              speechText={avatarState === 'speaking' ? botResponse : ''}
-              speechEvents={avatarState === 'speaking' ? speechEvents : []}
+              currentState={isPaused ? 'idle' : avatarState}
+              isSpeaking={!isPaused && avatarState === 'speaking'}
+              speechText={!isPaused && avatarState === 'speaking' ? botResponse : ''}
+              speechEvents={!isPaused && avatarState === 'speaking' ? speechEvents : []}
             />
           </div>
         </div>
@@ -8,13 +8,12 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import './VoiceInput.css'; // Import CSS for responsive styles
+import { VoiceProsodyAnalyzer, VoiceProsodySample } from '@/utils/voiceProsody';
+import type { MessageInput } from '@/utils/sessionMetrics';
+import { generateSpeech } from '@/utils/tts';
 
 const MAX_UTTERANCE_LENGTH = 300; // Increased for ElevenLabs
 
-// ElevenLabs configuration - use import.meta.env for Vite/Next.js
-const ELEVENLABS_API_KEY = import.meta.env.VITE_ELEVENLABS_API_KEY || '';
-const VOICE_ID = '56AoDkrOh6qfVPDXZ7Pt'; //56AoDkrOh6qfVPDXZ7Pt
-
 // Add TypeScript interfaces
 interface AudioContextWithWebkit extends AudioContext {
   webkitAudioContext?: AudioContext;
@@ -48,22 +47,34 @@ const splitTextIntoChunks = (text: string): string[] => {
   return chunks;
 };
 
+// Longest prefix of a streamed response that ends on a finished sentence
+const getCompleteSentences = (text: string): string => {
+  const match = text.match(/^[\s\S]*[.!?]+(?=\s)/);
+  return match ? match[0] : '';
+};
+
 interface VoiceInputProps {
-  onTranscript: (text: string) => void;
+  onTranscript: (text: string, input: MessageInput) => void;
   isProcessing: boolean;
   lastResponse?: string;
+  streamingResponse?: string; // Partial response while it is still being generated
   onStateChange?: (state: 'idle' | 'listening' | 'speaking' | 'thinking') => void;
   onSpeechEvent?: (event: { type: 'start' | 'end' | 'boundary' | 'error', value?: string }) => void;
   autoStart?: boolean; // New prop to control auto-start behavior
+  onProsody?: (sample: VoiceProsodySample) => void; // Loudness and pitch while the user is speaking
+  isPaused?: boolean; // Ignores what the microphone hears, e.g. while the crisis panel or a breathing exercise is open
 }
 
 const VoiceInput: React.FC<VoiceInputProps> = ({
   onTranscript,
   isProcessing,
   lastResponse,
+  streamingResponse = '',
   onStateChange,
   onSpeechEvent,
-  autoStart = false // Default to false - don't auto-start
+  autoStart = false, // Default to false - don't auto-start
+  onProsody,
+  isPaused = false
 }) => {
   const [isActive, setIsActive] = useState(autoStart);
   const [currentTranscript, setCurrentTranscript] = useState('');
@@ -73,6 +84,10 @@ const VoiceInput: React.FC<VoiceInputProps> = ({
   const audioQueueRef = useRef<AudioQueueItem[]>([]);
   const currentAudioSourceRef = useRef<AudioBufferSourceNode | null>(null);
   const isSpeakingRef = useRef<boolean>(false);
+  const queuedLengthRef = useRef<number>(0); // Characters of the streamed response already queued
+  const speechStartRef = useRef<number | null>(null); // When the user started the utterance being recognized
+  const onProsodyRef = useRef(onProsody);
+  onProsodyRef.current = onProsody;
 
   // Function to start speech recognition
   const startListening = () => {
@@ -95,6 +110,39 @@ const VoiceInput: React.FC<VoiceInputProps> = ({
     };
   }, []);
 
+  // Analyze the user's voice for the whole voice session, on-device
+  useEffect(() => {
+    if (!isActive) return;
+
+    let analyzer: VoiceProsodyAnalyzer | null = null;
+    let isComponentMounted = true;
+
+    VoiceProsodyAnalyzer.create()
+      .then(created => {
+        if (isComponentMounted) {
+          analyzer = created;
+        } else {
+          created.close();
+        }
+      })
+      .catch(error => console.error('Error starting voice analysis:', error));
+
+    const sampleInterval = setInterval(() => {
+      // Skip while Dr. Sky is talking so the speakers aren't mistaken for the user
+      if (!analyzer || isSpeakingRef.current) return;
+      const sample = analyzer.sample();
+      if (sample) {
+        onProsodyRef.current?.(sample);
+      }
+    }, 1000);
+
+    return () => {
+      isComponentMounted = false;
+      clearInterval(sampleInterval);
+      analyzer?.close();
+    };
+  }, [isActive]);
+
   // Initialize speech recognition
   useEffect(() => {
     if (typeof window !== 'undefined') {
@@ -119,41 +167,6 @@ const VoiceInput: React.FC<VoiceInputProps> = ({
     };
   }, []);
 
-  // ElevenLabs TTS function
-  const generateSpeech = async (text: string): Promise<ArrayBuffer> => {
-    if (!ELEVENLABS_API_KEY) {
-      throw new Error('ElevenLabs API key not found');
-    }
-
-    const response = await fetch(
-      `https://api.elevenlabs.io/v1/text-to-speech/${VOICE_ID}/stream`,
-      {
-        method: 'POST',
-        headers: {
-          'Accept': 'audio/mpeg',
-          'Content-Type': 'application/json',
-          'xi-api-key': ELEVENLABS_API_KEY,
-        },
-        body: JSON.stringify({
-          text,
-          model_id: 'eleven_monolingual_v1',
-          voice_settings: {
-            stability: 0.5,
-            similarity_boost: 0.75,
-            style: 0.5,
-            use_speaker_boost: true
-          }
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error('Failed to generate speech');
-    }
-
-    return await response.arrayBuffer();
-  };
-
   // Function to play audio buffer
   const playAudioBuffer = async (audioBuffer: ArrayBuffer) => {
     if (!audioContextRef.current) return;
@@ -234,14 +247,53 @@ const VoiceInput: React.FC<VoiceInputProps> = ({
     startListeningWithDelay();
   };
 
+  // Effects start the queue through a ref so they always run the latest render's callbacks
+  const processAudioQueueRef = useRef(processAudioQueue);
+  processAudioQueueRef.current = processAudioQueue;
+
+  // A new request starts a new streamed response
+  useEffect(() => {
+    if (isProcessing) {
+      queuedLengthRef.current = 0;
+    }
+  }, [isProcessing]);
+
+  // Speak each finished sentence while the rest of the response is still streaming
+  useEffect(() => {
+    if (!streamingResponse || !isActive) return;
+
+    const completeText = getCompleteSentences(streamingResponse);
+    if (completeText.length <= queuedLengthRef.current) return;
+
+    const newText = completeText.slice(queuedLengthRef.current);
+    queuedLengthRef.current = completeText.length;
+    audioQueueRef.current.push(...splitTextIntoChunks(newText).map(text => ({ text })));
+
+    // Stop listening while speaking
+    if (recognitionRef.current) {
+      recognitionRef.current.stop();
+    }
+
+    processAudioQueueRef.current();
+  }, [streamingResponse, isActive]);
+
   // Handle AI response
   useEffect(() => {
     if (!lastResponse || !isActive || isProcessing) return;
 
-    const textChunks = splitTextIntoChunks(lastResponse);
-    
-    // Reset the queue
-    audioQueueRef.current = textChunks.map(text => ({ text }));
+    const alreadyQueued = queuedLengthRef.current;
+    queuedLengthRef.current = 0;
+
+    if (alreadyQueued > 0) {
+      // Streamed sentences are already queued or playing, so only add the rest
+      const remainder = lastResponse.slice(alreadyQueued).trim();
+      if (remainder) {
+        audioQueueRef.current.push(...splitTextIntoChunks(remainder).map(text => ({ text })));
+      }
+    } else {
+      // Reset the queue
+      audioQueueRef.current = splitTextIntoChunks(lastResponse).map(text => ({ text }));
+    }
     
     // Stop listening while speaking
     if (recognitionRef.current) {
@@ -249,7 +301,7 @@ const VoiceInput: React.FC<VoiceInputProps> = ({
     }
 
     // Start processing the queue
-    processAudioQueue();
+    processAudioQueueRef.current();
 
     return () => {
       // Cleanup
@@ -291,7 +343,15 @@ const VoiceInput: React.FC<VoiceInputProps> = ({
 
     const recognition = recognitionRef.current;
 
+    recognition.onspeechstart = () => {
+      speechStartRef.current = performance.now();
+    };
+
     recognition.onresult = (event) => {
+      if (speechStartRef.current === null) {
+        speechStartRef.current = performance.now();
+      }
+
       const transcript = Array.from(event.results)
         .map((result: any) => result[0].transcript)
         .join(' ');
@@ -300,8 +360,12 @@ const VoiceInput: React.FC<VoiceInputProps> = ({
       setCurrentTranscript(transcript);
       
       // Only send final results to the AI if we're not speaking
-      if (event.results[0].isFinal && transcript.trim() && !isSpeaking) {
-        onTranscript(transcript.trim());
+      if (event.results[0].isFinal && transcript.trim() && !isSpeaking && !isPaused) {
+        onTranscript(transcript.trim(), {
+          mode: 'voice',
+          speakingMs: Math.round(performance.now() - speechStartRef.current)
+        });
+        speechStartRef.current = null;
         setCurrentTranscript('');
         onStateChange?.('thinking');
       }
@@ -317,12 +381,13 @@ const VoiceInput: React.FC<VoiceInputProps> = ({
 
     recognition.onerror = (event) => {
       console.error('Recognition error:', event.error);
+      speechStartRef.current = null;
       if (event.error === 'not-allowed') {
         setIsActive(false);
       }
       setCurrentTranscript('');
     };
-  }, [isActive, isProcessing, onTranscript, onStateChange, isSpeaking]);
+  }, [isActive, isProcessing, onTranscript, onStateChange, isSpeaking, isPaused]);
 
   return (
     <div className="relative">
@@ -6,6 +6,7 @@ import {
   LayoutDashboard,
   MessageSquare,
   LineChart,
+  ListChecks,
   Settings,
   HelpCircle,
   Menu,
@@ -26,9 +27,10 @@ const AppLayout = ({ children }: AppLayoutProps) => {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = React.useState(false);
 
   const navigationItems = [
-    { icon: LayoutDashboard, label: 'Dashboard', path: '/' },
+    { icon: LayoutDashboard, label: 'Dashboard', path: '/dashboard' },
     { icon: MessageSquare, label: 'Therapy', path: '/therapy' },
     { icon: LineChart, label: 'Progress', path: '/progress' },
+    { icon: ListChecks, label: 'Routine', path: '/routine' },
     { icon: HelpCircle, label: 'Feedback', path: '/feedback' },
   ];
 
@@ -1,9 +1,14 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { Heart, Menu } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/use-auth';
 
 const Header = () => {
+  const navigate = useNavigate();
+  const { user, profile } = useAuth();
+
   return (
     <motion.header
       initial={{ y: -20, opacity: 0 }}
@@ -29,8 +34,12 @@ const Header = () => {
         </nav>
 
         <div className="flex items-center gap-4">
-          <Button variant="ghost" className="text-gray-600 hover:text-primary hidden md:flex">
-            Sign In
+          <Button
+            variant="ghost"
+            onClick={() => navigate(user ? '/profile' : '/auth')}
+            className="text-gray-600 hover:text-primary hidden md:flex"
+          >
+            {user ? profile?.displayName || 'Account' : 'Sign In'}
           </Button>
           <Button className="bg-primary text-white hover:bg-primary/90 hidden md:flex">
             Get Started
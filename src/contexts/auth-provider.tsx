@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import { AuthProviderContext, AuthProviderState } from "@/hooks/use-auth";
+import { supabase } from "@/lib/supabase";
+import { syncWithCloud } from "@/utils/cloudSync";
+import { lockVault, onVaultChange } from "@/utils/vault";
+import {
+  UserProfile,
+  cacheUserProfile,
+  createDefaultProfile,
+  fetchUserProfile,
+  getCachedUserProfile,
+  saveUserProfile
+} from "@/utils/userProfile";
+
+type AuthProviderProps = {
+  children: React.ReactNode;
+};
+
+// Magic links and confirmation emails bring the user back into the app
+const redirectUrl = () => `${window.location.origin}/therapy`;
+
+const loadProfile = async (user: User): Promise<UserProfile> => {
+  try {
+    const profile = await fetchUserProfile(user.id);
+    if (profile) {
+      await cacheUserProfile(profile);
+      return profile;
+    }
+    return await saveUserProfile(createDefaultProfile(user.id));
+  } catch (error) {
+    console.error('Error loading user profile:', error);
+    const cached = await getCachedUserProfile();
+    return cached?.id === user.id ? cached : createDefaultProfile(user.id);
+  }
+};
+
+export function AuthProvider({ children }: AuthProviderProps) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const handleSession = async (next: Session | null) => {
+      if (!isMounted) return;
+      setSession(next);
+
+      if (next?.user) {
+        const nextProfile = await loadProfile(next.user);
+        if (isMounted) setProfile(nextProfile);
+        syncWithCloud();
+      } else {
+        cacheUserProfile(null);
+        setProfile(null);
+      }
+      if (isMounted) setLoading(false);
+    };
+
+    supabase.auth.getSession().then(({ data }) => handleSession(data.session));
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, next) => {
+      // The initial session is handled above; token refreshes don't change who is signed in
+      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT' || event === 'USER_UPDATED') {
+        handleSession(next);
+      }
+    });
+
+    return () => {
+      isMounted = false;
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    // A profile loaded while the vault was locked couldn't be cached yet
+    return onVaultChange(unlocked => {
+      if (unlocked && profile) {
+        cacheUserProfile(profile);
+        syncWithCloud();
+      }
+    });
+  }, [profile]);
+
+  const value: AuthProviderState = {
+    session,
+    user: session?.user ?? null,
+    profile,
+    loading,
+    signInWithPassword: async (email, password) => {
+      const { error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error) throw error;
+    },
+    signUpWithPassword: async (email, password) => {
+      const { error } = await supabase.auth.signUp({
+        email,
+        password,
+        options: { emailRedirectTo: redirectUrl() }
+      });
+      if (error) throw error;
+    },
+    signInWithMagicLink: async email => {
+      const { error } = await supabase.auth.signInWithOtp({
+        email,
+        options: { emailRedirectTo: redirectUrl() }
+      });
+      if (error) throw error;
+    },
+    signOut: async () => {
+      // Push anything recorded since the last sync before the session goes away
+      await syncWithCloud();
+      const { error } = await supabase.auth.signOut();
+      if (error) throw error;
+      lockVault();
+    },
+    updateProfile: async updates => {
+      if (!profile) throw new Error('Not signed in');
+      setProfile(await saveUserProfile({ ...profile, ...updates }));
+    }
+  };
+
+  return (
+    <AuthProviderContext.Provider value={value}>
+      {children}
+    </AuthProviderContext.Provider>
+  );
+}
@@ -0,0 +1,26 @@
+import { createContext, useContext } from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import type { UserProfile } from "@/utils/userProfile";
+
+export type AuthProviderState = {
+  session: Session | null;
+  user: User | null;
+  profile: UserProfile | null;
+  loading: boolean;
+  signInWithPassword: (email: string, password: string) => Promise<void>;
+  signUpWithPassword: (email: string, password: string) => Promise<void>;
+  signInWithMagicLink: (email: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  updateProfile: (updates: Partial<Omit<UserProfile, 'id' | 'updatedAt'>>) => Promise<void>;
+};
+
+export const AuthProviderContext = createContext<AuthProviderState | undefined>(undefined);
+
+export const useAuth = () => {
+  const context = useContext(AuthProviderContext);
+
+  if (context === undefined)
+    throw new Error("useAuth must be used within an AuthProvider");
+
+  return context;
+};
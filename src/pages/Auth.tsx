@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { Navigate, useLocation, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Mail } from "lucide-react";
+
+const Auth = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+  const { user, signInWithPassword, signUpWithPassword, signInWithMagicLink } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+
+  const from = (location.state as { from?: string } | null)?.from || "/therapy";
+
+  if (user) {
+    return <Navigate to={from} replace />;
+  }
+
+  const submit = async (action: () => Promise<void>, successMessage?: string) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+      if (successMessage) {
+        toast({
+          title: "Check your email",
+          description: successMessage,
+        });
+      }
+    } catch (error) {
+      console.error("Error signing in:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to sign in. Please try again.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const emailField = (
+    <div className="space-y-2">
+      <label htmlFor="email" className="text-sm font-medium text-therapy-text-primary">
+        Email
+      </label>
+      <Input
+        id="email"
+        type="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        required
+        className="bg-therapy-card border-therapy-border-light/10 text-therapy-text-primary"
+      />
+    </div>
+  );
+
+  const passwordField = (
+    <div className="space-y-2">
+      <label htmlFor="password" className="text-sm font-medium text-therapy-text-primary">
+        Password
+      </label>
+      <Input
+        id="password"
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        required
+        minLength={8}
+        className="bg-therapy-card border-therapy-border-light/10 text-therapy-text-primary"
+      />
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-therapy-background p-4">
+      <div className="max-w-md mx-auto space-y-6">
+        <div className="flex items-center gap-4 mb-8">
+          <Button
+            variant="ghost"
+            onClick={() => navigate("/")}
+            className="text-therapy-text-primary"
+          >
+            ← Back
+          </Button>
+          <h1 className="text-2xl font-semibold text-therapy-text-primary">Sign In</h1>
+        </div>
+
+        <Tabs defaultValue="sign-in" className="bg-therapy-surface p-6 rounded-xl border border-therapy-border-light/10">
+          <TabsList className="grid w-full grid-cols-3 mb-6">
+            <TabsTrigger value="sign-in">Sign In</TabsTrigger>
+            <TabsTrigger value="sign-up">Sign Up</TabsTrigger>
+            <TabsTrigger value="magic-link">Magic Link</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="sign-in">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                submit(() => signInWithPassword(email, password));
+              }}
+              className="space-y-6"
+            >
+              {emailField}
+              {passwordField}
+              <Button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full bg-therapy-primary hover:bg-therapy-primary/90"
+              >
+                {isSubmitting ? "Signing in..." : "Sign In"}
+              </Button>
+            </form>
+          </TabsContent>
+
+          <TabsContent value="sign-up">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                submit(
+                  () => signUpWithPassword(email, password),
+                  "We sent you a link to confirm your account."
+                );
+              }}
+              className="space-y-6"
+            >
+              {emailField}
+              {passwordField}
+              <Button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full bg-therapy-primary hover:bg-therapy-primary/90"
+              >
+                {isSubmitting ? "Creating account..." : "Create Account"}
+              </Button>
+            </form>
+          </TabsContent>
+
+          <TabsContent value="magic-link">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                submit(
+                  () => signInWithMagicLink(email),
+                  "We sent you a link to sign in."
+                );
+              }}
+              className="space-y-6"
+            >
+              {emailField}
+              <Button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full bg-therapy-primary hover:bg-therapy-primary/90"
+              >
+                <Mail className="mr-2 h-4 w-4" />
+                {isSubmitting ? "Sending..." : "Email Me a Link"}
+              </Button>
+            </form>
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+};
+
+export default Auth;
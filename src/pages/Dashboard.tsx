@@ -10,21 +10,18 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
-  Brain,
   Target,
   TrendingUp,
   Activity,
-  Heart,
   Calendar,
   Clock,
   MessageCircle,
   BarChart2,
   ArrowRight,
+  ListChecks,
   Sparkles
 } from 'lucide-react';
 import {
-  AreaChart,
-  Area,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -32,62 +29,78 @@ import {
   ResponsiveContainer,
   LineChart,
   Line,
+  Legend,
   PieChart,
   Pie,
   Cell
 } from 'recharts';
-import { ProgressTracker } from '@/utils/progressTracking';
-import { ContentRecommender } from '@/utils/contentRecommender';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { loadProgressHistory, ProgressData } from '@/utils/progressTracking';
+import { loadGoals } from '@/utils/goals';
+import { loadAllEmotionSamples, loadSessions, Session } from '@/utils/session';
+import type { EmotionSampleRecord, GoalRecord, RoutineDayRecord, RoutineSlotRecord } from '@/utils/db';
+import { getRoutineAdherence, loadRoutine, loadRoutineDays } from '@/utils/routines';
+import {
+  DATE_RANGES,
+  DateRange,
+  buildEmotionTrends,
+  compareWeeks,
+  filterSamplesByRange,
+  filterSessionsByRange,
+  getRangeStart,
+  getSessionDurationMinutes,
+  getSessionStreakDays,
+  getTopEmotions
+} from '@/utils/sessionAnalytics';
+
+const EMOTION_COLORS: Record<string, string> = {
+  joy: '#10B981',
+  sadness: '#6366F1',
+  anger: '#EF4444',
+  fear: '#F59E0B',
+  surprise: '#8B5CF6',
+  love: '#EC4899',
+  gratitude: '#14B8A6',
+  hope: '#0EA5E9',
+  neutral: '#6B7280'
+};
+
+const formatDelta = (current: number | null, previous: number | null, unit = '') => {
+  if (current === null || previous === null) return null;
+  const delta = current - previous;
+  if (delta === 0) return 'No change';
+  return `${delta > 0 ? '+' : ''}${delta}${unit} vs last week`;
+};
 
-interface DashboardProps {
-  apiKey: string;
-}
+const WeekStat: React.FC<{
+  label: string;
+  current: string;
+  delta: string | null;
+}> = ({ label, current, delta }) => (
+  <div className="p-4 rounded-lg border border-gray-100 bg-gray-50/50">
+    <p className="text-sm text-gray-600">{label}</p>
+    <p className="text-xl font-bold text-gray-900 mt-1">{current}</p>
+    <p className="text-xs text-gray-500 mt-1">{delta || 'No data last week'}</p>
+  </div>
+);
 
-const Dashboard: React.FC<DashboardProps> = ({ apiKey }) => {
+const Dashboard: React.FC = () => {
   const navigate = useNavigate();
   const [isLoading, setIsLoading] = React.useState(true);
   const [error, setError] = React.useState<string | null>(null);
-  const [analyticsData, setAnalyticsData] = React.useState<{
-    sessionCount: number;
-    totalDuration: number;
-    averageEngagement: number;
-    lastSessionDate: string;
-    emotionalProgress: any[];
-    goalCompletion: {
-      achieved: number;
-      inProgress: number;
-      notStarted: number;
-    };
-    topEmotions: Array<{
-      emotion: string;
-      percentage: number;
-    }>;
-    recentSessions: Array<{
-      date: string;
-      summary: string;
-      duration: number;
-      emotions: string[];
-    }>;
-    recommendedContent: Array<{
-      title: string;
-      category: string;
-      relevance: number;
-    }>;
-  }>({
-    sessionCount: 0,
-    totalDuration: 0,
-    averageEngagement: 0,
-    lastSessionDate: '',
-    emotionalProgress: [],
-    goalCompletion: {
-      achieved: 0,
-      inProgress: 0,
-      notStarted: 0
-    },
-    topEmotions: [],
-    recentSessions: [],
-    recommendedContent: []
-  });
+  const [range, setRange] = React.useState<DateRange>('30d');
+  const [sessions, setSessions] = React.useState<Session[]>([]);
+  const [samples, setSamples] = React.useState<EmotionSampleRecord[]>([]);
+  const [progressHistory, setProgressHistory] = React.useState<ProgressData[]>([]);
+  const [goals, setGoals] = React.useState<GoalRecord[]>([]);
+  const [routineSlots, setRoutineSlots] = React.useState<RoutineSlotRecord[]>([]);
+  const [routineDays, setRoutineDays] = React.useState<RoutineDayRecord[]>([]);
 
   React.useEffect(() => {
     const loadDashboardData = async () => {
@@ -95,105 +108,22 @@ const Dashboard: React.FC<DashboardProps> = ({ apiKey }) => {
         setIsLoading(true);
         setError(null);
 
-        const progressTracker = new ProgressTracker(apiKey);
-        const contentRecommender = new ContentRecommender(apiKey);
-
-        // Get progress history
-        const progressHistory = await progressTracker.getProgressHistory();
-
-        if (progressHistory.length === 0) {
-          setAnalyticsData({
-            sessionCount: 0,
-            totalDuration: 0,
-            averageEngagement: 0,
-            lastSessionDate: '',
-            emotionalProgress: [],
-            goalCompletion: {
-              achieved: 0,
-              inProgress: 0,
-              notStarted: 0
-            },
-            topEmotions: [],
-            recentSessions: [],
-            recommendedContent: []
-          });
-          setIsLoading(false);
-          return;
-        }
-
-        // Calculate session statistics
-        const sessionCount = progressHistory.length;
-        const lastSessionDate = new Date(progressHistory[progressHistory.length - 1].timestamp)
-          .toLocaleDateString('en-US', {
-            year: 'numeric',
-            month: 'long',
-            day: 'numeric'
-          });
-
-        // Calculate goal completion stats
-        const goalCompletion = progressHistory.reduce((acc, session) => {
-          session.goals.forEach(goal => {
-            if (goal.status === 'achieved') acc.achieved++;
-            else if (goal.status === 'in-progress') acc.inProgress++;
-            else acc.notStarted++;
-          });
-          return acc;
-        }, { achieved: 0, inProgress: 0, notStarted: 0 });
-
-        // Calculate emotional progress
-        const emotionalProgress = progressHistory.map(session => ({
-          date: new Date(session.timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-          engagement: session.emotionalJourney.engagementLevel[0] || 0,
-          positivity: session.emotionalJourney.emotions.reduce((sum, e) => sum + (e.value > 0 ? e.value : 0), 0) / 
-            session.emotionalJourney.emotions.length || 0
-        }));
-
-        // Get top emotions
-        const emotionCounts: { [key: string]: number } = {};
-        progressHistory.forEach(session => {
-          session.emotionalJourney.dominantEmotions.forEach(emotion => {
-            emotionCounts[emotion.emotion] = (emotionCounts[emotion.emotion] || 0) + emotion.percentage;
-          });
-        });
-
-        const topEmotions = Object.entries(emotionCounts)
-          .map(([emotion, count]) => ({
-            emotion,
-            percentage: Math.round(count / progressHistory.length)
-          }))
-          .sort((a, b) => b.percentage - a.percentage)
-          .slice(0, 5);
-
-        // Get recent sessions
-        const recentSessions = progressHistory
-          .slice(-5)
-          .reverse()
-          .map(session => ({
-            date: new Date(session.timestamp).toLocaleDateString('en-US', {
-              month: 'short',
-              day: 'numeric',
-              year: 'numeric'
-            }),
-            summary: session.sessionSummary,
-            duration: 30, // This would need to be tracked in the actual sessions
-            emotions: session.emotionalJourney.dominantEmotions
-              .slice(0, 3)
-              .map(e => e.emotion)
-          }));
-
-        setAnalyticsData({
-          sessionCount,
-          totalDuration: sessionCount * 30, // Assuming 30 minutes per session
-          averageEngagement: progressHistory.reduce((sum, session) => 
-            sum + (session.emotionalJourney.engagementLevel[0] || 0), 0) / sessionCount,
-          lastSessionDate,
-          emotionalProgress,
-          goalCompletion,
-          topEmotions,
-          recentSessions,
-          recommendedContent: [] // This would be populated from ContentRecommender
-        });
+        const [storedSessions, storedSamples, history, storedGoals, storedSlots, storedDays] = await Promise.all([
+          loadSessions(),
+          loadAllEmotionSamples(),
+          loadProgressHistory(),
+          loadGoals(),
+          loadRoutine(),
+          loadRoutineDays()
+        ]);
 
+        setSessions(storedSessions.filter(session => session.messages.length > 0));
+        // Face and voice samples are already folded into the fused ones
+        setSamples(storedSamples.filter(sample => sample.source === 'fused'));
+        setProgressHistory(history);
+        setGoals(storedGoals);
+        setRoutineSlots(storedSlots);
+        setRoutineDays(storedDays);
       } catch (error) {
         console.error('Error loading dashboard data:', error);
         setError('Failed to load dashboard data. Please try again.');
@@ -203,16 +133,81 @@ const Dashboard: React.FC<DashboardProps> = ({ apiKey }) => {
     };
 
     loadDashboardData();
-  }, [apiKey]);
+  }, []);
+
+  const analyticsData = React.useMemo(() => {
+    const rangeStart = getRangeStart(range);
+    const rangeSessions = filterSessionsByRange(sessions, rangeStart)
+      .sort((a, b) => a.startTime.localeCompare(b.startTime));
+    const rangeSamples = filterSamplesByRange(samples, rangeStart);
+    const rangeHistory = progressHistory.filter(entry =>
+      !rangeStart || new Date(entry.timestamp) >= rangeStart);
+
+    const topEmotions = getTopEmotions(rangeSamples);
+    const lastSession = sessions.reduce<Session | null>((latest, session) =>
+      !latest || session.startTime > latest.startTime ? session : latest, null);
+
+    // Progress entries are written when a session ends, so each one belongs
+    // to the latest session that started before it
+    const summaryFor = (session: Session) => {
+      const next = sessions.find(other => other.startTime > session.startTime);
+      return progressHistory.find(entry =>
+        entry.timestamp >= session.startTime && (!next || entry.timestamp < next.startTime)
+      )?.sessionSummary;
+    };
 
-  const EMOTION_COLORS = {
-    joy: '#10B981',
-    sadness: '#6366F1',
-    anger: '#EF4444',
-    fear: '#F59E0B',
-    surprise: '#8B5CF6',
-    neutral: '#6B7280'
-  };
+    const recentSessions = rangeSessions
+      .slice(-5)
+      .reverse()
+      .map(session => ({
+        id: session.id,
+        date: new Date(session.startTime).toLocaleDateString('en-US', {
+          month: 'short',
+          day: 'numeric',
+          year: 'numeric'
+        }),
+        summary: summaryFor(session) || session.messages.find(m => m.role === 'user')?.content || '',
+        duration: getSessionDurationMinutes(session),
+        emotions: getTopEmotions(samples.filter(sample => sample.sessionId === session.id), 3)
+          .map(e => e.emotion)
+      }));
+
+    return {
+      sessionCount: rangeSessions.length,
+      totalDuration: rangeSessions.reduce((sum, session) => sum + getSessionDurationMinutes(session), 0),
+      averageEngagement: rangeHistory.length > 0
+        ? rangeHistory.reduce((sum, entry) => sum + (entry.emotionalJourney.engagementLevel[0] || 0), 0) / rangeHistory.length
+        : 0,
+      lastSessionDate: lastSession
+        ? new Date(lastSession.startTime).toLocaleDateString('en-US', {
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric'
+          })
+        : '',
+      emotionTrends: buildEmotionTrends(rangeSamples, topEmotions.map(e => e.emotion), DATE_RANGES[range].days),
+      goalCompletion: {
+        achieved: goals.filter(goal => goal.status === 'achieved').length,
+        inProgress: goals.filter(goal => goal.status === 'in-progress').length,
+        notStarted: goals.filter(goal => goal.status === 'not-started').length
+      },
+      topEmotions,
+      recentSessions,
+      weekComparison: compareWeeks(sessions, samples),
+      streak: getSessionStreakDays(sessions)
+    };
+  }, [range, sessions, samples, progressHistory, goals]);
+
+  const { thisWeek, lastWeek } = analyticsData.weekComparison;
+
+  const routineAdherence = React.useMemo(() => {
+    const weekAgo = new Date();
+    weekAgo.setDate(weekAgo.getDate() - 7);
+    return {
+      thisWeek: getRoutineAdherence(routineSlots, routineDays, 7),
+      lastWeek: getRoutineAdherence(routineSlots, routineDays, 7, weekAgo)
+    };
+  }, [routineSlots, routineDays]);
 
   if (isLoading) {
     return (
@@ -234,9 +229,21 @@ const Dashboard: React.FC<DashboardProps> = ({ apiKey }) => {
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="container mx-auto px-4">
-        <div className="mb-8">
-          <h1 className="text-2xl font-bold text-gray-900 mb-2">Therapy Journey Dashboard</h1>
-          <p className="text-gray-600">Track your progress and insights from therapy sessions</p>
+        <div className="mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Therapy Journey Dashboard</h1>
+            <p className="text-gray-600">Track your progress and insights from therapy sessions</p>
+          </div>
+          <Select value={range} onValueChange={(value) => setRange(value as DateRange)}>
+            <SelectTrigger className="w-[160px] bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DATE_RANGES) as DateRange[]).map(key => (
+                <SelectItem key={key} value={key}>{DATE_RANGES[key].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
 
         {/* Quick Stats */}
@@ -326,34 +333,112 @@ const Dashboard: React.FC<DashboardProps> = ({ apiKey }) => {
           </Card>
         </div>
 
+        {/* Week over Week */}
+        <Card className="bg-white mb-8">
+          <CardHeader>
+            <CardTitle>This Week</CardTitle>
+            <CardDescription>The last 7 days compared with the 7 days before</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              <WeekStat
+                label="Sessions"
+                current={String(thisWeek.sessions)}
+                delta={formatDelta(thisWeek.sessions, lastWeek.sessions)}
+              />
+              <WeekStat
+                label="Time in session"
+                current={`${thisWeek.minutes} min`}
+                delta={formatDelta(thisWeek.minutes, lastWeek.minutes, ' min')}
+              />
+              <WeekStat
+                label="Positive emotions"
+                current={thisWeek.positiveShare !== null ? `${thisWeek.positiveShare}%` : '—'}
+                delta={formatDelta(thisWeek.positiveShare, lastWeek.positiveShare, ' pts')}
+              />
+              <WeekStat
+                label="Most frequent emotion"
+                current={thisWeek.topEmotion || '—'}
+                delta={lastWeek.topEmotion ? `Last week: ${lastWeek.topEmotion}` : null}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Routine Adherence */}
+        {routineSlots.length > 0 && (
+          <Card className="bg-white mb-8">
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Routine</CardTitle>
+                <CardDescription>How much of your daily routine you completed over the last 7 days</CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => navigate('/routine')}>
+                <ListChecks className="w-4 h-4 mr-2" />
+                Today's Checklist
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                <WeekStat
+                  label="Completed"
+                  current={routineAdherence.thisWeek.rate !== null ? `${routineAdherence.thisWeek.rate}%` : '—'}
+                  delta={formatDelta(routineAdherence.thisWeek.rate, routineAdherence.lastWeek.rate, ' pts')}
+                />
+                <WeekStat
+                  label="Routine streak"
+                  current={`${routineAdherence.thisWeek.streak} ${routineAdherence.thisWeek.streak === 1 ? 'day' : 'days'}`}
+                  delta="Days in a row with every item done"
+                />
+                <div className="p-4 rounded-lg border border-gray-100 bg-gray-50/50">
+                  <p className="text-sm text-gray-600 mb-2">By day</p>
+                  <div className="flex items-end gap-1 h-16">
+                    {routineAdherence.thisWeek.days.map(day => (
+                      <div
+                        key={day.date}
+                        className="flex-1 bg-gray-200 rounded-sm flex items-end h-full"
+                        title={`${day.date}: ${Math.min(day.completed, day.planned)} of ${day.planned}`}
+                      >
+                        <div
+                          className="w-full bg-indigo-500 rounded-sm"
+                          style={{ height: `${day.planned > 0 ? Math.min(day.completed / day.planned, 1) * 100 : 0}%` }}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Charts Section */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
           {/* Emotional Progress Chart */}
           <Card className="bg-white">
             <CardHeader>
-              <CardTitle>Emotional Progress</CardTitle>
-              <CardDescription>Track your emotional journey over time</CardDescription>
+              <CardTitle>Emotional Trends</CardTitle>
+              <CardDescription>Share of each emotion across your sessions over time</CardDescription>
             </CardHeader>
             <CardContent>
               <div className="h-[300px]">
                 <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={analyticsData.emotionalProgress}>
+                  <LineChart data={analyticsData.emotionTrends}>
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis dataKey="date" />
-                    <YAxis />
-                    <Tooltip />
-                    <Line
-                      type="monotone"
-                      dataKey="engagement"
-                      stroke="#6366F1"
-                      name="Engagement"
-                    />
-                    <Line
-                      type="monotone"
-                      dataKey="positivity"
-                      stroke="#10B981"
-                      name="Positivity"
-                    />
+                    <YAxis domain={[0, 100]} unit="%" />
+                    <Tooltip formatter={(value: number) => `${value}%`} />
+                    <Legend />
+                    {analyticsData.topEmotions.map(({ emotion }) => (
+                      <Line
+                        key={emotion}
+                        type="monotone"
+                        dataKey={emotion}
+                        stroke={EMOTION_COLORS[emotion] || '#6B7280'}
+                        name={emotion}
+                        dot={false}
+                      />
+                    ))}
                   </LineChart>
                 </ResponsiveContainer>
               </div>
@@ -382,7 +467,7 @@ const Dashboard: React.FC<DashboardProps> = ({ apiKey }) => {
                       {analyticsData.topEmotions.map((entry, index) => (
                         <Cell 
                           key={`cell-${index}`} 
-                          fill={EMOTION_COLORS[entry.emotion as keyof typeof EMOTION_COLORS] || '#6B7280'} 
+                          fill={EMOTION_COLORS[entry.emotion] || '#6B7280'} 
                         />
                       ))}
                     </Pie>
@@ -404,9 +489,12 @@ const Dashboard: React.FC<DashboardProps> = ({ apiKey }) => {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {analyticsData.recentSessions.map((session, index) => (
+                  {analyticsData.recentSessions.length === 0 && (
+                    <p className="text-sm text-gray-500">No sessions in this period</p>
+                  )}
+                  {analyticsData.recentSessions.map((session) => (
                     <div 
-                      key={index}
+                      key={session.id}
                       className="p-4 rounded-lg border border-gray-100 hover:border-blue-100 
                         transition-colors bg-white"
             >
@@ -470,7 +558,7 @@ const Dashboard: React.FC<DashboardProps> = ({ apiKey }) => {
                 <Button
                   className="w-full justify-between"
                   variant="outline"
-                  onClick={() => navigate('/goals')}
+                  onClick={() => navigate('/progress')}
                 >
                   <span className="flex items-center">
                     <Target className="w-4 h-4 mr-2" />
@@ -487,10 +575,10 @@ const Dashboard: React.FC<DashboardProps> = ({ apiKey }) => {
                   <Sparkles className="w-5 h-5 text-blue-500" />
       </div>
                 <p className="text-2xl font-bold text-blue-600">
-                  {Math.min(analyticsData.sessionCount, 7)} Days
+                  {analyticsData.streak} {analyticsData.streak === 1 ? 'Day' : 'Days'}
                 </p>
                 <p className="text-sm text-blue-600 mt-1">
-                  Keep up the great work!
+                  {analyticsData.streak > 0 ? 'Keep up the great work!' : 'Start a session today to begin a streak'}
                 </p>
               </div>
             </CardContent>
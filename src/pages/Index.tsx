@@ -1,33 +1,135 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import FlexibleLayout from '@/components/FlexibleLayout';
 import EmotionalDashboard from '@/components/EmotionalDashboard';
-import { getTherapyResponse, initializeGemini, analyzeEmotion } from '@/utils/gemini';
+import CrisisPanel from '@/components/CrisisPanel';
+import SessionHistory from '@/components/SessionHistory';
+import QuestionnaireDialog from '@/components/QuestionnaireDialog';
+import BreathingExercise from '@/components/BreathingExercise';
+import ThoughtRecordDialog from '@/components/ThoughtRecordDialog';
+import { useToast } from '@/components/ui/use-toast';
+import { getTherapyResponse, initializeGemini, recordRiskEvent } from '@/utils/gemini';
+import { analyzeEmotion } from '@/utils/emotionAnalysis';
+import type { FaceExpressionSample } from '@/utils/faceExpression';
+import type { VoiceProsodySample } from '@/utils/voiceProsody';
+import { FUSION_WINDOW_MS, fuseEmotions } from '@/utils/emotionFusion';
+import { getLLMProvider, isLLMConfigured } from '@/utils/llmProvider';
+import { syncWithCloud } from '@/utils/cloudSync';
+import { AssessmentTiming, getDueQuestionnaires, loadAssessments } from '@/utils/assessments';
+import type { MessageInput } from '@/utils/sessionMetrics';
+import type { BreathingPatternId } from '@/utils/breathing';
+import type { BreathingExerciseRecord } from '@/utils/db';
+import { ThoughtRecord, saveThoughtRecord } from '@/utils/thoughtRecords';
+import {
+  RiskAssessment,
+  assessRiskLexically,
+  classifyRiskWithLLM,
+  combineRiskAssessments,
+  isCrisisLevel,
+  isLLMRiskCheckEnabled
+} from '@/utils/riskClassifier';
+import {
+  Session,
+  createSession,
+  endSession,
+  loadEmotionSamples,
+  restoreActiveSession,
+  resumeSession,
+  saveEmotionSample,
+  saveSession,
+  setActiveSessionId
+} from '@/utils/session';
+
+// Ten minutes of once-a-second face samples keeps the timeline chart responsive
+const MAX_FACE_SAMPLES = 600;
+
+const CRISIS_RESPONSE = "I'm really glad you told me. Your safety matters most right now, so I've opened some people you can reach immediately. I'm still here with you.";
 
 interface EmotionData {
   timestamp: string;
   emotion: string;
   intensity: number;
+  confidence?: number;
+  valence?: number;
+  arousal?: number;
+  source?: 'fused' | 'face';
+  incongruence?: string;
   trigger?: string;
   recommendation?: string;
 }
 
+const toChatMessages = (session: Session) =>
+  session.messages.map(message => ({ text: message.content, isUser: message.role === 'user' }));
+
+const createInitialSessionData = (): EmotionData[] => [{
+  timestamp: new Date().toLocaleTimeString(),
+  emotion: 'neutral',
+  intensity: 50
+}];
+
+// Rebuilds the dashboard timeline for a resumed session
+const loadSessionData = async (sessionId: string): Promise<EmotionData[]> => {
+  const samples = await loadEmotionSamples(sessionId);
+  return [
+    ...createInitialSessionData(),
+    ...samples
+      .filter(sample => sample.source !== 'voice')
+      .slice(-MAX_FACE_SAMPLES)
+      .map(({ id, sessionId, timestamp, source, ...sample }) => ({
+        ...sample,
+        timestamp: new Date(timestamp).toLocaleTimeString(),
+        source: source as EmotionData['source']
+      }))
+  ];
+};
+
 const Index = () => {
-  const [messages, setMessages] = useState<Array<{ text: string; isUser: boolean }>>([]);
+  const { toast } = useToast();
+
+  // The active session is mutated in place by the therapy flow and saved after each exchange.
+  // Empty sessions aren't persisted; the first message makes a session active.
+  const [session, setSession] = useState<Session>(createSession);
+  const [showHistory, setShowHistory] = useState(false);
+  const [messages, setMessages] = useState<Array<{ text: string; isUser: boolean }>>(() => toChatMessages(session));
   const [isProcessing, setIsProcessing] = useState(false);
   const [lastResponse, setLastResponse] = useState<string>();
+  const [streamingResponse, setStreamingResponse] = useState('');
   const [lastFrame, setLastFrame] = useState<string>("");
+  const [crisisAssessment, setCrisisAssessment] = useState<RiskAssessment | null>(null);
+  const [checkInTiming, setCheckInTiming] = useState<AssessmentTiming | null>(null);
+  const [breathing, setBreathing] = useState<{ patternId: BreathingPatternId; source: BreathingExerciseRecord['source'] } | null>(null);
+  const [thoughtRecord, setThoughtRecord] = useState<{ autoPrefill: boolean } | null>(null);
   const [conversationState, setConversationState] = useState<'idle' | 'listening' | 'speaking' | 'thinking'>('idle');
-  const [sessionData, setSessionData] = useState<EmotionData[]>([{
-    timestamp: new Date().toLocaleTimeString(),
-    emotion: 'neutral',
-    intensity: 50
-  }]);
+  const [sessionData, setSessionData] = useState<EmotionData[]>(createInitialSessionData);
+  // Recent non-verbal samples, kept just long enough to fuse with the next message
+  const faceSamplesRef = useRef<FaceExpressionSample[]>([]);
+  const voiceSamplesRef = useRef<VoiceProsodySample[]>([]);
 
+  // Continue the active session after a reload
   useEffect(() => {
-    // Initialize Gemini with API key from environment variable
+    let isMounted = true;
+
+    restoreActiveSession().then(async restored => {
+      if (!restored || !isMounted) return;
+      const restoredSessionData = await loadSessionData(restored.id);
+      if (!isMounted) return;
+      setSession(restored);
+      setMessages(toChatMessages(restored));
+      setSessionData(restoredSessionData);
+    });
+
+    // Pick up anything recorded on other devices; a no-op while signed out
+    syncWithCloud();
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    // Initialize the configured LLM provider with API key from environment variable
     const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-    if (!apiKey) {
-      console.error('Gemini API key is missing! Please add VITE_GEMINI_API_KEY to your .env file');
+    if (!isLLMConfigured(apiKey)) {
+      console.error('No LLM provider is configured! Set VITE_LLM_PROVIDER and its API key (VITE_GEMINI_API_KEY or VITE_OPENAI_API_KEY) in your .env file');
       return;
     }
     initializeGemini(apiKey);
@@ -37,25 +139,240 @@ const Index = () => {
     setLastFrame(imageData);
   };
 
-  const handleSendMessage = async (text: string) => {
+  const keepRecent = <T extends { timestamp: string }>(samples: T[], sample: T): T[] => {
+    const cutoff = Date.now() - FUSION_WINDOW_MS;
+    return [...samples.filter(s => new Date(s.timestamp).getTime() >= cutoff), sample];
+  };
+
+  const handleProsody = (sample: VoiceProsodySample) => {
+    voiceSamplesRef.current = keepRecent(voiceSamplesRef.current, sample);
+  };
+
+  const handleExpression = (sample: FaceExpressionSample) => {
+    faceSamplesRef.current = keepRecent(faceSamplesRef.current, sample);
+    if (session.messages.length > 0) {
+      saveEmotionSample({ ...sample, sessionId: session.id, intensity: Math.round(sample.arousal * 100), source: 'face' });
+    }
+    setSessionData(prev => {
+      const faceSamples = prev.filter(entry => entry.source === 'face');
+      const trimmed = faceSamples.length >= MAX_FACE_SAMPLES
+        ? prev.filter(entry => entry !== faceSamples[0])
+        : prev;
+
+      return [
+        ...trimmed,
+        {
+          timestamp: new Date(sample.timestamp).toLocaleTimeString(),
+          emotion: sample.emotion,
+          // Arousal stands in for intensity so face and text share the chart's scale
+          intensity: Math.round(sample.arousal * 100),
+          confidence: sample.confidence,
+          valence: sample.valence,
+          arousal: sample.arousal,
+          source: 'face'
+        }
+      ];
+    });
+  };
+
+  const openCrisisPanel = (assessment: RiskAssessment) => {
+    setCrisisAssessment(assessment);
+    // Pause the avatar while the crisis panel is open
+    setConversationState('idle');
+  };
+
+  // Opens the breathing player over the session; the crisis panel comes back when it closes
+  const startBreathing = (patternId: BreathingPatternId, source: BreathingExerciseRecord['source']) => {
+    setBreathing({ patternId, source });
+    setConversationState('idle');
+  };
+
+  const openThoughtRecord = (autoPrefill: boolean) => {
+    setThoughtRecord({ autoPrefill });
+    setConversationState('idle');
+  };
+
+  const handleSaveThoughtRecord = async (record: ThoughtRecord) => {
+    setActiveSessionId(session.id);
+    await saveThoughtRecord(session, record);
+    setThoughtRecord(null);
+  };
+
+  const switchToSession = (next: Session) => {
+    setSession(next);
+    setMessages(toChatMessages(next));
+    setSessionData(createInitialSessionData());
+    loadSessionData(next.id).then(setSessionData);
+    setLastResponse(undefined);
+    setStreamingResponse('');
+    setCrisisAssessment(null);
+    setBreathing(null);
+    setThoughtRecord(null);
+    setConversationState('idle');
+  };
+
+  // Offer a questionnaire around sessions, but only once one is due again
+  const offerCheckIn = async (timing: AssessmentTiming) => {
+    const due = getDueQuestionnaires(await loadAssessments());
+    if (due.length > 0) {
+      setCheckInTiming(timing);
+    }
+  };
+
+  const handleCheckInComplete = (_: unknown, risk: RiskAssessment | null) => {
+    if (!risk) return;
+    recordRiskEvent(session, risk);
+    saveSession(session);
+    setCheckInTiming(null);
+    openCrisisPanel(risk);
+  };
+
+  // The current session stays open so nothing is lost and the user can try again
+  const reportSessionNotEnded = (error: unknown) => {
+    console.error('Error ending session:', error);
+    toast({
+      title: 'Session Not Saved',
+      description: "Your session couldn't be ended. Please try again.",
+      variant: 'destructive'
+    });
+  };
+
+  const handleNewSession = async () => {
+    try {
+      if (session.messages.length > 0) {
+        await endSession(session);
+      }
+    } catch (error) {
+      reportSessionNotEnded(error);
+      return;
+    }
+    switchToSession(createSession());
+    offerCheckIn('pre-session');
+  };
+
+  const handleResumeSession = async (sessionId: string) => {
+    try {
+      // End the current session first so it doesn't clear the resumed one's active flag
+      if (session.messages.length > 0) {
+        await endSession(session);
+      }
+    } catch (error) {
+      reportSessionNotEnded(error);
+      return;
+    }
+
+    try {
+      const resumed = await resumeSession(sessionId);
+      if (resumed) {
+        switchToSession(resumed);
+      }
+      setShowHistory(false);
+    } catch (error) {
+      console.error('Error resuming session:', error);
+      toast({
+        title: 'Session Not Opened',
+        description: "That session couldn't be opened. Please try again.",
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleEndSession = () => {
+    endSession(session)
+      .then(ended => {
+        setSession(ended);
+        syncWithCloud();
+        offerCheckIn('post-session');
+      })
+      .catch(reportSessionNotEnded);
+  };
+
+  const handleSendMessage = async (text: string, input: MessageInput = { mode: 'text' }) => {
     if (!text.trim()) return;
 
-    setIsProcessing(true);
+    setActiveSessionId(session.id);
     setMessages(prev => [...prev, { text, isUser: true }]);
 
+    // Screen every message before it reaches the normal therapy flow
+    const lexicalRisk = assessRiskLexically(text);
+    if (lexicalRisk.level !== 'none') {
+      recordRiskEvent(session, lexicalRisk);
+      saveSession(session);
+    }
+    if (isCrisisLevel(lexicalRisk.level)) {
+      openCrisisPanel(lexicalRisk);
+      setMessages(prev => [...prev, { text: CRISIS_RESPONSE, isUser: false }]);
+
+      // The exchange never reaches the LLM, so record it here to keep the session complete
+      const timestamp = new Date().toISOString();
+      session.messages.push(
+        { role: 'user', content: text, timestamp, inputMode: input.mode, speakingMs: input.speakingMs },
+        { role: 'therapist', content: CRISIS_RESPONSE, timestamp }
+      );
+      saveSession(session);
+      return;
+    }
+
+    // The optional LLM screen runs alongside the response so it adds no latency
+    if (isLLMRiskCheckEnabled()) {
+      classifyRiskWithLLM(text, getLLMProvider(import.meta.env.VITE_GEMINI_API_KEY)).then(llmRisk => {
+        const combinedRisk = combineRiskAssessments(lexicalRisk, llmRisk);
+        if (combinedRisk.level !== lexicalRisk.level) {
+          recordRiskEvent(session, combinedRisk);
+          saveSession(session);
+        }
+        if (isCrisisLevel(combinedRisk.level)) {
+          openCrisisPanel(combinedRisk);
+        }
+      });
+    }
+
+    // Combine the words with how the client looked and sounded while saying them
+    const fusedEmotion = fuseEmotions({
+      text: analyzeEmotion(text),
+      face: faceSamplesRef.current,
+      voice: voiceSamplesRef.current
+    });
+
+    setIsProcessing(true);
+
     try {
-      const { response, emotion } = await getTherapyResponse(text, lastFrame);
+      const { response, action } = await getTherapyResponse(session, text, lastFrame, setStreamingResponse, fusedEmotion, input);
+      saveSession(session);
+      setStreamingResponse('');
       setLastResponse(response);
       setMessages(prev => [...prev, { text: response, isUser: false }]);
+      if (action?.type === 'breathing') {
+        startBreathing(action.patternId, 'therapist');
+      } else if (action?.type === 'thought-record') {
+        openThoughtRecord(true);
+      }
 
-      // Update session data with both user and AI emotions
+      // Track the client's emotion alongside the response it prompted
+      saveEmotionSample({
+        sessionId: session.id,
+        timestamp: fusedEmotion.timestamp,
+        source: 'fused',
+        emotion: fusedEmotion.emotion,
+        intensity: fusedEmotion.intensity,
+        confidence: fusedEmotion.confidence,
+        valence: fusedEmotion.valence,
+        arousal: fusedEmotion.arousal,
+        incongruence: fusedEmotion.incongruence,
+        trigger: text
+      });
       const timestamp = new Date().toLocaleTimeString();
       setSessionData(prev => [
         ...prev,
         {
           timestamp,
-          emotion: emotion.emotion,
-          intensity: emotion.intensity,
+          emotion: fusedEmotion.emotion,
+          intensity: fusedEmotion.intensity,
+          confidence: fusedEmotion.confidence,
+          valence: fusedEmotion.valence,
+          arousal: fusedEmotion.arousal,
+          source: 'fused',
+          incongruence: fusedEmotion.incongruence,
           trigger: text,
           recommendation: response
         }
@@ -63,6 +380,7 @@ const Index = () => {
 
     } catch (error) {
       console.error('Error getting therapy response:', error);
+      setStreamingResponse('');
     } finally {
       setIsProcessing(false);
     }
@@ -82,11 +400,57 @@ const Index = () => {
           isProcessing={isProcessing}
           onSendMessage={handleSendMessage}
           lastResponse={lastResponse}
+          streamingResponse={streamingResponse}
           onFrame={handleFrame}
           conversationState={conversationState}
           onStateChange={setConversationState}
+          isPaused={!!crisisAssessment || !!breathing || !!thoughtRecord}
+          onNewSession={handleNewSession}
+          onEndSession={handleEndSession}
+          onShowHistory={() => setShowHistory(true)}
+          onShowThoughtRecord={() => openThoughtRecord(false)}
+          sessionId={session.id}
+          sessionTiming={session}
+          onExpression={handleExpression}
+          onProsody={handleProsody}
         />
       </main>
+
+      <SessionHistory
+        open={showHistory}
+        currentSessionId={session.id}
+        onClose={() => setShowHistory(false)}
+        onResume={handleResumeSession}
+      />
+
+      <QuestionnaireDialog
+        open={!!checkInTiming}
+        timing={checkInTiming || 'standalone'}
+        sessionId={session.id}
+        onClose={() => setCheckInTiming(null)}
+        onComplete={handleCheckInComplete}
+      />
+
+      <CrisisPanel
+        assessment={breathing ? null : crisisAssessment}
+        onClose={() => setCrisisAssessment(null)}
+        onStartBreathing={() => startBreathing('coherent', 'crisis')}
+      />
+
+      <BreathingExercise
+        open={!!breathing}
+        patternId={breathing?.patternId}
+        source={breathing?.source}
+        onClose={() => setBreathing(null)}
+      />
+
+      <ThoughtRecordDialog
+        open={!!thoughtRecord}
+        messages={session.messages}
+        autoPrefill={thoughtRecord?.autoPrefill}
+        onSave={handleSaveThoughtRecord}
+        onClose={() => setThoughtRecord(null)}
+      />
     </div>
   );
 };
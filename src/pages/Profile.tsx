@@ -0,0 +1,234 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { getAutoLockMinutes, setAutoLockMinutes } from "@/utils/vault";
+import { ExportFormat, exportData, importData } from "@/utils/dataExport";
+
+const AUTO_LOCK_OPTIONS = [1, 5, 15, 30];
+
+const Profile = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user, profile, updateProfile, signOut } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [autoLockMinutes, setAutoLock] = useState(getAutoLockMinutes);
+  const [isTransferring, setIsTransferring] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [formData, setFormData] = useState({
+    displayName: "",
+    pronouns: "",
+    timezone: "",
+    preferredLanguage: "",
+  });
+
+  useEffect(() => {
+    if (profile) {
+      setFormData({
+        displayName: profile.displayName,
+        pronouns: profile.pronouns,
+        timezone: profile.timezone,
+        preferredLanguage: profile.preferredLanguage,
+      });
+    }
+  }, [profile]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      await updateProfile({
+        displayName: formData.displayName.trim(),
+        pronouns: formData.pronouns.trim(),
+        timezone: formData.timezone.trim(),
+        preferredLanguage: formData.preferredLanguage.trim(),
+      });
+
+      toast({
+        title: "Profile saved",
+        description: "Dr. Sky will use these details in your sessions.",
+      });
+    } catch (error) {
+      console.error("Error saving profile:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to save your profile. Please try again.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      navigate("/");
+    } catch (error) {
+      console.error("Error signing out:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to sign out. Please try again.",
+      });
+    }
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsTransferring(true);
+    try {
+      await exportData(format);
+    } catch (error) {
+      console.error("Error exporting data:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to export your data. Please try again.",
+      });
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsTransferring(true);
+    try {
+      const result = await importData(file);
+      toast({
+        title: "Data imported",
+        description: `Restored ${result.sessions} sessions, ${result.emotionSamples} emotion readings, ${result.goals} goals and ${result.assessments} questionnaires.`,
+      });
+    } catch (error) {
+      console.error("Error importing data:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "That file couldn't be imported. Choose a FHIR (.json) or CSV (.zip) export from Dr. Sky.",
+      });
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  const fields: Array<{ id: keyof typeof formData; label: string; placeholder: string }> = [
+    { id: "displayName", label: "What should Dr. Sky call you?", placeholder: "Your name" },
+    { id: "pronouns", label: "Pronouns", placeholder: "e.g. she/her, they/them" },
+    { id: "timezone", label: "Timezone", placeholder: "e.g. Europe/London" },
+    { id: "preferredLanguage", label: "Preferred language", placeholder: "e.g. en, es, fr" },
+  ];
+
+  return (
+    <div className="min-h-screen bg-therapy-background p-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="flex items-center justify-between gap-4 mb-8">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              onClick={() => navigate("/therapy")}
+              className="text-therapy-text-primary"
+            >
+              ← Back
+            </Button>
+            <h1 className="text-2xl font-semibold text-therapy-text-primary">Your Profile</h1>
+          </div>
+          <Button variant="outline" onClick={handleSignOut}>
+            Sign Out
+          </Button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6 bg-therapy-surface p-6 rounded-xl border border-therapy-border-light/10">
+          <p className="text-sm text-therapy-text-secondary">
+            Signed in as {user?.email}
+          </p>
+
+          {fields.map((field) => (
+            <div key={field.id} className="space-y-2">
+              <label htmlFor={field.id} className="text-sm font-medium text-therapy-text-primary">
+                {field.label}
+              </label>
+              <Input
+                id={field.id}
+                value={formData[field.id]}
+                placeholder={field.placeholder}
+                onChange={(e) => setFormData(prev => ({ ...prev, [field.id]: e.target.value }))}
+                required={field.id === "timezone" || field.id === "preferredLanguage"}
+                className="bg-therapy-card border-therapy-border-light/10 text-therapy-text-primary"
+              />
+            </div>
+          ))}
+
+          <div className="space-y-2">
+            <label htmlFor="autoLock" className="text-sm font-medium text-therapy-text-primary">
+              Lock after inactivity
+            </label>
+            <Select
+              value={String(autoLockMinutes)}
+              onValueChange={(value) => {
+                const minutes = Number(value);
+                setAutoLockMinutes(minutes);
+                setAutoLock(minutes);
+              }}
+            >
+              <SelectTrigger id="autoLock" className="bg-therapy-card border-therapy-border-light/10 text-therapy-text-primary">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AUTO_LOCK_OPTIONS.map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    {minutes} {minutes === 1 ? "minute" : "minutes"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button
+            type="submit"
+            disabled={isSubmitting || !profile}
+            className="w-full bg-therapy-primary hover:bg-therapy-primary/90"
+          >
+            {isSubmitting ? "Saving..." : "Save Profile"}
+          </Button>
+        </form>
+
+        <div className="space-y-4 bg-therapy-surface p-6 rounded-xl border border-therapy-border-light/10">
+          <div>
+            <h2 className="text-lg font-semibold text-therapy-text-primary">Your Data</h2>
+            <p className="text-sm text-therapy-text-secondary">
+              Export your sessions, emotions, goals and questionnaire scores to share with a clinician,
+              as a FHIR bundle or a zip of CSV files. Either file can be imported back here.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" disabled={isTransferring} onClick={() => handleExport("fhir")}>
+              Export FHIR
+            </Button>
+            <Button variant="outline" disabled={isTransferring} onClick={() => handleExport("csv")}>
+              Export CSV
+            </Button>
+            <Button variant="outline" disabled={isTransferring} onClick={() => importInputRef.current?.click()}>
+              Import
+            </Button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,.zip"
+              className="hidden"
+              onChange={handleImport}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Profile;
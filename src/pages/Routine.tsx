@@ -0,0 +1,226 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Bell, BellOff, ExternalLink, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/components/ui/use-toast";
+import type { RoutineDayRecord, RoutineSlotRecord } from "@/utils/db";
+import { isVerifiedUrl } from "@/utils/contentCatalog";
+import {
+  ROUTINE_LABELS,
+  getRoutineAdherence,
+  loadRoutine,
+  loadRoutineDays,
+  setRoutineItemDone,
+  toDateKey,
+  updateRoutineSlot
+} from "@/utils/routines";
+import { getReminderPermission, requestReminderPermission } from "@/utils/routineReminders";
+
+const Routine = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [slots, setSlots] = useState<RoutineSlotRecord[]>([]);
+  const [history, setHistory] = useState<RoutineDayRecord[]>([]);
+  const [permission, setPermission] = useState(getReminderPermission);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    Promise.all([loadRoutine(), loadRoutineDays()])
+      .then(([storedSlots, storedDays]) => {
+        setSlots(storedSlots);
+        setHistory(storedDays);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const today = toDateKey();
+  const completedToday = new Set(history.find(day => day.date === today)?.completedItemIds || []);
+  const plannedToday = slots.reduce((sum, slot) => sum + slot.items.length, 0);
+  const doneToday = slots.reduce((sum, slot) => sum + slot.items.filter(item => completedToday.has(item.id)).length, 0);
+  const adherence = getRoutineAdherence(slots, history, 7);
+
+  const replaceSlot = (updated: RoutineSlotRecord | null) => {
+    if (updated) setSlots(prev => prev.map(slot => slot.id === updated.id ? updated : slot));
+  };
+
+  const handleSlotChange = async (
+    slot: RoutineSlotRecord,
+    changes: Partial<Pick<RoutineSlotRecord, 'time' | 'reminder' | 'items'>>
+  ) => {
+    try {
+      replaceSlot(await updateRoutineSlot(slot.id, changes));
+    } catch (error) {
+      console.error("Error updating routine:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to update your routine. Please try again.",
+      });
+    }
+  };
+
+  const handleToggleItem = async (itemId: string, done: boolean) => {
+    try {
+      const day = await setRoutineItemDone(slots, itemId, done);
+      setHistory(prev => [...prev.filter(entry => entry.date !== day.date), day]);
+    } catch (error) {
+      console.error("Error updating checklist:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to save your checklist. Please try again.",
+      });
+    }
+  };
+
+  const handleEnableReminders = async () => {
+    const result = await requestReminderPermission();
+    setPermission(result);
+    if (result === "denied") {
+      toast({
+        variant: "destructive",
+        title: "Notifications blocked",
+        description: "Allow notifications for this site in your browser settings to get reminders.",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-therapy-background p-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="flex items-center gap-4 mb-8">
+          <Button
+            variant="ghost"
+            onClick={() => navigate("/dashboard")}
+            className="text-therapy-text-primary"
+          >
+            ← Back
+          </Button>
+          <h1 className="text-2xl font-semibold text-therapy-text-primary">Your Routine</h1>
+        </div>
+
+        {!isLoading && slots.length === 0 ? (
+          <div className="bg-therapy-surface p-6 rounded-xl border border-therapy-border-light/10 text-center space-y-4">
+            <p className="text-therapy-text-secondary">
+              You don't have a routine yet. After a session, choose "Make this my routine" under your
+              suggested daily routine on the progress page.
+            </p>
+            <Button onClick={() => navigate("/progress")} className="bg-therapy-primary hover:bg-therapy-primary/90">
+              Go to Progress
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="bg-therapy-surface p-6 rounded-xl border border-therapy-border-light/10 space-y-3">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-therapy-text-primary">Today</h2>
+                <span className="text-sm text-therapy-text-secondary">
+                  {doneToday} of {plannedToday} done
+                </span>
+              </div>
+              <Progress value={plannedToday > 0 ? (doneToday / plannedToday) * 100 : 0} />
+              <p className="text-sm text-therapy-text-secondary">
+                Last 7 days: {adherence.rate !== null ? `${adherence.rate}% completed` : "nothing planned yet"}
+                {adherence.streak > 0 && ` · ${adherence.streak}-day streak`}
+              </p>
+            </div>
+
+            <div className="bg-therapy-surface p-6 rounded-xl border border-therapy-border-light/10 flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                {permission === "granted" ? (
+                  <Bell className="w-5 h-5 text-therapy-primary" />
+                ) : (
+                  <BellOff className="w-5 h-5 text-therapy-text-secondary" />
+                )}
+                <p className="text-sm text-therapy-text-secondary">
+                  {permission === "granted" && "Reminders are on for slots with the bell switched on."}
+                  {permission === "default" && "Get a reminder when it's time for each part of your routine."}
+                  {permission === "denied" && "Notifications are blocked for this site in your browser settings."}
+                  {permission === "unsupported" && "This browser can't show reminders."}
+                </p>
+              </div>
+              {permission === "default" && (
+                <Button variant="outline" onClick={handleEnableReminders}>
+                  Turn On
+                </Button>
+              )}
+            </div>
+
+            {slots.map(slot => (
+              <div
+                key={slot.id}
+                className="bg-therapy-surface p-6 rounded-xl border border-therapy-border-light/10 space-y-4"
+              >
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                  <h2 className="text-lg font-semibold text-therapy-text-primary">{ROUTINE_LABELS[slot.id]}</h2>
+                  <div className="flex items-center gap-4">
+                    <Input
+                      type="time"
+                      aria-label={`${ROUTINE_LABELS[slot.id]} time`}
+                      value={slot.time}
+                      onChange={(e) => e.target.value && handleSlotChange(slot, { time: e.target.value })}
+                      className="w-32 bg-therapy-card border-therapy-border-light/10 text-therapy-text-primary"
+                    />
+                    <label className="flex items-center gap-2 text-sm text-therapy-text-secondary">
+                      <Switch
+                        checked={slot.reminder}
+                        onCheckedChange={(checked) => handleSlotChange(slot, { reminder: checked })}
+                      />
+                      Remind me
+                    </label>
+                  </div>
+                </div>
+
+                {slot.items.length === 0 ? (
+                  <p className="text-sm text-therapy-text-secondary">Nothing planned for this part of the day.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {slot.items.map(item => (
+                      <li key={item.id} className="flex items-center gap-3">
+                        <Checkbox
+                          id={item.id}
+                          checked={completedToday.has(item.id)}
+                          onCheckedChange={(checked) => handleToggleItem(item.id, checked === true)}
+                        />
+                        <label
+                          htmlFor={item.id}
+                          className={`flex-1 text-sm text-therapy-text-primary ${completedToday.has(item.id) ? "line-through opacity-60" : ""}`}
+                        >
+                          {item.title}
+                        </label>
+                        {item.url && isVerifiedUrl(item.url) && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label={`Open ${item.title}`}
+                            onClick={() => window.open(item.url, "_blank", "noopener,noreferrer")}
+                          >
+                            <ExternalLink className="w-4 h-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label={`Remove ${item.title}`}
+                          onClick={() => handleSlotChange(slot, { items: slot.items.filter(i => i.id !== item.id) })}
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Routine;
@@ -3,6 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { Button } from "@/components/ui/button";
 import { motion, AnimatePresence, useScroll, useTransform, useSpring, useInView } from "framer-motion";
 import { Brain, Shield, Sparkles, ArrowRight, MessageCircle, Heart, Star, ChevronDown, Play, Pause } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
 
 const fadeInUp = {
   initial: { opacity: 0, y: 20 },
@@ -30,6 +31,7 @@ const buttonHover = {
 
 const Landing = () => {
   const navigate = useNavigate();
+  const { user } = useAuth();
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
   const { scrollYProgress } = useScroll();
   const smoothProgress = useSpring(scrollYProgress, {
@@ -139,9 +141,10 @@ const Landing = () => {
               >
                 <Button
                   variant="ghost"
+                  onClick={() => navigate(user ? '/profile' : '/auth')}
                   className="text-gray-600 hover:text-gray-900"
                 >
-                  Log In
+                  {user ? 'Account' : 'Log In'}
                 </Button>
                 <Button
                   onClick={() => navigate('/therapy')}
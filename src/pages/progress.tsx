@@ -1,15 +1,30 @@
 import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import ProgressTracker from '@/components/ProgressTracker';
+import GoalManager from '@/components/GoalManager';
+import HomeworkList from '@/components/HomeworkList';
+import AssessmentTrends from '@/components/AssessmentTrends';
+import ThoughtRecordHistory from '@/components/ThoughtRecordHistory';
 import ContentRecommendations from '@/components/ContentRecommendations';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
 import { ArrowLeft, Download } from 'lucide-react';
-import { generateAnalysisPDF } from '@/utils/pdfGenerator';
+import { generateAnalysisPDF, loadReportData } from '@/utils/pdfGenerator';
 import { toast } from '@/components/ui/use-toast';
+import { ProgressData, loadLatestProgress } from '@/utils/progressTracking';
+import { ContentCategory, ContentRecommendation, loadLatestRecommendations } from '@/utils/contentRecommender';
 
-const defaultProgress = {
+const defaultProgress: Omit<ProgressData, 'timestamp' | 'goals'> = {
   sessionSummary: '',
-  goals: [],
   improvements: {
     strengths: [],
     challenges: [],
@@ -22,7 +37,8 @@ const defaultProgress = {
   }
 };
 
-const defaultRecommendations = {
+const defaultRecommendations: Pick<ContentRecommendation, ContentCategory | 'reason'>
+  & Partial<Pick<ContentRecommendation, 'focusAreas' | 'suggestedRoutine'>> = {
   meditation: [],
   relaxation: [],
   educational: [],
@@ -38,60 +54,88 @@ const ProgressPage = () => {
   const navigate = useNavigate();
   const [progressData, setProgressData] = React.useState(defaultProgress);
   const [recommendations, setRecommendations] = React.useState(defaultRecommendations);
+  const [showDownload, setShowDownload] = React.useState(false);
+  const [reportPassword, setReportPassword] = React.useState('');
+  const [isGenerating, setIsGenerating] = React.useState(false);
 
   React.useEffect(() => {
-    try {
-      // Load progress data
-      const savedProgress = localStorage.getItem('current-progress');
-      if (savedProgress) {
-        const parsed = JSON.parse(savedProgress);
-        setProgressData({
-          sessionSummary: parsed.sessionSummary || '',
-          goals: Array.isArray(parsed.goals) ? parsed.goals.map(g => ({
-            ...g,
-            progress: Math.min(100, Math.max(0, g.progress || 0)),
-            status: g.status || 'not-started'
-          })) : [],
-          improvements: {
-            strengths: Array.isArray(parsed.improvements?.strengths) ? parsed.improvements.strengths : [],
-            challenges: Array.isArray(parsed.improvements?.challenges) ? parsed.improvements.challenges : [],
-            recommendations: Array.isArray(parsed.improvements?.recommendations) ? parsed.improvements.recommendations : []
-          },
-          emotionalJourney: {
-            emotions: Array.isArray(parsed.emotionalJourney?.emotions) ? parsed.emotionalJourney.emotions : [],
-            dominantEmotions: Array.isArray(parsed.emotionalJourney?.dominantEmotions) ? parsed.emotionalJourney.dominantEmotions : [],
-            engagementLevel: Array.isArray(parsed.emotionalJourney?.engagementLevel) ? 
-              parsed.emotionalJourney.engagementLevel.map((v: number) => Math.min(100, Math.max(0, v || 0))) : 
-              [0, 0, 0, 0, 0]
-          }
-        });
-      }
+    const loadData = async () => {
+      try {
+        // Load progress data
+        const progress = await loadLatestProgress();
+        if (progress) {
+          const parsed = progress;
+          setProgressData({
+            sessionSummary: parsed.sessionSummary || '',
+            improvements: {
+              strengths: Array.isArray(parsed.improvements?.strengths) ? parsed.improvements.strengths : [],
+              challenges: Array.isArray(parsed.improvements?.challenges) ? parsed.improvements.challenges : [],
+              recommendations: Array.isArray(parsed.improvements?.recommendations) ? parsed.improvements.recommendations : []
+            },
+            emotionalJourney: {
+              emotions: Array.isArray(parsed.emotionalJourney?.emotions) ? parsed.emotionalJourney.emotions : [],
+              dominantEmotions: Array.isArray(parsed.emotionalJourney?.dominantEmotions) ? parsed.emotionalJourney.dominantEmotions : [],
+              engagementLevel: Array.isArray(parsed.emotionalJourney?.engagementLevel) ? 
+                parsed.emotionalJourney.engagementLevel.map((v: number) => Math.min(100, Math.max(0, v || 0))) : 
+                [0, 0, 0, 0, 0]
+            },
+            sessionMetrics: parsed.sessionMetrics
+          });
+        }
 
-      // Load recommendations
-      const savedRecommendations = localStorage.getItem('content-recommendations');
-      if (savedRecommendations) {
-        const parsed = JSON.parse(savedRecommendations);
-        setRecommendations({
-          meditation: Array.isArray(parsed.meditation) ? parsed.meditation : [],
-          relaxation: Array.isArray(parsed.relaxation) ? parsed.relaxation : [],
-          educational: Array.isArray(parsed.educational) ? parsed.educational : [],
-          motivation: Array.isArray(parsed.motivation) ? parsed.motivation : [],
-          breathing: Array.isArray(parsed.breathing) ? parsed.breathing : [],
-          mindfulness: Array.isArray(parsed.mindfulness) ? parsed.mindfulness : [],
-          exercise: Array.isArray(parsed.exercise) ? parsed.exercise : [],
-          sleep: Array.isArray(parsed.sleep) ? parsed.sleep : [],
-          reason: parsed.reason || ''
-        });
+        // Load recommendations
+        const parsed = await loadLatestRecommendations();
+        if (parsed) {
+          setRecommendations({
+            meditation: Array.isArray(parsed.meditation) ? parsed.meditation : [],
+            relaxation: Array.isArray(parsed.relaxation) ? parsed.relaxation : [],
+            educational: Array.isArray(parsed.educational) ? parsed.educational : [],
+            motivation: Array.isArray(parsed.motivation) ? parsed.motivation : [],
+            breathing: Array.isArray(parsed.breathing) ? parsed.breathing : [],
+            mindfulness: Array.isArray(parsed.mindfulness) ? parsed.mindfulness : [],
+            exercise: Array.isArray(parsed.exercise) ? parsed.exercise : [],
+            sleep: Array.isArray(parsed.sleep) ? parsed.sleep : [],
+            reason: parsed.reason || '',
+            focusAreas: Array.isArray(parsed.focusAreas) ? parsed.focusAreas : [],
+            suggestedRoutine: parsed.suggestedRoutine
+          });
+        }
+      } catch (error) {
+        console.error('Error loading progress data:', error);
       }
-    } catch (error) {
-      console.error('Error loading progress data:', error);
-    }
+    };
+
+    loadData();
   }, []);
 
   const handleBack = () => {
     navigate('/therapy');
   };
 
+  const handleDownload = async () => {
+    setIsGenerating(true);
+    try {
+      const { omittedCharacters } = await generateAnalysisPDF(await loadReportData(), { password: reportPassword || undefined });
+      setShowDownload(false);
+      setReportPassword('');
+      toast({
+        title: "Success",
+        description: omittedCharacters.length > 0
+          ? `Report downloaded, but some characters couldn't be shown in the PDF and were left out: ${omittedCharacters.join(' ')}`
+          : "Report downloaded successfully",
+        variant: "default"
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to download report. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-therapy-background">
       {/* Header */}
@@ -114,26 +158,11 @@ const ProgressPage = () => {
             <Button
               variant="outline"
               size="sm"
-              onClick={async () => {
-                try {
-                  await generateAnalysisPDF('analysis-content');
-                  toast({
-                    title: "Success",
-                    description: "Analysis downloaded successfully",
-                    variant: "default"
-                  });
-                } catch (error) {
-                  toast({
-                    title: "Error",
-                    description: "Failed to download analysis. Please try again.",
-                    variant: "destructive"
-                  });
-                }
-              }}
+              onClick={() => setShowDownload(true)}
               className="flex items-center gap-1.5 sm:gap-2 text-xs sm:text-sm py-1.5 sm:py-2 px-3 sm:px-4 h-auto"
             >
               <Download className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
-              Download Analysis
+              Download Report
             </Button>
           </div>
         </div>
@@ -141,15 +170,19 @@ const ProgressPage = () => {
 
       {/* Main Content */}
       <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6">
-        <div id="analysis-content" className="grid grid-cols-1 gap-4 sm:gap-6 max-w-6xl mx-auto">
+        <div className="grid grid-cols-1 gap-4 sm:gap-6 max-w-6xl mx-auto">
           {/* Progress Section */}
           <div className="space-y-4 sm:space-y-6">
             <ProgressTracker
               sessionSummary={progressData.sessionSummary}
-              goals={progressData.goals}
               improvements={progressData.improvements}
               emotionalJourney={progressData.emotionalJourney}
+              sessionMetrics={progressData.sessionMetrics}
             />
+            <GoalManager />
+            <HomeworkList />
+            <AssessmentTrends />
+            <ThoughtRecordHistory />
           </div>
 
           {/* Recommendations Section */}
@@ -158,6 +191,39 @@ const ProgressPage = () => {
           </div>
         </div>
       </div>
+
+      <Dialog open={showDownload} onOpenChange={setShowDownload}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Download Session Report</DialogTitle>
+            <DialogDescription>
+              A PDF of your session summary, goals, emotions and questionnaire scores to share with your therapist.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="report-password">Password (optional)</Label>
+            <Input
+              id="report-password"
+              type="password"
+              value={reportPassword}
+              onChange={(e) => setReportPassword(e.target.value)}
+              placeholder="Leave blank for no password"
+              autoComplete="new-password"
+            />
+            <p className="text-xs text-muted-foreground">
+              Anyone opening the report will need this password. It uses the PDF format's older RC4
+              encryption, which keeps out casual readers but can be cracked, so don't rely on it alone
+              for a report you send over email or store somewhere shared.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDownload(false)}>Cancel</Button>
+            <Button onClick={handleDownload} disabled={isGenerating}>
+              {isGenerating ? 'Generating...' : 'Download PDF'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
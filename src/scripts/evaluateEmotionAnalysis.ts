@@ -0,0 +1,20 @@
+/**
+ * Reports how the emotion lexicon engine does on the hand-labelled corpus,
+ * listing every miss. `npm test` enforces the accuracy threshold; this is for
+ * looking at the misses while tuning the lexicon.
+ *
+ * Run with: npm run eval:emotions
+ */
+import { ACCURACY_THRESHOLD, evaluateEmotionCorpus } from '../utils/emotionCorpus';
+
+const { results, failures, accuracy } = evaluateEmotionCorpus();
+
+failures.forEach(f => {
+  console.log(`✗ "${f.text}" expected ${f.expected}, got ${f.actual} (confidence ${f.confidence})`);
+});
+console.log(`Accuracy: ${(accuracy * 100).toFixed(1)}% (${results.length - failures.length}/${results.length})`);
+
+if (accuracy < ACCURACY_THRESHOLD) {
+  console.error(`Accuracy is below the ${ACCURACY_THRESHOLD * 100}% threshold`);
+  process.exit(1);
+}
@@ -0,0 +1,41 @@
+/**
+ * Copies the MediaPipe vision WASM runtime from the installed
+ * @mediapipe/tasks-vision package into public/mediapipe, and downloads the
+ * face landmarker model next to it, so the app never loads either from a
+ * third-party CDN. Re-run after upgrading @mediapipe/tasks-vision so the
+ * runtime keeps matching the JS bundle.
+ *
+ * Run with: npm run assets:mediapipe
+ */
+import { copyFileSync, existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { fileURLToPath } from 'url';
+
+const ROOT = fileURLToPath(new URL('../..', import.meta.url));
+const PACKAGE_DIR = resolve(ROOT, 'node_modules/@mediapipe/tasks-vision');
+const OUT_DIR = resolve(ROOT, 'public/mediapipe');
+
+// Version 1 of the float16 model; bump deliberately, the URL is immutable per version
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task';
+
+const { version } = JSON.parse(readFileSync(resolve(PACKAGE_DIR, 'package.json'), 'utf8'));
+
+mkdirSync(resolve(OUT_DIR, 'wasm'), { recursive: true });
+readdirSync(resolve(PACKAGE_DIR, 'wasm')).forEach(file => {
+  copyFileSync(resolve(PACKAGE_DIR, 'wasm', file), resolve(OUT_DIR, 'wasm', file));
+});
+writeFileSync(resolve(OUT_DIR, 'wasm/VERSION'), `${version}\n`);
+console.log(`Copied the @mediapipe/tasks-vision ${version} WASM runtime`);
+
+const modelPath = resolve(OUT_DIR, 'face_landmarker.task');
+if (existsSync(modelPath)) {
+  console.log('Face landmarker model already present');
+} else {
+  const response = await fetch(MODEL_URL);
+  if (!response.ok) {
+    console.error(`Could not download the face landmarker model: ${response.status} ${response.statusText}`);
+    process.exit(1);
+  }
+  writeFileSync(modelPath, Buffer.from(await response.arrayBuffer()));
+  console.log('Downloaded the face landmarker model');
+}
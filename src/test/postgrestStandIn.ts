@@ -0,0 +1,265 @@
+import { readFileSync, readdirSync } from "fs";
+import { resolve } from "path";
+import { fileURLToPath } from "url";
+import { PGlite, Transaction } from "@electric-sql/pglite";
+
+const MIGRATIONS_DIR = fileURLToPath(new URL("../../supabase/migrations", import.meta.url));
+
+// Just enough of Supabase's auth schema and roles for the migrations and their
+// row-level security policies to behave as they do on the real project
+const SUPABASE_BASELINE = `
+  create schema auth;
+  create table auth.users (id uuid primary key, email text unique not null);
+  create function auth.uid() returns uuid language sql stable as $$
+    select nullif(current_setting('request.jwt.claim.sub', true), '')::uuid
+  $$;
+  create role anon nologin;
+  create role authenticated nologin;
+`;
+
+const GRANTS = `
+  grant usage on schema public, auth to anon, authenticated;
+  grant select, insert, update, delete on all tables in schema public to authenticated;
+`;
+
+const FILTER_OPERATORS: Record<string, string> = {
+  eq: '=',
+  neq: '<>',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<='
+};
+
+const RESERVED_PARAMS = new Set(['select', 'order', 'columns', 'on_conflict']);
+
+interface StandInUser {
+  id: string;
+  email: string;
+}
+
+class RequestError extends Error {
+  constructor(readonly status: number, readonly code: string, message: string) {
+    super(message);
+  }
+}
+
+const ident = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+const json = (status: number, body?: unknown) =>
+  new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+
+const base64Url = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+// Unsigned: the stand-in only needs to know who is asking
+const toAccessToken = (user: StandInUser, expiresAt: number) =>
+  [
+    base64Url({ alg: 'none', typ: 'JWT' }),
+    base64Url({ sub: user.id, email: user.email, role: 'authenticated', aud: 'authenticated', exp: expiresAt }),
+    'stand-in'
+  ].join('.');
+
+const userFromToken = (authorization: string | null): string | null => {
+  const payload = authorization?.replace(/^Bearer /, '').split('.')[1];
+  if (!payload) return null;
+  try {
+    const { sub } = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    return typeof sub === 'string' ? sub : null;
+  } catch {
+    return null;
+  }
+};
+
+const toAuthUser = (user: StandInUser) => ({
+  id: user.id,
+  aud: 'authenticated',
+  role: 'authenticated',
+  email: user.email,
+  app_metadata: {},
+  user_metadata: {},
+  created_at: new Date(0).toISOString()
+});
+
+/**
+ * A local stand-in for a Supabase project: real Postgres (PGlite) running the
+ * migrations in supabase/migrations, with the subset of the PostgREST and auth
+ * HTTP APIs the app uses served through `fetch`. Any email and password signs
+ * in, creating the account the first time.
+ */
+export class PostgrestStandIn {
+  readonly url = 'http://supabase.stand-in';
+
+  private users = new Map<string, StandInUser>();
+
+  private constructor(readonly db: PGlite) {}
+
+  static async create(): Promise<PostgrestStandIn> {
+    const db = await PGlite.create();
+    await db.exec(SUPABASE_BASELINE);
+    for (const file of readdirSync(MIGRATIONS_DIR).filter(name => name.endsWith('.sql')).sort()) {
+      await db.exec(readFileSync(resolve(MIGRATIONS_DIR, file), 'utf8'));
+    }
+    await db.exec(GRANTS);
+    return new PostgrestStandIn(db);
+  }
+
+  close(): Promise<void> {
+    return this.db.close();
+  }
+
+  fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+
+    try {
+      if (url.pathname.startsWith('/auth/v1/')) {
+        return await this.handleAuth(request, url);
+      }
+      if (url.pathname.startsWith('/rest/v1/')) {
+        return await this.handleRest(request, url);
+      }
+      throw new RequestError(404, 'PGRST125', `No route for ${url.pathname}`);
+    } catch (error) {
+      if (error instanceof RequestError) {
+        return json(error.status, { code: error.code, message: error.message, details: null, hint: null });
+      }
+      const { code, message, detail, hint } = error as { code?: string; message: string; detail?: string; hint?: string };
+      return json(code === '42501' ? 403 : 400, { code, message, details: detail ?? null, hint: hint ?? null });
+    }
+  };
+
+  private async handleAuth(request: Request, url: URL): Promise<Response> {
+    if (request.method === 'POST' && url.pathname === '/auth/v1/token' && url.searchParams.get('grant_type') === 'password') {
+      const { email } = await request.json();
+      const user = await this.findOrCreateUser(email);
+      const expiresIn = 3600;
+      const expiresAt = Math.floor(Date.now() / 1000) + expiresIn;
+      return json(200, {
+        access_token: toAccessToken(user, expiresAt),
+        token_type: 'bearer',
+        expires_in: expiresIn,
+        expires_at: expiresAt,
+        refresh_token: `refresh-${user.id}`,
+        user: toAuthUser(user)
+      });
+    }
+
+    if (request.method === 'GET' && url.pathname === '/auth/v1/user') {
+      const userId = userFromToken(request.headers.get('Authorization'));
+      const user = [...this.users.values()].find(u => u.id === userId);
+      if (!user) throw new RequestError(401, 'bad_jwt', 'Invalid token');
+      return json(200, toAuthUser(user));
+    }
+
+    if (request.method === 'POST' && url.pathname === '/auth/v1/logout') {
+      return new Response(null, { status: 204 });
+    }
+
+    throw new RequestError(404, 'not_found', `No auth route for ${request.method} ${url.pathname}`);
+  }
+
+  private async findOrCreateUser(email: string): Promise<StandInUser> {
+    const existing = this.users.get(email);
+    if (existing) return existing;
+
+    const user = { id: crypto.randomUUID(), email };
+    await this.db.query('insert into auth.users (id, email) values ($1, $2)', [user.id, user.email]);
+    this.users.set(email, user);
+    return user;
+  }
+
+  private async handleRest(request: Request, url: URL): Promise<Response> {
+    const table = decodeURIComponent(url.pathname.slice('/rest/v1/'.length));
+    const { rows } = await this.db.query<{ exists: boolean }>(
+      "select to_regclass('public.' || quote_ident($1)) is not null as exists",
+      [table]
+    );
+    if (!rows[0].exists) {
+      throw new RequestError(404, '42P01', `relation "public.${table}" does not exist`);
+    }
+
+    const userId = userFromToken(request.headers.get('Authorization'));
+    const body = request.method === 'GET' ? null : await request.json();
+
+    return this.db.transaction(async tx => {
+      // Run as the caller, so row-level security applies exactly as it would in production
+      await tx.exec(`set local role ${userId ? 'authenticated' : 'anon'}`);
+      await tx.query("select set_config('request.jwt.claim.sub', $1, true)", [userId || '']);
+
+      if (request.method === 'GET') return this.select(tx, table, url);
+      if (request.method === 'POST') return this.upsert(tx, table, url, request.headers.get('Prefer') || '', body);
+      throw new RequestError(405, 'PGRST117', `Unsupported method ${request.method}`);
+    });
+  }
+
+  private async select(tx: Transaction, table: string, url: URL): Promise<Response> {
+    const select = url.searchParams.get('select') || '*';
+    const columns = select === '*' ? '*' : select.split(',').map(ident).join(', ');
+
+    const params: string[] = [];
+    const conditions = [...url.searchParams]
+      .filter(([key]) => !RESERVED_PARAMS.has(key))
+      .map(([column, filter]) => {
+        const [operator, ...value] = filter.split('.');
+        if (!FILTER_OPERATORS[operator]) {
+          throw new RequestError(400, 'PGRST100', `Unsupported filter "${filter}"`);
+        }
+        params.push(value.join('.'));
+        return `${ident(column)} ${FILTER_OPERATORS[operator]} $${params.length}`;
+      });
+
+    const order = url.searchParams.get('order')?.split(',').map(term => {
+      const [column, direction] = term.split('.');
+      return `${ident(column)} ${direction === 'desc' ? 'desc' : 'asc'}`;
+    });
+
+    const { rows } = await tx.query<{ rows: unknown[] }>(
+      `select coalesce(json_agg(t), '[]'::json) as rows from (
+        select ${columns} from public.${ident(table)}
+        ${conditions.length > 0 ? `where ${conditions.join(' and ')}` : ''}
+        ${order ? `order by ${order.join(', ')}` : ''}
+      ) t`,
+      params
+    );
+    return json(200, rows[0].rows);
+  }
+
+  private async upsert(tx: Transaction, table: string, url: URL, prefer: string, body: unknown): Promise<Response> {
+    const records = (Array.isArray(body) ? body : [body]) as Record<string, unknown>[];
+    const columns = url.searchParams.get('columns')?.split(',').map(column => column.replace(/^"|"$/g, '')) ||
+      Object.keys(records[0] || {});
+    const columnList = columns.map(ident).join(', ');
+
+    let conflict = '';
+    if (prefer.includes('resolution=')) {
+      const target = url.searchParams.get('on_conflict')?.split(',') || await this.primaryKey(tx, table);
+      const updates = columns.filter(column => !target.includes(column))
+        .map(column => `${ident(column)} = excluded.${ident(column)}`);
+      conflict = prefer.includes('resolution=ignore-duplicates') || updates.length === 0
+        ? `on conflict (${target.map(ident).join(', ')}) do nothing`
+        : `on conflict (${target.map(ident).join(', ')}) do update set ${updates.join(', ')}`;
+    }
+
+    await tx.query(
+      `insert into public.${ident(table)} (${columnList})
+        select ${columnList} from json_populate_recordset(null::public.${ident(table)}, $1::json)
+        ${conflict}`,
+      [JSON.stringify(records)]
+    );
+    return new Response(null, { status: 201 });
+  }
+
+  private async primaryKey(tx: Transaction, table: string): Promise<string[]> {
+    const { rows } = await tx.query<{ column: string }>(
+      `select a.attname as column
+        from pg_index i
+        join pg_attribute a on a.attrelid = i.indrelid and a.attnum = any(i.indkey)
+        where i.indrelid = ('public.' || quote_ident($1))::regclass and i.indisprimary`,
+      [table]
+    );
+    return rows.map(row => row.column);
+  }
+}
@@ -15,6 +15,7 @@ interface SpeechRecognition extends EventTarget {
   continuous: boolean;
   interimResults: boolean;
   onstart: (event: Event) => void;
+  onspeechstart: (event: Event) => void;
   onresult: (event: SpeechRecognitionEvent) => void;
   onend: (event: Event) => void;
   onerror: (event: SpeechRecognitionError) => void;
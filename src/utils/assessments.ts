@@ -0,0 +1,246 @@
+import { AssessmentRecord, getAllRecords, putRecord } from "@/utils/db";
+import type { RiskAssessment } from "@/utils/riskClassifier";
+
+export type QuestionnaireId = 'phq-9' | 'gad-7' | 'pss-10' | 'who-5';
+
+export type AssessmentTiming = AssessmentRecord['timing'];
+
+export interface SeverityBand {
+  min: number;
+  max: number;
+  label: string;
+  // Drives the colour the band is shown in; 'none' is the healthy end of the scale
+  severity: 'none' | 'mild' | 'moderate' | 'severe';
+}
+
+export interface Questionnaire {
+  id: QuestionnaireId;
+  name: string;
+  shortName: string;
+  measures: string;
+  prompt: string;
+  items: string[];
+  options: Array<{ value: number; label: string }>;
+  // Zero-based items scored in the opposite direction
+  reverseScored?: number[];
+  // Scale applied to the raw sum, e.g. WHO-5 reports a 0-100 percentage
+  multiplier?: number;
+  maxScore: number;
+  // Whether a higher score means better (WHO-5) or worse (the rest)
+  higherIsBetter: boolean;
+  bands: SeverityBand[];
+  // How many days a result stays current before it's worth repeating
+  recallDays: number;
+}
+
+const FREQUENCY_OPTIONS = [
+  { value: 0, label: 'Not at all' },
+  { value: 1, label: 'Several days' },
+  { value: 2, label: 'More than half the days' },
+  { value: 3, label: 'Nearly every day' }
+];
+
+export const QUESTIONNAIRES: Record<QuestionnaireId, Questionnaire> = {
+  'phq-9': {
+    id: 'phq-9',
+    name: 'Patient Health Questionnaire',
+    shortName: 'PHQ-9',
+    measures: 'Depression',
+    prompt: 'Over the last 2 weeks, how often have you been bothered by any of the following problems?',
+    items: [
+      'Little interest or pleasure in doing things',
+      'Feeling down, depressed, or hopeless',
+      'Trouble falling or staying asleep, or sleeping too much',
+      'Feeling tired or having little energy',
+      'Poor appetite or overeating',
+      'Feeling bad about yourself — or that you are a failure or have let yourself or your family down',
+      'Trouble concentrating on things, such as reading the newspaper or watching television',
+      'Moving or speaking so slowly that other people could have noticed? Or the opposite — being so fidgety or restless that you have been moving around a lot more than usual',
+      'Thoughts that you would be better off dead or of hurting yourself in some way'
+    ],
+    options: FREQUENCY_OPTIONS,
+    maxScore: 27,
+    higherIsBetter: false,
+    bands: [
+      { min: 0, max: 4, label: 'Minimal', severity: 'none' },
+      { min: 5, max: 9, label: 'Mild', severity: 'mild' },
+      { min: 10, max: 14, label: 'Moderate', severity: 'moderate' },
+      { min: 15, max: 19, label: 'Moderately severe', severity: 'severe' },
+      { min: 20, max: 27, label: 'Severe', severity: 'severe' }
+    ],
+    recallDays: 14
+  },
+  'gad-7': {
+    id: 'gad-7',
+    name: 'Generalized Anxiety Disorder Assessment',
+    shortName: 'GAD-7',
+    measures: 'Anxiety',
+    prompt: 'Over the last 2 weeks, how often have you been bothered by the following problems?',
+    items: [
+      'Feeling nervous, anxious, or on edge',
+      'Not being able to stop or control worrying',
+      'Worrying too much about different things',
+      'Trouble relaxing',
+      'Being so restless that it is hard to sit still',
+      'Becoming easily annoyed or irritable',
+      'Feeling afraid, as if something awful might happen'
+    ],
+    options: FREQUENCY_OPTIONS,
+    maxScore: 21,
+    higherIsBetter: false,
+    bands: [
+      { min: 0, max: 4, label: 'Minimal', severity: 'none' },
+      { min: 5, max: 9, label: 'Mild', severity: 'mild' },
+      { min: 10, max: 14, label: 'Moderate', severity: 'moderate' },
+      { min: 15, max: 21, label: 'Severe', severity: 'severe' }
+    ],
+    recallDays: 14
+  },
+  'pss-10': {
+    id: 'pss-10',
+    name: 'Perceived Stress Scale',
+    shortName: 'PSS-10',
+    measures: 'Stress',
+    prompt: 'In the last month, how often have you…',
+    items: [
+      'been upset because of something that happened unexpectedly?',
+      'felt that you were unable to control the important things in your life?',
+      'felt nervous and "stressed"?',
+      'felt confident about your ability to handle your personal problems?',
+      'felt that things were going your way?',
+      'found that you could not cope with all the things that you had to do?',
+      'been able to control irritations in your life?',
+      'felt that you were on top of things?',
+      'been angered because of things that were outside of your control?',
+      'felt difficulties were piling up so high that you could not overcome them?'
+    ],
+    options: [
+      { value: 0, label: 'Never' },
+      { value: 1, label: 'Almost never' },
+      { value: 2, label: 'Sometimes' },
+      { value: 3, label: 'Fairly often' },
+      { value: 4, label: 'Very often' }
+    ],
+    reverseScored: [3, 4, 6, 7],
+    maxScore: 40,
+    higherIsBetter: false,
+    bands: [
+      { min: 0, max: 13, label: 'Low stress', severity: 'none' },
+      { min: 14, max: 26, label: 'Moderate stress', severity: 'moderate' },
+      { min: 27, max: 40, label: 'High stress', severity: 'severe' }
+    ],
+    recallDays: 30
+  },
+  'who-5': {
+    id: 'who-5',
+    name: 'WHO-5 Well-Being Index',
+    shortName: 'WHO-5',
+    measures: 'Well-being',
+    prompt: 'Over the last 2 weeks, how much of the time…',
+    items: [
+      'I have felt cheerful and in good spirits',
+      'I have felt calm and relaxed',
+      'I have felt active and vigorous',
+      'I woke up feeling fresh and rested',
+      'My daily life has been filled with things that interest me'
+    ],
+    options: [
+      { value: 0, label: 'At no time' },
+      { value: 1, label: 'Some of the time' },
+      { value: 2, label: 'Less than half of the time' },
+      { value: 3, label: 'More than half of the time' },
+      { value: 4, label: 'Most of the time' },
+      { value: 5, label: 'All of the time' }
+    ],
+    multiplier: 4,
+    maxScore: 100,
+    higherIsBetter: true,
+    bands: [
+      { min: 0, max: 28, label: 'Likely depression', severity: 'severe' },
+      { min: 29, max: 50, label: 'Poor well-being', severity: 'moderate' },
+      { min: 51, max: 100, label: 'Good well-being', severity: 'none' }
+    ],
+    recallDays: 14
+  }
+};
+
+// The PHQ-9 item asking about thoughts of death or self-harm
+const PHQ9_SELF_HARM_ITEM = 8;
+
+export const scoreQuestionnaire = (id: QuestionnaireId, answers: number[]): number => {
+  const questionnaire = QUESTIONNAIRES[id];
+  if (answers.length !== questionnaire.items.length) {
+    throw new Error(`${questionnaire.shortName} needs ${questionnaire.items.length} answers, got ${answers.length}`);
+  }
+
+  const maxOption = Math.max(...questionnaire.options.map(option => option.value));
+  const raw = answers.reduce((sum, answer, index) =>
+    sum + (questionnaire.reverseScored?.includes(index) ? maxOption - answer : answer), 0);
+  return raw * (questionnaire.multiplier || 1);
+};
+
+export const getSeverityBand = (id: QuestionnaireId, score: number): SeverityBand => {
+  const { bands } = QUESTIONNAIRES[id];
+  return bands.find(band => score >= band.min && score <= band.max) || bands[bands.length - 1];
+};
+
+/**
+ * Any answer other than "Not at all" to PHQ-9 item 9 needs a safety follow-up,
+ * whatever the total score. Returns null when there's nothing to escalate.
+ */
+export const screenAssessmentRisk = (id: QuestionnaireId, answers: number[]): RiskAssessment | null => {
+  if (id !== 'phq-9') return null;
+
+  const answer = answers[PHQ9_SELF_HARM_ITEM] || 0;
+  if (answer === 0) return null;
+
+  return {
+    level: 'high',
+    categories: ['suicidal-ideation', 'self-harm'],
+    matches: [`PHQ-9 item 9: ${FREQUENCY_OPTIONS[answer].label.toLowerCase()}`],
+    source: 'questionnaire'
+  };
+};
+
+export const saveAssessment = async (
+  id: QuestionnaireId,
+  answers: number[],
+  timing: AssessmentTiming,
+  sessionId?: string
+): Promise<AssessmentRecord> => {
+  const score = scoreQuestionnaire(id, answers);
+  const now = new Date().toISOString();
+  const record: AssessmentRecord = {
+    id: crypto.randomUUID(),
+    questionnaireId: id,
+    sessionId,
+    timing,
+    answers,
+    score,
+    severity: getSeverityBand(id, score).label,
+    completedAt: now,
+    updatedAt: now
+  };
+
+  await putRecord('assessments', record);
+  return record;
+};
+
+export const loadAssessments = async (): Promise<AssessmentRecord[]> => {
+  try {
+    const records = await getAllRecords('assessments');
+    return records.sort((a, b) => a.completedAt.localeCompare(b.completedAt));
+  } catch (error) {
+    console.error('Error loading assessments:', error);
+    return [];
+  }
+};
+
+// Questionnaires never taken, or last taken longer ago than they ask about
+export const getDueQuestionnaires = (assessments: AssessmentRecord[], now = new Date()): QuestionnaireId[] =>
+  (Object.keys(QUESTIONNAIRES) as QuestionnaireId[]).filter(id => {
+    const latest = assessments.filter(a => a.questionnaireId === id).pop();
+    if (!latest) return true;
+    const ageDays = (now.getTime() - new Date(latest.completedAt).getTime()) / (24 * 60 * 60 * 1000);
+    return ageDays >= QUESTIONNAIRES[id].recallDays;
+  });
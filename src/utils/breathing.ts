@@ -0,0 +1,141 @@
+import { BreathingExerciseRecord, getAllRecords, putRecord } from "@/utils/db";
+import { getActiveSessionId } from "@/utils/session";
+
+export type BreathingPatternId = 'box' | '4-7-8' | 'coherent';
+
+export type BreathingPhaseKind = 'inhale' | 'hold' | 'exhale';
+
+export interface BreathingPhase {
+  kind: BreathingPhaseKind;
+  seconds: number;
+}
+
+export interface BreathingPattern {
+  id: BreathingPatternId;
+  name: string;
+  description: string;
+  phases: BreathingPhase[];
+}
+
+export interface PacerState {
+  phase: BreathingPhase;
+  phaseIndex: number;
+  // Whole seconds left in the phase, for the countdown
+  secondsLeft: number;
+  // Zero-based breath the client is on
+  cycle: number;
+  // How full the lungs are, 0 (empty) to 1 (full), which sizes the pacer
+  fill: number;
+}
+
+// Coherent breathing at 5.5 breaths a minute: an even in and out of ~5.45s
+const COHERENT_HALF_BREATH = 60 / 5.5 / 2;
+
+export const BREATHING_PATTERNS: Record<BreathingPatternId, BreathingPattern> = {
+  box: {
+    id: 'box',
+    name: 'Box Breathing',
+    description: 'Equal counts in, hold, out and hold. Steadies attention when you feel scattered or on edge.',
+    phases: [
+      { kind: 'inhale', seconds: 4 },
+      { kind: 'hold', seconds: 4 },
+      { kind: 'exhale', seconds: 4 },
+      { kind: 'hold', seconds: 4 }
+    ]
+  },
+  '4-7-8': {
+    id: '4-7-8',
+    name: '4-7-8 Breathing',
+    description: 'A long hold and longer exhale that slow things down, often used to wind down for sleep. Start with a few rounds.',
+    phases: [
+      { kind: 'inhale', seconds: 4 },
+      { kind: 'hold', seconds: 7 },
+      { kind: 'exhale', seconds: 8 }
+    ]
+  },
+  coherent: {
+    id: 'coherent',
+    name: 'Coherent Breathing',
+    description: 'Slow, even breaths at 5.5 a minute with no holds. Gentle enough to use when you feel overwhelmed.',
+    phases: [
+      { kind: 'inhale', seconds: COHERENT_HALF_BREATH },
+      { kind: 'exhale', seconds: COHERENT_HALF_BREATH }
+    ]
+  }
+};
+
+export const BREATHING_PATTERN_IDS = Object.keys(BREATHING_PATTERNS) as BreathingPatternId[];
+
+export const PHASE_CUES: Record<BreathingPhaseKind, string> = {
+  inhale: 'Breathe in',
+  hold: 'Hold',
+  exhale: 'Breathe out'
+};
+
+export const DURATION_OPTIONS = [1, 3, 5];
+
+export const getCycleSeconds = (pattern: BreathingPattern): number =>
+  pattern.phases.reduce((sum, phase) => sum + phase.seconds, 0);
+
+// Whole breaths that fit the chosen length, so an exercise never stops mid-breath
+export const getCycleCount = (pattern: BreathingPattern, minutes: number): number =>
+  Math.max(1, Math.round((minutes * 60) / getCycleSeconds(pattern)));
+
+export const getPacerState = (pattern: BreathingPattern, elapsedSeconds: number): PacerState => {
+  const cycleSeconds = getCycleSeconds(pattern);
+  const cycle = Math.floor(elapsedSeconds / cycleSeconds);
+  let offset = elapsedSeconds - cycle * cycleSeconds;
+  // Holds keep whatever level the breath before them reached
+  let fill = pattern.phases[pattern.phases.length - 1].kind === 'inhale' ? 1 : 0;
+
+  for (const [phaseIndex, phase] of pattern.phases.entries()) {
+    if (offset < phase.seconds) {
+      const progress = offset / phase.seconds;
+      if (phase.kind === 'inhale') fill = progress;
+      if (phase.kind === 'exhale') fill = 1 - progress;
+      return { phase, phaseIndex, secondsLeft: Math.ceil(phase.seconds - offset), cycle, fill };
+    }
+    offset -= phase.seconds;
+    if (phase.kind === 'inhale') fill = 1;
+    if (phase.kind === 'exhale') fill = 0;
+  }
+
+  // Only reached through floating point error at the very end of a cycle
+  return { phase: pattern.phases[0], phaseIndex: 0, secondsLeft: Math.ceil(pattern.phases[0].seconds), cycle: cycle + 1, fill: 0 };
+};
+
+export const BREATHING_PROMPT_GUIDANCE = `If the client is anxious, panicky, overwhelmed or can't settle, and a few minutes of paced breathing would help right now, you may offer one:
+     - Invite them in your own words, then end your reply with exactly one of [breathing: coherent], [breathing: box] or [breathing: 4-7-8]
+     - Prefer coherent when they're overwhelmed, box when they're scattered and 4-7-8 when winding down for sleep
+     - Don't offer one in every reply, and never instead of responding to what they shared`;
+
+export const saveBreathingExercise = async (
+  exercise: Omit<BreathingExerciseRecord, 'id' | 'sessionId' | 'completedAt' | 'updatedAt'>
+): Promise<BreathingExerciseRecord | null> => {
+  const now = new Date().toISOString();
+  const record: BreathingExerciseRecord = {
+    ...exercise,
+    id: crypto.randomUUID(),
+    sessionId: getActiveSessionId() || undefined,
+    completedAt: now,
+    updatedAt: now
+  };
+
+  try {
+    await putRecord('breathingExercises', record);
+    return record;
+  } catch (error) {
+    console.error('Error saving breathing exercise:', error);
+    return null;
+  }
+};
+
+export const loadBreathingExercises = async (): Promise<BreathingExerciseRecord[]> => {
+  try {
+    const exercises = await getAllRecords('breathingExercises');
+    return exercises.sort((a, b) => a.completedAt.localeCompare(b.completedAt));
+  } catch (error) {
+    console.error('Error loading breathing exercises:', error);
+    return [];
+  }
+};
@@ -0,0 +1,179 @@
+import { LLMProvider } from "@/utils/llmProvider";
+import type { ProgressData } from "@/utils/progressTracking";
+import { loadSealedItem, saveSealedItem } from "@/utils/vault";
+
+export interface ClientProfile {
+  updatedAt: string;
+  sessionCount: number;
+  summary: string;
+  goals: Array<{
+    goal: string;
+    status: ProgressData['goals'][number]['status'];
+  }>;
+  strengths: string[];
+  challenges: string[];
+  recentSessions: Array<{
+    date: string;
+    summary: string;
+  }>;
+}
+
+const PROFILE_KEY = 'client-profile';
+const MAX_LIST_ITEMS = 8;
+const MAX_RECENT_SESSIONS = 3;
+const MAX_SESSION_NOTE_CHARS = 400;
+const MAX_SUMMARY_CHARS = 1200;
+
+// Default share of the prompt given to long-term memory
+export const CLIENT_PROFILE_TOKEN_BUDGET = 500;
+
+// Rough token estimate; good enough to keep the profile from crowding out the conversation
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Summaries are stored on one line so they sit cleanly inside the prompt
+const truncate = (text: string, maxChars: number): string => {
+  const compact = text.replace(/\s+/g, ' ').trim();
+  return compact.length <= maxChars ? compact : `${compact.slice(0, maxChars - 1).trimEnd()}…`;
+};
+
+// Newest items win when the list is full
+const mergeList = (previous: string[], latest: string[]): string[] => {
+  const seen = new Set<string>();
+  return [...latest, ...previous]
+    .map(item => item.trim())
+    .filter(item => {
+      const key = item.toLowerCase();
+      if (!item || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_LIST_ITEMS);
+};
+
+const mergeGoals = (previous: ClientProfile['goals'], latest: ProgressData['goals']): ClientProfile['goals'] => {
+  const merged = latest.map(({ goal, status }) => ({ goal, status }));
+  previous.forEach(goal => {
+    if (!merged.some(g => g.goal.toLowerCase() === goal.goal.toLowerCase())) {
+      merged.push(goal);
+    }
+  });
+  return merged.slice(0, MAX_LIST_ITEMS);
+};
+
+export const loadClientProfile = async (): Promise<ClientProfile | null> => {
+  try {
+    return await loadSealedItem<ClientProfile>(PROFILE_KEY);
+  } catch (error) {
+    console.error('Error loading client profile:', error);
+    return null;
+  }
+};
+
+export const saveClientProfile = async (profile: ClientProfile): Promise<void> => {
+  try {
+    await saveSealedItem(PROFILE_KEY, profile);
+  } catch (error) {
+    console.error('Error saving client profile:', error);
+  }
+};
+
+export const clearClientProfile = (): void => {
+  localStorage.removeItem(PROFILE_KEY);
+};
+
+/**
+ * Folds the latest session summary into the running one so the profile stays
+ * the same size no matter how many sessions there have been.
+ */
+const rollSummary = async (previous: string, latest: string, provider?: LLMProvider): Promise<string> => {
+  if (!previous) return truncate(latest, MAX_SUMMARY_CHARS);
+
+  if (provider) {
+    const prompt = `You maintain a therapist's long-term notes about a client.
+Merge the existing notes with the summary of the latest session into updated notes.
+
+Rules:
+- At most 150 words, written in the third person
+- Keep durable facts: life situation, important people, recurring concerns, what has and hasn't helped
+- Drop small talk and details that only mattered within one session
+- Plain text only, no headings or markdown
+
+Existing notes:
+${previous}
+
+Latest session:
+${latest}`;
+
+    try {
+      const summary = truncate(await provider.generateContent(prompt, { task: 'client-notes' }), MAX_SUMMARY_CHARS);
+      if (summary) return summary;
+    } catch (error) {
+      console.error('Error rolling client summary:', error);
+    }
+  }
+
+  // Without a model, keep the most recent text
+  return truncate(`${latest} ${previous}`, MAX_SUMMARY_CHARS);
+};
+
+export const updateClientProfile = async (
+  progress: ProgressData,
+  provider?: LLMProvider
+): Promise<ClientProfile> => {
+  const previous = await loadClientProfile();
+
+  const profile: ClientProfile = {
+    updatedAt: new Date().toISOString(),
+    sessionCount: (previous?.sessionCount || 0) + 1,
+    summary: await rollSummary(previous?.summary || '', progress.sessionSummary, provider),
+    goals: mergeGoals(previous?.goals || [], progress.goals),
+    strengths: mergeList(previous?.strengths || [], progress.improvements.strengths),
+    challenges: mergeList(previous?.challenges || [], progress.improvements.challenges),
+    recentSessions: [
+      {
+        date: progress.timestamp,
+        summary: truncate(progress.sessionSummary, MAX_SESSION_NOTE_CHARS)
+      },
+      ...(previous?.recentSessions || [])
+    ].slice(0, MAX_RECENT_SESSIONS)
+  };
+
+  await saveClientProfile(profile);
+  return profile;
+};
+
+/**
+ * Renders the profile for the therapy prompt, most important sections first,
+ * dropping whatever doesn't fit in the token budget.
+ */
+export const formatClientProfileForPrompt = (
+  profile: ClientProfile | null,
+  tokenBudget: number = CLIENT_PROFILE_TOKEN_BUDGET
+): string => {
+  if (!profile || profile.sessionCount === 0) return '';
+
+  const activeGoals = profile.goals.filter(g => g.status !== 'achieved');
+  const achievedGoals = profile.goals.filter(g => g.status === 'achieved');
+
+  const sections = [
+    `Sessions so far: ${profile.sessionCount}`,
+    profile.summary && `Background: ${profile.summary}`,
+    activeGoals.length > 0 && `Current goals: ${activeGoals.map(g => g.goal).join('; ')}`,
+    profile.challenges.length > 0 && `Ongoing challenges: ${profile.challenges.join('; ')}`,
+    profile.strengths.length > 0 && `Strengths: ${profile.strengths.join('; ')}`,
+    achievedGoals.length > 0 && `Goals achieved: ${achievedGoals.map(g => g.goal).join('; ')}`,
+    ...profile.recentSessions.map(s =>
+      `Session on ${new Date(s.date).toLocaleDateString()}: ${s.summary}`)
+  ].filter((section): section is string => !!section);
+
+  const included: string[] = [];
+  let usedTokens = 0;
+  for (const section of sections) {
+    const cost = estimateTokens(section);
+    if (usedTokens + cost > tokenBudget) continue;
+    included.push(section);
+    usedTokens += cost;
+  }
+
+  return included.join('\n  ');
+};
@@ -0,0 +1,169 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { SupabaseClient, createClient } from "@supabase/supabase-js";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { MemoryStorage } from "@/test/memoryStorage";
+import { PostgrestStandIn } from "@/test/postgrestStandIn";
+
+const server = vi.hoisted(() => ({
+  standIn: null as PostgrestStandIn | null,
+  client: null as SupabaseClient | null
+}));
+
+// The app's client is whichever device is acting, each pointed at the local stand-in
+vi.mock("@/lib/supabase", () => ({
+  get supabase() {
+    return server.client;
+  }
+}));
+
+const loadAppModules = async () => ({
+  cloudSync: await import("@/utils/cloudSync"),
+  db: await import("@/utils/db"),
+  goals: await import("@/utils/goals"),
+  session: await import("@/utils/session"),
+  vault: await import("@/utils/vault")
+});
+
+type Device = Awaited<ReturnType<typeof loadAppModules>> & { supabase: SupabaseClient; activate: () => void };
+
+const devices: Device[] = [];
+
+/**
+ * A browser of its own: separate IndexedDB, localStorage, vault and Supabase
+ * client, signed in as `email`. Call `activate()` before acting as this device.
+ */
+const createDevice = async (email: string): Promise<Device> => {
+  const standIn = server.standIn!;
+  const indexedDB = new IDBFactory();
+  const localStorage = new MemoryStorage();
+  const supabase = createClient(standIn.url, "anon-key", {
+    global: { fetch: standIn.fetch },
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+  const activate = () => {
+    vi.stubGlobal("indexedDB", indexedDB);
+    vi.stubGlobal("localStorage", localStorage);
+    server.client = supabase;
+  };
+
+  activate();
+  vi.resetModules();
+  const device = { ...await loadAppModules(), supabase, activate };
+  await device.vault.setupVault("correct horse battery staple");
+  const { error } = await device.supabase.auth.signInWithPassword({ email, password: "password" });
+  if (error) throw error;
+
+  devices.push(device);
+  return device;
+};
+
+const sync = async (device: Device) => {
+  device.activate();
+  const result = await device.cloudSync.syncWithCloud();
+  expect(result.error).toBeUndefined();
+  expect(result.status).toBe("synced");
+  return result;
+};
+
+const message = (role: "user" | "therapist", content: string) =>
+  ({ role, content, timestamp: new Date().toISOString() });
+
+beforeAll(async () => {
+  server.standIn = await PostgrestStandIn.create();
+}, 60_000);
+
+afterAll(async () => {
+  devices.forEach(device => device.vault.lockVault());
+  vi.unstubAllGlobals();
+  await server.standIn?.close();
+});
+
+describe("syncWithCloud", () => {
+  it("copies sessions, goals and coping completions to the user's other device", async () => {
+    const laptop = await createDevice("round-trip@example.com");
+    const phone = await createDevice("round-trip@example.com");
+
+    laptop.activate();
+    const session = {
+      ...laptop.session.createSession(),
+      messages: [message("user", "I slept badly again"), message("therapist", "What kept you awake?")]
+    };
+    await laptop.session.saveSession(session);
+    const goal = await laptop.goals.createGoal({ title: "Sleep by eleven", description: "Wind down earlier" });
+    await laptop.db.putRecord("copingCompletions", {
+      id: crypto.randomUUID(),
+      title: "Box breathing",
+      category: "breathing",
+      completedAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    });
+
+    expect(await sync(laptop)).toMatchObject({ pushed: 3 });
+    expect(await sync(phone)).toMatchObject({ pulled: 3 });
+
+    phone.activate();
+    const pulled = await phone.session.getSession(session.id);
+    expect(pulled?.messages.map(m => m.content)).toEqual(["I slept badly again", "What kept you awake?"]);
+    expect((await phone.goals.loadGoals()).map(g => [g.id, g.title])).toEqual([[goal.id, "Sleep by eleven"]]);
+    expect(await phone.db.getAllRecords("copingCompletions")).toHaveLength(1);
+  }, 30_000);
+
+  it("pulls edits a device made offline even when they predate the other device's last sync", async () => {
+    const laptop = await createDevice("offline@example.com");
+    const phone = await createDevice("offline@example.com");
+    await sync(laptop);
+    await sync(phone);
+
+    // Made while the phone was offline, so its updatedAt is older than the laptop's next sync
+    phone.activate();
+    const goal = await phone.goals.createGoal({ title: "Walk every morning", description: "" });
+
+    await sync(laptop);
+    await sync(phone);
+    await sync(laptop);
+
+    laptop.activate();
+    expect((await laptop.goals.loadGoals()).map(g => g.id)).toEqual([goal.id]);
+  }, 30_000);
+
+  it("keeps the messages added on both devices when a session continues on the other one", async () => {
+    const laptop = await createDevice("merge@example.com");
+    const phone = await createDevice("merge@example.com");
+
+    laptop.activate();
+    const session = { ...laptop.session.createSession(), messages: [message("user", "Work has been a lot")] };
+    await laptop.session.saveSession(session);
+    await sync(laptop);
+    await sync(phone);
+
+    phone.activate();
+    const onPhone = (await phone.session.getSession(session.id))!;
+    await phone.session.saveSession({
+      ...onPhone,
+      messages: [...onPhone.messages, message("therapist", "What part of it weighs on you most?")]
+    });
+    await sync(phone);
+    await sync(laptop);
+
+    laptop.activate();
+    const merged = await laptop.session.getSession(session.id);
+    expect(merged?.messages.map(m => m.content)).toEqual([
+      "Work has been a lot",
+      "What part of it weighs on you most?"
+    ]);
+  }, 30_000);
+
+  it("never shows one account's rows to another", async () => {
+    const mine = await createDevice("mine@example.com");
+    const theirs = await createDevice("theirs@example.com");
+
+    mine.activate();
+    await mine.goals.createGoal({ title: "Call my sister", description: "" });
+    await sync(mine);
+
+    expect(await sync(theirs)).toMatchObject({ pulled: 0 });
+    theirs.activate();
+    expect(await theirs.goals.loadGoals()).toEqual([]);
+  }, 30_000);
+});
@@ -0,0 +1,771 @@
+import { supabase } from "@/lib/supabase";
+import {
+  AssessmentRecord,
+  BreathingExerciseRecord,
+  ContentFeedbackRecord,
+  CopingCompletionRecord,
+  GoalRecord,
+  HomeworkRecord,
+  ProgressRecord,
+  RoutineDayRecord,
+  RoutineSlotRecord,
+  deleteRecord,
+  getAllRecords,
+  getRecord,
+  putRecord,
+  putRecords
+} from "@/utils/db";
+import { normalizeGoal } from "@/utils/goals";
+import { loadRoutine } from "@/utils/routines";
+import { saveReminderSchedule } from "@/utils/routineReminders";
+import { Session, getSession, loadSessions } from "@/utils/session";
+import { isVaultUnlocked } from "@/utils/vault";
+
+export interface SyncResult {
+  status: 'synced' | 'signed-out' | 'locked' | 'error';
+  pushed: number;
+  pulled: number;
+  conflicts: number;
+  error?: string;
+}
+
+interface SessionRow {
+  id: string;
+  user_id?: string;
+  start_time: string;
+  end_time: string | null;
+  resumed_at: string | null;
+  active_ms: number | null;
+  messages: Session['messages'];
+  therapeutic_context: Session['therapeuticContext'];
+  risk_events: Session['riskEvents'];
+  metrics: Session['metrics'] | null;
+  thought_records: Session['thoughtRecords'] | null;
+  updated_at: string;
+}
+
+interface ProgressRow {
+  user_id?: string;
+  session_id: string | null;
+  timestamp: string;
+  data: Omit<ProgressRecord, 'id' | 'sessionId'>;
+  updated_at: string;
+}
+
+interface GoalRow {
+  id: string;
+  user_id?: string;
+  title: string;
+  description: string;
+  progress: number;
+  status: GoalRecord['status'];
+  status_set_by_user: boolean;
+  target_date: string | null;
+  history: GoalRecord['history'];
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+interface CopingCompletionRow {
+  id: string;
+  user_id?: string;
+  session_id: string | null;
+  title: string;
+  category: string;
+  completed_at: string;
+  updated_at: string;
+}
+
+interface ContentFeedbackRow {
+  id: string;
+  user_id?: string;
+  session_id: string | null;
+  item_id: string;
+  event: ContentFeedbackRecord['event'];
+  rating: number | null;
+  category: ContentFeedbackRecord['category'];
+  practitioner: string | null;
+  duration_minutes: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface BreathingExerciseRow {
+  id: string;
+  user_id?: string;
+  session_id: string | null;
+  pattern_id: BreathingExerciseRecord['patternId'];
+  source: BreathingExerciseRecord['source'];
+  duration_seconds: number;
+  cycles: number;
+  calm_before: number;
+  calm_after: number | null;
+  started_at: string;
+  completed_at: string;
+  updated_at: string;
+}
+
+interface RoutineSlotRow {
+  id: RoutineSlotRecord['id'];
+  user_id?: string;
+  time: string;
+  reminder: boolean;
+  items: RoutineSlotRecord['items'];
+  created_at: string;
+  updated_at: string;
+}
+
+interface RoutineDayRow {
+  user_id?: string;
+  date: string;
+  planned: number;
+  completed_item_ids: string[];
+  updated_at: string;
+}
+
+interface HomeworkRow {
+  id: string;
+  user_id?: string;
+  session_id: string | null;
+  title: string;
+  description: string;
+  due_date: string;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+interface AssessmentRow {
+  id: string;
+  user_id?: string;
+  session_id: string | null;
+  questionnaire_id: AssessmentRecord['questionnaireId'];
+  timing: AssessmentRecord['timing'];
+  answers: number[];
+  score: number;
+  severity: string;
+  completed_at: string;
+  updated_at: string;
+}
+
+// Stored in the meta store so it survives reloads alongside the data it describes.
+// The local time of the last sync decides which local changes to push
+const LAST_SYNCED_KEY = 'cloudLastSyncedAt';
+// The newest server synced_at pulled from each table decides what to pull
+const PULL_CURSORS_KEY = 'cloudPullCursors';
+// The account this device's local data has been synced with
+const SYNCED_USER_KEY = 'cloudUserId';
+const EPOCH = new Date(0).toISOString();
+// A write committed while a pull was running can carry an earlier server stamp
+// than rows that pull saw, so each pull looks back this far. Merges are
+// idempotent, so rows pulled twice change nothing
+const PULL_OVERLAP_MS = 60 * 1000;
+
+type PullCursors = Record<string, string>;
+
+// Postgres returns "+00:00" offsets; local records use toISOString(), and they're compared as strings
+const toIso = (timestamp: string) => new Date(timestamp).toISOString();
+
+const sessionUpdatedAt = (session: Session) => session.updatedAt || session.endTime || session.startTime;
+
+const toSessionRow = (session: Session, userId: string): SessionRow => ({
+  id: session.id,
+  user_id: userId,
+  start_time: session.startTime,
+  end_time: session.endTime || null,
+  resumed_at: session.resumedAt || null,
+  active_ms: session.activeMs ?? null,
+  messages: session.messages,
+  therapeutic_context: session.therapeuticContext,
+  risk_events: session.riskEvents,
+  metrics: session.metrics || null,
+  thought_records: session.thoughtRecords || null,
+  updated_at: sessionUpdatedAt(session)
+});
+
+const fromSessionRow = (row: SessionRow): Session => ({
+  id: row.id,
+  startTime: toIso(row.start_time),
+  endTime: row.end_time ? toIso(row.end_time) : undefined,
+  resumedAt: row.resumed_at ? toIso(row.resumed_at) : undefined,
+  activeMs: row.active_ms ?? undefined,
+  updatedAt: toIso(row.updated_at),
+  messages: row.messages || [],
+  therapeuticContext: row.therapeutic_context,
+  riskEvents: row.risk_events || [],
+  metrics: row.metrics || undefined,
+  thoughtRecords: row.thought_records || undefined
+});
+
+const isPrefix = <T>(shorter: T[], longer: T[], same: (a: T, b: T) => boolean) =>
+  shorter.length <= longer.length && shorter.every((item, i) => same(item, longer[i]));
+
+// Thought records can be written or edited on either device; the latest edit of each wins
+const mergeThoughtRecords = (local: Session, remote: Session): Session['thoughtRecords'] => {
+  const records = [...(local.thoughtRecords || []), ...(remote.thoughtRecords || [])]
+    .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt));
+  if (records.length === 0) return undefined;
+
+  return [...new Map(records.map(record => [record.id, record])).values()]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+/**
+ * Last write wins on the session fields, but messages are append-only, so when
+ * one side simply has more of the same conversation those messages are kept
+ * whichever side was edited last. Thought records are merged by id.
+ */
+export const resolveSessionConflict = (local: Session, remote: Session): Session => {
+  const newer = sessionUpdatedAt(remote) > sessionUpdatedAt(local) ? remote : local;
+  const sameMessage = (a: Session['messages'][number], b: Session['messages'][number]) =>
+    a.timestamp === b.timestamp && a.role === b.role && a.content === b.content;
+
+  const longer = local.messages.length >= remote.messages.length ? local : remote;
+  const shorter = longer === local ? remote : local;
+  const messages = isPrefix(shorter.messages, longer.messages, sameMessage) ? longer.messages : newer.messages;
+
+  return { ...newer, messages, thoughtRecords: mergeThoughtRecords(local, remote) };
+};
+
+export const resolveGoalConflict = (local: GoalRecord, remote: GoalRecord): GoalRecord => {
+  const newer = remote.updatedAt > local.updatedAt ? remote : local;
+  // Sessions recorded against the goal on either device all belong in its history
+  const history = [...local.history, ...remote.history]
+    .filter((entry, index, all) => all.findIndex(e => e.timestamp === entry.timestamp) === index)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  return { ...newer, history };
+};
+
+const getLastSyncedAt = async (): Promise<string> => {
+  const record = await getRecord('meta', LAST_SYNCED_KEY);
+  return typeof record?.value === 'string' ? record.value : EPOCH;
+};
+
+const getPullCursors = async (): Promise<PullCursors> => {
+  const record = await getRecord('meta', PULL_CURSORS_KEY);
+  return record?.value && typeof record.value === 'object' ? { ...record.value as PullCursors } : {};
+};
+
+/**
+ * Fetches the rows changed since the table's cursor. Rows are selected by the
+ * synced_at the server stamps on every write, never by a device's clock, so
+ * edits a device made offline are pulled however old their updated_at is.
+ */
+const pullRows = async <T>(table: string, cursors: PullCursors): Promise<T[]> => {
+  const cursor = cursors[table];
+  const from = cursor ? new Date(new Date(cursor).getTime() - PULL_OVERLAP_MS).toISOString() : EPOCH;
+  const { data, error } = await supabase.from(table).select('*').gt('synced_at', from).order('synced_at');
+  if (error) throw error;
+
+  const rows = (data || []) as Array<T & { synced_at: string }>;
+  if (rows.length > 0) {
+    cursors[table] = rows[rows.length - 1].synced_at;
+  }
+  return rows;
+};
+
+const syncSessions = async (userId: string, since: string, cursors: PullCursors, result: SyncResult) => {
+  const data = await pullRows<SessionRow>('sessions', cursors);
+
+  const pulledIds = new Set<string>();
+  for (const row of data) {
+    const remote = fromSessionRow(row);
+    const local = await getSession(remote.id);
+    const resolved = local ? resolveSessionConflict(local, remote) : remote;
+    if (local && sessionUpdatedAt(local) > since) result.conflicts++;
+
+    const { messages, ...record } = resolved;
+    await putRecord('sessions', record);
+    await putRecords('messages', messages.map((message, position) => ({ ...message, sessionId: resolved.id, position })));
+    pulledIds.add(remote.id);
+    result.pulled++;
+
+    // The local side won, or the merge produced something neither side had yet
+    if (local && (
+      sessionUpdatedAt(resolved) > sessionUpdatedAt(remote) ||
+      resolved.messages.length > remote.messages.length ||
+      (resolved.thoughtRecords || []).length > (remote.thoughtRecords || []).length
+    )) {
+      const { error: pushError } = await supabase.from('sessions').upsert(toSessionRow(resolved, userId));
+      if (pushError) throw pushError;
+      result.pushed++;
+    }
+  }
+
+  const changed = (await loadSessions()).filter(
+    session => session.messages.length > 0 && sessionUpdatedAt(session) > since && !pulledIds.has(session.id)
+  );
+  if (changed.length > 0) {
+    const { error: pushError } = await supabase.from('sessions').upsert(changed.map(s => toSessionRow(s, userId)));
+    if (pushError) throw pushError;
+    result.pushed += changed.length;
+  }
+};
+
+// Progress reports are never edited, so syncing is a union keyed by timestamp
+const syncProgress = async (userId: string, since: string, cursors: PullCursors, result: SyncResult) => {
+  const data = await pullRows<ProgressRow>('progress_reports', cursors);
+
+  const local = await getAllRecords('progress');
+  const localTimestamps = new Set(local.map(p => p.timestamp));
+  const pulled = data.filter(row => !localTimestamps.has(toIso(row.timestamp)));
+  for (const row of pulled) {
+    await putRecord('progress', { ...row.data, sessionId: row.session_id || undefined });
+  }
+  result.pulled += pulled.length;
+
+  const remoteTimestamps = new Set(data.map(row => toIso(row.timestamp)));
+  const changed = local.filter(p => p.timestamp > since && !remoteTimestamps.has(p.timestamp));
+  if (changed.length > 0) {
+    const rows: ProgressRow[] = changed.map(({ id, sessionId, ...progress }) => ({
+      user_id: userId,
+      session_id: sessionId || null,
+      timestamp: progress.timestamp,
+      data: progress,
+      updated_at: progress.timestamp
+    }));
+    const { error: pushError } = await supabase
+      .from('progress_reports')
+      .upsert(rows, { onConflict: 'user_id,timestamp', ignoreDuplicates: true });
+    if (pushError) throw pushError;
+    result.pushed += changed.length;
+  }
+};
+
+const syncGoals = async (userId: string, since: string, cursors: PullCursors, result: SyncResult) => {
+  const data = await pullRows<GoalRow>('goals', cursors);
+
+  let local = (await getAllRecords('goals')).map(normalizeGoal);
+  const pulledIds = new Set<string>();
+  for (const row of data) {
+    const remote: GoalRecord = {
+      id: row.id,
+      title: row.title,
+      description: row.description,
+      progress: row.progress,
+      status: row.status,
+      statusSetByUser: row.status_set_by_user || undefined,
+      targetDate: row.target_date || undefined,
+      history: row.history || [],
+      createdAt: toIso(row.created_at),
+      updatedAt: toIso(row.updated_at),
+      deletedAt: row.deleted_at ? toIso(row.deleted_at) : undefined
+    };
+
+    // The same goal set on two devices gets two ids; converge on the remote one
+    const match = local.find(g => g.id === remote.id) ||
+      local.find(g => !g.deletedAt && !remote.deletedAt && g.title === remote.title);
+    const resolved = match ? { ...resolveGoalConflict(match, remote), id: remote.id } : remote;
+    if (match && match.updatedAt > since) result.conflicts++;
+    if (match && match.id !== remote.id) {
+      await deleteRecord('goals', match.id);
+    }
+
+    await putRecord('goals', resolved);
+    pulledIds.add(remote.id);
+    result.pulled++;
+  }
+
+  local = (await getAllRecords('goals')).map(normalizeGoal);
+  const changed = local.filter(g => g.updatedAt > since && !pulledIds.has(g.id));
+  const winners = local.filter(g => pulledIds.has(g.id) && g.updatedAt > since &&
+    data.some(row => row.id === g.id && toIso(row.updated_at) < g.updatedAt));
+  const toPush = [...changed, ...winners];
+  if (toPush.length > 0) {
+    const rows: GoalRow[] = toPush.map(goal => ({
+      id: goal.id,
+      user_id: userId,
+      title: goal.title,
+      description: goal.description,
+      progress: goal.progress,
+      status: goal.status,
+      status_set_by_user: !!goal.statusSetByUser,
+      target_date: goal.targetDate || null,
+      history: goal.history,
+      created_at: goal.createdAt,
+      updated_at: goal.updatedAt,
+      deleted_at: goal.deletedAt || null
+    }));
+    const { error: pushError } = await supabase.from('goals').upsert(rows);
+    if (pushError) throw pushError;
+    result.pushed += toPush.length;
+  }
+};
+
+// Completions are append-only as well, keyed by their own id
+const syncCopingCompletions = async (userId: string, since: string, cursors: PullCursors, result: SyncResult) => {
+  const data = await pullRows<CopingCompletionRow>('coping_completions', cursors);
+
+  const local = await getAllRecords('copingCompletions');
+  const localIds = new Set(local.map(c => c.id));
+  const pulled: CopingCompletionRecord[] = data
+    .filter(row => !localIds.has(row.id))
+    .map(row => ({
+      id: row.id,
+      sessionId: row.session_id || undefined,
+      title: row.title,
+      category: row.category,
+      completedAt: toIso(row.completed_at),
+      updatedAt: toIso(row.updated_at)
+    }));
+  if (pulled.length > 0) {
+    await putRecords('copingCompletions', pulled);
+  }
+  result.pulled += pulled.length;
+
+  const remoteIds = new Set(data.map(row => row.id));
+  const changed = local.filter(c => c.updatedAt > since && !remoteIds.has(c.id));
+  if (changed.length > 0) {
+    const rows: CopingCompletionRow[] = changed.map(completion => ({
+      id: completion.id,
+      user_id: userId,
+      session_id: completion.sessionId || null,
+      title: completion.title,
+      category: completion.category,
+      completed_at: completion.completedAt,
+      updated_at: completion.updatedAt
+    }));
+    const { error: pushError } = await supabase.from('coping_completions').upsert(rows);
+    if (pushError) throw pushError;
+    result.pushed += changed.length;
+  }
+};
+
+// Feedback events are append-only; a new rating is a new event
+const syncContentFeedback = async (userId: string, since: string, cursors: PullCursors, result: SyncResult) => {
+  const data = await pullRows<ContentFeedbackRow>('content_feedback', cursors);
+
+  const local = await getAllRecords('contentFeedback');
+  const localIds = new Set(local.map(f => f.id));
+  const pulled: ContentFeedbackRecord[] = data
+    .filter(row => !localIds.has(row.id))
+    .map(row => ({
+      id: row.id,
+      itemId: row.item_id,
+      sessionId: row.session_id || undefined,
+      event: row.event,
+      rating: row.rating ?? undefined,
+      category: row.category,
+      practitioner: row.practitioner || undefined,
+      durationMinutes: row.duration_minutes ?? undefined,
+      createdAt: toIso(row.created_at),
+      updatedAt: toIso(row.updated_at)
+    }));
+  if (pulled.length > 0) {
+    await putRecords('contentFeedback', pulled);
+  }
+  result.pulled += pulled.length;
+
+  const remoteIds = new Set(data.map(row => row.id));
+  const changed = local.filter(f => f.updatedAt > since && !remoteIds.has(f.id));
+  if (changed.length > 0) {
+    const rows: ContentFeedbackRow[] = changed.map(feedback => ({
+      id: feedback.id,
+      user_id: userId,
+      session_id: feedback.sessionId || null,
+      item_id: feedback.itemId,
+      event: feedback.event,
+      rating: feedback.rating ?? null,
+      category: feedback.category,
+      practitioner: feedback.practitioner || null,
+      duration_minutes: feedback.durationMinutes ?? null,
+      created_at: feedback.createdAt,
+      updated_at: feedback.updatedAt
+    }));
+    const { error: pushError } = await supabase.from('content_feedback').upsert(rows);
+    if (pushError) throw pushError;
+    result.pushed += changed.length;
+  }
+};
+
+// Exercises are saved once, when the client finishes rating them
+const syncBreathingExercises = async (userId: string, since: string, cursors: PullCursors, result: SyncResult) => {
+  const data = await pullRows<BreathingExerciseRow>('breathing_exercises', cursors);
+
+  const local = await getAllRecords('breathingExercises');
+  const localIds = new Set(local.map(e => e.id));
+  const pulled: BreathingExerciseRecord[] = data
+    .filter(row => !localIds.has(row.id))
+    .map(row => ({
+      id: row.id,
+      sessionId: row.session_id || undefined,
+      patternId: row.pattern_id,
+      source: row.source,
+      durationSeconds: row.duration_seconds,
+      cycles: row.cycles,
+      calmBefore: row.calm_before,
+      calmAfter: row.calm_after ?? undefined,
+      startedAt: toIso(row.started_at),
+      completedAt: toIso(row.completed_at),
+      updatedAt: toIso(row.updated_at)
+    }));
+  if (pulled.length > 0) {
+    await putRecords('breathingExercises', pulled);
+  }
+  result.pulled += pulled.length;
+
+  const remoteIds = new Set(data.map(row => row.id));
+  const changed = local.filter(e => e.updatedAt > since && !remoteIds.has(e.id));
+  if (changed.length > 0) {
+    const rows: BreathingExerciseRow[] = changed.map(exercise => ({
+      id: exercise.id,
+      user_id: userId,
+      session_id: exercise.sessionId || null,
+      pattern_id: exercise.patternId,
+      source: exercise.source,
+      duration_seconds: exercise.durationSeconds,
+      cycles: exercise.cycles,
+      calm_before: exercise.calmBefore,
+      calm_after: exercise.calmAfter ?? null,
+      started_at: exercise.startedAt,
+      completed_at: exercise.completedAt,
+      updated_at: exercise.updatedAt
+    }));
+    const { error: pushError } = await supabase.from('breathing_exercises').upsert(rows);
+    if (pushError) throw pushError;
+    result.pushed += changed.length;
+  }
+};
+
+// Questionnaire results never change once submitted
+const syncAssessments = async (userId: string, since: string, cursors: PullCursors, result: SyncResult) => {
+  const data = await pullRows<AssessmentRow>('assessment_results', cursors);
+
+  const local = await getAllRecords('assessments');
+  const localIds = new Set(local.map(a => a.id));
+  const pulled: AssessmentRecord[] = data
+    .filter(row => !localIds.has(row.id))
+    .map(row => ({
+      id: row.id,
+      questionnaireId: row.questionnaire_id,
+      sessionId: row.session_id || undefined,
+      timing: row.timing,
+      answers: row.answers,
+      score: row.score,
+      severity: row.severity,
+      completedAt: toIso(row.completed_at),
+      updatedAt: toIso(row.updated_at)
+    }));
+  if (pulled.length > 0) {
+    await putRecords('assessments', pulled);
+  }
+  result.pulled += pulled.length;
+
+  const remoteIds = new Set(data.map(row => row.id));
+  const changed = local.filter(a => a.updatedAt > since && !remoteIds.has(a.id));
+  if (changed.length > 0) {
+    const rows: AssessmentRow[] = changed.map(assessment => ({
+      id: assessment.id,
+      user_id: userId,
+      session_id: assessment.sessionId || null,
+      questionnaire_id: assessment.questionnaireId,
+      timing: assessment.timing,
+      answers: assessment.answers,
+      score: assessment.score,
+      severity: assessment.severity,
+      completed_at: assessment.completedAt,
+      updated_at: assessment.updatedAt
+    }));
+    const { error: pushError } = await supabase.from('assessment_results').upsert(rows);
+    if (pushError) throw pushError;
+    result.pushed += changed.length;
+  }
+};
+
+// Routine slots and days are whole records; whichever side saved last wins
+const syncRoutines = async (userId: string, since: string, cursors: PullCursors, result: SyncResult) => {
+  const slotData = await pullRows<RoutineSlotRow>('routine_slots', cursors);
+
+  const localSlots = await getAllRecords('routineSlots');
+  const remoteSlots = new Map<string, string>();
+  for (const row of slotData) {
+    const updatedAt = toIso(row.updated_at);
+    remoteSlots.set(row.id, updatedAt);
+    const local = localSlots.find(slot => slot.id === row.id);
+    if (local && local.updatedAt > since) result.conflicts++;
+    if (!local || updatedAt > local.updatedAt) {
+      await putRecord('routineSlots', {
+        id: row.id,
+        time: row.time,
+        reminder: row.reminder,
+        items: row.items || [],
+        createdAt: toIso(row.created_at),
+        updatedAt
+      });
+      result.pulled++;
+    }
+  }
+
+  const changedSlots = localSlots.filter(slot =>
+    slot.updatedAt > since && (!remoteSlots.has(slot.id) || slot.updatedAt > remoteSlots.get(slot.id)!));
+  if (changedSlots.length > 0) {
+    const rows: RoutineSlotRow[] = changedSlots.map(slot => ({
+      id: slot.id,
+      user_id: userId,
+      time: slot.time,
+      reminder: slot.reminder,
+      items: slot.items,
+      created_at: slot.createdAt,
+      updated_at: slot.updatedAt
+    }));
+    const { error: pushError } = await supabase.from('routine_slots').upsert(rows, { onConflict: 'user_id,id' });
+    if (pushError) throw pushError;
+    result.pushed += changedSlots.length;
+  }
+  // Pulled times and toggles change when reminders are due
+  saveReminderSchedule(await loadRoutine());
+
+  const dayData = await pullRows<RoutineDayRow>('routine_days', cursors);
+
+  const localDays = await getAllRecords('routineDays');
+  const remoteDays = new Map<string, string>();
+  for (const row of dayData) {
+    const updatedAt = toIso(row.updated_at);
+    remoteDays.set(row.date, updatedAt);
+    const local = localDays.find(day => day.date === row.date);
+    if (!local || updatedAt > local.updatedAt) {
+      const day: RoutineDayRecord = {
+        date: row.date,
+        planned: row.planned,
+        completedItemIds: row.completed_item_ids || [],
+        updatedAt
+      };
+      await putRecord('routineDays', day);
+      result.pulled++;
+    }
+  }
+
+  const changedDays = localDays.filter(day =>
+    day.updatedAt > since && (!remoteDays.has(day.date) || day.updatedAt > remoteDays.get(day.date)!));
+  if (changedDays.length > 0) {
+    const rows: RoutineDayRow[] = changedDays.map(day => ({
+      user_id: userId,
+      date: day.date,
+      planned: day.planned,
+      completed_item_ids: day.completedItemIds,
+      updated_at: day.updatedAt
+    }));
+    const { error: pushError } = await supabase.from('routine_days').upsert(rows, { onConflict: 'user_id,date' });
+    if (pushError) throw pushError;
+    result.pushed += changedDays.length;
+  }
+};
+
+// Homework is checked off and removed in place; whichever side saved last wins
+const syncHomework = async (userId: string, since: string, cursors: PullCursors, result: SyncResult) => {
+  const data = await pullRows<HomeworkRow>('homework', cursors);
+
+  const local = await getAllRecords('homework');
+  const remoteUpdates = new Map<string, string>();
+  for (const row of data) {
+    const updatedAt = toIso(row.updated_at);
+    remoteUpdates.set(row.id, updatedAt);
+    const match = local.find(item => item.id === row.id);
+    if (match && match.updatedAt > since) result.conflicts++;
+    if (!match || updatedAt > match.updatedAt) {
+      const item: HomeworkRecord = {
+        id: row.id,
+        sessionId: row.session_id || undefined,
+        title: row.title,
+        description: row.description,
+        dueDate: row.due_date,
+        completedAt: row.completed_at ? toIso(row.completed_at) : undefined,
+        createdAt: toIso(row.created_at),
+        updatedAt,
+        deletedAt: row.deleted_at ? toIso(row.deleted_at) : undefined
+      };
+      await putRecord('homework', item);
+      result.pulled++;
+    }
+  }
+
+  const changed = local.filter(item =>
+    item.updatedAt > since && (!remoteUpdates.has(item.id) || item.updatedAt > remoteUpdates.get(item.id)!));
+  if (changed.length > 0) {
+    const rows: HomeworkRow[] = changed.map(item => ({
+      id: item.id,
+      user_id: userId,
+      session_id: item.sessionId || null,
+      title: item.title,
+      description: item.description,
+      due_date: item.dueDate,
+      completed_at: item.completedAt || null,
+      created_at: item.createdAt,
+      updated_at: item.updatedAt,
+      deleted_at: item.deletedAt || null
+    }));
+    const { error: pushError } = await supabase.from('homework').upsert(rows);
+    if (pushError) throw pushError;
+    result.pushed += changed.length;
+  }
+};
+
+const runSync = async (): Promise<SyncResult> => {
+  const result: SyncResult = { status: 'synced', pushed: 0, pulled: 0, conflicts: 0 };
+
+  // Local records can't be read or written until the vault is unlocked
+  if (!isVaultUnlocked()) {
+    return { ...result, status: 'locked' };
+  }
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return { ...result, status: 'signed-out' };
+    }
+
+    // Never push one person's local history into someone else's account
+    const syncedUser = await getRecord('meta', SYNCED_USER_KEY);
+    if (syncedUser && syncedUser.value !== user.id) {
+      return { ...result, status: 'error', error: 'Local data on this device belongs to another account' };
+    }
+
+    const startedAt = new Date().toISOString();
+    const since = await getLastSyncedAt();
+    const cursors = await getPullCursors();
+
+    await syncSessions(user.id, since, cursors, result);
+    await syncProgress(user.id, since, cursors, result);
+    await syncGoals(user.id, since, cursors, result);
+    await syncCopingCompletions(user.id, since, cursors, result);
+    await syncAssessments(user.id, since, cursors, result);
+    await syncContentFeedback(user.id, since, cursors, result);
+    await syncRoutines(user.id, since, cursors, result);
+    await syncBreathingExercises(user.id, since, cursors, result);
+    await syncHomework(user.id, since, cursors, result);
+
+    await putRecords('meta', [
+      { key: LAST_SYNCED_KEY, value: startedAt },
+      { key: PULL_CURSORS_KEY, value: cursors },
+      { key: SYNCED_USER_KEY, value: user.id }
+    ]);
+    return result;
+  } catch (error) {
+    console.error('Error syncing with cloud:', error);
+    return {
+      ...result,
+      status: 'error',
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+let syncInFlight: Promise<SyncResult> | null = null;
+
+/**
+ * Two-way sync between the local IndexedDB store and the signed-in user's
+ * Supabase rows. Does nothing while signed out or while the vault is locked;
+ * local data stays on the device until the next sync. Overlapping calls share
+ * one run.
+ */
+export const syncWithCloud = (): Promise<SyncResult> => {
+  if (!syncInFlight) {
+    syncInFlight = runSync().finally(() => {
+      syncInFlight = null;
+    });
+  }
+  return syncInFlight;
+};
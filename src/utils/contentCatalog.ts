@@ -0,0 +1,411 @@
+export type ContentCategory =
+  | 'meditation'
+  | 'relaxation'
+  | 'educational'
+  | 'motivation'
+  | 'breathing'
+  | 'mindfulness'
+  | 'exercise'
+  | 'sleep';
+
+export type ContentDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
+export interface CatalogItem {
+  id: string;
+  title: string;
+  url: string;
+  description: string;
+  category: ContentCategory;
+  // Minutes to practise or read; self-paced programmes give a typical sitting
+  durationMinutes: number;
+  difficulty: ContentDifficulty;
+  tags: string[];
+  benefits?: string[];
+  practitioner?: string;
+}
+
+export interface CategoryMetadata {
+  title: string;
+  description: string;
+  icon: 'Brain' | 'Sparkles' | 'BookOpen' | 'Rocket' | 'Wind' | 'Heart' | 'Activity' | 'Moon';
+  themeColor: {
+    bg: string;
+    text: string;
+    border: string;
+  };
+}
+
+export const CATEGORY_METADATA: Record<ContentCategory, CategoryMetadata> = {
+  meditation: {
+    title: 'Meditation',
+    description: 'Mental wellness',
+    icon: 'Brain',
+    themeColor: {
+      bg: 'bg-blue-50/50',
+      text: 'text-blue-800',
+      border: 'border-blue-100'
+    }
+  },
+  relaxation: {
+    title: 'Relaxation',
+    description: 'Stress relief',
+    icon: 'Sparkles',
+    themeColor: {
+      bg: 'bg-purple-50/50',
+      text: 'text-purple-800',
+      border: 'border-purple-100'
+    }
+  },
+  educational: {
+    title: 'Educational',
+    description: 'Learn & grow',
+    icon: 'BookOpen',
+    themeColor: {
+      bg: 'bg-amber-50/50',
+      text: 'text-amber-800',
+      border: 'border-amber-100'
+    }
+  },
+  motivation: {
+    title: 'Motivation',
+    description: 'Inspiration & drive',
+    icon: 'Rocket',
+    themeColor: {
+      bg: 'bg-indigo-50/50',
+      text: 'text-indigo-800',
+      border: 'border-indigo-100'
+    }
+  },
+  breathing: {
+    title: 'Breathing',
+    description: 'Breath work',
+    icon: 'Wind',
+    themeColor: {
+      bg: 'bg-cyan-50/50',
+      text: 'text-cyan-800',
+      border: 'border-cyan-100'
+    }
+  },
+  mindfulness: {
+    title: 'Mindfulness',
+    description: 'Present awareness',
+    icon: 'Heart',
+    themeColor: {
+      bg: 'bg-rose-50/50',
+      text: 'text-rose-800',
+      border: 'border-rose-100'
+    }
+  },
+  exercise: {
+    title: 'Exercise',
+    description: 'Physical health',
+    icon: 'Activity',
+    themeColor: {
+      bg: 'bg-emerald-50/50',
+      text: 'text-emerald-800',
+      border: 'border-emerald-100'
+    }
+  },
+  sleep: {
+    title: 'Sleep',
+    description: 'Rest & recovery',
+    icon: 'Moon',
+    themeColor: {
+      bg: 'bg-violet-50/50',
+      text: 'text-violet-800',
+      border: 'border-violet-100'
+    }
+  }
+};
+
+export const CONTENT_CATEGORIES = Object.keys(CATEGORY_METADATA) as ContentCategory[];
+
+// Publishers whose pages have been reviewed; links anywhere else are never shown
+const TRUSTED_HOSTS = new Set([
+  'www.nhs.uk',
+  'www.nimh.nih.gov',
+  'ggia.berkeley.edu',
+  'palousemindfulness.com',
+  'www.freemindfulness.org',
+  'actionforhappiness.org',
+  'www.getselfhelp.co.uk',
+  'www.sleepfoundation.org',
+  'www.youtube.com',
+  'youtu.be'
+]);
+
+const YOUTUBE_ID = /^[\w-]{11}$/;
+
+export const getYouTubeVideoId = (url: string): string | null => {
+  try {
+    const parsed = new URL(url);
+    if (parsed.hostname === 'youtu.be') return parsed.pathname.slice(1);
+    if (parsed.hostname === 'www.youtube.com') {
+      if (parsed.pathname === '/watch') return parsed.searchParams.get('v');
+      if (parsed.pathname.startsWith('/embed/')) return parsed.pathname.slice('/embed/'.length);
+    }
+  } catch (error) {
+    console.error('Error parsing YouTube URL:', error);
+  }
+  return null;
+};
+
+/**
+ * A link is only shown when it is https, on a reviewed publisher, and — for
+ * YouTube — points at a well-formed video rather than a search or channel.
+ */
+export const isVerifiedUrl = (url: string): boolean => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== 'https:' || !TRUSTED_HOSTS.has(parsed.hostname)) return false;
+
+  if (parsed.hostname === 'www.youtube.com' || parsed.hostname === 'youtu.be') {
+    const videoId = getYouTubeVideoId(url);
+    return !!videoId && YOUTUBE_ID.test(videoId);
+  }
+  return true;
+};
+
+export const formatContentDuration = (minutes: number): string =>
+  minutes >= 60 ? `${Math.round(minutes / 60)} hr` : `${minutes} min`;
+
+// Every entry was opened and read before being added; add new ones the same way
+const CATALOG_ENTRIES: CatalogItem[] = [
+  {
+    id: 'nhs-mindfulness',
+    title: 'Mindfulness',
+    url: 'https://www.nhs.uk/mental-health/self-help/tips-and-support/mindfulness/',
+    description: 'What mindfulness is, how it helps, and simple ways to start noticing the present moment.',
+    category: 'meditation',
+    durationMinutes: 5,
+    difficulty: 'beginner',
+    tags: ['anxiety', 'stress', 'low mood', 'getting started'],
+    benefits: ['Less rumination', 'Calmer attention'],
+    practitioner: 'NHS'
+  },
+  {
+    id: 'free-mindfulness-downloads',
+    title: 'Free Guided Meditations',
+    url: 'https://www.freemindfulness.org/download',
+    description: 'A library of free guided meditations from mindfulness teachers, from 3-minute breathing spaces to longer body scans.',
+    category: 'meditation',
+    durationMinutes: 10,
+    difficulty: 'beginner',
+    tags: ['anxiety', 'stress', 'sadness', 'guided audio'],
+    benefits: ['Steadier mood', 'Easier to settle'],
+    practitioner: 'Free Mindfulness Project'
+  },
+  {
+    id: 'palouse-mbsr',
+    title: 'Mindfulness-Based Stress Reduction Course',
+    url: 'https://palousemindfulness.com/',
+    description: 'A free, self-paced eight-week MBSR course with videos, guided practices and readings.',
+    category: 'meditation',
+    durationMinutes: 45,
+    difficulty: 'intermediate',
+    tags: ['stress', 'anxiety', 'pain', 'structured programme'],
+    benefits: ['Lasting stress reduction', 'Regular practice habit'],
+    practitioner: 'Dave Potter'
+  },
+  {
+    id: 'nhs-stress',
+    title: 'Stress: Tips and Support',
+    url: 'https://www.nhs.uk/every-mind-matters/mental-health-issues/stress/',
+    description: 'Recognising the signs of stress and practical steps to take the pressure down.',
+    category: 'relaxation',
+    durationMinutes: 5,
+    difficulty: 'beginner',
+    tags: ['stress', 'anger', 'overwhelm'],
+    benefits: ['Spot stress early', 'Practical relief'],
+    practitioner: 'NHS Every Mind Matters'
+  },
+  {
+    id: 'ggia-body-scan',
+    title: 'Body Scan Meditation',
+    url: 'https://ggia.berkeley.edu/practice/body_scan_meditation',
+    description: 'Move attention slowly through the body to release tension you may not have noticed.',
+    category: 'relaxation',
+    durationMinutes: 30,
+    difficulty: 'beginner',
+    tags: ['stress', 'anxiety', 'tension', 'sleep'],
+    benefits: ['Physical relaxation', 'Body awareness'],
+    practitioner: 'Greater Good Science Center'
+  },
+  {
+    id: 'nimh-anxiety',
+    title: 'Anxiety Disorders',
+    url: 'https://www.nimh.nih.gov/health/topics/anxiety-disorders',
+    description: 'How anxiety disorders differ from everyday worry, their symptoms, and the treatments that work.',
+    category: 'educational',
+    durationMinutes: 10,
+    difficulty: 'beginner',
+    tags: ['anxiety', 'fear', 'panic', 'understanding'],
+    benefits: ['Understand symptoms', 'Know treatment options'],
+    practitioner: 'National Institute of Mental Health'
+  },
+  {
+    id: 'nimh-depression',
+    title: 'Depression',
+    url: 'https://www.nimh.nih.gov/health/topics/depression',
+    description: 'Signs of depression, what causes it, and the evidence on therapy and medication.',
+    category: 'educational',
+    durationMinutes: 10,
+    difficulty: 'beginner',
+    tags: ['sadness', 'low mood', 'depression', 'understanding'],
+    benefits: ['Understand symptoms', 'Know when to seek help'],
+    practitioner: 'National Institute of Mental Health'
+  },
+  {
+    id: 'get-self-help-cbt',
+    title: 'CBT Self-Help Resources',
+    url: 'https://www.getselfhelp.co.uk/',
+    description: 'Free cognitive behavioural therapy worksheets and explanations for working through unhelpful thoughts.',
+    category: 'educational',
+    durationMinutes: 20,
+    difficulty: 'intermediate',
+    tags: ['anxiety', 'low mood', 'anger', 'thoughts', 'cbt'],
+    benefits: ['Challenge unhelpful thoughts', 'Structured self-help'],
+    practitioner: 'Carol Vivyan'
+  },
+  {
+    id: 'nhs-five-steps',
+    title: '5 Steps to Mental Wellbeing',
+    url: 'https://www.nhs.uk/mental-health/self-help/guides-tools-and-activities/five-steps-to-mental-wellbeing/',
+    description: 'Connecting, being active, learning, giving and paying attention: small steps with evidence behind them.',
+    category: 'motivation',
+    durationMinutes: 5,
+    difficulty: 'beginner',
+    tags: ['low mood', 'sadness', 'loneliness', 'wellbeing'],
+    benefits: ['Concrete next steps', 'Better wellbeing'],
+    practitioner: 'NHS'
+  },
+  {
+    id: 'ggia-three-good-things',
+    title: 'Three Good Things',
+    url: 'https://ggia.berkeley.edu/practice/three-good-things',
+    description: 'Each evening, write down three things that went well and why. Ten minutes a day for a week.',
+    category: 'motivation',
+    durationMinutes: 10,
+    difficulty: 'beginner',
+    tags: ['sadness', 'low mood', 'gratitude', 'joy'],
+    benefits: ['More positive focus', 'Lift in mood'],
+    practitioner: 'Greater Good Science Center'
+  },
+  {
+    id: 'action-for-happiness',
+    title: 'Action for Happiness',
+    url: 'https://actionforhappiness.org/',
+    description: 'Monthly action calendars and ideas for small, everyday things that build happiness and connection.',
+    category: 'motivation',
+    durationMinutes: 10,
+    difficulty: 'beginner',
+    tags: ['low mood', 'loneliness', 'joy', 'wellbeing'],
+    benefits: ['Daily ideas', 'Sense of connection'],
+    practitioner: 'Action for Happiness'
+  },
+  {
+    id: 'nhs-breathing-for-stress',
+    title: 'Breathing Exercises for Stress',
+    url: 'https://www.nhs.uk/mental-health/self-help/guides-tools-and-activities/breathing-exercises-for-stress/',
+    description: 'A simple calming breath you can do anywhere, sitting, standing or lying down.',
+    category: 'breathing',
+    durationMinutes: 5,
+    difficulty: 'beginner',
+    tags: ['anxiety', 'stress', 'panic', 'fear', 'anger', 'quick relief'],
+    benefits: ['Calms the body quickly', 'Usable anywhere'],
+    practitioner: 'NHS'
+  },
+  {
+    id: 'ggia-mindful-breathing',
+    title: 'Mindful Breathing',
+    url: 'https://ggia.berkeley.edu/practice/mindful_breathing',
+    description: 'Rest attention on the breath and gently bring it back each time the mind wanders.',
+    category: 'breathing',
+    durationMinutes: 15,
+    difficulty: 'beginner',
+    tags: ['anxiety', 'stress', 'focus', 'rumination'],
+    benefits: ['Steadier attention', 'Less reactivity'],
+    practitioner: 'Greater Good Science Center'
+  },
+  {
+    id: 'ggia-self-compassion-break',
+    title: 'Self-Compassion Break',
+    url: 'https://ggia.berkeley.edu/practice/self_compassion_break',
+    description: 'A short practice for difficult moments: acknowledge the pain, remember you are not alone, and offer yourself kindness.',
+    category: 'mindfulness',
+    durationMinutes: 5,
+    difficulty: 'beginner',
+    tags: ['sadness', 'shame', 'self-criticism', 'quick relief'],
+    benefits: ['Kinder self-talk', 'Less self-criticism'],
+    practitioner: 'Kristin Neff'
+  },
+  {
+    id: 'ggia-raisin-meditation',
+    title: 'Raisin Meditation',
+    url: 'https://ggia.berkeley.edu/practice/raisin_meditation',
+    description: 'Eat one raisin slowly with full attention: a classic first step into mindful awareness.',
+    category: 'mindfulness',
+    durationMinutes: 5,
+    difficulty: 'beginner',
+    tags: ['stress', 'rumination', 'getting started'],
+    benefits: ['Present-moment focus', 'Break autopilot'],
+    practitioner: 'Greater Good Science Center'
+  },
+  {
+    id: 'nhs-exercise',
+    title: 'Exercise Guidelines and Ideas',
+    url: 'https://www.nhs.uk/live-well/exercise/',
+    description: 'How much activity helps, and ways to build it into your week whatever your fitness.',
+    category: 'exercise',
+    durationMinutes: 10,
+    difficulty: 'beginner',
+    tags: ['low mood', 'stress', 'energy', 'wellbeing'],
+    benefits: ['Better mood', 'More energy'],
+    practitioner: 'NHS'
+  },
+  {
+    id: 'nhs-fitness-studio',
+    title: 'NHS Fitness Studio',
+    url: 'https://www.nhs.uk/conditions/nhs-fitness-studio/',
+    description: 'Free follow-along videos for aerobics, strength, pilates and yoga at home.',
+    category: 'exercise',
+    durationMinutes: 30,
+    difficulty: 'intermediate',
+    tags: ['low mood', 'stress', 'anger', 'energy'],
+    benefits: ['Release tension', 'Routine at home'],
+    practitioner: 'NHS'
+  },
+  {
+    id: 'nhs-how-to-get-to-sleep',
+    title: 'How to Get to Sleep',
+    url: 'https://www.nhs.uk/live-well/sleep-and-tiredness/how-to-get-to-sleep/',
+    description: 'Practical changes to your evening and bedroom that help you fall asleep and stay asleep.',
+    category: 'sleep',
+    durationMinutes: 5,
+    difficulty: 'beginner',
+    tags: ['sleep', 'anxiety', 'tiredness'],
+    benefits: ['Fall asleep sooner', 'Better rest'],
+    practitioner: 'NHS'
+  },
+  {
+    id: 'sleep-foundation-hygiene',
+    title: 'Sleep Hygiene',
+    url: 'https://www.sleepfoundation.org/sleep-hygiene',
+    description: 'The habits and environment that support consistent, good-quality sleep.',
+    category: 'sleep',
+    durationMinutes: 10,
+    difficulty: 'beginner',
+    tags: ['sleep', 'stress', 'tiredness', 'routine'],
+    benefits: ['Consistent sleep', 'More energy'],
+    practitioner: 'Sleep Foundation'
+  }
+];
+
+export const CONTENT_CATALOG: CatalogItem[] = CATALOG_ENTRIES.filter(item => isVerifiedUrl(item.url));
+
+export const getCatalogItem = (id: string): CatalogItem | undefined =>
+  CONTENT_CATALOG.find(item => item.id === id);
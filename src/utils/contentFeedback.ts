@@ -0,0 +1,184 @@
+import { ContentFeedbackRecord, getAllRecords, putRecord } from "@/utils/db";
+import { getActiveSessionId } from "@/utils/session";
+import type { CatalogItem } from "@/utils/contentCatalog";
+
+export type ContentFeedbackEvent = ContentFeedbackRecord['event'];
+
+export type DurationBand = 'short' | 'medium' | 'long';
+
+/**
+ * What this user's history says they like, as affinities from -1 (avoids) to
+ * 1 (prefers) per category, practitioner and length, plus the items they have
+ * recently finished or turned down.
+ */
+export interface ContentPreferences {
+  categories: Record<string, number>;
+  practitioners: Record<string, number>;
+  durations: Partial<Record<DurationBand, number>>;
+  seenItemIds: Set<string>;
+  dislikedItemIds: Set<string>;
+}
+
+// How strongly each event says the user wants more like this
+const EVENT_WEIGHTS: Record<Exclude<ContentFeedbackEvent, 'rated'>, number> = {
+  opened: 0.25,
+  completed: 1,
+  skipped: -1
+};
+
+// Finished and skipped items stay out of recommendations for this long, then may return
+const SEEN_DAYS = 14;
+const DISLIKED_RATING = 2;
+// Pseudo-events at zero, so one reaction doesn't swing a whole category
+const PRIOR_WEIGHT = 2;
+
+export const getDurationBand = (minutes: number): DurationBand => {
+  if (minutes <= 10) return 'short';
+  if (minutes <= 30) return 'medium';
+  return 'long';
+};
+
+const eventWeight = (record: ContentFeedbackRecord): number =>
+  record.event === 'rated'
+    // 3 stars is neutral; 1 and 5 count as strongly as a skip or a completion
+    ? ((record.rating ?? 3) - 3) / 2
+    : EVENT_WEIGHTS[record.event];
+
+const toAffinities = (totals: Map<string, { sum: number; count: number }>): Record<string, number> =>
+  Object.fromEntries([...totals].map(([key, { sum, count }]) => [key, sum / (count + PRIOR_WEIGHT)]));
+
+const addTo = (totals: Map<string, { sum: number; count: number }>, key: string, weight: number) => {
+  const total = totals.get(key) || { sum: 0, count: 0 };
+  totals.set(key, { sum: total.sum + weight, count: total.count + 1 });
+};
+
+export const buildPreferenceModel = (feedback: ContentFeedbackRecord[], now = new Date()): ContentPreferences => {
+  const categories = new Map<string, { sum: number; count: number }>();
+  const practitioners = new Map<string, { sum: number; count: number }>();
+  const durations = new Map<string, { sum: number; count: number }>();
+  const seenSince = new Date(now.getTime() - SEEN_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const seenItemIds = new Set<string>();
+  const latestRating = new Map<string, ContentFeedbackRecord>();
+
+  feedback.forEach(record => {
+    const weight = eventWeight(record);
+    addTo(categories, record.category, weight);
+    if (record.practitioner) addTo(practitioners, record.practitioner, weight);
+    if (record.durationMinutes !== undefined) addTo(durations, getDurationBand(record.durationMinutes), weight);
+
+    if ((record.event === 'completed' || record.event === 'skipped') && record.createdAt >= seenSince) {
+      seenItemIds.add(record.itemId);
+    }
+    if (record.event === 'rated') {
+      const previous = latestRating.get(record.itemId);
+      if (!previous || record.createdAt > previous.createdAt) latestRating.set(record.itemId, record);
+    }
+  });
+
+  // Only the latest rating counts, so raising a low rating brings the item back
+  const dislikedItemIds = new Set(
+    [...latestRating.values()]
+      .filter(record => (record.rating ?? 3) <= DISLIKED_RATING)
+      .map(record => record.itemId)
+  );
+
+  return {
+    categories: toAffinities(categories),
+    practitioners: toAffinities(practitioners),
+    durations: toAffinities(durations),
+    seenItemIds,
+    dislikedItemIds
+  };
+};
+
+export const emptyPreferences = (): ContentPreferences => ({
+  categories: {},
+  practitioners: {},
+  durations: {},
+  seenItemIds: new Set(),
+  dislikedItemIds: new Set()
+});
+
+// Items the user has recently finished or rated poorly aren't offered again
+export const isFilteredOut = (item: CatalogItem, preferences: ContentPreferences): boolean =>
+  preferences.seenItemIds.has(item.id) || preferences.dislikedItemIds.has(item.id);
+
+/**
+ * How well an item matches the user's history, from -1 to 1: the average of
+ * the category, practitioner and length affinities that are known.
+ */
+export const scorePreference = (item: CatalogItem, preferences: ContentPreferences): number => {
+  const affinities = [
+    preferences.categories[item.category],
+    item.practitioner ? preferences.practitioners[item.practitioner] : undefined,
+    preferences.durations[getDurationBand(item.durationMinutes)]
+  ].filter((value): value is number => value !== undefined);
+
+  return affinities.length > 0 ? affinities.reduce((sum, value) => sum + value, 0) / affinities.length : 0;
+};
+
+/**
+ * A sentence for the ranking prompt, or an empty string when there's no
+ * history to go on yet.
+ */
+export const describePreferences = (preferences: ContentPreferences): string => {
+  const ranked = (affinities: Record<string, number>, sign: 1 | -1) =>
+    Object.entries(affinities)
+      .filter(([, value]) => value * sign >= 0.2)
+      .sort((a, b) => (b[1] - a[1]) * sign)
+      .map(([key]) => key);
+
+  const describe = (sign: 1 | -1) => [
+    ...ranked(preferences.categories, sign),
+    ...ranked(preferences.practitioners, sign),
+    ...ranked(preferences.durations, sign).map(band => `${band} items`)
+  ];
+  const liked = describe(1);
+  const avoided = describe(-1);
+
+  return [
+    liked.length > 0 ? `Tends to finish and rate highly: ${liked.join(', ')}.` : '',
+    avoided.length > 0 ? `Tends to skip or rate poorly: ${avoided.join(', ')}.` : ''
+  ].filter(Boolean).join(' ');
+};
+
+export const recordContentFeedback = async (
+  item: CatalogItem,
+  event: ContentFeedbackEvent,
+  rating?: number
+): Promise<ContentFeedbackRecord | null> => {
+  const now = new Date().toISOString();
+  const record: ContentFeedbackRecord = {
+    id: crypto.randomUUID(),
+    itemId: item.id,
+    sessionId: getActiveSessionId() || undefined,
+    event,
+    rating,
+    category: item.category,
+    practitioner: item.practitioner,
+    durationMinutes: item.durationMinutes,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  try {
+    await putRecord('contentFeedback', record);
+    return record;
+  } catch (error) {
+    console.error('Error recording content feedback:', error);
+    return null;
+  }
+};
+
+export const loadContentFeedback = async (): Promise<ContentFeedbackRecord[]> => {
+  try {
+    const feedback = await getAllRecords('contentFeedback');
+    return feedback.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch (error) {
+    console.error('Error loading content feedback:', error);
+    return [];
+  }
+};
+
+export const loadContentPreferences = async (): Promise<ContentPreferences> =>
+  buildPreferenceModel(await loadContentFeedback());
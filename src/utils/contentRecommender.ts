@@ -1,34 +1,47 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-
-export type ContentCategory = 
-  | 'meditation'
-  | 'relaxation'
-  | 'educational'
-  | 'motivation'
-  | 'breathing'
-  | 'mindfulness'
-  | 'exercise'
-  | 'sleep';
-
-interface ContentItem {
+import { z } from "zod";
+import { LLMProvider, createLLMProvider, getLLMConfig, isLLMConfigured } from "@/utils/llmProvider";
+import { generateStructured } from "@/utils/structuredOutput";
+import { getAllRecords, putRecord } from "@/utils/db";
+import {
+  CATEGORY_METADATA,
+  CONTENT_CATALOG,
+  CONTENT_CATEGORIES,
+  CatalogItem,
+  CategoryMetadata,
+  ContentCategory,
+  ContentDifficulty,
+  formatContentDuration,
+  getCatalogItem,
+  isVerifiedUrl
+} from "@/utils/contentCatalog";
+import {
+  ContentPreferences,
+  describePreferences,
+  emptyPreferences,
+  isFilteredOut,
+  scorePreference
+} from "@/utils/contentFeedback";
+
+export type { ContentCategory } from "@/utils/contentCatalog";
+
+export interface ContentItem {
+  id?: string;
   title: string;
   url: string;
   description: string;
   category: ContentCategory;
   duration?: string;
-  difficulty?: 'beginner' | 'intermediate' | 'advanced';
+  difficulty?: ContentDifficulty;
   tags?: string[];
   benefits?: string[];
   practitioner?: string;
-  iconType?: 'Brain' | 'Sparkles' | 'BookOpen' | 'Rocket' | 'Wind' | 'Heart' | 'Activity' | 'Moon';
-  themeColor?: {
-    bg: string;
-    text: string;
-    border: string;
-  };
+  // Why this item suits the user right now
+  reason?: string;
+  iconType?: CategoryMetadata['icon'];
+  themeColor?: CategoryMetadata['themeColor'];
 }
 
-interface ContentRecommendation {
+export interface ContentRecommendation {
   meditation: ContentItem[];
   relaxation: ContentItem[];
   educational: ContentItem[];
@@ -45,120 +58,159 @@ interface ContentRecommendation {
     afternoon: ContentItem[];
     evening: ContentItem[];
   };
-  categories: {
-    [key in ContentCategory]: {
-      title: string;
-      description: string;
-      icon: string;
-      themeColor: {
-        bg: string;
-        text: string;
-        border: string;
-      };
-    };
-  };
+  categories: Record<ContentCategory, CategoryMetadata>;
 }
 
+type RoutineTime = keyof NonNullable<ContentRecommendation['suggestedRoutine']>;
+
+const MAX_PER_CATEGORY = 3;
+// How many items to show when ranking by mood alone
+const FALLBACK_ITEMS = 8;
+// How far a strong preference can move an item against the model's ordering
+const PREFERENCE_WEIGHT = 0.5;
+const ROUTINE_ITEMS_PER_SLOT = 2;
+
+// Categories that suit each part of the day, in order of fit
+const ROUTINE_SLOTS: Record<RoutineTime, ContentCategory[]> = {
+  morning: ['meditation', 'exercise', 'motivation', 'breathing'],
+  afternoon: ['mindfulness', 'educational', 'breathing', 'motivation'],
+  evening: ['relaxation', 'sleep', 'mindfulness']
+};
+
+const rankingSchema = z.object({
+  mood: z.string().describe("The user's current emotional state and its intensity"),
+  reason: z.string().describe('Why this selection would help, addressed to the user'),
+  focusAreas: z.array(z.string()).describe('Two or three short areas to focus on'),
+  picks: z.array(z.object({
+    id: z.string().describe('Id of a catalog item, copied exactly'),
+    why: z.string().describe('One sentence on why it suits the user now')
+  })).describe('Catalog items, most helpful first')
+});
+
+// Catalog tags that fit each detected emotion, for ranking without the model
+const MOOD_TAGS: Record<string, string[]> = {
+  anxiety: ['anxiety', 'panic', 'quick relief'],
+  fear: ['fear', 'anxiety', 'quick relief'],
+  stress: ['stress', 'tension', 'overwhelm'],
+  anger: ['anger', 'stress', 'quick relief'],
+  sadness: ['sadness', 'low mood', 'self-criticism'],
+  disgust: ['self-criticism', 'stress'],
+  surprise: ['stress', 'getting started'],
+  joy: ['joy', 'gratitude', 'wellbeing'],
+  happy: ['joy', 'gratitude', 'wellbeing'],
+  neutral: ['getting started', 'wellbeing']
+};
+
+export const toContentItem = (item: CatalogItem, reason?: string): ContentItem => {
+  const metadata = CATEGORY_METADATA[item.category];
+  return {
+    id: item.id,
+    title: item.title,
+    url: item.url,
+    description: item.description,
+    category: item.category,
+    duration: formatContentDuration(item.durationMinutes),
+    difficulty: item.difficulty,
+    tags: item.tags,
+    benefits: item.benefits,
+    practitioner: item.practitioner,
+    reason,
+    iconType: metadata.icon,
+    themeColor: metadata.themeColor
+  };
+};
+
+const emptyRecommendations = (mood: string): ContentRecommendation => ({
+  meditation: [],
+  relaxation: [],
+  educational: [],
+  motivation: [],
+  breathing: [],
+  mindfulness: [],
+  exercise: [],
+  sleep: [],
+  reason: '',
+  userMood: mood,
+  focusAreas: [],
+  categories: CATEGORY_METADATA
+});
+
+/**
+ * The catalog without what the user has recently finished, skipped or rated
+ * poorly. Once everything has been seen, only poorly rated items stay out.
+ */
+export const getAvailableItems = (preferences: ContentPreferences): CatalogItem[] => {
+  const available = CONTENT_CATALOG.filter(item => !isFilteredOut(item, preferences));
+  return available.length > 0
+    ? available
+    : CONTENT_CATALOG.filter(item => !preferences.dislikedItemIds.has(item.id));
+};
+
+/**
+ * Orders the catalog by how many of an item's tags fit the mood, favouring
+ * short beginner items, which are easier to start when someone is struggling,
+ * and what the user's history says they like.
+ */
+export const rankCatalogForMood = (mood: string, preferences = emptyPreferences()): CatalogItem[] => {
+  const wanted = new Set(MOOD_TAGS[mood.toLowerCase()] || MOOD_TAGS.neutral);
+  const score = (item: CatalogItem) =>
+    item.tags.filter(tag => wanted.has(tag)).length * 10
+    + (item.difficulty === 'beginner' ? 2 : 0)
+    - item.durationMinutes / 30
+    + scorePreference(item, preferences) * 10;
+
+  return getAvailableItems(preferences).sort((a, b) => score(b) - score(a));
+};
+
+const groupByCategory = (
+  items: Array<{ item: CatalogItem; reason?: string }>,
+  mood: string
+): ContentRecommendation => {
+  const recommendations = emptyRecommendations(mood);
+  items.forEach(({ item, reason }) => {
+    const list = recommendations[item.category];
+    if (list.length < MAX_PER_CATEGORY && !list.some(existing => existing.id === item.id)) {
+      list.push(toContentItem(item, reason));
+    }
+  });
+  return recommendations;
+};
+
+/**
+ * Drops anything that isn't a verified link, so recommendations saved before
+ * the catalog existed never surface an invented URL.
+ */
+export const withVerifiedLinks = (recommendations: ContentRecommendation): ContentRecommendation => {
+  const verified = { ...recommendations, categories: CATEGORY_METADATA };
+  CONTENT_CATEGORIES.forEach(category => {
+    verified[category] = (recommendations[category] || []).filter(item => isVerifiedUrl(item.url));
+  });
+  if (recommendations.suggestedRoutine) {
+    const { morning, afternoon, evening } = recommendations.suggestedRoutine;
+    verified.suggestedRoutine = {
+      morning: morning.filter(item => isVerifiedUrl(item.url)),
+      afternoon: afternoon.filter(item => isVerifiedUrl(item.url)),
+      evening: evening.filter(item => isVerifiedUrl(item.url))
+    };
+  }
+  return verified;
+};
+
 export class ContentRecommender {
-  private genAI: GoogleGenerativeAI;
-  private model: any;
+  private llm: LLMProvider;
   private lastCallTime: number = 0;
   private minTimeBetweenCalls: number = 10000; // 10 seconds between calls
   private retryCount: number = 0;
   private maxRetries: number = 3;
 
-  private readonly categoryMetadata = {
-    meditation: {
-      title: 'Mindfulness',
-      description: 'Mental wellness',
-      icon: 'Brain',
-      themeColor: {
-        bg: 'bg-blue-50/50',
-        text: 'text-blue-800',
-        border: 'border-blue-100'
-      }
-    },
-    relaxation: {
-      title: 'Relaxation',
-      description: 'Stress relief',
-      icon: 'Sparkles',
-      themeColor: {
-        bg: 'bg-purple-50/50',
-        text: 'text-purple-800',
-        border: 'border-purple-100'
-      }
-    },
-    educational: {
-      title: 'Educational',
-      description: 'Learn & grow',
-      icon: 'BookOpen',
-      themeColor: {
-        bg: 'bg-amber-50/50',
-        text: 'text-amber-800',
-        border: 'border-amber-100'
-      }
-    },
-    motivation: {
-      title: 'Motivation',
-      description: 'Inspiration & drive',
-      icon: 'Rocket',
-      themeColor: {
-        bg: 'bg-indigo-50/50',
-        text: 'text-indigo-800',
-        border: 'border-indigo-100'
-      }
-    },
-    breathing: {
-      title: 'Breathing',
-      description: 'Breath work',
-      icon: 'Wind',
-      themeColor: {
-        bg: 'bg-cyan-50/50',
-        text: 'text-cyan-800',
-        border: 'border-cyan-100'
-      }
-    },
-    mindfulness: {
-      title: 'Mindfulness',
-      description: 'Present awareness',
-      icon: 'Heart',
-      themeColor: {
-        bg: 'bg-rose-50/50',
-        text: 'text-rose-800',
-        border: 'border-rose-100'
-      }
-    },
-    exercise: {
-      title: 'Exercise',
-      description: 'Physical health',
-      icon: 'Activity',
-      themeColor: {
-        bg: 'bg-emerald-50/50',
-        text: 'text-emerald-800',
-        border: 'border-emerald-100'
-      }
-    },
-    sleep: {
-      title: 'Sleep',
-      description: 'Rest & recovery',
-      icon: 'Moon',
-      themeColor: {
-        bg: 'bg-violet-50/50',
-        text: 'text-violet-800',
-        border: 'border-violet-100'
-      }
-    }
-  };
-
-  constructor(apiKey: string) {
-    if (!apiKey) {
+  constructor(apiKey?: string, provider?: LLMProvider) {
+    if (!provider && !isLLMConfigured(apiKey)) {
       throw new Error('API key is required for content recommendations');
     }
-    this.genAI = new GoogleGenerativeAI(apiKey);
-    this.model = this.genAI.getGenerativeModel({ model: "gemini-2.0-flash-lite-preview-02-05" });
+    this.llm = provider || createLLMProvider(getLLMConfig(apiKey));
   }
 
-  private async rateLimitedRequest(prompt: string): Promise<string> {
+  private async rateLimitedRequest<T>(request: () => Promise<T>): Promise<T> {
     const now = Date.now();
     const timeSinceLastCall = now - this.lastCallTime;
 
@@ -170,216 +222,158 @@ export class ContentRecommender {
 
     try {
       this.lastCallTime = Date.now();
-      const result = await this.model.generateContent(prompt);
-      const response = await result.response;
+      const result = await request();
       this.retryCount = 0;
-      return response.text();
+      return result;
     } catch (error: any) {
       if (error.message?.includes('429') && this.retryCount < this.maxRetries) {
         this.retryCount++;
         const backoffTime = Math.pow(2, this.retryCount) * 1000;
         await new Promise(resolve => setTimeout(resolve, backoffTime));
-        return this.rateLimitedRequest(prompt);
+        return this.rateLimitedRequest(request);
       }
       throw error;
     }
   }
 
-  private parseRecommendations(text: string): ContentRecommendation {
-    const recommendations: ContentRecommendation = {
-      meditation: [],
-      relaxation: [],
-      educational: [],
-      motivation: [],
-      breathing: [],
-      mindfulness: [],
-      exercise: [],
-      sleep: [],
-      reason: '',
-      userMood: '',
-      focusAreas: [],
-      categories: this.categoryMetadata
-    };
+  /**
+   * The model only ranks and explains catalog items; it never supplies links.
+   * Ids it invents are dropped, its order is adjusted by the user's history,
+   * and if it fails the catalog is ranked by mood.
+   */
+  async getRecommendations(
+    mood: string,
+    context: string,
+    preferences = emptyPreferences()
+  ): Promise<ContentRecommendation> {
+    const available = getAvailableItems(preferences);
+    const catalog = available.map(item =>
+      `${item.id} | ${item.category} | ${item.title} | ${item.durationMinutes} min | ${item.difficulty} | ${item.tags.join(', ')}`
+    ).join('\n');
+
+    const prompt = `Choose the content from this catalog that would best support the user's emotional well-being right now.
+
+Catalog (id | category | title | duration | difficulty | tags):
+${catalog}
 
-    try {
-      const sections = text.split('\n\n');
-      sections.forEach(section => {
-        if (section.toLowerCase().includes('reason:')) {
-          recommendations.reason = section.split('Reason:')[1].trim();
-        } else if (section.toLowerCase().includes('mood:')) {
-          recommendations.userMood = section.split('Mood:')[1].trim();
-        } else if (section.toLowerCase().includes('focus areas:')) {
-          recommendations.focusAreas = section
-            .split('Focus Areas:')[1]
-            .trim()
-            .split('-')
-            .map(area => area.trim())
-            .filter(Boolean);
-        } else {
-          const categoryMatch = section.match(/^(meditation|relaxation|educational|motivation|breathing|mindfulness|exercise|sleep):/i);
-          if (categoryMatch) {
-            const category = categoryMatch[1].toLowerCase() as ContentCategory;
-            const contentLines = section.split('\n').slice(1);
-            contentLines.forEach(line => {
-              if (line.includes('|')) {
-                const [
-                  title,
-                  url,
-                  description,
-                  duration,
-                  difficulty,
-                  practitioner,
-                  tagsStr,
-                  benefitsStr
-                ] = line.split('|').map(s => s.trim());
-
-                if (title && url) {
-                  const metadata = this.categoryMetadata[category];
-                  const contentItem: ContentItem = {
-                    title,
-                    url,
-                    description: description || '',
-                    category,
-                    duration: duration || undefined,
-                    difficulty: difficulty as 'beginner' | 'intermediate' | 'advanced' || undefined,
-                    practitioner: practitioner || undefined,
-                    tags: tagsStr ? tagsStr.split(',').map(t => t.trim()) : undefined,
-                    benefits: benefitsStr ? benefitsStr.split(',').map(b => b.trim()) : undefined,
-                    iconType: metadata.icon as ContentItem['iconType'],
-                    themeColor: metadata.themeColor
-                  };
-                  recommendations[category].push(contentItem);
-                }
-              }
-            });
-          }
-        }
-      });
-    } catch (error) {
-      console.error('Error parsing recommendations:', error);
-    }
+User's Current Mood: ${mood}
+Context: ${context}
+${describePreferences(preferences) ? `User's History: ${describePreferences(preferences)}\n` : ''}
+Guidelines:
+1. Pick up to ${MAX_PER_CATEGORY} items per category, and only items that genuinely fit; skipping a category is fine
+2. Order picks from most to least helpful
+3. Favour short, beginner items when the user seems distressed or low on energy
+4. Explain each pick in one warm sentence that refers to what the user is going through`;
+
+    const recommendations = await this.rankWithModel(prompt, mood, available, preferences)
+      || this.rankByMood(mood, preferences);
 
+    recommendations.suggestedRoutine = this.createSuggestedRoutine(recommendations, preferences);
     return recommendations;
   }
 
-  async getRecommendations(mood: string, context: string): Promise<ContentRecommendation> {
-    const prompt = `Based on the user's current emotional state and context, recommend appropriate YouTube content across different categories to support their emotional well-being. Provide detailed recommendations in this format:
-
-Mood:
-[Current emotional state and intensity]
-
-Reason:
-[Detailed explanation of why these recommendations would be helpful]
-
-Focus Areas:
-- [Key area of focus 1]
-- [Key area of focus 2]
-- [Key area of focus 3]
-
-For each category below, provide recommendations in this format:
-[Title] | [YouTube URL] | [Detailed description] | [Duration] | [Difficulty] | [Practitioner] | [Tags] | [Benefits]
-
-Meditation:
-[Recommendations with focus on current emotional needs]
-
-Relaxation:
-[Recommendations for stress relief and calmness]
-
-Educational:
-[Recommendations for understanding and managing emotions]
-
-Motivation:
-[Recommendations for encouragement and positive mindset]
-
-Breathing:
-[Recommendations for specific breathing techniques]
-
-Mindfulness:
-[Recommendations for present-moment awareness]
-
-Exercise:
-[Recommendations for physical well-being]
-
-Sleep:
-[Recommendations for better rest and recovery]
-
-User's Current Mood: ${mood}
-Context: ${context}
+  private async rankWithModel(
+    prompt: string,
+    mood: string,
+    available: CatalogItem[],
+    preferences: ContentPreferences
+  ): Promise<ContentRecommendation | null> {
+    try {
+      const ranking = await this.rateLimitedRequest(() => generateStructured(this.llm, prompt, rankingSchema, { task: 'content-ranking' }));
+      const availableIds = new Set(available.map(item => item.id));
+      const matched = ranking.picks.flatMap(({ id, why }) => {
+        const item = getCatalogItem(id.trim());
+        return item && availableIds.has(item.id) ? [{ item, reason: why }] : [];
+      });
+      if (matched.length === 0) return null;
 
-Important Guidelines:
-1. Ensure content is specifically tailored to the user's current emotional state
-2. Include only high-quality, professionally produced content
-3. Provide a mix of content lengths (short for immediate help, longer for deep work)
-4. Include recognized practitioners and experts
-5. Focus on evidence-based techniques and approaches
-6. Consider the user's potential energy level and capacity based on their mood
-7. Include specific benefits for each recommendation
-8. Tag content appropriately for easy reference
-9. Indicate difficulty level to prevent overwhelm
-10. Ensure all URLs are valid and content is appropriate for therapeutic context`;
+      // The model's order, nudged by what this user tends to finish and rate well
+      const score = (index: number, item: CatalogItem) =>
+        1 - index / matched.length + PREFERENCE_WEIGHT * scorePreference(item, preferences);
+      const picks = matched
+        .map((pick, index) => ({ ...pick, score: score(index, pick.item) }))
+        .sort((a, b) => b.score - a.score);
 
-    try {
-      const text = await this.rateLimitedRequest(prompt);
-      const recommendations = this.parseRecommendations(text);
-      
-      // Add suggested routine based on time of day and recommendations
-      recommendations.suggestedRoutine = this.createSuggestedRoutine(recommendations);
-      
-      return recommendations;
-    } catch (error) {
-      console.error('Error getting recommendations:', error);
       return {
-        meditation: [],
-        relaxation: [],
-        educational: [],
-        motivation: [],
-        breathing: [],
-        mindfulness: [],
-        exercise: [],
-        sleep: [],
-        reason: 'Unable to generate recommendations at this time. Please try again later.',
-        userMood: mood,
-        focusAreas: [],
-        categories: this.categoryMetadata
+        ...groupByCategory(picks, ranking.mood || mood),
+        reason: ranking.reason,
+        focusAreas: ranking.focusAreas
       };
+    } catch (error) {
+      console.error('Error getting recommendations:', error);
+      return null;
     }
   }
 
-  private createSuggestedRoutine(recommendations: ContentRecommendation): ContentRecommendation['suggestedRoutine'] {
-    const routine = {
-      morning: [] as ContentItem[],
-      afternoon: [] as ContentItem[],
-      evening: [] as ContentItem[]
+  private rankByMood(mood: string, preferences: ContentPreferences): ContentRecommendation {
+    return {
+      ...groupByCategory(rankCatalogForMood(mood, preferences).slice(0, FALLBACK_ITEMS).map(item => ({ item })), mood),
+      reason: 'A selection from our reviewed library that suits how you have been feeling.'
     };
+  }
 
-    // Morning routine preferences
-    if (recommendations.meditation.length > 0) {
-      routine.morning.push(recommendations.meditation[0]);
-    }
-    if (recommendations.exercise.length > 0) {
-      routine.morning.push(recommendations.exercise[0]);
-    }
-
-    // Afternoon routine preferences
-    if (recommendations.mindfulness.length > 0) {
-      routine.afternoon.push(recommendations.mindfulness[0]);
-    }
-    if (recommendations.educational.length > 0) {
-      routine.afternoon.push(recommendations.educational[0]);
-    }
+  /**
+   * Fills each part of the day with the best fits from its categories: ranked
+   * items first, with the user's preferences deciding between categories.
+   */
+  private createSuggestedRoutine(
+    recommendations: ContentRecommendation,
+    preferences: ContentPreferences
+  ): ContentRecommendation['suggestedRoutine'] {
+    const used = new Set<string>();
+
+    const fill = (time: RoutineTime): ContentItem[] => {
+      const candidates = ROUTINE_SLOTS[time].flatMap(category =>
+        recommendations[category].map((item, rank) => {
+          const catalogItem = item.id ? getCatalogItem(item.id) : undefined;
+          const preference = catalogItem ? scorePreference(catalogItem, preferences) : 0;
+          return { item, score: preference - rank * 0.25 };
+        })
+      );
 
-    // Evening routine preferences
-    if (recommendations.relaxation.length > 0) {
-      routine.evening.push(recommendations.relaxation[0]);
-    }
-    if (recommendations.sleep.length > 0) {
-      routine.evening.push(recommendations.sleep[0]);
-    }
+      const chosen = candidates
+        .filter(({ item }) => !used.has(item.url))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, ROUTINE_ITEMS_PER_SLOT)
+        .map(({ item }) => item);
+      chosen.forEach(item => used.add(item.url));
+      return chosen;
+    };
 
-    return routine;
+    return {
+      morning: fill('morning'),
+      afternoon: fill('afternoon'),
+      evening: fill('evening')
+    };
   }
 }
 
-export const initializeContentRecommender = (apiKey: string) => {
-  return new ContentRecommender(apiKey);
+export const initializeContentRecommender = (apiKey?: string, provider?: LLMProvider) => {
+  return new ContentRecommender(apiKey, provider);
+};
+
+export const saveRecommendations = async (
+  recommendations: ContentRecommendation,
+  sessionId?: string
+): Promise<void> => {
+  try {
+    await putRecord('recommendations', {
+      sessionId,
+      createdAt: new Date().toISOString(),
+      recommendations
+    });
+  } catch (error) {
+    console.error('Error saving recommendations:', error);
+  }
+};
+
+export const loadLatestRecommendations = async (): Promise<ContentRecommendation | null> => {
+  try {
+    const records = await getAllRecords('recommendations');
+    const latest = records.sort((a, b) => a.createdAt.localeCompare(b.createdAt)).pop();
+    return latest ? withVerifiedLinks(latest.recommendations) : null;
+  } catch (error) {
+    console.error('Error loading recommendations:', error);
+    return null;
+  }
 };
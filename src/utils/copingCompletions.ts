@@ -0,0 +1,28 @@
+import { CopingCompletionRecord, getAllRecords, putRecord } from "@/utils/db";
+import { getActiveSessionId } from "@/utils/session";
+
+export const recordCopingCompletion = async (strategy: { title: string; category: string }): Promise<void> => {
+  const now = new Date().toISOString();
+  try {
+    await putRecord('copingCompletions', {
+      id: crypto.randomUUID(),
+      sessionId: getActiveSessionId() || undefined,
+      title: strategy.title,
+      category: strategy.category,
+      completedAt: now,
+      updatedAt: now
+    });
+  } catch (error) {
+    console.error('Error recording coping completion:', error);
+  }
+};
+
+export const loadCopingCompletions = async (): Promise<CopingCompletionRecord[]> => {
+  try {
+    const completions = await getAllRecords('copingCompletions');
+    return completions.sort((a, b) => a.completedAt.localeCompare(b.completedAt));
+  } catch (error) {
+    console.error('Error loading coping completions:', error);
+    return [];
+  }
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { detectCrisisRegion, getCrisisResources } from "@/utils/crisisResources";
+
+describe("detectCrisisRegion", () => {
+  it("uses the time zone when the locale has no region", () => {
+    expect(detectCrisisRegion("en", "America/Chicago")).toBe("US");
+    expect(detectCrisisRegion("en", "Europe/London")).toBe("GB");
+  });
+
+  it("prefers the time zone over a default en-US locale", () => {
+    expect(detectCrisisRegion("en-US", "Australia/Sydney")).toBe("AU");
+  });
+
+  it("falls back to the locale's region, then to international numbers", () => {
+    expect(detectCrisisRegion("en-IE", "Etc/UTC")).toBe("IE");
+    expect(detectCrisisRegion("en", "Europe/Berlin")).toBe("INTL");
+  });
+});
+
+describe("getCrisisResources", () => {
+  it("lists the chosen region's hotlines, most relevant first", () => {
+    const resources = getCrisisResources(["abuse"], "US");
+    expect(resources.emergencyNumber).toBe("911");
+    expect(resources.resources[0].name).toBe("Crisis Text Line");
+  });
+});
@@ -0,0 +1,259 @@
+import type { RiskCategory } from "@/utils/riskClassifier";
+
+export interface CrisisResource {
+  name: string;
+  description: string;
+  phone?: string;
+  text?: string;
+  url?: string;
+  categories: RiskCategory[];
+}
+
+export interface CrisisResources {
+  region: string;
+  emergencyNumber: string;
+  resources: CrisisResource[];
+}
+
+const ALL_CATEGORIES: RiskCategory[] = ['suicidal-ideation', 'self-harm', 'abuse'];
+
+const FIND_A_HELPLINE: CrisisResource = {
+  name: 'Find A Helpline',
+  description: 'Free, confidential helplines in your country',
+  url: 'https://findahelpline.com',
+  categories: ALL_CATEGORIES
+};
+
+// Keyed by ISO 3166 region
+const RESOURCES_BY_REGION: Record<string, CrisisResources> = {
+  US: {
+    region: 'United States',
+    emergencyNumber: '911',
+    resources: [
+      {
+        name: '988 Suicide & Crisis Lifeline',
+        description: 'Call or text, 24/7',
+        phone: '988',
+        text: '988',
+        url: 'https://988lifeline.org',
+        categories: ['suicidal-ideation', 'self-harm']
+      },
+      {
+        name: 'Crisis Text Line',
+        description: 'Text HOME to 741741, 24/7',
+        text: '741741',
+        url: 'https://www.crisistextline.org',
+        categories: ALL_CATEGORIES
+      },
+      {
+        name: 'National Domestic Violence Hotline',
+        description: 'Call 24/7 or text START to 88788',
+        phone: '1-800-799-7233',
+        url: 'https://www.thehotline.org',
+        categories: ['abuse']
+      }
+    ]
+  },
+  CA: {
+    region: 'Canada',
+    emergencyNumber: '911',
+    resources: [
+      {
+        name: '9-8-8 Suicide Crisis Helpline',
+        description: 'Call or text, 24/7',
+        phone: '988',
+        text: '988',
+        url: 'https://988.ca',
+        categories: ['suicidal-ideation', 'self-harm']
+      }
+    ]
+  },
+  GB: {
+    region: 'United Kingdom',
+    emergencyNumber: '999',
+    resources: [
+      {
+        name: 'Samaritans',
+        description: 'Call free, 24/7',
+        phone: '116 123',
+        url: 'https://www.samaritans.org',
+        categories: ALL_CATEGORIES
+      },
+      {
+        name: 'Shout',
+        description: 'Text SHOUT to 85258, 24/7',
+        text: '85258',
+        url: 'https://giveusashout.org',
+        categories: ALL_CATEGORIES
+      },
+      {
+        name: 'National Domestic Abuse Helpline',
+        description: 'Call free, 24/7',
+        phone: '0808 2000 247',
+        url: 'https://www.nationaldahelpline.org.uk',
+        categories: ['abuse']
+      }
+    ]
+  },
+  IE: {
+    region: 'Ireland',
+    emergencyNumber: '112',
+    resources: [
+      {
+        name: 'Samaritans',
+        description: 'Call free, 24/7',
+        phone: '116 123',
+        url: 'https://www.samaritans.org/ireland',
+        categories: ALL_CATEGORIES
+      }
+    ]
+  },
+  AU: {
+    region: 'Australia',
+    emergencyNumber: '000',
+    resources: [
+      {
+        name: 'Lifeline',
+        description: 'Call 24/7',
+        phone: '13 11 14',
+        url: 'https://www.lifeline.org.au',
+        categories: ['suicidal-ideation', 'self-harm']
+      },
+      {
+        name: '1800RESPECT',
+        description: 'Domestic, family and sexual violence support, 24/7',
+        phone: '1800 737 732',
+        url: 'https://www.1800respect.org.au',
+        categories: ['abuse']
+      }
+    ]
+  },
+  NZ: {
+    region: 'New Zealand',
+    emergencyNumber: '111',
+    resources: [
+      {
+        name: 'Need to talk? 1737',
+        description: 'Call or text 1737, 24/7',
+        phone: '1737',
+        text: '1737',
+        url: 'https://1737.org.nz',
+        categories: ALL_CATEGORIES
+      }
+    ]
+  },
+  IN: {
+    region: 'India',
+    emergencyNumber: '112',
+    resources: [
+      {
+        name: 'Tele MANAS',
+        description: 'Government mental health helpline, 24/7',
+        phone: '14416',
+        url: 'https://telemanas.mohfw.gov.in',
+        categories: ['suicidal-ideation', 'self-harm']
+      }
+    ]
+  }
+};
+
+export const INTERNATIONAL_REGION = 'INTL';
+
+const DEFAULT_RESOURCES: CrisisResources = {
+  region: 'International',
+  emergencyNumber: '112',
+  resources: []
+};
+
+// Every region with its own hotlines, for the user to pick from
+export const CRISIS_REGIONS: Array<{ code: string; name: string }> = [
+  ...Object.entries(RESOURCES_BY_REGION).map(([code, { region }]) => ({ code, name: region })),
+  { code: INTERNATIONAL_REGION, name: DEFAULT_RESOURCES.region }
+];
+
+// The region the user picked on the crisis panel; it wins over anything detected
+const REGION_KEY = 'crisis-region';
+
+// Zones that only one supported region uses, so they pin down the country
+const REGION_BY_TIME_ZONE_PREFIX: Array<[string, string]> = [
+  ['Europe/London', 'GB'],
+  ['Europe/Belfast', 'GB'],
+  ['Europe/Dublin', 'IE'],
+  ['Australia/', 'AU'],
+  ['Pacific/Auckland', 'NZ'],
+  ['Pacific/Chatham', 'NZ'],
+  ['Asia/Kolkata', 'IN'],
+  ['Asia/Calcutta', 'IN'],
+  ['America/Toronto', 'CA'],
+  ['America/Montreal', 'CA'],
+  ['America/Vancouver', 'CA'],
+  ['America/Edmonton', 'CA'],
+  ['America/Winnipeg', 'CA'],
+  ['America/Regina', 'CA'],
+  ['America/Halifax', 'CA'],
+  ['America/St_Johns', 'CA'],
+  ['America/Moncton', 'CA'],
+  ['America/Whitehorse', 'CA'],
+  ['America/Yellowknife', 'CA'],
+  ['America/New_York', 'US'],
+  ['America/Chicago', 'US'],
+  ['America/Denver', 'US'],
+  ['America/Phoenix', 'US'],
+  ['America/Los_Angeles', 'US'],
+  ['America/Anchorage', 'US'],
+  ['America/Detroit', 'US'],
+  ['America/Boise', 'US'],
+  ['America/Indiana/', 'US'],
+  ['America/Kentucky/', 'US'],
+  ['America/North_Dakota/', 'US'],
+  ['Pacific/Honolulu', 'US'],
+  ['US/', 'US']
+];
+
+// Only an explicit region subtag counts: a bare "en" says nothing about the country
+const getLocaleRegion = (locale: string): string | null => {
+  const region = locale.replace('_', '-').split('-').slice(1).find(part => /^[a-z]{2}$/i.test(part));
+  return region ? region.toUpperCase() : null;
+};
+
+const getTimeZoneRegion = (timeZone: string): string | null =>
+  REGION_BY_TIME_ZONE_PREFIX.find(([prefix]) => timeZone.startsWith(prefix))?.[1] || null;
+
+/**
+ * Best guess at where the user is. The time zone comes first: browsers often
+ * report a bare or default "en"/"en-US" locale wherever they are.
+ */
+export const detectCrisisRegion = (
+  locale: string = typeof navigator !== 'undefined' ? navigator.language : '',
+  timeZone: string = Intl.DateTimeFormat().resolvedOptions().timeZone || ''
+): string => {
+  const region = getTimeZoneRegion(timeZone) || getLocaleRegion(locale);
+  return region && RESOURCES_BY_REGION[region] ? region : INTERNATIONAL_REGION;
+};
+
+export const getCrisisRegion = (): string => {
+  const saved = localStorage.getItem(REGION_KEY);
+  return saved && CRISIS_REGIONS.some(region => region.code === saved) ? saved : detectCrisisRegion();
+};
+
+export const saveCrisisRegion = (region: string): void => {
+  localStorage.setItem(REGION_KEY, region);
+};
+
+/**
+ * Hotlines for a region, most relevant to the disclosed risk first.
+ * Find A Helpline is always appended so users outside the table still get help.
+ */
+export const getCrisisResources = (
+  categories: RiskCategory[] = [],
+  region: string = getCrisisRegion()
+): CrisisResources => {
+  const regional = RESOURCES_BY_REGION[region] || DEFAULT_RESOURCES;
+  const relevance = (resource: CrisisResource) =>
+    resource.categories.some(category => categories.includes(category)) ? 0 : 1;
+
+  return {
+    ...regional,
+    resources: [...regional.resources].sort((a, b) => relevance(a) - relevance(b)).concat(FIND_A_HELPLINE)
+  };
+};
@@ -0,0 +1,209 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import type { AssessmentRecord, EmotionSampleRecord, GoalRecord, MessageRecord, SessionRecord } from "@/utils/db";
+import type { ExportData } from "@/utils/dataExport";
+
+type ColumnKind = 'string' | 'number' | 'boolean' | 'json';
+
+interface TableSpec<T> {
+  file: string;
+  columns: Array<{ header: string; key: keyof T & string; kind: ColumnKind }>;
+}
+
+// One CSV per store, with nested fields kept as JSON so an import is lossless
+const SESSIONS: TableSpec<SessionRecord> = {
+  file: 'sessions.csv',
+  columns: [
+    { header: 'id', key: 'id', kind: 'string' },
+    { header: 'start_time', key: 'startTime', kind: 'string' },
+    { header: 'end_time', key: 'endTime', kind: 'string' },
+    { header: 'updated_at', key: 'updatedAt', kind: 'string' },
+    { header: 'therapeutic_context', key: 'therapeuticContext', kind: 'json' },
+    { header: 'risk_events', key: 'riskEvents', kind: 'json' },
+    { header: 'metrics', key: 'metrics', kind: 'json' },
+    { header: 'thought_records', key: 'thoughtRecords', kind: 'json' }
+  ]
+};
+
+const MESSAGES: TableSpec<MessageRecord> = {
+  file: 'messages.csv',
+  columns: [
+    { header: 'session_id', key: 'sessionId', kind: 'string' },
+    { header: 'position', key: 'position', kind: 'number' },
+    { header: 'role', key: 'role', kind: 'string' },
+    { header: 'timestamp', key: 'timestamp', kind: 'string' },
+    { header: 'content', key: 'content', kind: 'string' },
+    { header: 'emotion', key: 'emotion', kind: 'json' },
+    { header: 'input_mode', key: 'inputMode', kind: 'string' },
+    { header: 'speaking_ms', key: 'speakingMs', kind: 'number' },
+    { header: 'latency_ms', key: 'latencyMs', kind: 'number' },
+    { header: 'first_token_ms', key: 'firstTokenMs', kind: 'number' },
+    { header: 'visual_context', key: 'visualContext', kind: 'string' }
+  ]
+};
+
+const EMOTION_SAMPLES: TableSpec<EmotionSampleRecord> = {
+  file: 'emotion_samples.csv',
+  columns: [
+    { header: 'session_id', key: 'sessionId', kind: 'string' },
+    { header: 'timestamp', key: 'timestamp', kind: 'string' },
+    { header: 'source', key: 'source', kind: 'string' },
+    { header: 'emotion', key: 'emotion', kind: 'string' },
+    { header: 'intensity', key: 'intensity', kind: 'number' },
+    { header: 'confidence', key: 'confidence', kind: 'number' },
+    { header: 'valence', key: 'valence', kind: 'number' },
+    { header: 'arousal', key: 'arousal', kind: 'number' },
+    { header: 'incongruence', key: 'incongruence', kind: 'string' },
+    { header: 'trigger', key: 'trigger', kind: 'string' }
+  ]
+};
+
+const GOALS: TableSpec<GoalRecord> = {
+  file: 'goals.csv',
+  columns: [
+    { header: 'id', key: 'id', kind: 'string' },
+    { header: 'title', key: 'title', kind: 'string' },
+    { header: 'description', key: 'description', kind: 'string' },
+    { header: 'progress', key: 'progress', kind: 'number' },
+    { header: 'status', key: 'status', kind: 'string' },
+    { header: 'status_set_by_user', key: 'statusSetByUser', kind: 'boolean' },
+    { header: 'target_date', key: 'targetDate', kind: 'string' },
+    { header: 'history', key: 'history', kind: 'json' },
+    { header: 'created_at', key: 'createdAt', kind: 'string' },
+    { header: 'updated_at', key: 'updatedAt', kind: 'string' },
+    { header: 'deleted_at', key: 'deletedAt', kind: 'string' }
+  ]
+};
+
+const ASSESSMENTS: TableSpec<AssessmentRecord> = {
+  file: 'assessments.csv',
+  columns: [
+    { header: 'id', key: 'id', kind: 'string' },
+    { header: 'questionnaire_id', key: 'questionnaireId', kind: 'string' },
+    { header: 'session_id', key: 'sessionId', kind: 'string' },
+    { header: 'timing', key: 'timing', kind: 'string' },
+    { header: 'score', key: 'score', kind: 'number' },
+    { header: 'severity', key: 'severity', kind: 'string' },
+    { header: 'answers', key: 'answers', kind: 'json' },
+    { header: 'completed_at', key: 'completedAt', kind: 'string' },
+    { header: 'updated_at', key: 'updatedAt', kind: 'string' }
+  ]
+};
+
+const MANIFEST_FILE = 'manifest.json';
+const FORMAT = 'dr-sky-csv';
+const FORMAT_VERSION = 1;
+
+const escapeCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toCsv = <T>(spec: TableSpec<T>, rows: T[]): string => {
+  const lines = rows.map(row => spec.columns.map(({ key, kind }) => {
+    const value = row[key];
+    if (value === undefined || value === null) return '';
+    return escapeCell(kind === 'json' ? JSON.stringify(value) : String(value));
+  }).join(','));
+  return [spec.columns.map(c => c.header).join(','), ...lines].join('\r\n');
+};
+
+// RFC 4180: quoted fields may contain commas, doubled quotes and line breaks
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Columns are matched by header, so files edited in a spreadsheet still import
+const fromCsv = <T>(spec: TableSpec<T>, text: string): T[] => {
+  const [headers = [], ...rows] = parseCsv(text);
+  return rows
+    .filter(cells => cells.some(Boolean))
+    .map(cells => {
+      const record: Record<string, unknown> = {};
+      spec.columns.forEach(({ header, key, kind }) => {
+        const raw = cells[headers.indexOf(header)];
+        if (raw === undefined || raw === '') return;
+        record[key] = kind === 'number' ? Number(raw)
+          : kind === 'boolean' ? raw === 'true'
+          : kind === 'json' ? JSON.parse(raw)
+          : raw;
+      });
+      return record as T;
+    });
+};
+
+export const toCsvZip = (data: ExportData): Uint8Array => {
+  const sessions = data.sessions.map(({ messages, ...record }) => record);
+  const messages = data.sessions.flatMap(session =>
+    session.messages.map((message, position) => ({ ...message, sessionId: session.id, position })));
+
+  return zipSync({
+    [MANIFEST_FILE]: strToU8(JSON.stringify({ format: FORMAT, version: FORMAT_VERSION, exportedAt: new Date().toISOString() }, null, 2)),
+    [SESSIONS.file]: strToU8(toCsv(SESSIONS, sessions)),
+    [MESSAGES.file]: strToU8(toCsv(MESSAGES, messages)),
+    [EMOTION_SAMPLES.file]: strToU8(toCsv(EMOTION_SAMPLES, data.emotionSamples)),
+    [GOALS.file]: strToU8(toCsv(GOALS, data.goals)),
+    [ASSESSMENTS.file]: strToU8(toCsv(ASSESSMENTS, data.assessments))
+  });
+};
+
+export const fromCsvZip = (zip: Uint8Array): ExportData => {
+  const files = unzipSync(zip);
+  const manifest = files[MANIFEST_FILE] ? JSON.parse(strFromU8(files[MANIFEST_FILE])) : null;
+  if (manifest?.format !== FORMAT) {
+    throw new Error('Not a Dr. Sky CSV export');
+  }
+  if (manifest.version > FORMAT_VERSION) {
+    throw new Error(`Export version ${manifest.version} is newer than this app supports`);
+  }
+
+  const read = <T>(spec: TableSpec<T>): T[] =>
+    files[spec.file] ? fromCsv(spec, strFromU8(files[spec.file])) : [];
+
+  const messages = read(MESSAGES);
+  return {
+    sessions: read(SESSIONS).map(record => ({
+      ...record,
+      riskEvents: record.riskEvents || [],
+      messages: messages
+        .filter(m => m.sessionId === record.id)
+        .sort((a, b) => a.position - b.position)
+        .map(({ sessionId, position, ...message }) => message)
+    })),
+    emotionSamples: read(EMOTION_SAMPLES),
+    goals: read(GOALS).map(goal => ({ ...goal, history: goal.history || [] })),
+    assessments: read(ASSESSMENTS)
+  };
+};
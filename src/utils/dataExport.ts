@@ -0,0 +1,116 @@
+import { AssessmentRecord, EmotionSampleRecord, GoalRecord, getAllRecords, getRecord, putRecord, putRecords } from "@/utils/db";
+import { Session, getSession, loadAllEmotionSamples, loadSessions } from "@/utils/session";
+import { loadAllGoals, normalizeGoal } from "@/utils/goals";
+import { resolveGoalConflict, resolveSessionConflict } from "@/utils/cloudSync";
+import { fromFhirBundle, toFhirBundle } from "@/utils/fhir";
+import { fromCsvZip, toCsvZip } from "@/utils/csvBundle";
+
+export interface ExportData {
+  sessions: Session[];
+  emotionSamples: EmotionSampleRecord[];
+  goals: GoalRecord[];
+  assessments: AssessmentRecord[];
+}
+
+export type ExportFormat = 'fhir' | 'csv';
+
+export interface ImportResult {
+  sessions: number;
+  emotionSamples: number;
+  goals: number;
+  assessments: number;
+}
+
+export const collectExportData = async (): Promise<ExportData> => {
+  const [sessions, emotionSamples, goals, assessments] = await Promise.all([
+    loadSessions(),
+    loadAllEmotionSamples(),
+    loadAllGoals(),
+    getAllRecords('assessments')
+  ]);
+
+  return {
+    sessions: sessions.filter(session => session.messages.length > 0),
+    emotionSamples,
+    // Tombstones travel too, so a goal removed here is removed wherever this is imported
+    goals,
+    assessments
+  };
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const exportData = async (format: ExportFormat): Promise<void> => {
+  const data = await collectExportData();
+  const date = new Date().toISOString().slice(0, 10);
+
+  if (format === 'fhir') {
+    const bundle = JSON.stringify(toFhirBundle(data), null, 2);
+    downloadBlob(new Blob([bundle], { type: 'application/fhir+json' }), `dr-sky-export-${date}.json`);
+  } else {
+    downloadBlob(new Blob([toCsvZip(data)], { type: 'application/zip' }), `dr-sky-export-${date}.zip`);
+  }
+};
+
+const sameSample = (a: EmotionSampleRecord, b: EmotionSampleRecord) =>
+  a.sessionId === b.sessionId && a.timestamp === b.timestamp && a.source === b.source;
+
+/**
+ * Merges an export into the local store the same way cloud sync merges a pull:
+ * newer records win, session messages and goal histories are combined, and
+ * anything already here is left alone. Importing the same file twice is a no-op.
+ */
+export const restoreExportData = async (data: ExportData): Promise<ImportResult> => {
+  const result: ImportResult = { sessions: 0, emotionSamples: 0, goals: 0, assessments: 0 };
+
+  for (const imported of data.sessions) {
+    const local = await getSession(imported.id);
+    const resolved = local ? resolveSessionConflict(local, imported) : imported;
+
+    const { messages, ...record } = resolved;
+    await putRecord('sessions', record);
+    await putRecords('messages', messages.map((message, position) => ({ ...message, sessionId: resolved.id, position })));
+    result.sessions++;
+  }
+
+  const existingSamples = await loadAllEmotionSamples();
+  const newSamples = data.emotionSamples
+    .filter(sample => !existingSamples.some(existing => sameSample(existing, sample)))
+    .map(({ id, ...sample }) => sample);
+  await putRecords('emotionSamples', newSamples);
+  result.emotionSamples = newSamples.length;
+
+  for (const imported of data.goals.map(normalizeGoal)) {
+    const local = await getRecord('goals', imported.id);
+    await putRecord('goals', local ? resolveGoalConflict(normalizeGoal(local), imported) : imported);
+    result.goals++;
+  }
+
+  for (const imported of data.assessments) {
+    const local = await getRecord('assessments', imported.id);
+    if (!local || imported.updatedAt > local.updatedAt) {
+      await putRecord('assessments', imported);
+      result.assessments++;
+    }
+  }
+
+  return result;
+};
+
+export const importData = async (file: File): Promise<ImportResult> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  // Zip archives start with "PK"; anything else should be a FHIR JSON bundle
+  const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b;
+  const data = isZip
+    ? fromCsvZip(bytes)
+    : fromFhirBundle(JSON.parse(new TextDecoder().decode(bytes)));
+
+  return restoreExportData(data);
+};
@@ -0,0 +1,35 @@
+import "fake-indexeddb/auto";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { MemoryStorage } from "@/test/memoryStorage";
+import { createGoal, loadGoals } from "@/utils/goals";
+import { openDatabase } from "@/utils/db";
+import { isSealedPayload, lockVault, setupVault } from "@/utils/vault";
+
+beforeAll(async () => {
+  vi.stubGlobal("localStorage", new MemoryStorage());
+  await setupVault("correct horse battery staple");
+});
+
+afterAll(() => {
+  lockVault();
+  vi.unstubAllGlobals();
+});
+
+describe("goals store", () => {
+  it("keeps goal titles sealed at rest", async () => {
+    const goal = await createGoal({ title: "Tell my manager I'm struggling", description: "" });
+
+    const db = await openDatabase();
+    const stored = await new Promise<Record<string, unknown>>((resolve, reject) => {
+      const request = db.transaction("goals", "readonly").objectStore("goals").get(goal.id);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    expect(Object.keys(stored).sort()).toEqual(["id", "sealed"]);
+    expect(isSealedPayload(stored.sealed)).toBe(true);
+    expect(JSON.stringify(stored)).not.toContain("manager");
+    expect(db.transaction("goals", "readonly").objectStore("goals").indexNames).toHaveLength(0);
+    expect((await loadGoals()).map(g => g.title)).toEqual(["Tell my manager I'm struggling"]);
+  });
+});
@@ -0,0 +1,489 @@
+import type { Session, SessionMessage } from "@/utils/session";
+import type { ProgressData } from "@/utils/progressTracking";
+import type { ContentCategory, ContentRecommendation } from "@/utils/contentRecommender";
+import type { QuestionnaireId } from "@/utils/assessments";
+import type { RoutineTime } from "@/utils/routines";
+import type { BreathingPatternId } from "@/utils/breathing";
+import { SealedPayload, isSealedPayload, openValue, sealValue } from "@/utils/vault";
+
+export type SessionRecord = Omit<Session, 'messages'>;
+
+export interface MessageRecord extends SessionMessage {
+  sessionId: string;
+  position: number;
+}
+
+export interface EmotionSampleRecord {
+  id?: number;
+  sessionId: string;
+  timestamp: string;
+  source: 'fused' | 'face' | 'voice';
+  emotion: string;
+  intensity: number;
+  confidence?: number;
+  valence?: number;
+  arousal?: number;
+  incongruence?: string;
+  trigger?: string;
+}
+
+export interface GoalProgressEntry {
+  timestamp: string;
+  progress: number;
+  sessionId?: string;
+}
+
+export interface GoalRecord {
+  id: string;
+  title: string;
+  description: string;
+  progress: number;
+  status: ProgressData['goals'][number]['status'];
+  // Once the user picks a status, session estimates stop overriding it
+  statusSetByUser?: boolean;
+  targetDate?: string;
+  history: GoalProgressEntry[];
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string;
+}
+
+export interface RecommendationRecord {
+  id?: number;
+  sessionId?: string;
+  createdAt: string;
+  recommendations: ContentRecommendation;
+}
+
+export interface CopingCompletionRecord {
+  id: string;
+  sessionId?: string;
+  title: string;
+  category: string;
+  completedAt: string;
+  updatedAt: string;
+}
+
+export interface ContentFeedbackRecord {
+  id: string;
+  itemId: string;
+  sessionId?: string;
+  event: 'opened' | 'completed' | 'skipped' | 'rated';
+  // 1-5, only on rated events
+  rating?: number;
+  // Copied from the catalog item so preferences outlive changes to the catalog
+  category: ContentCategory;
+  practitioner?: string;
+  durationMinutes?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RoutineItem {
+  id: string;
+  // Catalog id when the item came from a recommendation
+  contentId?: string;
+  title: string;
+  url?: string;
+  category: ContentCategory;
+}
+
+export interface RoutineSlotRecord {
+  id: RoutineTime;
+  // Local time of day, HH:MM
+  time: string;
+  reminder: boolean;
+  items: RoutineItem[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One per day the checklist was used; `planned` is the routine's size that day
+export interface RoutineDayRecord {
+  // Local date, YYYY-MM-DD
+  date: string;
+  planned: number;
+  completedItemIds: string[];
+  updatedAt: string;
+}
+
+export interface BreathingExerciseRecord {
+  id: string;
+  sessionId?: string;
+  patternId: BreathingPatternId;
+  // Who opened the player: the client, Dr. Sky mid-session or the crisis panel
+  source: 'client' | 'therapist' | 'crisis';
+  durationSeconds: number;
+  cycles: number;
+  // Self-rated calm from 0 (very tense) to 10 (completely calm)
+  calmBefore: number;
+  calmAfter?: number;
+  startedAt: string;
+  completedAt: string;
+  updatedAt: string;
+}
+
+// Between-session practice agreed at the end of a session
+export interface HomeworkRecord {
+  id: string;
+  // The session it was assigned in
+  sessionId?: string;
+  title: string;
+  description: string;
+  // Local date, YYYY-MM-DD
+  dueDate: string;
+  completedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string;
+}
+
+export interface AssessmentRecord {
+  id: string;
+  questionnaireId: QuestionnaireId;
+  sessionId?: string;
+  timing: 'pre-session' | 'post-session' | 'standalone';
+  answers: number[];
+  score: number;
+  severity: string;
+  completedAt: string;
+  updatedAt: string;
+}
+
+export interface ProgressRecord extends ProgressData {
+  id?: number;
+  sessionId?: string;
+}
+
+export interface MetaRecord {
+  key: string;
+  value: unknown;
+}
+
+interface StoreRecords {
+  sessions: SessionRecord;
+  messages: MessageRecord;
+  emotionSamples: EmotionSampleRecord;
+  goals: GoalRecord;
+  recommendations: RecommendationRecord;
+  progress: ProgressRecord;
+  copingCompletions: CopingCompletionRecord;
+  assessments: AssessmentRecord;
+  contentFeedback: ContentFeedbackRecord;
+  routineSlots: RoutineSlotRecord;
+  routineDays: RoutineDayRecord;
+  breathingExercises: BreathingExerciseRecord;
+  homework: HomeworkRecord;
+  meta: MetaRecord;
+}
+
+export type StoreName = keyof StoreRecords;
+
+const DB_NAME = 'dr-sky';
+
+// Each entry upgrades the schema from version N to N + 1. Never edit a shipped
+// entry; append a new one so existing databases upgrade in order. Steps that
+// change an existing store reach it through the upgrade transaction.
+const SCHEMA_UPGRADES: Array<(db: IDBDatabase, transaction: IDBTransaction) => void> = [
+  db => {
+    db.createObjectStore('sessions', { keyPath: 'id' }).createIndex('startTime', 'startTime');
+
+    db.createObjectStore('messages', { keyPath: ['sessionId', 'position'] }).createIndex('sessionId', 'sessionId');
+
+    const emotionSamples = db.createObjectStore('emotionSamples', { keyPath: 'id', autoIncrement: true });
+    emotionSamples.createIndex('sessionId', 'sessionId');
+    emotionSamples.createIndex('timestamp', 'timestamp');
+
+    db.createObjectStore('goals', { keyPath: 'id' }).createIndex('goal', 'goal');
+
+    const recommendations = db.createObjectStore('recommendations', { keyPath: 'id', autoIncrement: true });
+    recommendations.createIndex('createdAt', 'createdAt');
+    recommendations.createIndex('sessionId', 'sessionId');
+
+    const progress = db.createObjectStore('progress', { keyPath: 'id', autoIncrement: true });
+    progress.createIndex('timestamp', 'timestamp');
+    progress.createIndex('sessionId', 'sessionId');
+
+    db.createObjectStore('meta', { keyPath: 'key' });
+  },
+  db => {
+    const copingCompletions = db.createObjectStore('copingCompletions', { keyPath: 'id' });
+    copingCompletions.createIndex('completedAt', 'completedAt');
+    copingCompletions.createIndex('sessionId', 'sessionId');
+  },
+  db => {
+    const assessments = db.createObjectStore('assessments', { keyPath: 'id' });
+    assessments.createIndex('completedAt', 'completedAt');
+    assessments.createIndex('sessionId', 'sessionId');
+  },
+  db => {
+    const contentFeedback = db.createObjectStore('contentFeedback', { keyPath: 'id' });
+    contentFeedback.createIndex('createdAt', 'createdAt');
+    contentFeedback.createIndex('itemId', 'itemId');
+    contentFeedback.createIndex('sessionId', 'sessionId');
+  },
+  db => {
+    db.createObjectStore('routineSlots', { keyPath: 'id' });
+    db.createObjectStore('routineDays', { keyPath: 'date' });
+  },
+  db => {
+    const breathingExercises = db.createObjectStore('breathingExercises', { keyPath: 'id' });
+    breathingExercises.createIndex('completedAt', 'completedAt');
+    breathingExercises.createIndex('sessionId', 'sessionId');
+  },
+  db => {
+    const homework = db.createObjectStore('homework', { keyPath: 'id' });
+    homework.createIndex('dueDate', 'dueDate');
+    homework.createIndex('sessionId', 'sessionId');
+  },
+  (_db, transaction) => {
+    // The first schema indexed a 'goal' field that GoalRecord never had. Goals are
+    // only looked up by id, so nothing replaces it and titles stay sealed.
+    transaction.objectStore('goals').deleteIndex('goal');
+  }
+];
+
+export const DB_VERSION = SCHEMA_UPGRADES.length;
+
+// Keys and indexed fields stay readable so lookups keep working; everything else
+// is sealed by the vault. Meta only holds sync and migration bookkeeping.
+const PLAIN_FIELDS: Record<StoreName, string[] | null> = {
+  sessions: ['id', 'startTime'],
+  messages: ['sessionId', 'position'],
+  emotionSamples: ['id', 'sessionId', 'timestamp'],
+  goals: ['id'],
+  recommendations: ['id', 'createdAt', 'sessionId'],
+  progress: ['id', 'timestamp', 'sessionId'],
+  copingCompletions: ['id', 'completedAt', 'sessionId'],
+  assessments: ['id', 'completedAt', 'sessionId'],
+  contentFeedback: ['id', 'createdAt', 'itemId', 'sessionId'],
+  routineSlots: ['id'],
+  routineDays: ['date'],
+  breathingExercises: ['id', 'completedAt', 'sessionId'],
+  homework: ['id', 'dueDate', 'sessionId'],
+  meta: null
+};
+
+type StoredRecord = Record<string, unknown> & { sealed?: SealedPayload };
+
+const sealRecord = async (store: StoreName, record: object): Promise<StoredRecord> => {
+  const plainFields = PLAIN_FIELDS[store];
+  if (!plainFields) return { ...record };
+
+  const plain: StoredRecord = {};
+  const secret: Record<string, unknown> = {};
+  Object.entries(record).forEach(([field, value]) => {
+    if (plainFields.includes(field)) {
+      plain[field] = value;
+    } else {
+      secret[field] = value;
+    }
+  });
+  return { ...plain, sealed: await sealValue(secret) };
+};
+
+// Records written before the vault was set up are returned as they are
+const openRecord = async <T>(stored: StoredRecord): Promise<T> => {
+  const { sealed, ...plain } = stored;
+  if (!isSealedPayload(sealed)) return stored as T;
+  return { ...plain, ...await openValue<Record<string, unknown>>(sealed) } as T;
+};
+
+// localStorage keys written before the IndexedDB store existed
+const LEGACY_KEYS = {
+  sessions: 'therapy-sessions',
+  progress: 'therapy-progress',
+  currentProgress: 'current-progress',
+  recommendations: 'content-recommendations'
+};
+const MIGRATION_META_KEY = 'localStorageMigratedAt';
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const readLegacyKey = <T>(key: string): T | null => {
+  try {
+    const data = localStorage.getItem(key);
+    return data ? JSON.parse(data) : null;
+  } catch (error) {
+    console.error(`Error reading legacy ${key}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Copies data from the old localStorage keys into IndexedDB once. The keys are
+ * only removed after the copy has committed, so a failure leaves them intact
+ * for the next attempt.
+ */
+const migrateFromLocalStorage = async (db: IDBDatabase): Promise<void> => {
+  const metaTransaction = db.transaction('meta', 'readonly');
+  const migrated = await promisifyRequest(metaTransaction.objectStore('meta').get(MIGRATION_META_KEY));
+  if (migrated) return;
+
+  const sessions = readLegacyKey<Session[]>(LEGACY_KEYS.sessions) || [];
+  const progressHistory = readLegacyKey<ProgressData[]>(LEGACY_KEYS.progress) || [];
+  const recommendations = readLegacyKey<ContentRecommendation>(LEGACY_KEYS.recommendations);
+  const now = new Date().toISOString();
+
+  const transaction = db.transaction(
+    ['sessions', 'messages', 'progress', 'goals', 'recommendations', 'meta'],
+    'readwrite'
+  );
+
+  if (Array.isArray(sessions)) {
+    sessions.forEach(({ messages = [], ...session }) => {
+      transaction.objectStore('sessions').put(session);
+      messages.forEach((message, position) => {
+        transaction.objectStore('messages').put({ ...message, sessionId: session.id, position });
+      });
+    });
+  }
+
+  if (Array.isArray(progressHistory)) {
+    progressHistory.forEach(progress => transaction.objectStore('progress').put(progress));
+
+    // Goals were only ever kept inside the latest progress entry
+    const latest = progressHistory[progressHistory.length - 1];
+    latest?.goals?.forEach(goal => {
+      const timestamp = latest.timestamp || now;
+      const record: GoalRecord = {
+        id: crypto.randomUUID(),
+        title: goal.goal,
+        description: '',
+        progress: goal.progress,
+        status: goal.status,
+        history: [{ timestamp, progress: goal.progress }],
+        createdAt: timestamp,
+        updatedAt: timestamp
+      };
+      transaction.objectStore('goals').put(record);
+    });
+  }
+
+  if (recommendations) {
+    transaction.objectStore('recommendations').put({ createdAt: now, recommendations });
+  }
+
+  transaction.objectStore('meta').put({ key: MIGRATION_META_KEY, value: now });
+  await transactionDone(transaction);
+
+  Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = event => {
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          SCHEMA_UPGRADES[version](request.result, request.transaction!);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => console.error('Database upgrade blocked by another open tab');
+    }).then(async db => {
+      try {
+        await migrateFromLocalStorage(db);
+      } catch (error) {
+        console.error('Error migrating localStorage data:', error);
+      }
+      return db;
+    });
+
+    // Let the next call retry instead of caching the failure
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+export const getRecord = async <S extends StoreName>(
+  store: S,
+  key: IDBValidKey
+): Promise<StoreRecords[S] | undefined> => {
+  const db = await openDatabase();
+  const stored = await promisifyRequest<StoredRecord | undefined>(db.transaction(store, 'readonly').objectStore(store).get(key));
+  return stored ? openRecord<StoreRecords[S]>(stored) : undefined;
+};
+
+export const getAllRecords = async <S extends StoreName>(store: S): Promise<StoreRecords[S][]> => {
+  const db = await openDatabase();
+  const stored = await promisifyRequest<StoredRecord[]>(db.transaction(store, 'readonly').objectStore(store).getAll());
+  return Promise.all(stored.map(record => openRecord<StoreRecords[S]>(record)));
+};
+
+export const getRecordsByIndex = async <S extends StoreName>(
+  store: S,
+  index: string,
+  query: IDBValidKey | IDBKeyRange
+): Promise<StoreRecords[S][]> => {
+  const db = await openDatabase();
+  const stored = await promisifyRequest<StoredRecord[]>(
+    db.transaction(store, 'readonly').objectStore(store).index(index).getAll(query)
+  );
+  return Promise.all(stored.map(record => openRecord<StoreRecords[S]>(record)));
+};
+
+export const putRecords = async <S extends StoreName>(store: S, records: StoreRecords[S][]): Promise<void> => {
+  // Seal first: a transaction commits as soon as it's left idle across an await
+  const sealed = await Promise.all(records.map(record => sealRecord(store, record)));
+  const db = await openDatabase();
+  const transaction = db.transaction(store, 'readwrite');
+  sealed.forEach(record => transaction.objectStore(store).put(record));
+  await transactionDone(transaction);
+};
+
+export const putRecord = <S extends StoreName>(store: S, record: StoreRecords[S]): Promise<void> =>
+  putRecords(store, [record]);
+
+export const deleteRecord = async (store: StoreName, key: IDBValidKey | IDBKeyRange): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, 'readwrite');
+  transaction.objectStore(store).delete(key);
+  await transactionDone(transaction);
+};
+
+/**
+ * Seals anything still stored in plaintext: data from before the vault was set
+ * up, or copied in by the localStorage migration. Run after every unlock.
+ */
+export const sealPlaintextRecords = async (): Promise<void> => {
+  const db = await openDatabase();
+  const stores = (Object.keys(PLAIN_FIELDS) as StoreName[]).filter(store => PLAIN_FIELDS[store]);
+
+  for (const store of stores) {
+    const stored = await promisifyRequest<StoredRecord[]>(db.transaction(store, 'readonly').objectStore(store).getAll());
+    const plaintext = stored.filter(record => !isSealedPayload(record.sealed));
+    if (plaintext.length === 0) continue;
+
+    const sealed = await Promise.all(plaintext.map(record => sealRecord(store, record)));
+    const transaction = db.transaction(store, 'readwrite');
+    sealed.forEach(record => transaction.objectStore(store).put(record));
+    await transactionDone(transaction);
+  }
+};
+
+// Wipes everything stored locally, for when the vault passphrase is lost
+export const deleteDatabase = async (): Promise<void> => {
+  if (databasePromise) {
+    (await databasePromise).close();
+    databasePromise = null;
+  }
+  await promisifyRequest(indexedDB.deleteDatabase(DB_NAME));
+};
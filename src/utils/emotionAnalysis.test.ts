@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { analyzeEmotion } from "@/utils/emotionAnalysis";
+import { ACCURACY_THRESHOLD, evaluateEmotionCorpus } from "@/utils/emotionCorpus";
+
+describe("analyzeEmotion", () => {
+  it(`labels at least ${ACCURACY_THRESHOLD * 100}% of the hand-labelled corpus correctly`, () => {
+    const { failures, accuracy } = evaluateEmotionCorpus();
+    // Listing the misses makes a regression quick to diagnose
+    expect(accuracy, failures.map(f => `"${f.text}": expected ${f.expected}, got ${f.actual}`).join("\n"))
+      .toBeGreaterThanOrEqual(ACCURACY_THRESHOLD);
+  });
+
+  it("ignores words that are only inherited object keys", () => {
+    const analysis = analyzeEmotion("the constructor called toString on hasOwnProperty");
+    expect(analysis.emotion).toBe("neutral");
+    expect(analysis.confidence).toBe(0);
+    expect(Object.keys(analysis.scores)).not.toContain("undefined");
+  });
+});
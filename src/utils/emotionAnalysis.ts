@@ -0,0 +1,332 @@
+export type EmotionLabel =
+  | 'joy'
+  | 'sadness'
+  | 'anger'
+  | 'fear'
+  | 'surprise'
+  | 'love'
+  | 'gratitude'
+  | 'hope'
+  | 'neutral';
+
+export interface EmotionAnalysis {
+  emotion: EmotionLabel;
+  intensity: number; // 0-100
+  confidence: number; // 0-1
+  scores: Record<EmotionLabel, number>;
+}
+
+export const POSITIVE_EMOTIONS: EmotionLabel[] = ['joy', 'gratitude', 'hope', 'love'];
+
+interface LexiconEntry {
+  emotion: EmotionLabel;
+  weight: number;
+}
+
+// Whole words only, with inflections listed explicitly so "made" is never "mad"
+// and "betterment" is never "better"
+const LEXICON = new Map<string, LexiconEntry>(Object.entries({
+  // Joy
+  happy: { emotion: 'joy', weight: 1 },
+  happier: { emotion: 'joy', weight: 1 },
+  happiest: { emotion: 'joy', weight: 1.2 },
+  joy: { emotion: 'joy', weight: 1 },
+  joyful: { emotion: 'joy', weight: 1.2 },
+  excited: { emotion: 'joy', weight: 1 },
+  exciting: { emotion: 'joy', weight: 0.8 },
+  great: { emotion: 'joy', weight: 0.6 },
+  wonderful: { emotion: 'joy', weight: 1 },
+  delighted: { emotion: 'joy', weight: 1.2 },
+  pleased: { emotion: 'joy', weight: 0.8 },
+  glad: { emotion: 'joy', weight: 0.8 },
+  cheerful: { emotion: 'joy', weight: 1 },
+  thrilled: { emotion: 'joy', weight: 1.3 },
+  ecstatic: { emotion: 'joy', weight: 1.5 },
+  amazing: { emotion: 'joy', weight: 0.8 },
+  good: { emotion: 'joy', weight: 0.4 },
+  proud: { emotion: 'joy', weight: 0.9 },
+  relieved: { emotion: 'joy', weight: 0.8 },
+
+  // Sadness
+  sad: { emotion: 'sadness', weight: 1 },
+  sadder: { emotion: 'sadness', weight: 1.1 },
+  sadness: { emotion: 'sadness', weight: 1 },
+  unhappy: { emotion: 'sadness', weight: 1 },
+  depressed: { emotion: 'sadness', weight: 1.4 },
+  miserable: { emotion: 'sadness', weight: 1.4 },
+  hopeless: { emotion: 'sadness', weight: 1.5 },
+  lonely: { emotion: 'sadness', weight: 1.1 },
+  alone: { emotion: 'sadness', weight: 0.6 },
+  empty: { emotion: 'sadness', weight: 1 },
+  heartbroken: { emotion: 'sadness', weight: 1.5 },
+  grief: { emotion: 'sadness', weight: 1.3 },
+  grieving: { emotion: 'sadness', weight: 1.3 },
+  crying: { emotion: 'sadness', weight: 1.1 },
+  cried: { emotion: 'sadness', weight: 1.1 },
+  hurt: { emotion: 'sadness', weight: 0.9 },
+  hurting: { emotion: 'sadness', weight: 1 },
+  down: { emotion: 'sadness', weight: 0.5 },
+  low: { emotion: 'sadness', weight: 0.5 },
+  exhausted: { emotion: 'sadness', weight: 0.7 },
+  worthless: { emotion: 'sadness', weight: 1.5 },
+  disappointed: { emotion: 'sadness', weight: 0.9 },
+
+  // Anger
+  angry: { emotion: 'anger', weight: 1.2 },
+  anger: { emotion: 'anger', weight: 1.1 },
+  mad: { emotion: 'anger', weight: 1 },
+  furious: { emotion: 'anger', weight: 1.5 },
+  frustrated: { emotion: 'anger', weight: 1 },
+  frustrating: { emotion: 'anger', weight: 0.9 },
+  annoyed: { emotion: 'anger', weight: 0.8 },
+  annoying: { emotion: 'anger', weight: 0.7 },
+  irritated: { emotion: 'anger', weight: 0.8 },
+  resentful: { emotion: 'anger', weight: 1.1 },
+  hate: { emotion: 'anger', weight: 1.2 },
+  rage: { emotion: 'anger', weight: 1.5 },
+  pissed: { emotion: 'anger', weight: 1.2 },
+
+  // Fear
+  afraid: { emotion: 'fear', weight: 1.1 },
+  scared: { emotion: 'fear', weight: 1.1 },
+  frightened: { emotion: 'fear', weight: 1.2 },
+  terrified: { emotion: 'fear', weight: 1.5 },
+  anxious: { emotion: 'fear', weight: 1.1 },
+  anxiety: { emotion: 'fear', weight: 1.1 },
+  worried: { emotion: 'fear', weight: 1 },
+  worry: { emotion: 'fear', weight: 0.9 },
+  nervous: { emotion: 'fear', weight: 0.9 },
+  panic: { emotion: 'fear', weight: 1.4 },
+  panicking: { emotion: 'fear', weight: 1.4 },
+  overwhelmed: { emotion: 'fear', weight: 1 },
+  stressed: { emotion: 'fear', weight: 0.9 },
+  dread: { emotion: 'fear', weight: 1.2 },
+  tense: { emotion: 'fear', weight: 0.7 },
+
+  // Surprise
+  surprised: { emotion: 'surprise', weight: 1 },
+  shocked: { emotion: 'surprise', weight: 1.2 },
+  amazed: { emotion: 'surprise', weight: 1 },
+  astonished: { emotion: 'surprise', weight: 1.2 },
+  stunned: { emotion: 'surprise', weight: 1.1 },
+  unexpected: { emotion: 'surprise', weight: 0.7 },
+
+  // Love
+  love: { emotion: 'love', weight: 1 },
+  loved: { emotion: 'love', weight: 1 },
+  loving: { emotion: 'love', weight: 1 },
+  caring: { emotion: 'love', weight: 0.8 },
+  affection: { emotion: 'love', weight: 1 },
+  warmth: { emotion: 'love', weight: 0.8 },
+  kindness: { emotion: 'love', weight: 0.7 },
+  adore: { emotion: 'love', weight: 1.2 },
+
+  // Gratitude
+  thankful: { emotion: 'gratitude', weight: 1.2 },
+  grateful: { emotion: 'gratitude', weight: 1.2 },
+  appreciate: { emotion: 'gratitude', weight: 1 },
+  appreciative: { emotion: 'gratitude', weight: 1 },
+  blessed: { emotion: 'gratitude', weight: 1 },
+  thanks: { emotion: 'gratitude', weight: 0.6 },
+
+  // Hope
+  hope: { emotion: 'hope', weight: 1 },
+  hoping: { emotion: 'hope', weight: 1 },
+  hopeful: { emotion: 'hope', weight: 1.2 },
+  optimistic: { emotion: 'hope', weight: 1.2 },
+  better: { emotion: 'hope', weight: 0.6 },
+  encouraged: { emotion: 'hope', weight: 1 },
+  motivated: { emotion: 'hope', weight: 0.9 },
+
+  // Neutral
+  okay: { emotion: 'neutral', weight: 0.6 },
+  ok: { emotion: 'neutral', weight: 0.6 },
+  fine: { emotion: 'neutral', weight: 0.6 },
+  alright: { emotion: 'neutral', weight: 0.6 },
+  neutral: { emotion: 'neutral', weight: 0.8 },
+  calm: { emotion: 'neutral', weight: 0.7 }
+}));
+
+// Checked before single words so the parts of a phrase aren't counted twice
+const PHRASES = new Map<string, LexiconEntry>(Object.entries({
+  'looking forward': { emotion: 'hope', weight: 1.1 },
+  'fed up': { emotion: 'anger', weight: 1.1 },
+  'freaking out': { emotion: 'fear', weight: 1.3 },
+  'freaked out': { emotion: 'fear', weight: 1.3 },
+  'on edge': { emotion: 'fear', weight: 1 },
+  'broken hearted': { emotion: 'sadness', weight: 1.5 },
+  'thank you': { emotion: 'gratitude', weight: 1 },
+  'pissed off': { emotion: 'anger', weight: 1.3 },
+  'cheered up': { emotion: 'joy', weight: 1 }
+}));
+
+const INTENSIFIERS = new Map<string, number>(Object.entries({
+  very: 1.5,
+  really: 1.5,
+  so: 1.4,
+  too: 1.3,
+  extremely: 1.8,
+  incredibly: 1.8,
+  totally: 1.5,
+  completely: 1.6,
+  super: 1.5,
+  deeply: 1.6,
+  absolutely: 1.7,
+  truly: 1.4,
+  quite: 1.2
+}));
+
+const DIMINISHERS = new Map<string, number>(Object.entries({
+  'a bit': 0.6,
+  'a little': 0.6,
+  'kind of': 0.7,
+  'sort of': 0.7,
+  kinda: 0.7,
+  sorta: 0.7,
+  slightly: 0.5,
+  somewhat: 0.7,
+  barely: 0.4,
+  mildly: 0.6,
+  fairly: 0.8,
+  less: 0.3
+}));
+
+const DEGREE_MODIFIERS = new Map([...INTENSIFIERS, ...DIMINISHERS]);
+
+const NEGATORS = new Set([
+  'not', 'no', 'never', 'nothing', 'nobody', 'neither', 'nor', 'hardly', 'without',
+  "don't", "doesn't", "didn't", "isn't", "aren't", "wasn't", "weren't", "won't",
+  "wouldn't", "can't", "cannot", "couldn't", "shouldn't", "haven't", "hasn't", "hadn't",
+  "ain't", 'dont', 'doesnt', 'didnt', 'isnt', 'wasnt', 'cant', 'wont'
+]);
+
+// Words that end a negation's reach ("I'm not sure, but I'm happy")
+const SCOPE_BREAKERS = new Set(['but', 'however', 'although', 'though', 'yet']);
+
+// How many words after a negator it still applies to
+const NEGATION_SCOPE = 3;
+
+// A negated feeling mostly cancels out; "not happy" leans sad, "not angry" says little
+const NEGATED_OPPOSITES: Partial<Record<EmotionLabel, EmotionLabel>> = {
+  joy: 'sadness',
+  hope: 'sadness',
+  love: 'sadness',
+  gratitude: 'neutral',
+  sadness: 'neutral',
+  anger: 'neutral',
+  fear: 'neutral'
+};
+const NEGATED_WEIGHT = 0.5;
+
+const EMOTION_LABELS: EmotionLabel[] = [
+  'joy', 'sadness', 'anger', 'fear', 'surprise', 'love', 'gratitude', 'hope', 'neutral'
+];
+
+const emptyScores = (): Record<EmotionLabel, number> =>
+  EMOTION_LABELS.reduce((acc, emotion) => {
+    acc[emotion] = 0;
+    return acc;
+  }, {} as Record<EmotionLabel, number>);
+
+// Words (keeping contractions) and clause punctuation, which also ends negation scope
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .match(/[a-z]+(?:'[a-z]+)?|[.,!?;:]/g) || [];
+
+const isPunctuation = (token: string) => /^[.,!?;:]$/.test(token);
+
+// Tables are Maps so words like "constructor" never match inherited object keys
+const matchPhrase = <T>(tokens: string[], index: number, table: Map<string, T>): [T, number] | null => {
+  const bigram = table.get(`${tokens[index]} ${tokens[index + 1]}`);
+  if (index + 1 < tokens.length && bigram !== undefined) return [bigram, 2];
+  const word = table.get(tokens[index]);
+  if (word !== undefined) return [word, 1];
+  return null;
+};
+
+export const analyzeEmotion = (text: string): EmotionAnalysis => {
+  const tokens = tokenize(text);
+  const scores = emptyScores();
+
+  let negationRemaining = 0;
+  let modifier = 1;
+  let modifierRemaining = 0;
+  let evidence = 0;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (isPunctuation(token) || SCOPE_BREAKERS.has(token)) {
+      negationRemaining = 0;
+      modifierRemaining = 0;
+      continue;
+    }
+
+    if (NEGATORS.has(token)) {
+      negationRemaining = NEGATION_SCOPE;
+      continue;
+    }
+
+    const degree = matchPhrase(tokens, i, DEGREE_MODIFIERS);
+    const entry = matchPhrase(tokens, i, PHRASES) || matchPhrase(tokens, i, LEXICON);
+
+    if (degree && !entry) {
+      // Stacked modifiers compound: "really very" is stronger than either
+      modifier = modifierRemaining > 0 ? modifier * degree[0] : degree[0];
+      modifierRemaining = 2;
+      i += degree[1] - 1;
+      continue;
+    }
+
+    if (entry) {
+      const [{ emotion, weight }, length] = entry;
+      const scaled = weight * (modifierRemaining > 0 ? modifier : 1);
+
+      if (negationRemaining > 0) {
+        const opposite = NEGATED_OPPOSITES[emotion];
+        if (opposite) scores[opposite] += scaled * NEGATED_WEIGHT;
+      } else {
+        scores[emotion] += scaled;
+      }
+
+      evidence += scaled;
+      modifierRemaining = 0;
+      i += length - 1;
+    }
+
+    if (negationRemaining > 0) negationRemaining--;
+    if (modifierRemaining > 0) modifierRemaining--;
+  }
+
+  const ranked = EMOTION_LABELS
+    .filter(emotion => scores[emotion] > 0)
+    .sort((a, b) => scores[b] - scores[a]);
+  const top = ranked[0];
+  const topScore = top ? scores[top] : 0;
+  const secondScore = ranked[1] ? scores[ranked[1]] : 0;
+
+  // Confidence rises with how much emotional language there is and how clearly one emotion leads
+  const margin = topScore > 0 ? (topScore - secondScore) / topScore : 0;
+  const strength = 1 - Math.exp(-evidence);
+  const confidence = top ? Math.round((0.5 * margin + 0.5 * strength) * strength * 100) / 100 : 0;
+
+  // Intensity: emotional weight, exclamation marks, capitalization and message length
+  const exclamationCount = (text.match(/!/g) || []).length;
+  const capsCount = (text.match(/\b[A-Z]{2,}\b/g) || []).length;
+  const intensity = Math.round(Math.min(100, Math.max(0,
+    50 + // base intensity
+    (top && top !== 'neutral' ? topScore * 10 : 0) + // emotional weight
+    (exclamationCount * 5) + // excitement level
+    (capsCount * 5) + // emphasis level
+    (text.length > 100 ? 10 : 0) // length bonus
+  )));
+
+  return {
+    emotion: top || 'neutral',
+    intensity,
+    confidence,
+    scores
+  };
+};
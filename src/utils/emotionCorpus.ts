@@ -0,0 +1,96 @@
+import { EmotionLabel, analyzeEmotion } from "@/utils/emotionAnalysis";
+
+export interface CorpusEntry {
+  text: string;
+  expected: EmotionLabel;
+}
+
+export interface CorpusResult extends CorpusEntry {
+  actual: EmotionLabel;
+  confidence: number;
+}
+
+// Share of the corpus the lexicon must label correctly
+export const ACCURACY_THRESHOLD = 0.9;
+
+// Hand-labelled sentences the way clients actually write them
+export const CORPUS: CorpusEntry[] = [
+  // Plain statements
+  { text: "I'm so happy today", expected: 'joy' },
+  { text: 'I got the job and I am thrilled!', expected: 'joy' },
+  { text: 'Honestly I feel really proud of myself', expected: 'joy' },
+  { text: "I've been feeling sad all week", expected: 'sadness' },
+  { text: 'I feel so lonely since the move', expected: 'sadness' },
+  { text: 'Everything feels hopeless and empty', expected: 'sadness' },
+  { text: 'I cried the whole night', expected: 'sadness' },
+  { text: 'My boss makes me so angry', expected: 'anger' },
+  { text: "I'm furious with my brother", expected: 'anger' },
+  { text: "I'm fed up with being ignored", expected: 'anger' },
+  { text: 'I am frustrated and annoyed with everything', expected: 'anger' },
+  { text: "I'm anxious about the exam tomorrow", expected: 'fear' },
+  { text: "I'm terrified of flying", expected: 'fear' },
+  { text: "I keep freaking out before meetings", expected: 'fear' },
+  { text: "I've been on edge and worried all day", expected: 'fear' },
+  { text: 'I was shocked when she told me', expected: 'surprise' },
+  { text: 'I am honestly amazed it worked', expected: 'surprise' },
+  { text: 'I love my kids so much', expected: 'love' },
+  { text: 'My partner has been so caring lately', expected: 'love' },
+  { text: "I'm grateful for my friends", expected: 'gratitude' },
+  { text: 'Thank you, I really appreciate that', expected: 'gratitude' },
+  { text: "I'm hopeful things will improve", expected: 'hope' },
+  { text: "I'm looking forward to the weekend", expected: 'hope' },
+  { text: "I'm optimistic about therapy", expected: 'hope' },
+  { text: "I'm okay I guess", expected: 'neutral' },
+  { text: 'It was fine', expected: 'neutral' },
+  { text: 'I went to the store and made dinner', expected: 'neutral' },
+  { text: 'We talked about the schedule for next week', expected: 'neutral' },
+
+  // Negation
+  { text: "I'm not happy at all", expected: 'sadness' },
+  { text: "I don't feel hopeful anymore", expected: 'sadness' },
+  { text: 'Nothing makes me happy these days', expected: 'sadness' },
+  { text: 'I never feel loved', expected: 'sadness' },
+  { text: "I'm not angry, just tired and sad", expected: 'sadness' },
+  { text: "I'm not sad, I'm actually excited", expected: 'joy' },
+  { text: "I wasn't scared, I was thrilled", expected: 'joy' },
+  { text: "I don't hate him but I'm hurt", expected: 'sadness' },
+  { text: "I'm not worried, but I am a bit frustrated", expected: 'anger' },
+  { text: "I can't say I'm grateful", expected: 'neutral' },
+  { text: "I'm not really that anxious anymore, I'm calm", expected: 'neutral' },
+
+  // Intensifiers and diminishers
+  { text: "I'm a bit sad but extremely angry", expected: 'anger' },
+  { text: "I'm slightly worried but very hopeful", expected: 'hope' },
+  { text: "I'm kind of happy but really scared", expected: 'fear' },
+  { text: "I'm a little annoyed but deeply grateful", expected: 'gratitude' },
+  { text: "I'm incredibly lonely and a bit nervous", expected: 'sadness' },
+
+  // Substring traps the old keyword matcher fell for
+  { text: 'I made a list of things to do', expected: 'neutral' },
+  { text: "The betterment plan at work starts Monday", expected: 'neutral' },
+  { text: 'The madness of the commute', expected: 'neutral' },
+  { text: 'I saw a documentary about the shadow economy', expected: 'neutral' },
+  { text: 'She is my manager and we had a meeting', expected: 'neutral' },
+  { text: "I'm feeling better after the walk", expected: 'hope' },
+
+  // Mixed and contrastive
+  { text: "I'm sad about the breakup but hopeful and optimistic about the future", expected: 'hope' },
+  { text: "I was happy at first, but now I'm depressed and miserable", expected: 'sadness' },
+  { text: 'Thank you, that makes me feel less anxious', expected: 'gratitude' },
+  { text: "I'm stressed, overwhelmed and panicking about money", expected: 'fear' },
+  { text: 'I HATE this, I am so MAD!', expected: 'anger' },
+  { text: 'I feel worthless and nobody cares', expected: 'sadness' },
+  { text: 'What a surprise, I was stunned', expected: 'surprise' },
+  { text: "I'm heartbroken", expected: 'sadness' },
+  { text: 'Feeling blessed and thankful today', expected: 'gratitude' },
+  { text: "It's an unexpected but wonderful change, I'm delighted", expected: 'joy' }
+];
+
+export const evaluateEmotionCorpus = (corpus: CorpusEntry[] = CORPUS) => {
+  const results: CorpusResult[] = corpus.map(entry => {
+    const analysis = analyzeEmotion(entry.text);
+    return { ...entry, actual: analysis.emotion, confidence: analysis.confidence };
+  });
+  const failures = results.filter(r => r.actual !== r.expected);
+  return { results, failures, accuracy: (results.length - failures.length) / results.length };
+};
@@ -0,0 +1,217 @@
+import type { EmotionAnalysis, EmotionLabel } from "@/utils/emotionAnalysis";
+import type { FaceExpressionSample } from "@/utils/faceExpression";
+import type { VoiceProsodySample } from "@/utils/voiceProsody";
+
+export type EmotionModality = 'text' | 'face' | 'voice';
+
+export interface FusedEmotion {
+  timestamp: string;
+  emotion: EmotionLabel;
+  valence: number; // -1 to 1
+  arousal: number; // 0 to 1
+  intensity: number; // 0-100
+  confidence: number; // 0-1
+  modalities: EmotionModality[];
+  face?: { emotion: EmotionLabel; valence: number };
+  voice?: { arousal: number };
+  incongruence?: string;
+}
+
+export interface FusionInput {
+  text: EmotionAnalysis;
+  face: FaceExpressionSample[];
+  voice: VoiceProsodySample[];
+  timestamp?: Date;
+}
+
+// Face and voice samples this close to the message are treated as belonging to it
+export const FUSION_WINDOW_MS = 15000;
+
+// Words carry the most specific signal; the face adds valence, the voice mostly arousal
+const MODALITY_WEIGHTS: Record<EmotionModality, number> = {
+  text: 0.5,
+  face: 0.35,
+  voice: 0.15
+};
+
+const EMOTION_VALENCE: Record<EmotionLabel, number> = {
+  joy: 0.8,
+  love: 0.7,
+  gratitude: 0.7,
+  hope: 0.5,
+  surprise: 0.1,
+  neutral: 0,
+  sadness: -0.7,
+  anger: -0.6,
+  fear: -0.6
+};
+
+const EMOTION_AROUSAL: Record<EmotionLabel, number> = {
+  joy: 0.6,
+  love: 0.4,
+  gratitude: 0.3,
+  hope: 0.4,
+  surprise: 0.8,
+  neutral: 0.2,
+  sadness: 0.3,
+  anger: 0.8,
+  fear: 0.8
+};
+
+// A still face is weak evidence; people often describe strong feelings with little expression
+const NEUTRAL_FACE_WEIGHT = 0.3;
+
+// Both signals must be at least this clearly valenced to count as contradicting each other
+const INCONGRUENCE_VALENCE = 0.3;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const weightedAverage = (items: Array<{ value: number; weight: number }>): number => {
+  const totalWeight = items.reduce((sum, item) => sum + item.weight, 0);
+  return totalWeight > 0 ? items.reduce((sum, item) => sum + item.value * item.weight, 0) / totalWeight : 0;
+};
+
+const describeFaceEmotion = (emotion: EmotionLabel): string => {
+  switch (emotion) {
+    case 'joy':
+      return 'smiling';
+    case 'sadness':
+      return 'looking sad';
+    case 'anger':
+      return 'looking tense or angry';
+    case 'fear':
+      return 'looking anxious';
+    case 'surprise':
+      return 'looking surprised';
+    default:
+      return 'showing little expression';
+  }
+};
+
+const summarizeFace = (samples: FaceExpressionSample[]) => {
+  if (samples.length === 0) return null;
+
+  const votes: Partial<Record<EmotionLabel, number>> = {};
+  samples.forEach(sample => {
+    votes[sample.emotion] = (votes[sample.emotion] || 0) + sample.confidence;
+  });
+  const [emotion] = (Object.entries(votes) as [EmotionLabel, number][]).sort(([, a], [, b]) => b - a)[0];
+
+  return {
+    emotion,
+    votes,
+    valence: weightedAverage(samples.map(s => ({ value: s.valence, weight: s.confidence }))),
+    arousal: weightedAverage(samples.map(s => ({ value: s.arousal, weight: s.confidence }))),
+    confidence: samples.reduce((sum, s) => sum + s.confidence, 0) / samples.length
+  };
+};
+
+const summarizeVoice = (samples: VoiceProsodySample[]) => {
+  if (samples.length === 0) return null;
+
+  return {
+    arousal: weightedAverage(samples.map(s => ({ value: s.arousal, weight: s.confidence || 0.01 }))),
+    confidence: samples.reduce((sum, s) => sum + s.confidence, 0) / samples.length
+  };
+};
+
+/**
+ * Combines what the client said with how they looked and sounded while saying it
+ * into one estimate, flagging when the channels disagree.
+ */
+export const fuseEmotions = ({ text, face, voice, timestamp = new Date() }: FusionInput): FusedEmotion => {
+  const windowStart = timestamp.getTime() - FUSION_WINDOW_MS;
+  const inWindow = (sample: { timestamp: string }) => {
+    const time = new Date(sample.timestamp).getTime();
+    return time >= windowStart && time <= timestamp.getTime();
+  };
+
+  const faceSummary = summarizeFace(face.filter(inWindow));
+  const voiceSummary = summarizeVoice(voice.filter(inWindow));
+  const hasTextEvidence = text.confidence > 0;
+
+  // Emotion label: text scores and face votes, each scaled by modality weight and confidence
+  const labelScores: Partial<Record<EmotionLabel, number>> = {};
+  const textTotal = Object.values(text.scores).reduce((a, b) => a + b, 0);
+  if (textTotal > 0) {
+    (Object.entries(text.scores) as [EmotionLabel, number][]).forEach(([emotion, score]) => {
+      labelScores[emotion] = (labelScores[emotion] || 0) +
+        (score / textTotal) * MODALITY_WEIGHTS.text * text.confidence;
+    });
+  }
+  if (faceSummary) {
+    const voteTotal = Object.values(faceSummary.votes).reduce((a, b) => a + (b || 0), 0) || 1;
+    (Object.entries(faceSummary.votes) as [EmotionLabel, number][]).forEach(([emotion, vote]) => {
+      labelScores[emotion] = (labelScores[emotion] || 0) +
+        (vote / voteTotal) * MODALITY_WEIGHTS.face * faceSummary.confidence *
+        (emotion === 'neutral' ? NEUTRAL_FACE_WEIGHT : 1);
+    });
+  }
+  const ranked = (Object.entries(labelScores) as [EmotionLabel, number][]).sort(([, a], [, b]) => b - a);
+  const emotion = ranked[0] && ranked[0][1] > 0 ? ranked[0][0] : text.emotion;
+
+  const textValence = EMOTION_VALENCE[text.emotion];
+  const textArousal = EMOTION_AROUSAL[text.emotion];
+
+  const valence = weightedAverage([
+    { value: textValence, weight: hasTextEvidence ? MODALITY_WEIGHTS.text * text.confidence : 0 },
+    { value: faceSummary?.valence || 0, weight: faceSummary ? MODALITY_WEIGHTS.face * faceSummary.confidence : 0 }
+  ]);
+  const arousal = weightedAverage([
+    { value: textArousal, weight: MODALITY_WEIGHTS.text * Math.max(text.confidence, 0.1) },
+    { value: faceSummary?.arousal || 0, weight: faceSummary ? MODALITY_WEIGHTS.face * faceSummary.confidence : 0 },
+    { value: voiceSummary?.arousal || 0, weight: voiceSummary ? MODALITY_WEIGHTS.voice * voiceSummary.confidence : 0 }
+  ]);
+
+  // Incongruence: the face contradicts the words, or the voice is far more activated than the words
+  let incongruence: string | undefined;
+  if (
+    faceSummary &&
+    hasTextEvidence &&
+    faceSummary.confidence >= 0.3 &&
+    Math.abs(textValence) >= INCONGRUENCE_VALENCE &&
+    Math.abs(faceSummary.valence) >= INCONGRUENCE_VALENCE &&
+    Math.sign(textValence) !== Math.sign(faceSummary.valence)
+  ) {
+    incongruence = `Client was ${describeFaceEmotion(faceSummary.emotion)} while describing ${text.emotion}`;
+  } else if (
+    voiceSummary &&
+    hasTextEvidence &&
+    voiceSummary.confidence >= 0.3 &&
+    textArousal <= 0.3 &&
+    voiceSummary.arousal >= 0.75
+  ) {
+    incongruence = `Client's voice sounded agitated while their words expressed ${text.emotion}`;
+  }
+
+  const modalities: EmotionModality[] = [
+    'text',
+    ...(faceSummary ? ['face' as const] : []),
+    ...(voiceSummary ? ['voice' as const] : [])
+  ];
+
+  // Confidence: how much evidence there is, reduced when the channels disagree
+  const evidence = weightedAverage([
+    { value: text.confidence, weight: MODALITY_WEIGHTS.text },
+    { value: faceSummary?.confidence || 0, weight: faceSummary ? MODALITY_WEIGHTS.face : 0 },
+    { value: voiceSummary?.confidence || 0, weight: voiceSummary ? MODALITY_WEIGHTS.voice : 0 }
+  ]);
+  const confidence = clamp(evidence * (incongruence ? 0.6 : 1), 0, 1);
+
+  return {
+    timestamp: timestamp.toISOString(),
+    emotion,
+    valence: round(clamp(valence, -1, 1)),
+    arousal: round(clamp(arousal, 0, 1)),
+    // Text intensity already reflects emphasis; non-verbal arousal shifts it
+    intensity: modalities.length > 1
+      ? Math.round(clamp(text.intensity * 0.6 + arousal * 100 * 0.4, 0, 100))
+      : text.intensity,
+    confidence: round(confidence),
+    modalities,
+    face: faceSummary ? { emotion: faceSummary.emotion, valence: round(faceSummary.valence) } : undefined,
+    voice: voiceSummary ? { arousal: round(voiceSummary.arousal) } : undefined,
+    incongruence
+  };
+};
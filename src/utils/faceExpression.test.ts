@@ -0,0 +1,11 @@
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+
+const read = (path: string) => readFileSync(new URL(path, import.meta.url), "utf8");
+
+describe("MediaPipe assets", () => {
+  it("serves the WASM runtime of the installed @mediapipe/tasks-vision version", () => {
+    const { version } = JSON.parse(read("../../node_modules/@mediapipe/tasks-vision/package.json"));
+    expect(read("../../public/mediapipe/wasm/VERSION").trim()).toBe(version);
+  });
+});
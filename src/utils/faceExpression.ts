@@ -0,0 +1,127 @@
+import { FaceLandmarker, FilesetResolver } from "@mediapipe/tasks-vision";
+import type { EmotionLabel } from "@/utils/emotionAnalysis";
+
+export type FaceEmotionLabel = Extract<EmotionLabel, 'joy' | 'sadness' | 'anger' | 'fear' | 'surprise' | 'neutral'>;
+
+export interface FaceExpressionSample {
+  timestamp: string;
+  emotion: FaceEmotionLabel;
+  valence: number; // -1 (negative) to 1 (positive)
+  arousal: number; // 0 (calm) to 1 (activated)
+  confidence: number; // 0-1
+}
+
+interface Blendshape {
+  categoryName: string;
+  score: number;
+}
+
+// Everything runs in the browser, and the model and WASM runtime are served by the
+// app itself (see `npm run assets:mediapipe`) rather than fetched from a CDN
+const WASM_BASE_URL = '/mediapipe/wasm';
+const MODEL_URL = '/mediapipe/face_landmarker.task';
+
+// Below this no expression is strong enough to call, so the face reads as neutral
+const EXPRESSION_THRESHOLD = 0.25;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Maps ARKit-style blendshape scores to coarse emotion evidence. Weights follow
+ * the FACS action units usually associated with each basic emotion.
+ */
+export const estimateFromBlendshapes = (blendshapes: Blendshape[]): Omit<FaceExpressionSample, 'timestamp'> => {
+  const score = (name: string) => blendshapes.find(b => b.categoryName === name)?.score || 0;
+  const pair = (name: string) => (score(`${name}Left`) + score(`${name}Right`)) / 2;
+
+  const smile = pair('mouthSmile');
+  const frown = pair('mouthFrown');
+  const browDown = pair('browDown');
+  const browOuterUp = pair('browOuterUp');
+  const browInnerUp = score('browInnerUp');
+  const eyeWide = pair('eyeWide');
+  const cheekSquint = pair('cheekSquint');
+  const noseSneer = pair('noseSneer');
+  const mouthPress = pair('mouthPress');
+  const mouthStretch = pair('mouthStretch');
+  const jawOpen = score('jawOpen');
+
+  const evidence: Record<Exclude<FaceEmotionLabel, 'neutral'>, number> = {
+    joy: smile * 0.75 + cheekSquint * 0.25,
+    sadness: clamp(frown * 0.5 + browInnerUp * 0.3 + mouthPress * 0.2 - smile * 0.5, 0, 1),
+    anger: clamp(browDown * 0.5 + noseSneer * 0.3 + mouthPress * 0.2 - smile * 0.5, 0, 1),
+    fear: clamp(eyeWide * 0.4 + browInnerUp * 0.3 + mouthStretch * 0.3 - smile * 0.5, 0, 1),
+    surprise: eyeWide * 0.3 + jawOpen * 0.4 + browOuterUp * 0.3
+  };
+
+  const [topEmotion, topScore] = (Object.entries(evidence) as [FaceEmotionLabel, number][])
+    .sort(([, a], [, b]) => b - a)[0];
+
+  const negative = Math.max(evidence.sadness, evidence.anger, evidence.fear);
+  const valence = round(clamp(evidence.joy - negative, -1, 1));
+  const arousal = round(clamp(
+    Math.max(eyeWide, jawOpen, browDown, noseSneer, smile * 0.6) * 1.2,
+    0,
+    1
+  ));
+
+  if (topScore < EXPRESSION_THRESHOLD) {
+    return {
+      emotion: 'neutral',
+      valence,
+      arousal,
+      confidence: round(1 - topScore / EXPRESSION_THRESHOLD)
+    };
+  }
+
+  return {
+    emotion: topEmotion,
+    valence,
+    arousal,
+    confidence: round(clamp(topScore, 0, 1))
+  };
+};
+
+export class FaceExpressionEstimator {
+  private landmarker: FaceLandmarker;
+
+  private constructor(landmarker: FaceLandmarker) {
+    this.landmarker = landmarker;
+  }
+
+  static async create(): Promise<FaceExpressionEstimator> {
+    const fileset = await FilesetResolver.forVisionTasks(WASM_BASE_URL);
+    const landmarker = await FaceLandmarker.createFromOptions(fileset, {
+      baseOptions: {
+        modelAssetPath: MODEL_URL,
+        delegate: 'GPU'
+      },
+      runningMode: 'IMAGE',
+      numFaces: 1,
+      outputFaceBlendshapes: true
+    });
+    return new FaceExpressionEstimator(landmarker);
+  }
+
+  // Returns null when no face is visible in the frame
+  estimate(frame: HTMLCanvasElement | HTMLVideoElement): FaceExpressionSample | null {
+    try {
+      const result = this.landmarker.detect(frame);
+      const blendshapes = result.faceBlendshapes[0]?.categories;
+      if (!blendshapes || blendshapes.length === 0) return null;
+
+      return {
+        timestamp: new Date().toISOString(),
+        ...estimateFromBlendshapes(blendshapes)
+      };
+    } catch (error) {
+      console.error('Error estimating facial expression:', error);
+      return null;
+    }
+  }
+
+  close(): void {
+    this.landmarker.close();
+  }
+}
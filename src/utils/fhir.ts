@@ -0,0 +1,282 @@
+import type { AssessmentRecord, EmotionSampleRecord, GoalRecord } from "@/utils/db";
+import type { Session } from "@/utils/session";
+import { QUESTIONNAIRES, QuestionnaireId } from "@/utils/assessments";
+import { computeSessionMetrics } from "@/utils/sessionMetrics";
+import type { ExportData } from "@/utils/dataExport";
+
+// Minimal FHIR R4 shapes: only the elements this export writes
+interface Coding {
+  system?: string;
+  code: string;
+  display?: string;
+}
+
+interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+interface Quantity {
+  value: number;
+  unit: string;
+  system?: string;
+  code?: string;
+}
+
+interface Reference {
+  reference: string;
+}
+
+interface Extension {
+  url: string;
+  valueString: string;
+}
+
+interface ObservationComponent {
+  code: CodeableConcept;
+  valueQuantity?: Quantity;
+  valueInteger?: number;
+  valueString?: string;
+}
+
+export interface FhirPatient {
+  resourceType: 'Patient';
+  id: string;
+}
+
+export interface FhirQuestionnaireResponse {
+  resourceType: 'QuestionnaireResponse';
+  id: string;
+  extension: Extension[];
+  questionnaire: string;
+  status: 'completed';
+  subject: Reference;
+  authored: string;
+  item: Array<{
+    linkId: string;
+    text: string;
+    answer: Array<{ valueCoding: Coding }>;
+  }>;
+}
+
+export interface FhirObservation {
+  resourceType: 'Observation';
+  id: string;
+  extension: Extension[];
+  status: 'final';
+  category?: CodeableConcept[];
+  code: CodeableConcept;
+  subject: Reference;
+  effectiveDateTime?: string;
+  effectivePeriod?: { start: string; end?: string };
+  valueInteger?: number;
+  valueQuantity?: Quantity;
+  valueCodeableConcept?: CodeableConcept;
+  interpretation?: CodeableConcept[];
+  method?: CodeableConcept;
+  note?: Array<{ text: string }>;
+  derivedFrom?: Reference[];
+  component?: ObservationComponent[];
+}
+
+type FhirResource = FhirPatient | FhirQuestionnaireResponse | FhirObservation;
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: 'collection';
+  timestamp: string;
+  entry: Array<{ fullUrl: string; resource: FhirResource }>;
+}
+
+const LOINC = 'http://loinc.org';
+const UCUM = 'http://unitsofmeasure.org';
+const OBSERVATION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/observation-category';
+// Local identifiers for what has no standard code
+const LOCAL_CODES = 'urn:dr-sky:codes';
+const QUESTIONNAIRE_PREFIX = 'urn:dr-sky:questionnaire:';
+// Carries the original record so an import restores it exactly
+const RECORD_EXTENSION = 'urn:dr-sky:source-record';
+
+// LOINC codes for the questionnaire total scores that have one
+const TOTAL_SCORE_LOINC: Partial<Record<QuestionnaireId, Coding>> = {
+  'phq-9': { system: LOINC, code: '44261-6' },
+  'gad-7': { system: LOINC, code: '70274-6' }
+};
+
+type RecordKind = 'session' | 'emotion-sample' | 'goal' | 'assessment';
+
+const recordExtension = (kind: RecordKind, record: unknown): Extension[] => [
+  { url: RECORD_EXTENSION, valueString: JSON.stringify({ kind, record }) }
+];
+
+const localCode = (code: string, display: string): CodeableConcept => ({
+  coding: [{ system: LOCAL_CODES, code, display }],
+  text: display
+});
+
+// Every resource id is a UUID, so entries reference each other by urn:uuid
+const toFullUrl = (id: string) => `urn:uuid:${id}`;
+
+const percent = (value: number): Quantity => ({ value, unit: '%', system: UCUM, code: '%' });
+
+const milliseconds = (value: number): Quantity => ({ value, unit: 'ms', system: UCUM, code: 'ms' });
+
+const toQuestionnaireResponse = (assessment: AssessmentRecord, subject: Reference): FhirQuestionnaireResponse => {
+  const questionnaire = QUESTIONNAIRES[assessment.questionnaireId];
+  return {
+    resourceType: 'QuestionnaireResponse',
+    id: assessment.id,
+    extension: recordExtension('assessment', assessment),
+    questionnaire: `${QUESTIONNAIRE_PREFIX}${assessment.questionnaireId}`,
+    status: 'completed',
+    subject,
+    authored: assessment.completedAt,
+    item: questionnaire.items.map((text, index) => {
+      const answer = assessment.answers[index];
+      const option = questionnaire.options.find(o => o.value === answer);
+      return {
+        linkId: String(index + 1),
+        text,
+        answer: [{ valueCoding: { code: String(answer), display: option?.label } }]
+      };
+    })
+  };
+};
+
+// The total score, linked to the response it was scored from
+const toScoreObservation = (assessment: AssessmentRecord, subject: Reference): FhirObservation => {
+  const questionnaire = QUESTIONNAIRES[assessment.questionnaireId];
+  const loinc = TOTAL_SCORE_LOINC[assessment.questionnaireId];
+  const local = { system: LOCAL_CODES, code: `${assessment.questionnaireId}-total`, display: `${questionnaire.shortName} total score` };
+
+  return {
+    resourceType: 'Observation',
+    id: crypto.randomUUID(),
+    extension: [],
+    status: 'final',
+    category: [{ coding: [{ system: OBSERVATION_CATEGORY, code: 'survey', display: 'Survey' }] }],
+    code: { coding: loinc ? [loinc, local] : [local], text: local.display },
+    subject,
+    effectiveDateTime: assessment.completedAt,
+    valueInteger: assessment.score,
+    interpretation: [{ text: assessment.severity }],
+    derivedFrom: [{ reference: toFullUrl(assessment.id) }]
+  };
+};
+
+const toEmotionObservation = (sample: EmotionSampleRecord, subject: Reference): FhirObservation => {
+  // The local key means nothing on another device
+  const { id: _localId, ...record } = sample;
+  const component: ObservationComponent[] = [
+    { code: localCode('emotion-intensity', 'Intensity'), valueQuantity: percent(sample.intensity) }
+  ];
+  if (sample.valence !== undefined) {
+    component.push({ code: localCode('emotion-valence', 'Valence (-1 to 1)'), valueQuantity: { value: sample.valence, unit: '1' } });
+  }
+  if (sample.arousal !== undefined) {
+    component.push({ code: localCode('emotion-arousal', 'Arousal (0 to 1)'), valueQuantity: { value: sample.arousal, unit: '1' } });
+  }
+  if (sample.incongruence) {
+    component.push({ code: localCode('emotion-incongruence', 'Incongruence'), valueString: sample.incongruence });
+  }
+
+  return {
+    resourceType: 'Observation',
+    id: crypto.randomUUID(),
+    extension: recordExtension('emotion-sample', record),
+    status: 'final',
+    code: localCode('emotion-sample', 'Detected emotion'),
+    subject,
+    effectiveDateTime: sample.timestamp,
+    valueCodeableConcept: { text: sample.emotion },
+    method: { text: sample.source },
+    component
+  };
+};
+
+const toSessionObservation = (session: Session, subject: Reference): FhirObservation => {
+  const metrics = session.metrics || computeSessionMetrics(session);
+  const component: ObservationComponent[] = [
+    { code: localCode('session-duration', 'Duration'), valueQuantity: milliseconds(metrics.durationMs) },
+    { code: localCode('session-client-turns', 'Client turns'), valueInteger: metrics.userTurns },
+    { code: localCode('session-voice-turns', 'Spoken client turns'), valueInteger: metrics.voiceTurns },
+    { code: localCode('session-client-words', 'Client words'), valueInteger: metrics.userWords },
+    { code: localCode('session-speaking-time', 'Client speaking time'), valueQuantity: milliseconds(metrics.speakingMs) }
+  ];
+  if (session.riskEvents.length > 0) {
+    const latest = session.riskEvents[session.riskEvents.length - 1];
+    component.push({ code: localCode('session-risk', 'Latest risk screen'), valueString: latest.level });
+  }
+
+  return {
+    resourceType: 'Observation',
+    id: session.id,
+    extension: recordExtension('session', session),
+    status: 'final',
+    code: localCode('therapy-session', 'Self-guided therapy session'),
+    subject,
+    effectivePeriod: { start: session.startTime, end: session.endTime },
+    component
+  };
+};
+
+const toGoalObservation = (goal: GoalRecord, subject: Reference): FhirObservation => ({
+  resourceType: 'Observation',
+  id: goal.id,
+  extension: recordExtension('goal', goal),
+  status: 'final',
+  code: localCode('goal-progress', 'Therapy goal progress'),
+  subject,
+  effectiveDateTime: goal.updatedAt,
+  valueQuantity: percent(goal.progress),
+  interpretation: [{ text: goal.status }],
+  note: [{ text: goal.description ? `${goal.title}: ${goal.description}` : goal.title }]
+});
+
+export const toFhirBundle = (data: ExportData): FhirBundle => {
+  const patient: FhirPatient = { resourceType: 'Patient', id: crypto.randomUUID() };
+  const subject = { reference: toFullUrl(patient.id) };
+
+  const resources: FhirResource[] = [
+    patient,
+    ...data.assessments.flatMap(a => [toQuestionnaireResponse(a, subject), toScoreObservation(a, subject)]),
+    ...data.sessions.map(s => toSessionObservation(s, subject)),
+    ...data.emotionSamples.map(s => toEmotionObservation(s, subject)),
+    ...data.goals.map(g => toGoalObservation(g, subject))
+  ];
+
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry: resources.map(resource => ({
+      fullUrl: toFullUrl(resource.id),
+      resource
+    }))
+  };
+};
+
+/**
+ * Reads back the records a bundle from this app carries. Resources from
+ * elsewhere have no source record and are skipped.
+ */
+export const fromFhirBundle = (bundle: unknown): ExportData => {
+  if (!bundle || typeof bundle !== 'object' || (bundle as FhirBundle).resourceType !== 'Bundle') {
+    throw new Error('Not a FHIR Bundle');
+  }
+
+  const data: ExportData = { sessions: [], emotionSamples: [], goals: [], assessments: [] };
+  for (const { resource } of (bundle as FhirBundle).entry || []) {
+    const source = 'extension' in resource
+      ? resource.extension?.find(extension => extension.url === RECORD_EXTENSION)
+      : undefined;
+    if (!source) continue;
+
+    const { kind, record } = JSON.parse(source.valueString) as { kind: RecordKind; record: never };
+    if (kind === 'session') data.sessions.push(record);
+    else if (kind === 'emotion-sample') data.emotionSamples.push(record);
+    else if (kind === 'goal') data.goals.push(record);
+    else if (kind === 'assessment') data.assessments.push(record);
+  }
+  return data;
+};
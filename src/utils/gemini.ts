@@ -1,48 +1,28 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-
-let genAI: GoogleGenerativeAI;
-const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes cache duration
-
-// Add response cache
-const responseCache = new Map<string, {
-  timestamp: number;
-  response: any;
-}>();
+import { LLMPart, LLMProvider, getLLMProvider } from "@/utils/llmProvider";
+import { RiskAssessment, RiskEvent, toRiskEvent } from "@/utils/riskClassifier";
+import type { Session, SessionMessage } from "@/utils/session";
+import { formatClientProfileForPrompt, loadClientProfile } from "@/utils/clientMemory";
+import { formatUserProfileForPrompt, getCachedUserProfile } from "@/utils/userProfile";
+import { analyzeEmotion } from "@/utils/emotionAnalysis";
+import type { FusedEmotion } from "@/utils/emotionFusion";
+import type { MessageInput } from "@/utils/sessionMetrics";
+import { BREATHING_PROMPT_GUIDANCE } from "@/utils/breathing";
+import { THOUGHT_RECORD_PROMPT_GUIDANCE, formatThoughtRecordsForPrompt } from "@/utils/thoughtRecords";
+import { ResponseAction, extractResponseAction, stripActionMarkers } from "@/utils/responseActions";
+import { formatHomeworkForPrompt, getHomeworkToReview, loadHomework } from "@/utils/homework";
+
+let llm: LLMProvider | null = null;
 
 // Add request debouncing
 let debounceTimeout: NodeJS.Timeout | null = null;
 const DEBOUNCE_DELAY = 300; // 300ms debounce delay
 
-export const initializeGemini = (apiKey: string) => {
-  genAI = new GoogleGenerativeAI(apiKey);
-};
-
-// Add cache helper functions
-const getCachedResponse = (cacheKey: string) => {
-  const cached = responseCache.get(cacheKey);
-  if (!cached) return null;
-  
-  const isExpired = Date.now() - cached.timestamp > CACHE_DURATION;
-  if (isExpired) {
-    responseCache.delete(cacheKey);
-    return null;
-  }
-  
-  return cached.response;
-};
-
-const setCachedResponse = (cacheKey: string, response: any) => {
-  responseCache.set(cacheKey, {
-    timestamp: Date.now(),
-    response
-  });
+export const initializeGemini = (apiKey?: string) => {
+  llm = getLLMProvider(apiKey);
 };
 
 // Add debounce helper
-const debounceRequest = <T>(
-  request: () => Promise<T>,
-  key: string
-): Promise<T> => {
+const debounceRequest = <T>(request: () => Promise<T>): Promise<T> => {
   return new Promise((resolve, reject) => {
     if (debounceTimeout) {
       clearTimeout(debounceTimeout);
@@ -59,131 +39,92 @@ const debounceRequest = <T>(
   });
 };
 
-// Add parallel processing for emotion analysis
-const analyzeEmotionParallel = async (text: string): Promise<{ emotion: string; intensity: number }> => {
-  const [emotionResult, intensityResult] = await Promise.all([
-    analyzeEmotionType(text),
-    calculateIntensity(text)
-  ]);
-  
-  return {
-    emotion: emotionResult,
-    intensity: intensityResult
-  };
-};
-
-const analyzeEmotionType = (text: string): Promise<string> => {
-  return new Promise(resolve => {
-    // Move emotion detection to a separate thread using Web Worker
-    const emotionKeywords = {
-      joy: ['happy', 'joy', 'excited', 'great', 'wonderful', 'delighted', 'pleased'],
-      sadness: ['sad', 'down', 'unhappy', 'depressed', 'miserable', 'hurt'],
-      anger: ['angry', 'frustrated', 'mad', 'annoyed', 'irritated'],
-      fear: ['afraid', 'scared', 'anxious', 'worried', 'nervous'],
-      surprise: ['surprised', 'shocked', 'amazed', 'astonished'],
-      love: ['love', 'caring', 'affection', 'warmth', 'kindness'],
-      gratitude: ['thankful', 'grateful', 'appreciate', 'blessed'],
-      hope: ['hope', 'optimistic', 'looking forward', 'better'],
-      neutral: ['okay', 'fine', 'alright', 'neutral']
-    };
-
-    let detectedEmotion = 'neutral';
-    let maxCount = 0;
-
-    for (const [emotion, keywords] of Object.entries(emotionKeywords)) {
-      const count = keywords.reduce((acc, keyword) => {
-        const regex = new RegExp(keyword, 'gi');
-        const matches = text.match(regex);
-        return acc + (matches ? matches.length : 0);
-      }, 0);
-
-      if (count > maxCount) {
-        maxCount = count;
-        detectedEmotion = emotion;
-      }
-    }
-
-    resolve(detectedEmotion);
-  });
-};
-
-const calculateIntensity = (text: string): Promise<number> => {
-  return new Promise(resolve => {
-    const exclamationCount = (text.match(/!/g) || []).length;
-    const capsCount = (text.match(/[A-Z]{2,}/g) || []).length;
-    const messageLength = text.length;
-
-    const intensity = Math.min(100, Math.max(0,
-      50 + // base intensity
-      (exclamationCount * 5) + // excitement level
-      (capsCount * 5) + // emphasis level
-      (messageLength > 100 ? 10 : 0) // length bonus
-    ));
-
-    resolve(intensity);
-  });
+// Session messages keep only the label and intensity of the full analysis
+const summarizeEmotion = (text: string): { emotion: string; intensity: number } => {
+  const { emotion, intensity } = analyzeEmotion(text);
+  return { emotion, intensity };
 };
 
-// Modify getTherapyResponse to use optimizations
+// Modify getTherapyResponse to use optimizations. The session is updated in place
+// with the exchange; callers persist it afterwards.
 export const getTherapyResponse = async (
+  session: Session,
   text: string,
-  imageData?: string
+  imageData?: string,
+  onPartialResponse?: (partialResponse: string) => void,
+  fusedEmotion?: FusedEmotion,
+  input: MessageInput = { mode: 'text' }
 ): Promise<{ 
   response: string; 
   emotion: { emotion: string; intensity: number };
   speechEvents?: SpeechEvent[];
+  // Set when Dr. Sky asked to open a tool, e.g. a breathing exercise, with this reply
+  action?: ResponseAction;
 }> => {
   try {
-    if (!genAI) {
+    if (!llm) {
       throw new Error('API key not configured');
     }
+    const provider = llm;
 
-    // Generate cache key
-    const cacheKey = `${text}_${imageData ? 'with_image' : 'no_image'}`;
-    
-    // Check cache first
-    const cachedResponse = getCachedResponse(cacheKey);
-    if (cachedResponse) {
-      return cachedResponse;
-    }
-
-    // Use debouncing for API requests
+    // Never answered from a cache: every exchange belongs in the session transcript,
+    // even when the client repeats themselves. Use debouncing for API requests
     return debounceRequest(async () => {
-      const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash-lite-preview-02-05" });
-
-      // Parallel processing for emotion analysis
-      const currentEmotion = await analyzeEmotionParallel(text);
+      // Emotion of the incoming message, from all modalities when available
+      const currentEmotion = fusedEmotion
+        ? { emotion: fusedEmotion.emotion, intensity: fusedEmotion.intensity }
+        : summarizeEmotion(text);
       const currentTime = new Date().toISOString();
 
       // Update conversation history and prepare prompt in parallel
       const [_, prompt] = await Promise.all([
-        updateConversationHistory(text, currentEmotion, currentTime, imageData),
-        preparePrompt(text, imageData)
+        updateConversationHistory(session, text, currentEmotion, currentTime, input, imageData),
+        preparePrompt(session, text, imageData, fusedEmotion)
       ]);
 
       // Stream the response for faster initial display
-      const result = await model.generateContent(prompt);
-      const response = result.response.text();
+      let response = '';
+      let firstTokenMs: number | undefined;
+      const requestStart = performance.now();
+      for await (const chunk of provider.generateContentStream(prompt)) {
+        if (firstTokenMs === undefined) {
+          firstTokenMs = Math.round(performance.now() - requestStart);
+        }
+        response += chunk;
+        onPartialResponse?.(sanitizeTherapeuticText(stripActionMarkers(response)));
+      }
+      const latencyMs = Math.round(performance.now() - requestStart);
+      const { text: spokenResponse, action } = extractResponseAction(response);
       
-      const responseEmotion = await analyzeEmotionParallel(response);
+      const responseEmotion = summarizeEmotion(spokenResponse);
       
       // Process response and generate speech events in parallel
       const [processedResponse, speechEvents] = await Promise.all([
-        processTherapeuticResponse(response),
-        generateSpeechEvents(response)
+        processTherapeuticResponse(spokenResponse),
+        generateSpeechEvents(spokenResponse)
       ]);
 
-      const finalResponse = {
+      session.messages.push({
+        role: 'therapist',
+        content: processedResponse,
+        timestamp: new Date().toISOString(),
+        emotion: responseEmotion,
+        latencyMs,
+        firstTokenMs
+      });
+      updateTherapeuticContext(session, {
+        role: 'therapist',
+        content: processedResponse,
+        emotion: responseEmotion
+      });
+
+      return {
         response: processedResponse,
         emotion: responseEmotion,
-        speechEvents
+        speechEvents,
+        action: action || undefined
       };
-
-      // Cache the response
-      setCachedResponse(cacheKey, finalResponse);
-
-      return finalResponse;
-    }, cacheKey);
+    });
 
   } catch (error) {
     console.error("Error getting therapy response:", error);
@@ -193,45 +134,109 @@ export const getTherapyResponse = async (
 
 // Add helper functions for parallel processing
 const updateConversationHistory = async (
+  session: Session,
   text: string,
   emotion: { emotion: string; intensity: number },
   timestamp: string,
+  input: MessageInput,
   imageData?: string
 ) => {
-  conversationHistory.messages.push({
+  session.messages.push({
     role: 'user',
     content: text,
     timestamp,
     emotion,
-    visualContext: imageData ? 'visual data present' : undefined
+    visualContext: imageData ? 'visual data present' : undefined,
+    inputMode: input.mode,
+    speakingMs: input.speakingMs
   });
 
-  updateTherapeuticContext({
+  updateTherapeuticContext(session, {
     role: 'user',
     content: text,
     emotion
   });
 };
 
-const preparePrompt = async (text: string, imageData?: string) => {
-  const recentMessages = conversationHistory.messages.slice(-5);
+const preparePrompt = async (
+  session: Session,
+  text: string,
+  imageData?: string,
+  fusedEmotion?: FusedEmotion
+) => {
+  const { therapeuticContext } = session;
+  const recentMessages = session.messages.slice(-5);
   const conversationContext = recentMessages
     .map(msg => `${msg.role.toUpperCase()}: ${msg.content} (Emotion: ${msg.emotion?.emotion}, Intensity: ${msg.emotion?.intensity})`)
     .join('\n');
 
+  const latestRiskEvent = session.riskEvents[session.riskEvents.length - 1];
+  const thoughtRecords = formatThoughtRecordsForPrompt(session.thoughtRecords || []);
+  const [storedClientProfile, userProfile, storedHomework] = await Promise.all([
+    loadClientProfile(),
+    getCachedUserProfile(),
+    loadHomework()
+  ]);
+  const homework = formatHomeworkForPrompt(getHomeworkToReview(storedHomework, session.id));
+  // The first reply of a session is where Dr. Sky opens with the homework check-in
+  const isOpeningReply = !session.messages.some(message => message.role === 'therapist');
+  const clientProfile = formatClientProfileForPrompt(storedClientProfile);
+  const aboutClient = formatUserProfileForPrompt(userProfile);
+  const aboutClientGuidance = [
+    userProfile?.displayName && '- Address them by name occasionally, not in every reply',
+    userProfile?.pronouns && '- Use their pronouns whenever you refer to them',
+    userProfile && !userProfile.preferredLanguage.toLowerCase().startsWith('en') && '- Respond in their preferred language'
+  ].filter(Boolean).join('\n     ');
+
   const prompt = `You are Dr. Sky, a warm and experienced therapist specializing in Cognitive Behavioral Therapy (CBT) and humanistic approaches. 
-  
+  ${aboutClient ? `
+  About the Client:
+  ${aboutClient}${aboutClientGuidance ? `
+     ${aboutClientGuidance}` : ''}
+  ` : ''}${clientProfile ? `
+  What You Know From Previous Sessions:
+  ${clientProfile}
+     - Build on this naturally; don't ask the client to repeat what is already known
+     - Check in on current goals when it fits the conversation
+  ` : ''}${homework ? `
+  Homework From Previous Sessions:
+  ${homework}
+     ${isOpeningReply
+       ? '- After responding to what they just said, ask how the outstanding homework went'
+       : "- If it hasn't come up yet, ask how it went when there's a natural pause"}
+     - Be curious about what got in the way rather than disappointed; acknowledge anything they completed
+  ` : ''}
   Conversation History and Context:
-  Relationship Depth: ${conversationHistory.therapeuticContext.relationshipDepth}/10
-  Primary Concerns: ${conversationHistory.therapeuticContext.primaryConcerns.join('; ')}
-  Emotional Themes: ${conversationHistory.therapeuticContext.emotionalThemes.join(', ')}
-  Recent Progress: ${conversationHistory.therapeuticContext.progressMarkers.slice(-2).join('; ')}
+  Relationship Depth: ${therapeuticContext.relationshipDepth}/10
+  Primary Concerns: ${therapeuticContext.primaryConcerns.join('; ')}
+  Emotional Themes: ${therapeuticContext.emotionalThemes.join(', ')}
+  Recent Progress: ${therapeuticContext.progressMarkers.slice(-2).join('; ')}
 
   Recent Conversation:
   ${conversationContext}
 
   Current Message:
   "${text}"
+  ${fusedEmotion && fusedEmotion.modalities.length > 1 ? `
+  Emotional Read (words${fusedEmotion.face ? ', facial expression' : ''}${fusedEmotion.voice ? ', voice' : ''}):
+  Overall: ${fusedEmotion.emotion} (valence ${fusedEmotion.valence}, arousal ${fusedEmotion.arousal}, confidence ${fusedEmotion.confidence})
+  ${fusedEmotion.incongruence ? `Incongruence: ${fusedEmotion.incongruence}
+     - Gently and curiously name the mismatch if it feels safe; never tell them what they "really" feel` : ''}` : ''}
+  ${latestRiskEvent ? `
+  Safety Note:
+  Earlier in this session the client's messages were flagged for possible ${latestRiskEvent.categories.join(', ') || 'risk'} (${latestRiskEvent.level} risk).
+     - Gently check in on their safety before anything else
+     - Never minimize or challenge what they disclosed
+     - Encourage contact with a crisis line or trusted person if risk remains` : ''}
+
+  ${thoughtRecords ? `
+  Thought Records From This Session:
+  ${thoughtRecords}
+     - Build on what they worked out; reinforce the balanced thought rather than redoing the record` : ''}
+
+  Tools You Can Offer:
+  ${BREATHING_PROMPT_GUIDANCE}
+  ${THOUGHT_RECORD_PROMPT_GUIDANCE}
   
   ${imageData ? `
   Visual Analysis Framework:
@@ -255,7 +260,7 @@ const preparePrompt = async (text: string, imageData?: string) => {
      - Maintain therapeutic narrative
 
   2. Therapeutic Approach:
-     - Adapt style to relationship depth (${conversationHistory.therapeuticContext.relationshipDepth}/10)
+     - Adapt style to relationship depth (${therapeuticContext.relationshipDepth}/10)
      - Use established rapport in responses
      - Reference shared understanding
      - Build on previous insights
@@ -273,7 +278,7 @@ const preparePrompt = async (text: string, imageData?: string) => {
   - Maintain therapeutic continuity
   - Show understanding of ongoing narrative`;
 
-  const parts: any[] = [prompt];
+  const parts: LLMPart[] = [prompt];
 
   if (imageData?.includes('base64')) {
     const base64Image = imageData.split(',')[1];
@@ -287,7 +292,8 @@ const preparePrompt = async (text: string, imageData?: string) => {
   return parts;
 };
 
-const processTherapeuticResponse = async (response: string): Promise<string> => {
+// Synchronous so partial streamed text can be cleaned the same way as the final response
+const sanitizeTherapeuticText = (response: string): string => {
   return response
     .replace(/\b(AI|artificial intelligence|machine|model|assistant)\b/gi, 'I')
     .replace(/\b(image|photo|picture|video)\b/gi, 'what I observe')
@@ -302,6 +308,10 @@ const processTherapeuticResponse = async (response: string): Promise<string> =>
     .replace(/\b(tracking|tracked|track)\b/gi, 'following');
 };
 
+const processTherapeuticResponse = async (response: string): Promise<string> => {
+  return sanitizeTherapeuticText(response);
+};
+
 const generateSpeechEvents = async (response: string): Promise<SpeechEvent[]> => {
   const words = response.split(/\s+/);
   const speechEvents: SpeechEvent[] = words.map(word => ({
@@ -326,58 +336,6 @@ const getFallbackResponse = () => ({
   ] as SpeechEvent[]
 });
 
-// Export the emotion analysis helper
-export const analyzeEmotion = (text: string): { emotion: string; intensity: number } => {
-  const emotionKeywords = {
-    joy: ['happy', 'joy', 'excited', 'great', 'wonderful', 'delighted', 'pleased'],
-    sadness: ['sad', 'down', 'unhappy', 'depressed', 'miserable', 'hurt'],
-    anger: ['angry', 'frustrated', 'mad', 'annoyed', 'irritated'],
-    fear: ['afraid', 'scared', 'anxious', 'worried', 'nervous'],
-    surprise: ['surprised', 'shocked', 'amazed', 'astonished'],
-    love: ['love', 'caring', 'affection', 'warmth', 'kindness'],
-    gratitude: ['thankful', 'grateful', 'appreciate', 'blessed'],
-    hope: ['hope', 'optimistic', 'looking forward', 'better'],
-    neutral: ['okay', 'fine', 'alright', 'neutral']
-  };
-
-  let detectedEmotion = 'neutral';
-  let maxCount = 0;
-  let intensity = 50;
-
-  // Count emotion keywords
-  for (const [emotion, keywords] of Object.entries(emotionKeywords)) {
-    const count = keywords.reduce((acc, keyword) => {
-      const regex = new RegExp(keyword, 'gi');
-      const matches = text.match(regex);
-      return acc + (matches ? matches.length : 0);
-    }, 0);
-
-    if (count > maxCount) {
-      maxCount = count;
-      detectedEmotion = emotion;
-    }
-  }
-
-  // Calculate intensity based on:
-  // 1. Number of emotion keywords
-  // 2. Exclamation marks
-  // 3. Capitalization
-  // 4. Message length
-  const exclamationCount = (text.match(/!/g) || []).length;
-  const capsCount = (text.match(/[A-Z]{2,}/g) || []).length;
-  const messageLength = text.length;
-
-  intensity = Math.min(100, Math.max(0,
-    50 + // base intensity
-    (maxCount * 10) + // emotion keyword frequency
-    (exclamationCount * 5) + // excitement level
-    (capsCount * 5) + // emphasis level
-    (messageLength > 100 ? 10 : 0) // length bonus
-  ));
-
-  return { emotion: detectedEmotion, intensity };
-};
-
 // Add these helper types for visual analysis
 interface VisualAnalysis {
   facialExpression: {
@@ -434,52 +392,32 @@ const analyzeVisualCues = (imageData: string): string => {
   `;
 };
 
-// Add conversation history interface
-interface ConversationHistory {
-  messages: Array<{
-    role: 'user' | 'therapist';
-    content: string;
-    timestamp: string;
-    emotion?: {
-      emotion: string;
-      intensity: number;
-    };
-    visualContext?: string;
-  }>;
-  therapeuticContext: {
-    primaryConcerns: string[];
-    emotionalThemes: string[];
-    progressMarkers: string[];
-    relationshipDepth: number;
-    sessionGoals: string[];
-  };
-}
-
-// Initialize conversation history
-let conversationHistory: ConversationHistory = {
-  messages: [],
-  therapeuticContext: {
-    primaryConcerns: [],
-    emotionalThemes: [],
-    progressMarkers: [],
-    relationshipDepth: 0,
-    sessionGoals: []
-  }
+// Log a safety screening result against the current session
+export const recordRiskEvent = (session: Session, assessment: RiskAssessment): RiskEvent => {
+  const event = toRiskEvent(assessment);
+  session.riskEvents.push(event);
+  return event;
 };
 
 // Add function to update therapeutic context
-const updateTherapeuticContext = (message: { role: 'user' | 'therapist'; content: string; emotion?: { emotion: string; intensity: number } }) => {
-  const context = conversationHistory.therapeuticContext;
+const updateTherapeuticContext = (
+  session: Session,
+  message: Pick<SessionMessage, 'role' | 'content' | 'emotion'>
+) => {
+  const context = session.therapeuticContext;
 
-  // Update relationship depth (0-10 scale)
-  if (context.relationshipDepth < 10) {
-    context.relationshipDepth += 0.5; // Gradually increase with each meaningful exchange
-  }
+  // Relationship depth and emotional themes follow the client's side of each exchange
+  if (message.role === 'user') {
+    // Update relationship depth (0-10 scale)
+    if (context.relationshipDepth < 10) {
+      context.relationshipDepth += 0.5; // Gradually increase with each meaningful exchange
+    }
 
-  // Extract and update emotional themes
-  const emotion = message.emotion?.emotion || 'neutral';
-  if (!context.emotionalThemes.includes(emotion)) {
-    context.emotionalThemes.push(emotion);
+    // Extract and update emotional themes
+    const emotion = message.emotion?.emotion || 'neutral';
+    if (!context.emotionalThemes.includes(emotion)) {
+      context.emotionalThemes.push(emotion);
+    }
   }
 
   // Extract potential concerns from user messages
@@ -520,7 +458,8 @@ interface SpeechEvent {
 export const getCopingStrategies = async (
   currentEmotion: string,
   intensity: number,
-  recentMessages: { text: string; isUser: boolean }[]
+  recentMessages: { text: string; isUser: boolean }[],
+  confidence?: number
 ): Promise<{
   title: string;
   description: string;
@@ -528,12 +467,10 @@ export const getCopingStrategies = async (
   category: string;
 }[]> => {
   try {
-    if (!genAI) {
+    if (!llm) {
       throw new Error('API key not configured');
     }
 
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash-lite-preview-02-05" });
-
     // Create conversation context
     const conversationContext = recentMessages
       .map(msg => `${msg.isUser ? "User" : "Therapist"}: ${msg.text}`)
@@ -542,7 +479,7 @@ export const getCopingStrategies = async (
     const prompt = `You are an emotional support AI. Based on this conversation, generate 2-3 personalized coping strategies.
 
 Current State:
-- Emotion: ${currentEmotion}
+- Emotion: ${currentEmotion}${confidence !== undefined && confidence < 0.4 ? ' (uncertain, weigh the conversation more heavily)' : ''}
 - Intensity: ${intensity}/100
 
 Recent Conversation:
@@ -572,8 +509,7 @@ Remember:
 4. Use supportive language
 5. Ensure valid JSON format`;
 
-    const result = await model.generateContent(prompt);
-    const response = result.response.text();
+    const response = await llm.generateContent(prompt, { task: 'coping-strategies' });
     
     // Clean the response to handle potential markdown or extra text
     const cleanedResponse = response
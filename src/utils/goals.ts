@@ -0,0 +1,171 @@
+import type { ProgressData } from "@/utils/progressTracking";
+import { GoalRecord, getAllRecords, putRecord, putRecords } from "@/utils/db";
+
+export type GoalStatus = GoalRecord['status'];
+
+export type GoalChanges = Partial<Pick<GoalRecord, 'title' | 'description' | 'targetDate' | 'status' | 'progress'>>;
+
+// Goals stored before they had titles and history kept their text in `goal`
+type StoredGoal = GoalRecord & { goal?: string };
+
+export const normalizeGoal = ({ goal, ...record }: StoredGoal): GoalRecord => ({
+  ...record,
+  title: record.title || goal || '',
+  description: record.description || '',
+  history: Array.isArray(record.history)
+    ? record.history
+    : [{ timestamp: record.updatedAt, progress: record.progress }]
+});
+
+const sameTitle = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const statusForProgress = (progress: number): GoalStatus => {
+  if (progress >= 100) return 'achieved';
+  if (progress > 0) return 'in-progress';
+  return 'not-started';
+};
+
+// Includes removed goals, which are kept so the removal can sync
+export const loadAllGoals = async (): Promise<GoalRecord[]> => {
+  try {
+    const records = await getAllRecords('goals');
+    return records
+      .map(normalizeGoal)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch (error) {
+    console.error('Error loading goals:', error);
+    return [];
+  }
+};
+
+export const loadGoals = async (): Promise<GoalRecord[]> =>
+  (await loadAllGoals()).filter(goal => !goal.deletedAt);
+
+export const createGoal = async (
+  details: Pick<GoalRecord, 'title' | 'description' | 'targetDate'>
+): Promise<GoalRecord> => {
+  const now = new Date().toISOString();
+  const goal: GoalRecord = {
+    id: crypto.randomUUID(),
+    title: details.title.trim(),
+    description: details.description.trim(),
+    targetDate: details.targetDate || undefined,
+    progress: 0,
+    status: 'not-started',
+    history: [{ timestamp: now, progress: 0 }],
+    createdAt: now,
+    updatedAt: now
+  };
+  await putRecord('goals', goal);
+  return goal;
+};
+
+/**
+ * Applies the user's own edits. A status chosen here sticks: later sessions
+ * still record progress but no longer derive the status from it.
+ */
+export const updateGoal = async (id: string, changes: GoalChanges): Promise<GoalRecord> => {
+  const goal = (await loadAllGoals()).find(g => g.id === id);
+  if (!goal) throw new Error(`Goal ${id} not found`);
+
+  const now = new Date().toISOString();
+  const progressChanged = changes.progress !== undefined && changes.progress !== goal.progress;
+  const statusSetByUser = goal.statusSetByUser || (changes.status !== undefined && changes.status !== goal.status);
+  const updated: GoalRecord = {
+    ...goal,
+    ...changes,
+    status: changes.status || (progressChanged && !statusSetByUser
+      ? statusForProgress(changes.progress as number)
+      : goal.status),
+    statusSetByUser,
+    history: progressChanged
+      ? [...goal.history, { timestamp: now, progress: changes.progress as number }]
+      : goal.history,
+    updatedAt: now
+  };
+  await putRecord('goals', updated);
+  return updated;
+};
+
+// Kept as a tombstone so other devices drop the goal too
+export const deleteGoal = async (id: string): Promise<void> => {
+  const goal = (await loadAllGoals()).find(g => g.id === id);
+  if (!goal) return;
+
+  const now = new Date().toISOString();
+  await putRecord('goals', { ...goal, deletedAt: now, updatedAt: now });
+};
+
+/**
+ * Records what a session said about each goal. Updates that name an existing
+ * goal, by id or failing that by title, extend its history; anything else
+ * becomes a new goal. Returns every current goal.
+ */
+export const applySessionGoals = async (
+  updates: ProgressData['goals'],
+  sessionId?: string
+): Promise<GoalRecord[]> => {
+  const goals = await loadGoals();
+  const changed = new Map<string, GoalRecord>();
+  const now = new Date().toISOString();
+
+  updates.forEach(update => {
+    const title = update.goal.trim();
+    if (!title) return;
+
+    const entry = { timestamp: now, progress: update.progress, sessionId };
+    const index = goals.findIndex(g => g.id === update.goalId);
+    const existingIndex = index >= 0 ? index : goals.findIndex(g => sameTitle(g.title, title));
+
+    if (existingIndex >= 0) {
+      const existing = goals[existingIndex];
+      goals[existingIndex] = {
+        ...existing,
+        description: existing.description || update.description || '',
+        progress: update.progress,
+        status: existing.statusSetByUser ? existing.status : statusForProgress(update.progress),
+        history: [...existing.history, entry],
+        updatedAt: now
+      };
+      changed.set(existing.id, goals[existingIndex]);
+    } else {
+      const created: GoalRecord = {
+        id: crypto.randomUUID(),
+        title,
+        description: update.description || '',
+        progress: update.progress,
+        status: statusForProgress(update.progress),
+        history: [entry],
+        createdAt: now,
+        updatedAt: now
+      };
+      goals.push(created);
+      changed.set(created.id, created);
+    }
+  });
+
+  if (changed.size > 0) {
+    await putRecords('goals', [...changed.values()]);
+  }
+  return goals;
+};
+
+// The snapshot of goals stored with each progress report
+export const toProgressGoals = (goals: GoalRecord[]): ProgressData['goals'] =>
+  goals.map(goal => ({
+    goalId: goal.id,
+    goal: goal.title,
+    description: goal.description,
+    progress: goal.progress,
+    status: goal.status
+  }));
+
+// Lets the model refer to existing goals by id instead of restating them
+export const formatGoalsForPrompt = (goals: GoalRecord[]): string =>
+  goals
+    .map(goal => {
+      const target = goal.targetDate ? `, target ${goal.targetDate}` : '';
+      const description = goal.description ? `: ${goal.description}` : '';
+      return `- [${goal.id}] ${goal.title} (${goal.progress}%, ${goal.status}${target})${description}`;
+    })
+    .join('\n');
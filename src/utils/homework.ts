@@ -0,0 +1,116 @@
+import { HomeworkRecord, getAllRecords, putRecord, putRecords } from "@/utils/db";
+import { toDateKey } from "@/utils/routines";
+
+// What the model proposes at session end, before it's given ids and dates
+export interface HomeworkAssignment {
+  title: string;
+  description: string;
+  dueInDays: number;
+}
+
+// Recently finished homework is still worth acknowledging in the next session
+const RECENTLY_DONE_DAYS = 7;
+
+const sameTitle = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const isHomeworkDone = (item: HomeworkRecord): boolean => !!item.completedAt;
+
+export const isHomeworkOverdue = (item: HomeworkRecord, today = toDateKey()): boolean =>
+  !isHomeworkDone(item) && item.dueDate < today;
+
+// Includes removed homework, which is kept so the removal can sync
+export const loadAllHomework = async (): Promise<HomeworkRecord[]> => {
+  try {
+    const records = await getAllRecords('homework');
+    return records.sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.createdAt.localeCompare(b.createdAt));
+  } catch (error) {
+    console.error('Error loading homework:', error);
+    return [];
+  }
+};
+
+export const loadHomework = async (): Promise<HomeworkRecord[]> =>
+  (await loadAllHomework()).filter(item => !item.deletedAt);
+
+export const getOutstandingHomework = (homework: HomeworkRecord[]): HomeworkRecord[] =>
+  homework.filter(item => !item.deletedAt && !isHomeworkDone(item));
+
+export const setHomeworkDone = async (id: string, done: boolean): Promise<HomeworkRecord> => {
+  const item = (await loadAllHomework()).find(h => h.id === id);
+  if (!item) throw new Error(`Homework ${id} not found`);
+
+  const now = new Date().toISOString();
+  const updated: HomeworkRecord = { ...item, completedAt: done ? now : undefined, updatedAt: now };
+  await putRecord('homework', updated);
+  return updated;
+};
+
+// Kept as a tombstone so other devices drop it too
+export const deleteHomework = async (id: string): Promise<void> => {
+  const item = (await loadAllHomework()).find(h => h.id === id);
+  if (!item) return;
+
+  const now = new Date().toISOString();
+  await putRecord('homework', { ...item, deletedAt: now, updatedAt: now });
+};
+
+/**
+ * Stores the homework set at the end of a session. Anything matching
+ * homework that's still outstanding is skipped rather than assigned twice.
+ * Returns the newly assigned items.
+ */
+export const assignSessionHomework = async (
+  assignments: HomeworkAssignment[],
+  sessionId?: string
+): Promise<HomeworkRecord[]> => {
+  const outstanding = getOutstandingHomework(await loadHomework());
+  const now = new Date();
+  const created: HomeworkRecord[] = [];
+
+  assignments.forEach(assignment => {
+    const title = assignment.title.trim();
+    if (!title || [...outstanding, ...created].some(item => sameTitle(item.title, title))) return;
+
+    const due = new Date(now);
+    due.setDate(due.getDate() + assignment.dueInDays);
+    created.push({
+      id: crypto.randomUUID(),
+      sessionId,
+      title,
+      description: assignment.description.trim(),
+      dueDate: toDateKey(due),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString()
+    });
+  });
+
+  if (created.length > 0) {
+    await putRecords('homework', created);
+  }
+  return created;
+};
+
+/**
+ * Homework from earlier sessions to follow up on: everything still open, plus
+ * anything finished in the last week so Dr. Sky can acknowledge it.
+ */
+export const getHomeworkToReview = (homework: HomeworkRecord[], sessionId: string, now = new Date()): HomeworkRecord[] => {
+  const recent = new Date(now);
+  recent.setDate(recent.getDate() - RECENTLY_DONE_DAYS);
+
+  return homework.filter(item =>
+    !item.deletedAt &&
+    item.sessionId !== sessionId &&
+    (!item.completedAt || item.completedAt >= recent.toISOString()));
+};
+
+export const formatHomeworkForPrompt = (homework: HomeworkRecord[], today = toDateKey()): string =>
+  homework
+    .map(item => {
+      const status = isHomeworkDone(item)
+        ? 'done'
+        : isHomeworkOverdue(item, today) ? `overdue, was due ${item.dueDate}` : `due ${item.dueDate}`;
+      const description = item.description ? `: ${item.description}` : '';
+      return `- ${item.title} (${status})${description}`;
+    })
+    .join('\n  ');
@@ -0,0 +1,359 @@
+import { GoogleGenerativeAI, GenerativeModel, ResponseSchema as GeminiResponseSchema } from "@google/generative-ai";
+
+export type LLMProviderName = 'gemini' | 'openai' | 'mock';
+
+// Parts mirror Gemini's shape so existing prompt builders keep working unchanged
+export type LLMPart =
+  | string
+  | {
+      inlineData: {
+        mimeType: string;
+        data: string;
+      };
+    };
+
+export type LLMRequest = string | LLMPart[];
+
+/**
+ * The OpenAPI subset both Gemini's `responseSchema` and OpenAI's `json_schema`
+ * response format accept.
+ */
+export interface ResponseSchema {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  nullable?: boolean;
+  enum?: string[];
+  items?: ResponseSchema;
+  properties?: Record<string, ResponseSchema>;
+  required?: string[];
+}
+
+/**
+ * What a request is for. Real providers ignore it; the mock provider answers by
+ * it, so its canned replies don't depend on what the conversation happens to say.
+ */
+export type LLMTask =
+  | 'coping-strategies'
+  | 'client-notes'
+  | 'emotion-analysis'
+  | 'engagement'
+  | 'session-analysis'
+  | 'progress-report'
+  | 'session-summary'
+  | 'goals'
+  | 'improvements'
+  | 'homework'
+  | 'risk-check'
+  | 'content-ranking'
+  | 'thought-record';
+
+export interface GenerateOptions {
+  // Constrains the response to JSON matching this schema
+  responseSchema?: ResponseSchema;
+  task?: LLMTask;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  generateContent(request: LLMRequest, options?: GenerateOptions): Promise<string>;
+  // Yields text deltas as they arrive; concatenating them gives the full response
+  generateContentStream(request: LLMRequest): AsyncGenerator<string>;
+}
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;
+}
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  gemini: 'gemini-2.0-flash-lite-preview-02-05',
+  openai: 'gpt-4o-mini',
+  mock: 'mock-therapist'
+};
+
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+const toText = (request: LLMRequest): string => {
+  if (typeof request === 'string') return request;
+  return request.filter((part): part is string => typeof part === 'string').join('\n');
+};
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+  readonly model: string;
+  private generativeModel: GenerativeModel;
+
+  constructor(apiKey: string, model: string = DEFAULT_MODELS.gemini) {
+    if (!apiKey) {
+      throw new Error('API key is required for the Gemini provider');
+    }
+    this.model = model;
+    this.generativeModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model });
+  }
+
+  async generateContent(request: LLMRequest, options?: GenerateOptions): Promise<string> {
+    if (!options?.responseSchema) {
+      const result = await this.generativeModel.generateContent(request);
+      return result.response.text();
+    }
+
+    const parts = typeof request === 'string' ? [request] : request;
+    const result = await this.generativeModel.generateContent({
+      contents: [{
+        role: 'user',
+        parts: parts.map(part => typeof part === 'string' ? { text: part } : part)
+      }],
+      generationConfig: {
+        responseMimeType: 'application/json',
+        // Same shape; the SDK only types `type` as its own enum
+        responseSchema: options.responseSchema as unknown as GeminiResponseSchema
+      }
+    });
+    return result.response.text();
+  }
+
+  async *generateContentStream(request: LLMRequest): AsyncGenerator<string> {
+    const result = await this.generativeModel.generateContentStream(request);
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) yield text;
+    }
+  }
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(apiKey: string, model: string = DEFAULT_MODELS.openai, baseUrl: string = DEFAULT_OPENAI_BASE_URL) {
+    this.apiKey = apiKey;
+    this.model = model;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  private buildMessages(request: LLMRequest) {
+    if (typeof request === 'string') {
+      return [{ role: 'user', content: request }];
+    }
+
+    const content = request.map(part =>
+      typeof part === 'string'
+        ? { type: 'text', text: part }
+        : {
+            type: 'image_url',
+            image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` }
+          }
+    );
+
+    return [{ role: 'user', content }];
+  }
+
+  private async request(request: LLMRequest, stream: boolean, options?: GenerateOptions): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: this.buildMessages(request),
+        stream,
+        ...(options?.responseSchema ? {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'response', schema: options.responseSchema }
+          }
+        } : {})
+      })
+    });
+
+    if (!response.ok) {
+      // Keep the status code in the message; callers back off on "429"
+      throw new Error(`LLM request failed with status ${response.status}`);
+    }
+
+    return response;
+  }
+
+  async generateContent(request: LLMRequest, options?: GenerateOptions): Promise<string> {
+    const response = await this.request(request, false, options);
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content ?? '';
+  }
+
+  async *generateContentStream(request: LLMRequest): AsyncGenerator<string> {
+    const response = await this.request(request, true);
+    if (!response.body) {
+      throw new Error('LLM stream has no body');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    // Server-sent events: one "data: {...}" line per delta, terminated by "data: [DONE]"
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !payload) continue;
+        if (payload === '[DONE]') return;
+
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  }
+}
+
+export type MockResponder = (prompt: string, task?: LLMTask) => string;
+
+const MOCK_THERAPY_REPLY = "Thank you for sharing that with me. What feels most important to explore right now?";
+
+// Canned replies for each task, so the whole flow runs offline
+const MOCK_RESPONSES: Partial<Record<LLMTask, string>> = {
+  'coping-strategies': JSON.stringify([
+    {
+      title: 'Mindful Breathing',
+      description: 'A simple technique to center yourself and find calm',
+      steps: ['Find a comfortable position', 'Breathe in slowly for 4 counts', 'Exhale for 4 counts'],
+      category: 'Relaxation'
+    }
+  ]),
+  // The lexical screen still catches risk offline; the mock never escalates
+  'risk-check': JSON.stringify({ level: 'none', categories: [] }),
+  'client-notes': 'Has been working on managing stress at work. Slowing down with breathing has helped.',
+  'emotion-analysis': JSON.stringify({
+    emotions: [],
+    distribution: [{ emotion: 'neutral', percentage: 60 }, { emotion: 'hope', percentage: 40 }]
+  }),
+  engagement: JSON.stringify({ emotionalDepth: 60, selfReflection: 55, progress: 50, openness: 65 }),
+  'session-analysis': JSON.stringify({ emotionalState: 'Calm', keyTopics: ['Stress'], insights: ['Noticing patterns helps'] }),
+  'progress-report': JSON.stringify({
+    summary: 'Discussed recent stress and ways to slow down.',
+    goals: [{ goal: 'Manage daily stress', progress: 40 }],
+    strengths: ['Openness'],
+    challenges: ['Work stress'],
+    recommendations: ['Practice breathing daily']
+  }),
+  'session-summary': JSON.stringify({ points: ['Discussed recent stress and ways to slow down.'] }),
+  goals: JSON.stringify({
+    goals: [{ goalId: '', title: 'Manage daily stress', description: 'Build a calming routine', progress: 40, status: 'in-progress' }]
+  }),
+  improvements: JSON.stringify({
+    strengths: ['Openness'],
+    challenges: ['Work stress'],
+    recommendations: ['Practice breathing daily']
+  }),
+  // Ids from the content catalog, so offline recommendations resolve to real items
+  'content-ranking': JSON.stringify({
+    mood: 'Somewhat stressed',
+    reason: 'A short practice to ease the tension you described',
+    focusAreas: ['Stress relief', 'Relaxation'],
+    picks: [
+      { id: 'nhs-stress', why: 'Practical steps for handling stress day to day' },
+      { id: 'ggia-body-scan', why: 'Helps release tension held in the body' }
+    ]
+  }),
+  'thought-record': JSON.stringify({
+    situation: 'Your manager asked to talk to you after a meeting',
+    automaticThought: "I'm going to lose my job",
+    emotions: [{ emotion: 'Anxious', intensity: 70 }],
+    distortions: ['fortune-telling', 'catastrophizing'],
+    evidenceFor: '',
+    evidenceAgainst: 'Your last review went well',
+    balancedThought: ''
+  }),
+  homework: JSON.stringify({
+    homework: [{
+      title: 'Notice one stressful moment each day',
+      description: 'Write down what happened and take three slow breaths before responding.',
+      dueInDays: 7
+    }]
+  })
+};
+
+const defaultMockResponder: MockResponder = (_prompt, task) => (task && MOCK_RESPONSES[task]) || MOCK_THERAPY_REPLY;
+
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+  readonly model: string;
+  private responder: MockResponder;
+
+  constructor(responder: MockResponder = defaultMockResponder, model: string = DEFAULT_MODELS.mock) {
+    this.responder = responder;
+    this.model = model;
+  }
+
+  async generateContent(request: LLMRequest, options?: GenerateOptions): Promise<string> {
+    return this.responder(toText(request), options?.task);
+  }
+
+  async *generateContentStream(request: LLMRequest): AsyncGenerator<string> {
+    const words = this.responder(toText(request)).match(/\S+\s*/g) || [];
+    for (const word of words) {
+      yield word;
+    }
+  }
+}
+
+export const createLLMProvider = (config: LLMConfig): LLMProvider => {
+  const model = config.model || DEFAULT_MODELS[config.provider];
+
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider(config.apiKey || '', model, config.baseUrl);
+    case 'mock':
+      return new MockProvider(undefined, model);
+    case 'gemini':
+    default:
+      return new GeminiProvider(config.apiKey || '', model);
+  }
+};
+
+/**
+ * Reads the provider selection from the environment. The provider-specific
+ * key wins over the one passed in, which callers take from VITE_GEMINI_API_KEY.
+ */
+export const getLLMConfig = (apiKey?: string): LLMConfig => {
+  const env = import.meta.env;
+  const provider = (env.VITE_LLM_PROVIDER || 'gemini') as LLMProviderName;
+
+  return {
+    provider,
+    apiKey: provider === 'openai' ? env.VITE_OPENAI_API_KEY || apiKey : apiKey,
+    model: env.VITE_LLM_MODEL || undefined,
+    baseUrl: env.VITE_OPENAI_BASE_URL || undefined
+  };
+};
+
+// Whether the configured provider can run without the Gemini key
+export const isLLMConfigured = (apiKey?: string): boolean => {
+  const config = getLLMConfig(apiKey);
+  return config.provider === 'mock' || config.provider === 'openai' || !!config.apiKey;
+};
+
+let defaultProvider: LLMProvider | null = null;
+
+export const setLLMProvider = (provider: LLMProvider | null) => {
+  defaultProvider = provider;
+};
+
+export const getLLMProvider = (apiKey?: string): LLMProvider => {
+  if (!defaultProvider) {
+    defaultProvider = createLLMProvider(getLLMConfig(apiKey));
+  }
+  return defaultProvider;
+};
@@ -1,77 +1,501 @@
 import jsPDF from 'jspdf';
-import html2canvas from 'html2canvas';
+import dejaVuSansUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans.ttf?url';
+import dejaVuSansBoldUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf?url';
+import type { AssessmentRecord, GoalRecord, HomeworkRecord } from '@/utils/db';
+import { ProgressData, loadLatestProgress } from '@/utils/progressTracking';
+import { loadGoals } from '@/utils/goals';
+import { isHomeworkDone, isHomeworkOverdue, loadHomework } from '@/utils/homework';
+import { QUESTIONNAIRES, QuestionnaireId, loadAssessments } from '@/utils/assessments';
 
-export const generateAnalysisPDF = async (elementId: string) => {
-  try {
-    const element = document.getElementById(elementId);
-    if (!element) {
-      throw new Error('Element not found');
+export interface ReportData {
+  progress: ProgressData | null;
+  goals: GoalRecord[];
+  homework: HomeworkRecord[];
+  assessments: AssessmentRecord[];
+}
+
+export interface ReportOptions {
+  // Required to open the PDF when set
+  password?: string;
+}
+
+export interface ReportResult {
+  // Characters the report font has no glyph for, which were left out
+  omittedCharacters: string[];
+}
+
+type RGB = [number, number, number];
+
+// A4 in millimetres
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 18;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CONTENT_TOP = 28;
+const CONTENT_BOTTOM = PAGE_HEIGHT - 20;
+const LINE_HEIGHT = 5;
+
+const COLORS: Record<'text' | 'muted' | 'accent' | 'rule' | 'shade', RGB> = {
+  text: [31, 41, 55],
+  muted: [107, 114, 128],
+  accent: [79, 70, 229],
+  rule: [229, 231, 235],
+  shade: [243, 244, 246]
+};
+
+const EMOTION_COLORS: Record<string, RGB> = {
+  joy: [16, 185, 129],
+  sadness: [99, 102, 241],
+  anger: [239, 68, 68],
+  fear: [245, 158, 11],
+  surprise: [139, 92, 246],
+  love: [236, 72, 153],
+  gratitude: [20, 184, 166],
+  hope: [14, 165, 233],
+  neutral: [107, 114, 128]
+};
+
+const STATUS_LABELS: Record<GoalRecord['status'], string> = {
+  'not-started': 'Not started',
+  'in-progress': 'In progress',
+  'achieved': 'Achieved'
+};
+
+// The built-in PDF fonts only cover Latin-1, so the report embeds DejaVu Sans,
+// which covers Latin, Greek, Cyrillic, Hebrew, Arabic and common symbols
+const REPORT_FONT = 'DejaVuSans';
+
+const FONT_FILES: Array<{ url: string; file: string; style: 'normal' | 'bold' }> = [
+  { url: dejaVuSansUrl, file: 'DejaVuSans.ttf', style: 'normal' },
+  { url: dejaVuSansBoldUrl, file: 'DejaVuSans-Bold.ttf', style: 'bold' }
+];
+
+// jsPDF's virtual file system takes fonts as binary strings
+const fetchBinaryString = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to load ${url}: ${response.status}`);
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return binary;
+};
+
+// Not in jsPDF's typings: the parsed TrueType font behind an embedded font
+interface EmbeddedFont {
+  metadata?: { characterToGlyph(code: number): number };
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+/**
+ * Lays the report out top to bottom, starting a new page whenever the next
+ * block wouldn't fit, so charts and table rows are never split across pages.
+ */
+class ReportWriter {
+  readonly pdf: jsPDF;
+  readonly omittedCharacters = new Set<string>();
+  private font: EmbeddedFont;
+  private y = CONTENT_TOP;
+
+  private constructor(pdf: jsPDF, font: EmbeddedFont) {
+    this.pdf = pdf;
+    this.font = font;
+  }
+
+  static async create(options: ReportOptions): Promise<ReportWriter> {
+    const pdf = new jsPDF({
+      orientation: 'p',
+      unit: 'mm',
+      format: 'a4',
+      encryption: options.password
+        ? { userPassword: options.password, ownerPassword: options.password, userPermissions: ['print', 'copy'] }
+        : undefined
+    });
+
+    const fonts = await Promise.all(FONT_FILES.map(font => fetchBinaryString(font.url)));
+    FONT_FILES.forEach((font, i) => {
+      pdf.addFileToVFS(font.file, fonts[i]);
+      pdf.addFont(font.file, REPORT_FONT, font.style);
+    });
+    pdf.setFont(REPORT_FONT, 'normal');
+    return new ReportWriter(pdf, pdf.getFont() as unknown as EmbeddedFont);
+  }
+
+  // Drops what the font can't draw (e.g. emoji, CJK), noting it so the client
+  // can be told the report is missing something
+  private toPdfText(text: string): string {
+    return Array.from(text).filter(character => {
+      if (/\s/.test(character) || this.font.metadata?.characterToGlyph(character.codePointAt(0)!)) return true;
+      this.omittedCharacters.add(character);
+      return false;
+    }).join('');
+  }
+
+  private setColor(color: RGB) {
+    this.pdf.setTextColor(...color);
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > CONTENT_BOTTOM) {
+      this.pdf.addPage();
+      this.y = CONTENT_TOP;
     }
+  }
 
-    // Create canvas from the element
-    const canvas = await html2canvas(element, {
-      scale: 2,
-      useCORS: true,
-      logging: false,
-      backgroundColor: '#ffffff'
+  gap(height = 4) {
+    this.y += height;
+  }
+
+  heading(text: string) {
+    this.ensureSpace(16);
+    this.gap(2);
+    this.pdf.setFont(REPORT_FONT, 'bold');
+    this.pdf.setFontSize(13);
+    this.setColor(COLORS.accent);
+    this.pdf.text(text, MARGIN, this.y);
+    this.y += 2;
+    this.pdf.setDrawColor(...COLORS.rule);
+    this.pdf.setLineWidth(0.3);
+    this.pdf.line(MARGIN, this.y, PAGE_WIDTH - MARGIN, this.y);
+    this.y += 6;
+  }
+
+  subheading(text: string) {
+    this.ensureSpace(10);
+    this.pdf.setFont(REPORT_FONT, 'bold');
+    this.pdf.setFontSize(10.5);
+    this.setColor(COLORS.text);
+    this.pdf.text(this.toPdfText(text), MARGIN, this.y);
+    this.y += LINE_HEIGHT + 1;
+  }
+
+  paragraph(text: string, color: RGB = COLORS.text) {
+    this.pdf.setFont(REPORT_FONT, 'normal');
+    this.pdf.setFontSize(10);
+    this.setColor(color);
+    const lines: string[] = this.pdf.splitTextToSize(this.toPdfText(text), CONTENT_WIDTH);
+    lines.forEach(line => {
+      this.ensureSpace(LINE_HEIGHT);
+      this.pdf.text(line, MARGIN, this.y);
+      this.y += LINE_HEIGHT;
     });
+  }
 
-    // Calculate dimensions
-    const imgWidth = 210; // A4 width in mm
-    const pageHeight = 297; // A4 height in mm
-    const imgHeight = (canvas.height * imgWidth) / canvas.width;
-    let heightLeft = imgHeight;
-    let position = 0;
-
-    // Create PDF
-    const pdf = new jsPDF('p', 'mm', 'a4');
-    let firstPage = true;
-
-    // Add title
-    pdf.setFontSize(16);
-    pdf.text('Therapy Session Analysis', 105, 15, { align: 'center' });
-    pdf.setFontSize(12);
-    pdf.text(new Date().toLocaleDateString(), 105, 25, { align: 'center' });
-
-    position = 30;
-    heightLeft -= position;
-
-    while (heightLeft >= 0) {
-      const currentHeight = Math.min(heightLeft, pageHeight);
-      // Add content
-      pdf.addImage(
-        canvas,
-        'JPEG',
-        0,
-        firstPage ? -position : 0,
-        imgWidth,
-        imgHeight,
-        '',
-        'FAST'
+  bullets(items: string[], emptyText: string) {
+    if (items.length === 0) {
+      this.paragraph(emptyText, COLORS.muted);
+      return;
+    }
+
+    this.pdf.setFont(REPORT_FONT, 'normal');
+    this.pdf.setFontSize(10);
+    this.setColor(COLORS.text);
+    this.pdf.setFillColor(...COLORS.text);
+    items.forEach(item => {
+      const lines: string[] = this.pdf.splitTextToSize(this.toPdfText(item), CONTENT_WIDTH - 6);
+      this.ensureSpace(lines.length * LINE_HEIGHT);
+      this.pdf.circle(MARGIN + 1.5, this.y - 1.2, 0.7, 'F');
+      lines.forEach(line => {
+        this.pdf.text(line, MARGIN + 6, this.y);
+        this.y += LINE_HEIGHT;
+      });
+      this.y += 1;
+    });
+  }
+
+  /**
+   * Rows are wrapped per column and kept whole; the header row repeats at the
+   * top of every page the table continues onto.
+   */
+  table(columns: Array<{ header: string; width: number }>, rows: string[][], progressColumn?: number) {
+    const drawHeader = () => {
+      this.pdf.setFillColor(...COLORS.shade);
+      this.pdf.rect(MARGIN, this.y - 4.5, CONTENT_WIDTH, 7, 'F');
+      this.pdf.setFont(REPORT_FONT, 'bold');
+      this.pdf.setFontSize(9);
+      this.setColor(COLORS.muted);
+      let x = MARGIN + 2;
+      columns.forEach(column => {
+        this.pdf.text(column.header, x, this.y);
+        x += column.width;
+      });
+      this.y += 6;
+    };
+
+    this.ensureSpace(20);
+    drawHeader();
+
+    rows.forEach(row => {
+      this.pdf.setFont(REPORT_FONT, 'normal');
+      this.pdf.setFontSize(9.5);
+      const cells = row.map((cell, i) =>
+        this.pdf.splitTextToSize(this.toPdfText(cell), columns[i].width - 4) as string[]);
+      const height = Math.max(...cells.map(lines => lines.length)) * LINE_HEIGHT + 2;
+
+      if (this.y + height > CONTENT_BOTTOM) {
+        this.pdf.addPage();
+        this.y = CONTENT_TOP;
+        drawHeader();
+        this.pdf.setFont(REPORT_FONT, 'normal');
+        this.pdf.setFontSize(9.5);
+      }
+
+      let x = MARGIN + 2;
+      cells.forEach((lines, i) => {
+        if (i === progressColumn) {
+          const value = Math.max(0, Math.min(100, parseFloat(row[i]) || 0));
+          const barWidth = columns[i].width - 16;
+          this.pdf.setFillColor(...COLORS.rule);
+          this.pdf.rect(x, this.y - 2.8, barWidth, 3, 'F');
+          this.pdf.setFillColor(...COLORS.accent);
+          this.pdf.rect(x, this.y - 2.8, (barWidth * value) / 100, 3, 'F');
+          this.setColor(COLORS.text);
+          this.pdf.text(`${Math.round(value)}%`, x + barWidth + 2, this.y);
+        } else {
+          this.setColor(COLORS.text);
+          lines.forEach((line, lineIndex) => this.pdf.text(line, x, this.y + lineIndex * LINE_HEIGHT));
+        }
+        x += columns[i].width;
+      });
+
+      this.y += height;
+      this.pdf.setDrawColor(...COLORS.rule);
+      this.pdf.setLineWidth(0.2);
+      this.pdf.line(MARGIN, this.y - 4, PAGE_WIDTH - MARGIN, this.y - 4);
+    });
+  }
+
+  /**
+   * Intensity of each analyzed message over the session, one point per
+   * message coloured by its emotion, with a legend below.
+   */
+  emotionTimeline(emotions: ProgressData['emotionalJourney']['emotions']) {
+    const chartHeight = 55;
+    const legendEmotions = [...new Set(emotions.map(e => e.emotion.toLowerCase()))];
+    const legendRows = Math.ceil(legendEmotions.length / 5);
+    this.ensureSpace(chartHeight + 14 + legendRows * LINE_HEIGHT);
+
+    const left = MARGIN + 10;
+    const top = this.y;
+    const width = CONTENT_WIDTH - 10;
+    const bottom = top + chartHeight;
+    const colorOf = (emotion: string) => EMOTION_COLORS[emotion.toLowerCase()] || COLORS.muted;
+
+    // Grid and axis labels
+    this.pdf.setFont(REPORT_FONT, 'normal');
+    this.pdf.setFontSize(7.5);
+    this.pdf.setLineWidth(0.2);
+    [0, 25, 50, 75, 100].forEach(value => {
+      const y = bottom - (chartHeight * value) / 100;
+      this.pdf.setDrawColor(...COLORS.rule);
+      this.pdf.line(left, y, left + width, y);
+      this.setColor(COLORS.muted);
+      this.pdf.text(String(value), left - 2, y + 1, { align: 'right' });
+    });
+
+    const points = emotions.map((entry, index) => ({
+      x: left + (emotions.length === 1 ? width / 2 : (width * index) / (emotions.length - 1)),
+      y: bottom - (chartHeight * Math.max(0, Math.min(100, entry.value))) / 100,
+      emotion: entry.emotion
+    }));
+
+    this.pdf.setDrawColor(...COLORS.accent);
+    this.pdf.setLineWidth(0.5);
+    points.slice(1).forEach((point, index) => {
+      const previous = points[index];
+      this.pdf.line(previous.x, previous.y, point.x, point.y);
+    });
+    points.forEach(point => {
+      this.pdf.setFillColor(...colorOf(point.emotion));
+      this.pdf.circle(point.x, point.y, 1.2, 'F');
+    });
+
+    // Session start and end times under the axis
+    this.setColor(COLORS.muted);
+    const first = emotions[0];
+    const last = emotions[emotions.length - 1];
+    const timeOf = (timestamp: string) => {
+      const date = new Date(timestamp);
+      return isNaN(date.getTime()) ? '' : date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+    };
+    this.pdf.text(timeOf(first.timestamp), left, bottom + 4);
+    this.pdf.text(timeOf(last.timestamp), left + width, bottom + 4, { align: 'right' });
+    this.pdf.text('Intensity by message', left + width / 2, bottom + 4, { align: 'center' });
+
+    // Legend
+    this.y = bottom + 10;
+    this.pdf.setFontSize(8.5);
+    legendEmotions.forEach((emotion, index) => {
+      const x = MARGIN + (index % 5) * (CONTENT_WIDTH / 5);
+      const y = this.y + Math.floor(index / 5) * LINE_HEIGHT;
+      this.pdf.setFillColor(...colorOf(emotion));
+      this.pdf.circle(x + 1.2, y - 1.1, 1.2, 'F');
+      this.setColor(COLORS.text);
+      this.pdf.text(this.toPdfText(emotion), x + 4, y);
+    });
+    this.y += legendRows * LINE_HEIGHT + 2;
+  }
+
+  // Drawn last, once the page count is known
+  decoratePages(title: string, generatedAt: string) {
+    const pageCount = this.pdf.getNumberOfPages();
+    for (let i = 1; i <= pageCount; i++) {
+      this.pdf.setPage(i);
+
+      this.pdf.setFont(REPORT_FONT, 'bold');
+      this.pdf.setFontSize(9);
+      this.setColor(COLORS.accent);
+      this.pdf.text(title, MARGIN, 14);
+      this.pdf.setFont(REPORT_FONT, 'normal');
+      this.setColor(COLORS.muted);
+      this.pdf.text(generatedAt, PAGE_WIDTH - MARGIN, 14, { align: 'right' });
+      this.pdf.setDrawColor(...COLORS.rule);
+      this.pdf.setLineWidth(0.3);
+      this.pdf.line(MARGIN, 17, PAGE_WIDTH - MARGIN, 17);
+
+      this.pdf.line(MARGIN, PAGE_HEIGHT - 14, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 14);
+      this.pdf.setFontSize(8);
+      this.pdf.text('Confidential - prepared for you and your therapist', MARGIN, PAGE_HEIGHT - 9);
+      this.pdf.text(`Page ${i} of ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 9, { align: 'right' });
+    }
+  }
+}
+
+export const loadReportData = async (): Promise<ReportData> => {
+  const [progress, goals, homework, assessments] = await Promise.all([
+    loadLatestProgress(),
+    loadGoals(),
+    loadHomework(),
+    loadAssessments()
+  ]);
+  return { progress, goals, homework, assessments };
+};
+
+export const generateAnalysisPDF = async (data: ReportData, options: ReportOptions = {}): Promise<ReportResult> => {
+  try {
+    const { progress, goals, homework, assessments } = data;
+    const writer = await ReportWriter.create(options);
+
+    writer.heading('Session Summary');
+    if (progress) {
+      writer.paragraph(`Session analyzed ${formatDate(progress.timestamp)}`, COLORS.muted);
+      writer.gap(2);
+      progress.sessionSummary
+        .split('\n')
+        .map(line => line.trim())
+        .filter(Boolean)
+        .forEach(line => {
+          if (/^[-*•]\s/.test(line)) {
+            writer.bullets([line.replace(/^[-*•]\s+/, '')], '');
+          } else if (line.endsWith(':')) {
+            writer.gap(1);
+            writer.subheading(line.replace(/:$/, ''));
+          } else {
+            writer.paragraph(line);
+          }
+        });
+    } else {
+      writer.paragraph('No session has been analyzed yet.', COLORS.muted);
+    }
+
+    writer.heading('Goals');
+    if (goals.length > 0) {
+      writer.table(
+        [
+          { header: 'Goal', width: 78 },
+          { header: 'Status', width: 28 },
+          { header: 'Progress', width: 40 },
+          { header: 'Target date', width: 28 }
+        ],
+        goals.map(goal => [
+          goal.description ? `${goal.title}\n${goal.description}` : goal.title,
+          STATUS_LABELS[goal.status],
+          String(goal.progress),
+          goal.targetDate ? formatDate(goal.targetDate) : '-'
+        ]),
+        2
+      );
+    } else {
+      writer.paragraph('No goals set yet.', COLORS.muted);
+    }
+
+    writer.heading('Homework');
+    if (homework.length > 0) {
+      writer.table(
+        [
+          { header: 'Homework', width: 118 },
+          { header: 'Due', width: 28 },
+          { header: 'Status', width: 28 }
+        ],
+        homework.map(item => [
+          item.description ? `${item.title}\n${item.description}` : item.title,
+          formatDate(item.dueDate),
+          isHomeworkDone(item) ? 'Done' : isHomeworkOverdue(item) ? 'Overdue' : 'To do'
+        ])
       );
-      heightLeft -= pageHeight;
+    } else {
+      writer.paragraph('No homework set yet.', COLORS.muted);
+    }
 
-      if (heightLeft >= 0) {
-        pdf.addPage();
-        firstPage = false;
+    writer.heading('Strengths, Challenges and Recommendations');
+    writer.subheading('Strengths');
+    writer.bullets(progress?.improvements.strengths || [], 'None identified yet.');
+    writer.gap(2);
+    writer.subheading('Challenges');
+    writer.bullets(progress?.improvements.challenges || [], 'None identified yet.');
+    writer.gap(2);
+    writer.subheading('Recommendations');
+    writer.bullets(progress?.improvements.recommendations || [], 'None yet.');
+
+    writer.heading('Emotion Timeline');
+    const emotions = progress?.emotionalJourney.emotions || [];
+    if (emotions.length > 0) {
+      writer.emotionTimeline(emotions);
+      const dominant = progress?.emotionalJourney.dominantEmotions || [];
+      if (dominant.length > 0) {
+        writer.paragraph(`Most present: ${dominant.map(e => `${e.emotion} ${e.percentage}%`).join(', ')}`, COLORS.muted);
       }
+    } else {
+      writer.paragraph('No emotions recorded for this session.', COLORS.muted);
     }
 
-    // Add footer
-    const pageCount = pdf.getNumberOfPages();
-    for (let i = 1; i <= pageCount; i++) {
-      pdf.setPage(i);
-      pdf.setFontSize(10);
-      pdf.text(
-        `Page ${i} of ${pageCount}`,
-        105,
-        pdf.internal.pageSize.height - 10,
-        { align: 'center' }
+    writer.heading('Questionnaire Scores');
+    const taken = (Object.keys(QUESTIONNAIRES) as QuestionnaireId[])
+      .map(id => ({ id, results: assessments.filter(a => a.questionnaireId === id) }))
+      .filter(({ results }) => results.length > 0);
+    if (taken.length > 0) {
+      writer.table(
+        [
+          { header: 'Measure', width: 44 },
+          { header: 'Latest', width: 26 },
+          { header: 'Severity', width: 40 },
+          { header: 'Previous', width: 26 },
+          { header: 'Date', width: 38 }
+        ],
+        taken.map(({ id, results }) => {
+          const questionnaire = QUESTIONNAIRES[id];
+          const latest = results[results.length - 1];
+          const previous = results[results.length - 2];
+          return [
+            `${questionnaire.shortName} (${questionnaire.measures})`,
+            `${latest.score} / ${questionnaire.maxScore}`,
+            latest.severity,
+            previous ? String(previous.score) : '-',
+            formatDate(latest.completedAt)
+          ];
+        })
       );
+      writer.paragraph('Screening scores, not a diagnosis.', COLORS.muted);
+    } else {
+      writer.paragraph('No questionnaires completed yet.', COLORS.muted);
     }
 
-    // Download PDF
-    pdf.save('therapy-session-analysis.pdf');
+    writer.decoratePages('Therapy Session Report', `Generated ${formatDate(new Date().toISOString())}`);
+    writer.pdf.save('therapy-session-report.pdf');
+    return { omittedCharacters: [...writer.omittedCharacters] };
   } catch (error) {
     console.error('Error generating PDF:', error);
     throw error;
@@ -1,9 +1,24 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-
-interface ProgressData {
+import { z } from "zod";
+import { LLMProvider, createLLMProvider, getLLMConfig, isLLMConfigured } from "@/utils/llmProvider";
+import { generateStructured } from "@/utils/structuredOutput";
+import { updateClientProfile } from "@/utils/clientMemory";
+import { GoalRecord, HomeworkRecord, getAllRecords, putRecord } from "@/utils/db";
+import { applySessionGoals, formatGoalsForPrompt, loadGoals, statusForProgress, toProgressGoals } from "@/utils/goals";
+import {
+  HomeworkAssignment,
+  assignSessionHomework,
+  formatHomeworkForPrompt,
+  getOutstandingHomework,
+  loadHomework
+} from "@/utils/homework";
+import { SessionMetrics, getParticipationScore } from "@/utils/sessionMetrics";
+
+export interface ProgressData {
   sessionSummary: string;
   goals: Array<{
+    goalId?: string;
     goal: string;
+    description?: string;
     progress: number;
     status: 'not-started' | 'in-progress' | 'achieved';
   }>;
@@ -22,6 +37,7 @@ interface ProgressData {
     dominantEmotions: Array<{ emotion: string; percentage: number }>;
     engagementLevel: number[];
   };
+  sessionMetrics?: SessionMetrics;
 }
 
 interface SessionAnalysis {
@@ -42,19 +58,125 @@ interface Message {
   isUser: boolean;
 }
 
+const isProgressData = (data: ProgressData): boolean => (
+  typeof data.sessionSummary === 'string' &&
+  Array.isArray(data.goals) &&
+  typeof data.improvements === 'object' &&
+  Array.isArray(data.improvements.strengths) &&
+  Array.isArray(data.improvements.challenges) &&
+  Array.isArray(data.improvements.recommendations) &&
+  typeof data.timestamp === 'string' &&
+  typeof data.emotionalJourney === 'object' &&
+  Array.isArray(data.emotionalJourney.emotions) &&
+  Array.isArray(data.emotionalJourney.dominantEmotions) &&
+  Array.isArray(data.emotionalJourney.engagementLevel)
+);
+
+// Models sometimes answer "40%" or 140 where a 0-100 number is asked for
+const percentage = z.preprocess(
+  value => typeof value === 'string' ? parseFloat(value) : value,
+  z.number()
+).transform(value => Math.round(Math.min(100, Math.max(0, value))));
+
+// Drops the blank entries models pad lists with
+const textList = z.array(z.string()).transform(items => items.map(item => item.trim()).filter(Boolean));
+
+const improvementsSchema = z.object({
+  strengths: textList.describe('Strengths the client demonstrated'),
+  challenges: textList.describe('Current challenges or areas for growth'),
+  recommendations: textList.describe('Specific, actionable recommendations')
+});
+
+const emotionAnalysisSchema = z.object({
+  emotions: z.array(z.object({
+    timestamp: z.string().describe('The message timestamp, copied exactly'),
+    emotion: z.string().describe('One lowercase word, e.g. sadness'),
+    intensity: percentage.describe('0-100')
+  })).describe('One entry per message'),
+  distribution: z.array(z.object({
+    emotion: z.string().describe('One lowercase word'),
+    percentage: percentage.describe('0-100')
+  })).describe('Dominant emotions across all messages, percentages summing to 100')
+});
+
+// Participation is measured from the conversation, so the model only rates the rest
+const engagementSchema = z.object({
+  emotionalDepth: percentage.describe('Level of emotional disclosure, 0-100'),
+  selfReflection: percentage.describe('Insight and introspection, 0-100'),
+  progress: percentage.describe('Movement towards therapeutic goals, 0-100'),
+  openness: percentage.describe('Willingness to engage and share, 0-100')
+});
+
+const sessionAnalysisSchema = z.object({
+  emotionalState: z.string().describe("The client's current emotional state"),
+  keyTopics: textList,
+  insights: textList
+});
+
+const progressReportSchema = improvementsSchema.extend({
+  summary: z.string().describe('Brief summary of the session and key points discussed'),
+  goals: z.array(z.object({
+    goal: z.string(),
+    progress: percentage.describe('0-100')
+  }))
+});
+
+const sessionSummarySchema = z.object({
+  points: textList.describe('Main topics, insights, breakthroughs and challenges, one per item')
+});
+
+const goalsSchema = z.object({
+  goals: z.array(z.object({
+    goalId: z.string().describe('Id of the existing goal this is about, or an empty string for a new goal'),
+    title: z.string().describe('Short, clear goal title'),
+    description: z.string(),
+    progress: percentage.describe('Estimated progress, 0-100'),
+    status: z.enum(['not-started', 'in-progress', 'achieved'])
+  }))
+});
+
+const homeworkSchema = z.object({
+  homework: z.array(z.object({
+    title: z.string().describe('A concrete, checkable task, e.g. "Log 3 worries each evening"'),
+    description: z.string().describe('How to do it and what it practises, in a sentence or two'),
+    dueInDays: z.coerce.number()
+      .transform(days => Math.min(14, Math.max(1, Math.round(days))))
+      .describe('Days until it should be done, usually 7')
+  })).max(3)
+});
+
+const formatConversation = (messages: Message[]) =>
+  messages.map(m => `${m.isUser ? 'User' : 'Dr. Sky'}: ${m.text}`).join('\n');
+
+// Readable without an LLM, e.g. by the progress page
+export const loadProgressHistory = async (): Promise<ProgressData[]> => {
+  try {
+    const records = await getAllRecords('progress');
+    return records
+      .filter(isProgressData)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .map(({ id, sessionId, ...progress }) => progress);
+  } catch (error) {
+    console.error('Error getting progress history:', error);
+    return [];
+  }
+};
+
+export const loadLatestProgress = async (): Promise<ProgressData | null> => {
+  const history = await loadProgressHistory();
+  return history.length > 0 ? history[history.length - 1] : null;
+};
+
 export class ProgressTracker {
-  private genAI: GoogleGenerativeAI;
-  private model: any;
-  private static readonly STORAGE_KEY = 'therapy-progress';
+  private llm: LLMProvider;
   private static readonly MAX_RETRIES = 3;
   private static readonly RETRY_DELAY = 1000;
 
-  constructor(apiKey: string) {
-    if (!apiKey) {
+  constructor(apiKey?: string, provider?: LLMProvider) {
+    if (!provider && !isLLMConfigured(apiKey)) {
       throw new Error('API key is required for progress tracking');
     }
-    this.genAI = new GoogleGenerativeAI(apiKey);
-    this.model = this.genAI.getGenerativeModel({ model: "gemini-2.0-flash-lite-preview-02-05" });
+    this.llm = provider || createLLMProvider(getLLMConfig(apiKey));
   }
 
   private async retryOperation<T>(operation: () => Promise<T>, retries = ProgressTracker.MAX_RETRIES): Promise<T> {
@@ -70,36 +192,16 @@ export class ProgressTracker {
   }
 
   private validateProgressData(data: ProgressData): boolean {
-    return (
-      typeof data.sessionSummary === 'string' &&
-      Array.isArray(data.goals) &&
-      typeof data.improvements === 'object' &&
-      Array.isArray(data.improvements.strengths) &&
-      Array.isArray(data.improvements.challenges) &&
-      Array.isArray(data.improvements.recommendations) &&
-      typeof data.timestamp === 'string' &&
-      typeof data.emotionalJourney === 'object' &&
-      Array.isArray(data.emotionalJourney.emotions) &&
-      Array.isArray(data.emotionalJourney.dominantEmotions) &&
-      Array.isArray(data.emotionalJourney.engagementLevel)
-    );
+    return isProgressData(data);
   }
 
-  async saveProgress(progressData: ProgressData): Promise<void> {
+  async saveProgress(progressData: ProgressData, sessionId?: string): Promise<void> {
     try {
       if (!this.validateProgressData(progressData)) {
         throw new Error('Invalid progress data format');
       }
 
-      const existingData = await this.getProgressHistory();
-      const updatedData = [...existingData, progressData];
-      
-      // Keep only the last 50 sessions to prevent storage issues
-      const limitedData = updatedData.slice(-50);
-      
-      await this.retryOperation(async () => {
-        localStorage.setItem(ProgressTracker.STORAGE_KEY, JSON.stringify(limitedData));
-      });
+      await this.retryOperation(() => putRecord('progress', { ...progressData, sessionId }));
     } catch (error) {
       console.error('Error saving progress:', error);
       throw new Error('Failed to save progress data');
@@ -107,100 +209,11 @@ export class ProgressTracker {
   }
 
   async getProgressHistory(): Promise<ProgressData[]> {
-    try {
-      const data = localStorage.getItem(ProgressTracker.STORAGE_KEY);
-      if (!data) return [];
-
-      const parsedData = JSON.parse(data);
-      if (!Array.isArray(parsedData)) return [];
-
-      return parsedData.filter(item => this.validateProgressData(item));
-    } catch (error) {
-      console.error('Error getting progress history:', error);
-      return [];
-    }
+    return loadProgressHistory();
   }
 
   async getLatestProgress(): Promise<ProgressData | null> {
-    const history = await this.getProgressHistory();
-    return history.length > 0 ? history[history.length - 1] : null;
-  }
-
-  private parseAnalysisResponse(text: string): SessionAnalysis {
-    const analysis: SessionAnalysis = {
-      emotionalState: '',
-      keyTopics: [],
-      insights: []
-    };
-
-    try {
-      const sections = text.split('\n\n');
-      sections.forEach(section => {
-        if (section.toLowerCase().includes('emotional state')) {
-          analysis.emotionalState = section.split(':')[1]?.trim() || '';
-        } else if (section.toLowerCase().includes('key topics')) {
-          analysis.keyTopics = section.split(':')[1]?.trim().split('-').map(t => t.trim()).filter(t => t);
-        } else if (section.toLowerCase().includes('insights')) {
-          analysis.insights = section.split(':')[1]?.trim().split('-').map(i => i.trim()).filter(i => i);
-        }
-      });
-    } catch (error) {
-      console.error('Error parsing analysis:', error);
-    }
-
-    return analysis;
-  }
-
-  private parseProgressResponse(text: string): Partial<ProgressData> {
-    const progress: Partial<ProgressData> = {
-      sessionSummary: '',
-      goals: [],
-      improvements: {
-        strengths: [],
-        challenges: [],
-        recommendations: []
-      }
-    };
-
-    try {
-      const sections = text.split('\n\n');
-      sections.forEach(section => {
-        const sectionTitle = section.split('\n')[0].toLowerCase();
-        
-        if (sectionTitle.includes('summary')) {
-          progress.sessionSummary = section.split('\n').slice(1).join(' ').trim();
-        } else if (sectionTitle.includes('goals')) {
-          const goalLines = section.split('\n').slice(1);
-          progress.goals = goalLines.map(line => {
-            const [goal, statusStr] = line.split('|').map(s => s.trim());
-            const progressMatch = statusStr.match(/(\d+)%/);
-            const progressValue = progressMatch ? parseInt(progressMatch[1]) : 0;
-            const status = this.determineGoalStatus(progressValue);
-            
-            return {
-              goal,
-              progress: progressValue,
-              status
-            };
-          }).filter(g => g.goal);
-        } else if (sectionTitle.includes('improvements')) {
-          const lines = section.split('\n').slice(1);
-          lines.forEach(line => {
-            if (line.toLowerCase().includes('strengths:')) {
-              progress.improvements!.strengths = line.split(':')[1].split('-').map(s => s.trim()).filter(s => s);
-            } else if (line.toLowerCase().includes('challenges:')) {
-              progress.improvements!.challenges = line.split(':')[1].split('-').map(s => s.trim()).filter(s => s);
-            } else if (line.toLowerCase().includes('recommendations:')) {
-              progress.improvements!.recommendations = line.split(':')[1].split('-').map(s => s.trim()).filter(s => s);
-            }
-          });
-        }
-      });
-    } catch (error) {
-      console.error('Error parsing progress:', error);
-    }
-
-    return progress;
+    return loadLatestProgress();
   }
 
   async analyzeEmotions(messages: Message[]): Promise<{
@@ -210,47 +223,25 @@ export class ProgressTracker {
     const userMessages = messages.filter(m => m.isUser);
     
     const emotionPrompt = `
-      Analyze the emotional content of these messages and provide:
-      1. Emotional state for each message (format: timestamp|emotion|intensity)
-      2. Distribution of dominant emotions (in percentages)
+      Analyze the emotional content of these messages. For each message give its
+      dominant emotion and intensity, then the distribution of dominant emotions
+      across all of them.
 
       Messages:
       ${userMessages.map(m => `${m.timestamp}: ${m.text}`).join('\n')}
     `;
 
     try {
-      const result = await this.model.generateContent(emotionPrompt);
-      const response = await result.response.text();
-      
-      // Parse emotional states
-      const emotions: EmotionData[] = [];
-      const emotionLines = response.split('\n').filter((line: string) => line.includes('|'));
-      
-      emotionLines.forEach((line: string) => {
-        const [timestamp, emotion, value] = line.split('|').map((s: string) => s.trim());
-        if (timestamp && emotion && value) {
-          emotions.push({
-            timestamp,
-            emotion,
-            value: parseInt(value, 10) || 0
-          });
-        }
-      });
-
-      // Parse dominant emotions
-      const dominantEmotions: Array<{ emotion: string; percentage: number }> = [];
-      const distributionSection = response.split('Distribution:')[1];
-      if (distributionSection) {
-        const matches = distributionSection.matchAll(/(\w+):\s*(\d+)%/g);
-        for (const match of matches) {
-          dominantEmotions.push({
-            emotion: match[1],
-            percentage: parseInt(match[2], 10)
-          });
-        }
-      }
+      const analysis = await generateStructured(this.llm, emotionPrompt, emotionAnalysisSchema, { task: 'emotion-analysis' });
 
-      return { emotions, dominantEmotions };
+      return {
+        emotions: analysis.emotions.map(({ timestamp, emotion, intensity }) => ({
+          timestamp,
+          emotion,
+          value: intensity
+        })),
+        dominantEmotions: analysis.distribution
+      };
     } catch (error) {
       console.error('Error analyzing emotions:', error);
       return { emotions: [], dominantEmotions: [] };
@@ -259,66 +250,37 @@ export class ProgressTracker {
 
   async analyzeEngagement(messages: Message[]): Promise<number[]> {
     const engagementPrompt = `
-      Analyze this therapy conversation and rate the following aspects from 0-100.
-      Return ONLY the five numbers separated by commas in this exact order:
-
-      1. Participation (frequency and length of responses)
-      2. Emotional Depth (level of emotional disclosure)
-      3. Self-Reflection (insight and introspection)
-      4. Progress (movement towards therapeutic goals)
-      5. Openness (willingness to engage and share)
-
-      Example response format: 85,70,65,75,80
+      Analyze this therapy conversation and rate the client's engagement from 0-100
+      on emotional depth, self-reflection, progress and openness.
 
       Conversation:
-      ${messages.map(m => `${m.isUser ? 'User' : 'Dr. Sky'}: ${m.text}`).join('\n')}
+      ${formatConversation(messages)}
     `;
 
     try {
-      const result = await this.model.generateContent(engagementPrompt);
-      const response = await result.response.text();
-      
-      // Extract numbers from the response
-      const ratings = response.match(/\d+/g)?.slice(0, 5) || [];
-      
-      // Convert ratings to numbers and ensure they're within 0-100
-      const normalizedRatings = ratings.map((n: string) => Math.min(100, Math.max(0, parseInt(n, 10) || 0)));
-      
-      // Pad with zeros if we don't have enough ratings
-      while (normalizedRatings.length < 5) {
-        normalizedRatings.push(0);
-      }
-      
-      return normalizedRatings;
+      const ratings = await generateStructured(this.llm, engagementPrompt, engagementSchema, { task: 'engagement' });
+      return [
+        getParticipationScore(messages),
+        ratings.emotionalDepth,
+        ratings.selfReflection,
+        ratings.progress,
+        ratings.openness
+      ];
     } catch (error) {
       console.error('Error analyzing engagement:', error);
-      return [0, 0, 0, 0, 0];
+      return [getParticipationScore(messages), 0, 0, 0, 0];
     }
   }
 
   async analyzeSession(conversation: string[]): Promise<SessionAnalysis> {
-    const prompt = `Analyze this therapy conversation and provide a structured response with:
-
-Emotional State: [User's current emotional state]
-
-Key Topics: 
-- [Topic 1]
-- [Topic 2]
-...
-
-Insights:
-- [Insight 1]
-- [Insight 2]
-...
+    const prompt = `Analyze this therapy conversation and describe the client's emotional state,
+the key topics discussed and the insights that emerged.
 
 Conversation:
 ${conversation.join('\n')}`;
 
     try {
-      const result = await this.model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
-      return this.parseAnalysisResponse(text);
+      return await generateStructured(this.llm, prompt, sessionAnalysisSchema, { task: 'session-analysis' });
     } catch (error) {
       console.error('Error analyzing session:', error);
       return {
@@ -330,37 +292,29 @@ ${conversation.join('\n')}`;
   }
 
   async trackProgress(conversation: string[]): Promise<ProgressData> {
-    const prompt = `Based on this therapy conversation, provide a structured progress report in the following format:
-
-Summary:
-[Brief summary of the session and key points discussed]
-
-Goals:
-[Goal 1] | [Progress percentage]% - [Status: not-started/in-progress/achieved]
-[Goal 2] | [Progress percentage]% - [Status: not-started/in-progress/achieved]
-...
-
-Improvements:
-Strengths: [Strength 1] - [Strength 2] - [Strength 3]
-Challenges: [Challenge 1] - [Challenge 2] - [Challenge 3]
-Recommendations: [Recommendation 1] - [Recommendation 2] - [Recommendation 3]
+    const prompt = `Based on this therapy conversation, write a progress report: a brief session
+summary, the client's goals with estimated progress, and their strengths,
+challenges and your recommendations.
 
 Conversation:
 ${conversation.join('\n')}`;
 
     try {
-      const result = await this.model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
-      const progress = this.parseProgressResponse(text);
+      const report = await generateStructured(this.llm, prompt, progressReportSchema, { task: 'progress-report' });
 
       return {
-        sessionSummary: progress.sessionSummary || 'Unable to generate summary',
-        goals: progress.goals || [],
-        improvements: progress.improvements || {
-          strengths: [],
-          challenges: [],
-          recommendations: []
+        sessionSummary: report.summary || 'Unable to generate summary',
+        goals: report.goals
+          .filter(g => g.goal.trim())
+          .map(g => ({
+            goal: g.goal.trim(),
+            progress: g.progress,
+            status: this.determineGoalStatus(g.progress)
+          })),
+        improvements: {
+          strengths: report.strengths,
+          challenges: report.challenges,
+          recommendations: report.recommendations
         },
         timestamp: new Date().toISOString(),
         emotionalJourney: {
@@ -393,50 +347,30 @@ ${conversation.join('\n')}`;
     try {
       const analysisPrompt = `
         Analyze this therapy conversation and provide structured insights:
-        1. Overall Session Summary:
-        - Key points discussed
-        - Main themes
-        - Progress made
-
-        2. Emotional Journey:
-        - Initial emotional state
-        - Changes in emotional state
-        - Current emotional state
-
-        3. Strengths Demonstrated:
-        - Coping mechanisms used
-        - Positive behaviors
-        - Insights gained
-
-        4. Challenges Identified:
-        - Current difficulties
-        - Obstacles to progress
-        - Areas needing attention
-
-        5. Recommendations:
-        - Suggested coping strategies
-        - Areas for practice
-        - Next steps
+        1. Summary: key points discussed, main themes, progress made, and how the
+           client's emotional state changed over the session
+        2. Strengths: coping mechanisms used, positive behaviors, insights gained
+        3. Challenges: current difficulties, obstacles to progress, areas needing attention
+        4. Recommendations: techniques to try, areas for practice, next steps
 
         Conversation:
         ${conversation}
-
-        Provide your analysis in a clear, structured format with bullet points.
       `;
 
-      const result = await this.model.generateContent(analysisPrompt);
-      const text = await result.response.text();
-
-      // Parse the analysis into structured format
-      const sections = text.split(/\d\./).filter(Boolean);
+      const analysis = await generateStructured(
+        this.llm,
+        analysisPrompt,
+        improvementsSchema.extend({ summary: z.string() }),
+        { task: 'progress-report' }
+      );
       
       return {
-        sessionSummary: sections[0]?.trim() || '',
+        sessionSummary: analysis.summary,
         goals: [], // Goals will be extracted from the conversation context
         improvements: {
-          strengths: this.extractBulletPoints(sections[2] || ''),
-          challenges: this.extractBulletPoints(sections[3] || ''),
-          recommendations: this.extractBulletPoints(sections[4] || '')
+          strengths: analysis.strengths,
+          challenges: analysis.challenges,
+          recommendations: analysis.recommendations
         },
         timestamp: new Date().toISOString(),
         emotionalJourney: {
@@ -471,6 +405,8 @@ ${conversation.join('\n')}`;
         throw new Error('No messages provided for progress tracking');
       }
 
+      const existingGoals = await loadGoals();
+
       // Run all analyses in parallel for better performance
       const [
         emotionalAnalysis,
@@ -482,7 +418,7 @@ ${conversation.join('\n')}`;
         this.retryOperation(() => this.analyzeEmotions(messages)),
         this.retryOperation(() => this.analyzeEngagement(messages)),
         this.retryOperation(() => this.analyzeSessionSummary(messages)),
-        this.retryOperation(() => this.analyzeGoals(messages)),
+        this.retryOperation(() => this.analyzeGoals(messages, existingGoals)),
         this.retryOperation(() => this.analyzeImprovements(messages))
       ]);
 
@@ -491,7 +427,9 @@ ${conversation.join('\n')}`;
         goals: goals.map(goal => {
           const status: 'not-started' | 'in-progress' | 'achieved' = this.determineGoalStatus(goal.progress);
           return {
+            goalId: goal.goalId,
             goal: goal.title || '',
+            description: goal.description,
             progress: goal.progress,
             status
           };
@@ -505,11 +443,7 @@ ${conversation.join('\n')}`;
         }
       };
 
-      // Validate and save progress
-      if (this.validateProgressData(progressData)) {
-        await this.saveProgress(progressData);
-      }
-
+      // endSession saves this once the session's goals and metrics are attached
       return progressData;
     } catch (error) {
       console.error('Error tracking progress with emotions:', error);
@@ -519,72 +453,62 @@ ${conversation.join('\n')}`;
 
   async analyzeSessionSummary(messages: Message[]): Promise<string> {
     const prompt = `
-      Analyze this therapy conversation and provide a concise summary of the key points discussed.
+      Analyze this therapy conversation and summarize the key points discussed.
       Focus on the main topics, insights gained, and any breakthroughs or challenges identified.
-      Format the summary as clear, numbered points.
 
       Conversation:
-      ${messages.map(m => `${m.isUser ? 'User' : 'Dr. Sky'}: ${m.text}`).join('\n')}
+      ${formatConversation(messages)}
     `;
 
     try {
-      const result = await this.model.generateContent(prompt);
-      const summary = await result.response.text();
-      return summary.trim();
+      const { points } = await generateStructured(this.llm, prompt, sessionSummarySchema, { task: 'session-summary' });
+      return points.map((point, index) => `${index + 1}. ${point}`).join('\n');
     } catch (error) {
       console.error('Error analyzing session summary:', error);
       return '';
     }
   }
 
-  async analyzeGoals(messages: Message[]): Promise<Array<{
+  async analyzeGoals(messages: Message[], existingGoals: GoalRecord[] = []): Promise<Array<{
+    goalId?: string;
     title: string;
     description: string;
     progress: number;
     status: 'not-started' | 'in-progress' | 'achieved';
   }>> {
-    const prompt = `
-      Analyze this therapy conversation and identify the goals discussed.
-      For each goal, provide:
-      1. A clear title
-      2. A brief description
-      3. An estimated progress percentage (0-100)
-      4. Current status (not-started, in-progress, or achieved)
-
-      Format each goal as:
-      Title: [title]
-      Description: [description]
-      Progress: [X]%
-      Status: [status]
+    const existing = existingGoals.length > 0
+      ? `
+      The client already has these goals, listed with their ids:
+      ${formatGoalsForPrompt(existingGoals)}
+
+      When the conversation touches one of them, report it under its id with its
+      updated progress rather than as a new goal. Only add a new goal, with an
+      empty id, for something the list doesn't already cover. Leave out goals
+      that weren't discussed.
+`
+      : '';
 
+    const prompt = `
+      Analyze this therapy conversation and identify the goals discussed. For each
+      goal give a clear title, a brief description, an estimated progress percentage
+      and its current status.
+${existing}
       Conversation:
-      ${messages.map(m => `${m.isUser ? 'User' : 'Dr. Sky'}: ${m.text}`).join('\n')}
+      ${formatConversation(messages)}
     `;
 
     try {
-      const result = await this.model.generateContent(prompt);
-      const response = await result.response.text();
-      
-      const goals = [];
-      const goalSections = response.split('\n\n');
-      
-      for (const section of goalSections) {
-        const title = section.match(/Title: (.+)/)?.[1];
-        const description = section.match(/Description: (.+)/)?.[1];
-        const progressMatch = section.match(/Progress: (\d+)%/);
-        const statusMatch = section.match(/Status: (not-started|in-progress|achieved)/);
-        
-        if (title && description) {
-          goals.push({
-            title: title.trim(),
-            description: description.trim(),
-            progress: progressMatch ? Math.min(100, Math.max(0, parseInt(progressMatch[1]))) : 0,
-            status: (statusMatch?.[1] as 'not-started' | 'in-progress' | 'achieved') || 'not-started'
-          });
-        }
-      }
-      
-      return goals;
+      const { goals } = await generateStructured(this.llm, prompt, goalsSchema, { task: 'goals' });
+      const knownIds = new Set(existingGoals.map(goal => goal.id));
+      return goals
+        .map(({ goalId, ...goal }) => ({
+          ...goal,
+          // Drop ids the model made up
+          goalId: knownIds.has(goalId.trim()) ? goalId.trim() : undefined,
+          title: goal.title.trim(),
+          description: goal.description.trim()
+        }))
+        .filter(goal => goal.title);
     } catch (error) {
       console.error('Error analyzing goals:', error);
       return [];
@@ -602,57 +526,12 @@ ${conversation.join('\n')}`;
       2. Current challenges or areas for growth
       3. Specific recommendations for improvement
 
-      Format the response exactly as:
-      Strengths:
-      - [strength 1]
-      - [strength 2]
-
-      Challenges:
-      - [challenge 1]
-      - [challenge 2]
-
-      Recommendations:
-      - [recommendation 1]
-      - [recommendation 2]
-
       Conversation:
-      ${messages.map(m => `${m.isUser ? 'User' : 'Dr. Sky'}: ${m.text}`).join('\n')}
+      ${formatConversation(messages)}
     `;
 
     try {
-      const result = await this.model.generateContent(prompt);
-      const response = await result.response.text();
-      
-      const improvements = {
-        strengths: [] as string[],
-        challenges: [] as string[],
-        recommendations: [] as string[]
-      };
-
-      const sections = response.split('\n\n');
-      sections.forEach((section: string) => {
-        if (section.startsWith('Strengths:')) {
-          improvements.strengths = section
-            .replace('Strengths:', '')
-            .split('\n')
-            .filter((line: string) => line.trim().startsWith('-'))
-            .map((line: string) => line.replace('-', '').trim());
-        } else if (section.startsWith('Challenges:')) {
-          improvements.challenges = section
-            .replace('Challenges:', '')
-            .split('\n')
-            .filter((line: string) => line.trim().startsWith('-'))
-            .map((line: string) => line.replace('-', '').trim());
-        } else if (section.startsWith('Recommendations:')) {
-          improvements.recommendations = section
-            .replace('Recommendations:', '')
-            .split('\n')
-            .filter((line: string) => line.trim().startsWith('-'))
-            .map((line: string) => line.replace('-', '').trim());
-        }
-      });
-
-      return improvements;
+      return await generateStructured(this.llm, prompt, improvementsSchema, { task: 'improvements' });
     } catch (error) {
       console.error('Error analyzing improvements:', error);
       return {
@@ -663,47 +542,39 @@ ${conversation.join('\n')}`;
     }
   }
 
-  private extractGoals(text: string): Array<{ goal: string; progress: number; status: 'not-started' | 'in-progress' | 'achieved' }> {
-    const lines = text.split('\n').filter(line => line.trim());
-    return lines.map(line => {
-      const status = line.toLowerCase().includes('achieved') ? 'achieved' 
-        : line.toLowerCase().includes('progress') ? 'in-progress' 
-        : 'not-started';
-      
-      const progress = status === 'achieved' ? 100 
-        : status === 'in-progress' ? 50 
-        : 0;
+  async analyzeHomework(messages: Message[], outstanding: HomeworkRecord[] = []): Promise<HomeworkAssignment[]> {
+    const existing = outstanding.length > 0
+      ? `
+      The client still has this homework outstanding, so don't assign it again:
+      ${formatHomeworkForPrompt(outstanding)}
+`
+      : '';
 
-      return {
-        goal: line.replace(/[-•*]/g, '').trim(),
-        progress,
-        status
-      };
-    });
-  }
-
-  private extractBulletPoints(text: string): string[] {
-    return text
-      .split('\n')
-      .map((line: string) => line.replace(/^[-•*]\s*/, '').trim())
-      .filter((line: string) => line.length > 0);
-  }
+    const prompt = `
+      Based on this therapy conversation, set up to three between-session homework
+      tasks for the client. Each should say what to do, how often and for how long,
+      like "Log 3 worries daily" or "Practice 4-7-8 breathing twice a day". Build on
+      techniques and plans from the conversation and keep them small enough to
+      actually do. Leave the list empty if homework wouldn't help after this session.
+${existing}
+      Conversation:
+      ${formatConversation(messages)}
+    `;
 
-  private extractListItems(sections: string[], header: string): string[] {
-    const section = sections.find(s => s.includes(header)) || '';
-    return section
-      .split('\n')
-      .filter((line: string) => line.trim().startsWith('-'))
-      .map((line: string) => line.replace('-', '').trim());
+    try {
+      const { homework } = await generateStructured(this.llm, prompt, homeworkSchema, { task: 'homework' });
+      return homework.filter(item => item.title.trim());
+    } catch (error) {
+      console.error('Error analyzing homework:', error);
+      return [];
+    }
   }
 
   private determineGoalStatus(progress: number): 'not-started' | 'in-progress' | 'achieved' {
-    if (progress >= 100) return 'achieved';
-    if (progress > 0) return 'in-progress';
-    return 'not-started';
+    return statusForProgress(progress);
   }
 
-  async endSession(messages: Message[]): Promise<ProgressData> {
+  async endSession(messages: Message[], sessionId?: string, sessionMetrics?: SessionMetrics): Promise<ProgressData> {
     try {
       if (!Array.isArray(messages) || messages.length === 0) {
         throw new Error('No messages provided for session analysis');
@@ -715,10 +586,13 @@ ${conversation.join('\n')}`;
       // Run final analysis
       const finalProgress = await this.trackProgressWithEmotions(messages);
 
-      // Merge with previous goals if they exist
-      if (latestProgress?.goals) {
-        finalProgress.goals = this.mergeGoals(latestProgress.goals, finalProgress.goals);
-      }
+      // Record this session against the stored goals and report all of them
+      const goals = await applySessionGoals(finalProgress.goals, sessionId);
+      finalProgress.goals = toProgressGoals(goals);
+
+      // Turn the session into concrete practice before the next one
+      const outstanding = getOutstandingHomework(await loadHomework());
+      await assignSessionHomework(await this.analyzeHomework(messages, outstanding), sessionId);
 
       // Ensure all emotional journey data is included
       if (latestProgress?.emotionalJourney.emotions) {
@@ -731,6 +605,7 @@ ${conversation.join('\n')}`;
       // Calculate final engagement levels
       const engagementTrend = await this.calculateEngagementTrend(messages);
       finalProgress.emotionalJourney.engagementLevel = engagementTrend;
+      finalProgress.sessionMetrics = sessionMetrics;
 
       // Generate comprehensive session summary
       const sessionAnalysis = await this.analyzeSession(messages.map(m => m.text));
@@ -740,7 +615,10 @@ ${conversation.join('\n')}`;
       );
 
       // Save final progress
-      await this.saveProgress(finalProgress);
+      await this.saveProgress(finalProgress, sessionId);
+
+      // Carry what was learned into future sessions
+      await updateClientProfile(finalProgress, this.llm);
 
       return finalProgress;
     } catch (error) {
@@ -749,29 +627,6 @@ ${conversation.join('\n')}`;
     }
   }
 
-  private mergeGoals(previousGoals: ProgressData['goals'], newGoals: ProgressData['goals']): ProgressData['goals'] {
-    const mergedGoals = [...previousGoals];
-    
-    newGoals.forEach(newGoal => {
-      const existingGoalIndex = mergedGoals.findIndex(g => g.goal === newGoal.goal);
-      if (existingGoalIndex >= 0) {
-        // Update existing goal progress
-        mergedGoals[existingGoalIndex].progress = Math.max(
-          mergedGoals[existingGoalIndex].progress,
-          newGoal.progress
-        );
-        mergedGoals[existingGoalIndex].status = this.determineGoalStatus(
-          mergedGoals[existingGoalIndex].progress
-        );
-      } else {
-        // Add new goal
-        mergedGoals.push(newGoal);
-      }
-    });
-
-    return mergedGoals;
-  }
-
   private async calculateEngagementTrend(messages: Message[]): Promise<number[]> {
     // Split messages into segments for trend analysis
     const segments = this.splitMessagesIntoSegments(messages);
@@ -819,6 +674,6 @@ ${conversation.join('\n')}`;
   }
 }
 
-export const initializeProgressTracker = (apiKey: string) => {
-  return new ProgressTracker(apiKey);
+export const initializeProgressTracker = (apiKey?: string, provider?: LLMProvider) => {
+  return new ProgressTracker(apiKey, provider);
 };
@@ -0,0 +1,37 @@
+import type { BreathingPatternId } from "@/utils/breathing";
+
+/**
+ * Tools Dr. Sky can open mid-session. It asks for one by ending a reply with a
+ * marker, which is stripped before the reply is shown, spoken or saved.
+ */
+export type ResponseAction =
+  | { type: 'breathing'; patternId: BreathingPatternId }
+  | { type: 'thought-record' };
+
+const ACTION_MARKER = /\s*\[(?:breathing:\s*(box|4-7-8|coherent)|(thought-record))\s*\]/gi;
+const MARKER_STARTS = ['[breathing:', '[thought-record]'];
+
+// Also hides a marker that's still being streamed in, so it never flashes up in the chat
+export const stripActionMarkers = (text: string): string => {
+  const stripped = text.replace(ACTION_MARKER, '');
+  const start = stripped.lastIndexOf('[');
+  if (start === -1) return stripped;
+
+  const tail = stripped.slice(start).toLowerCase();
+  const isPartialMarker = !tail.includes(']') &&
+    MARKER_STARTS.some(marker => marker.startsWith(tail) || tail.startsWith(marker));
+  return isPartialMarker ? stripped.slice(0, start).trimEnd() : stripped;
+};
+
+// Only the last marker counts, so a reply opens at most one tool
+export const extractResponseAction = (text: string): { text: string; action: ResponseAction | null } => {
+  const matches = [...text.matchAll(ACTION_MARKER)];
+  const last = matches[matches.length - 1];
+  const action: ResponseAction | null = !last
+    ? null
+    : last[2]
+      ? { type: 'thought-record' }
+      : { type: 'breathing', patternId: last[1].toLowerCase() as BreathingPatternId };
+
+  return { text: stripActionMarkers(text).trim(), action };
+};
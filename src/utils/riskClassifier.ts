@@ -0,0 +1,153 @@
+import { LLMProvider } from "@/utils/llmProvider";
+
+export type RiskCategory = 'suicidal-ideation' | 'self-harm' | 'abuse';
+
+export type RiskLevel = 'none' | 'low' | 'high' | 'imminent';
+
+export interface RiskAssessment {
+  level: RiskLevel;
+  categories: RiskCategory[];
+  matches: string[];
+  source: 'lexical' | 'llm' | 'combined' | 'questionnaire';
+}
+
+export interface RiskEvent {
+  timestamp: string;
+  level: RiskLevel;
+  categories: RiskCategory[];
+  source: RiskAssessment['source'];
+}
+
+interface RiskRule {
+  category: RiskCategory;
+  level: Exclude<RiskLevel, 'none'>;
+  pattern: RegExp;
+}
+
+// Plan, means or timing only matter alongside ideation or self-harm, where they make it an emergency
+const IMMINENCE_PATTERNS: RegExp[] = [
+  /\b(i have|i've got|i made|made) a plan\b/,
+  /\b(wrote|writing|left) (a|my) (suicide |goodbye )?note\b/,
+  /\b(stockpiling|saved up|collected|bought) (pills|meds|medication|a gun|a rope)\b/,
+  /\b(tonight|today|right now|this weekend)\b/
+];
+
+const RISK_LEVEL_ORDER: RiskLevel[] = ['none', 'low', 'high', 'imminent'];
+
+// Lexical rules err on the side of flagging; a false alarm costs far less than a miss
+const RISK_RULES: RiskRule[] = [
+  // Suicidal ideation
+  { category: 'suicidal-ideation', level: 'high', pattern: /\b(kill|killing|end|ending) (myself|my life|it all)\b/ },
+  { category: 'suicidal-ideation', level: 'high', pattern: /\bsuicid(e|al)\b/ },
+  { category: 'suicidal-ideation', level: 'high', pattern: /\btake my (own )?life\b/ },
+  { category: 'suicidal-ideation', level: 'high', pattern: /\b(want|wanna|going|ready) to die\b/ },
+  { category: 'suicidal-ideation', level: 'high', pattern: /\bwish (i was|i were|i was never|i'd never been) (dead|born)\b/ },
+  { category: 'suicidal-ideation', level: 'high', pattern: /\b(everyone|they|world|family) (would be|is|are) better off without me\b/ },
+  { category: 'suicidal-ideation', level: 'high', pattern: /\bbetter off dead\b/ },
+  { category: 'suicidal-ideation', level: 'low', pattern: /\b(no|no point|no reason) (to|in) (live|living|going on)\b/ },
+  { category: 'suicidal-ideation', level: 'low', pattern: /\b(don't|do not) want to (live|be alive|exist|wake up)\b/ },
+  { category: 'suicidal-ideation', level: 'low', pattern: /\b(can't|cannot) go on\b/ },
+  { category: 'suicidal-ideation', level: 'high', pattern: /\b(overdose on|hang myself|shoot myself|jump off (a|the) (bridge|roof|building))\b/ },
+
+  // Self-harm
+  { category: 'self-harm', level: 'high', pattern: /\b(cut|cutting|burn|burning|hurt|hurting|harm|harming|punish|punishing) myself\b/ },
+  { category: 'self-harm', level: 'high', pattern: /\bself[- ]?harm(ing)?\b/ },
+  { category: 'self-harm', level: 'low', pattern: /\b(urge|urges|want|wanted) to (cut|hurt myself)\b/ },
+
+  // Abuse disclosures
+  {
+    category: 'abuse',
+    level: 'high',
+    pattern: /\b(he|she|they|my (partner|husband|wife|boyfriend|girlfriend|dad|father|mom|mother|parent|stepdad|stepmom)) (hits|hit|beats|beat|chokes|choked|strangled|kicks|kicked) me\b/
+  },
+  { category: 'abuse', level: 'high', pattern: /\b(raped|molested|sexually (abused|assaulted))\b/ },
+  { category: 'abuse', level: 'high', pattern: /\b(afraid|scared) (to go|of going) home\b/ },
+  { category: 'abuse', level: 'high', pattern: /\bthreatened to (kill|hurt) me\b/ },
+  { category: 'abuse', level: 'low', pattern: /\b(abusive|abused|abusing) me\b/ }
+];
+
+// A negation right before the match ("I would never kill myself") lowers, but never clears, the risk
+const NEGATION_PATTERN = /\b(never|not|won't|wouldn't|don't|didn't|no longer)\b[^.!?]{0,12}$/;
+
+const normalize = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/\s+/g, ' ');
+
+const maxLevel = (a: RiskLevel, b: RiskLevel): RiskLevel =>
+  RISK_LEVEL_ORDER.indexOf(a) >= RISK_LEVEL_ORDER.indexOf(b) ? a : b;
+
+export const isCrisisLevel = (level: RiskLevel): boolean => level === 'high' || level === 'imminent';
+
+export const assessRiskLexically = (text: string): RiskAssessment => {
+  const normalized = normalize(text);
+  const assessment: RiskAssessment = { level: 'none', categories: [], matches: [], source: 'lexical' };
+
+  for (const rule of RISK_RULES) {
+    const match = normalized.match(rule.pattern);
+    if (!match || match.index === undefined) continue;
+
+    const preceding = normalized.slice(0, match.index);
+    const level = NEGATION_PATTERN.test(preceding) ? 'low' : rule.level;
+
+    assessment.level = maxLevel(assessment.level, level);
+    assessment.matches.push(match[0]);
+    if (!assessment.categories.includes(rule.category)) {
+      assessment.categories.push(rule.category);
+    }
+  }
+
+  if (
+    assessment.level === 'high' &&
+    IMMINENCE_PATTERNS.some(pattern => pattern.test(normalized))
+  ) {
+    assessment.level = 'imminent';
+  }
+
+  return assessment;
+};
+
+export const classifyRiskWithLLM = async (text: string, provider: LLMProvider): Promise<RiskAssessment> => {
+  const prompt = `You are a clinical safety screener. Classify the risk in this message from a therapy client.
+
+Respond ONLY with JSON in this exact shape, no markdown:
+{"level": "none" | "low" | "high" | "imminent", "categories": ["suicidal-ideation" | "self-harm" | "abuse"]}
+
+Use "imminent" only for a stated plan, means or timeframe. Use "high" for clear ideation, self-harm or abuse disclosure.
+
+Message:
+"${text}"`;
+
+  try {
+    const response = await provider.generateContent(prompt, { task: 'risk-check' });
+    const parsed = JSON.parse(response.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim());
+
+    const level: RiskLevel = RISK_LEVEL_ORDER.includes(parsed.level) ? parsed.level : 'none';
+    const categories: RiskCategory[] = Array.isArray(parsed.categories)
+      ? parsed.categories.filter((c: string): c is RiskCategory =>
+          ['suicidal-ideation', 'self-harm', 'abuse'].includes(c))
+      : [];
+
+    return { level, categories, matches: [], source: 'llm' };
+  } catch (error) {
+    console.error('Error classifying risk:', error);
+    return { level: 'none', categories: [], matches: [], source: 'llm' };
+  }
+};
+
+export const combineRiskAssessments = (lexical: RiskAssessment, llm: RiskAssessment): RiskAssessment => ({
+  level: maxLevel(lexical.level, llm.level),
+  categories: Array.from(new Set([...lexical.categories, ...llm.categories])),
+  matches: lexical.matches,
+  source: 'combined'
+});
+
+export const isLLMRiskCheckEnabled = (): boolean => import.meta.env.VITE_RISK_LLM_CHECK === 'true';
+
+export const toRiskEvent = (assessment: RiskAssessment): RiskEvent => ({
+  timestamp: new Date().toISOString(),
+  level: assessment.level,
+  categories: assessment.categories,
+  source: assessment.source
+});
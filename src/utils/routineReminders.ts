@@ -0,0 +1,123 @@
+import type { RoutineSlotRecord } from "@/utils/db";
+
+interface ScheduledReminder {
+  slotId: string;
+  label: string;
+  time: string;
+  itemCount: number;
+}
+
+// Only times and counts, kept outside the vault so reminders still fire while
+// it's locked; notifications never include what's in the routine
+const SCHEDULE_KEY = 'routine-reminder-schedule';
+// Slot id to the last date its reminder was shown
+const LAST_SHOWN_KEY = 'routine-reminder-last-shown';
+const WORKER_URL = '/routine-sw.js';
+const CHECK_INTERVAL_MS = 60 * 1000;
+// A reminder missed by more than this (the app was closed) is skipped for the day
+const GRACE_MINUTES = 30;
+
+export const isReminderSupported = (): boolean =>
+  typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator;
+
+export const getReminderPermission = (): NotificationPermission | 'unsupported' =>
+  isReminderSupported() ? Notification.permission : 'unsupported';
+
+export const requestReminderPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (!isReminderSupported()) return 'unsupported';
+  return Notification.requestPermission();
+};
+
+export const saveReminderSchedule = (slots: RoutineSlotRecord[]): void => {
+  const schedule: ScheduledReminder[] = slots
+    .filter(slot => slot.reminder && slot.items.length > 0)
+    .map(slot => ({
+      slotId: slot.id,
+      label: slot.id,
+      time: slot.time,
+      itemCount: slot.items.length
+    }));
+  localStorage.setItem(SCHEDULE_KEY, JSON.stringify(schedule));
+};
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) as T : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const toLocalDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const minutesSinceMidnight = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+const parseTime = (time: string): number | null => {
+  const match = /^(\d{2}):(\d{2})$/.exec(time);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+// Reminders due now that haven't been shown today
+const getDueReminders = (now: Date): ScheduledReminder[] => {
+  const schedule = readJson<ScheduledReminder[]>(SCHEDULE_KEY, []);
+  const lastShown = readJson<Record<string, string>>(LAST_SHOWN_KEY, {});
+  const today = toLocalDate(now);
+  const minutes = minutesSinceMidnight(now);
+
+  return schedule.filter(reminder => {
+    const at = parseTime(reminder.time);
+    return at !== null && minutes >= at && minutes - at <= GRACE_MINUTES && lastShown[reminder.slotId] !== today;
+  });
+};
+
+const showReminder = async (registration: ServiceWorkerRegistration, reminder: ScheduledReminder) => {
+  const items = `${reminder.itemCount} ${reminder.itemCount === 1 ? 'item' : 'items'}`;
+  await registration.showNotification(`Time for your ${reminder.label} routine`, {
+    body: `${items} on today's checklist`,
+    tag: `routine-${reminder.slotId}`,
+    icon: '/favicon.ico',
+    data: { url: '/routine' }
+  });
+};
+
+/**
+ * Registers the reminder service worker and checks once a minute for a slot
+ * whose time has come. With no push server, reminders fire while the app is
+ * open in any tab; the worker shows them and opens the checklist on tap.
+ * Returns a function that stops checking.
+ */
+export const startRoutineReminders = (): (() => void) => {
+  if (!isReminderSupported()) return () => {};
+
+  let stopped = false;
+  const registrationPromise = navigator.serviceWorker.register(WORKER_URL).catch(error => {
+    console.error('Error registering reminder worker:', error);
+    return null;
+  });
+
+  const check = async () => {
+    if (stopped || Notification.permission !== 'granted') return;
+    const registration = await registrationPromise;
+    if (!registration) return;
+
+    const now = new Date();
+    for (const reminder of getDueReminders(now)) {
+      try {
+        await showReminder(registration, reminder);
+        const lastShown = readJson<Record<string, string>>(LAST_SHOWN_KEY, {});
+        localStorage.setItem(LAST_SHOWN_KEY, JSON.stringify({ ...lastShown, [reminder.slotId]: toLocalDate(now) }));
+      } catch (error) {
+        console.error('Error showing routine reminder:', error);
+      }
+    }
+  };
+
+  check();
+  const interval = setInterval(check, CHECK_INTERVAL_MS);
+  return () => {
+    stopped = true;
+    clearInterval(interval);
+  };
+};
@@ -0,0 +1,197 @@
+import { RoutineDayRecord, RoutineItem, RoutineSlotRecord, getAllRecords, getRecord, putRecord } from "@/utils/db";
+import type { ContentItem, ContentRecommendation } from "@/utils/contentRecommender";
+import { saveReminderSchedule } from "@/utils/routineReminders";
+
+export type RoutineTime = 'morning' | 'afternoon' | 'evening';
+
+export const ROUTINE_TIMES: RoutineTime[] = ['morning', 'afternoon', 'evening'];
+
+export const ROUTINE_LABELS: Record<RoutineTime, string> = {
+  morning: 'Morning',
+  afternoon: 'Afternoon',
+  evening: 'Evening'
+};
+
+const DEFAULT_TIMES: Record<RoutineTime, string> = {
+  morning: '08:00',
+  afternoon: '13:00',
+  evening: '20:00'
+};
+
+export interface AdherenceDay {
+  date: string;
+  planned: number;
+  completed: number;
+}
+
+export interface RoutineAdherence {
+  days: AdherenceDay[];
+  // Share of planned items completed, 0-100, or null with nothing planned
+  rate: number | null;
+  // Consecutive days, up to today, with every planned item done
+  streak: number;
+}
+
+// Local calendar date, so a routine done at 11pm counts for that day
+export const toDateKey = (date = new Date()): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const loadRoutine = async (): Promise<RoutineSlotRecord[]> => {
+  try {
+    const slots = await getAllRecords('routineSlots');
+    return slots.sort((a, b) => ROUTINE_TIMES.indexOf(a.id) - ROUTINE_TIMES.indexOf(b.id));
+  } catch (error) {
+    console.error('Error loading routine:', error);
+    return [];
+  }
+};
+
+const saveSlots = async (slots: RoutineSlotRecord[]): Promise<void> => {
+  for (const slot of slots) {
+    await putRecord('routineSlots', slot);
+  }
+  saveReminderSchedule(await loadRoutine());
+};
+
+const toRoutineItem = (item: ContentItem): RoutineItem => ({
+  id: crypto.randomUUID(),
+  contentId: item.id,
+  title: item.title,
+  url: item.url,
+  category: item.category
+});
+
+/**
+ * Turns a suggested routine into the user's plan. Times and reminder settings
+ * the user already chose are kept; only the items are replaced.
+ */
+export const saveRoutineFromSuggestion = async (
+  suggested: NonNullable<ContentRecommendation['suggestedRoutine']>
+): Promise<RoutineSlotRecord[]> => {
+  const now = new Date().toISOString();
+  const existing = await loadRoutine();
+
+  const slots = ROUTINE_TIMES.map(time => {
+    const current = existing.find(slot => slot.id === time);
+    return {
+      id: time,
+      time: current?.time || DEFAULT_TIMES[time],
+      reminder: current?.reminder ?? true,
+      items: suggested[time].map(toRoutineItem),
+      createdAt: current?.createdAt || now,
+      updatedAt: now
+    };
+  });
+
+  await saveSlots(slots);
+  return slots;
+};
+
+export const updateRoutineSlot = async (
+  id: RoutineTime,
+  changes: Partial<Pick<RoutineSlotRecord, 'time' | 'reminder' | 'items'>>
+): Promise<RoutineSlotRecord | null> => {
+  const slot = await getRecord('routineSlots', id);
+  if (!slot) return null;
+
+  const updated = { ...slot, ...changes, updatedAt: new Date().toISOString() };
+  await saveSlots([updated]);
+  return updated;
+};
+
+export const loadRoutineDays = async (): Promise<RoutineDayRecord[]> => {
+  try {
+    const days = await getAllRecords('routineDays');
+    return days.sort((a, b) => a.date.localeCompare(b.date));
+  } catch (error) {
+    console.error('Error loading routine history:', error);
+    return [];
+  }
+};
+
+export const setRoutineItemDone = async (
+  slots: RoutineSlotRecord[],
+  itemId: string,
+  done: boolean,
+  date = toDateKey()
+): Promise<RoutineDayRecord> => {
+  const day = await getRecord('routineDays', date);
+  const completed = new Set(day?.completedItemIds || []);
+  if (done) {
+    completed.add(itemId);
+  } else {
+    completed.delete(itemId);
+  }
+
+  const updated: RoutineDayRecord = {
+    date,
+    planned: slots.reduce((sum, slot) => sum + slot.items.length, 0),
+    completedItemIds: [...completed],
+    updatedAt: new Date().toISOString()
+  };
+  await putRecord('routineDays', updated);
+  return updated;
+};
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+/**
+ * Adherence over the `days` days ending on `end`. Days since the routine was
+ * set up that have no record count as planned but not done; days before it
+ * existed are left out.
+ */
+export const getRoutineAdherence = (
+  slots: RoutineSlotRecord[],
+  history: RoutineDayRecord[],
+  days: number,
+  end = new Date()
+): RoutineAdherence => {
+  const planned = slots.reduce((sum, slot) => sum + slot.items.length, 0);
+  const startedAt = slots.reduce<string | null>((earliest, slot) =>
+    !earliest || slot.createdAt < earliest ? slot.createdAt : earliest, null);
+  if (!startedAt || planned === 0) return { days: [], rate: null, streak: 0 };
+
+  const firstDay = toDateKey(new Date(startedAt));
+  const byDate = new Map(history.map(day => [day.date, day]));
+
+  const window: AdherenceDay[] = [];
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const date = toDateKey(addDays(end, -offset));
+    if (date < firstDay) continue;
+    const record = byDate.get(date);
+    window.push({
+      date,
+      planned: record?.planned ?? planned,
+      completed: record?.completedItemIds.length ?? 0
+    });
+  }
+
+  const totalPlanned = window.reduce((sum, day) => sum + day.planned, 0);
+  const totalCompleted = window.reduce((sum, day) => sum + Math.min(day.completed, day.planned), 0);
+
+  // Today still counts towards the streak while it's in progress
+  let streak = 0;
+  for (let offset = 0; ; offset++) {
+    const date = toDateKey(addDays(end, -offset));
+    if (date < firstDay) break;
+    const record = byDate.get(date);
+    const complete = !!record && record.planned > 0 && record.completedItemIds.length >= record.planned;
+    if (complete) {
+      streak++;
+    } else if (offset > 0) {
+      break;
+    }
+  }
+
+  return {
+    days: window,
+    rate: totalPlanned > 0 ? Math.round((totalCompleted / totalPlanned) * 100) : null,
+    streak
+  };
+};
@@ -0,0 +1,42 @@
+import "fake-indexeddb/auto";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { MemoryStorage } from "@/test/memoryStorage";
+import { createSession, endSession, getSession, resumeSession, saveSession } from "@/utils/session";
+import { getSessionDurationMinutes } from "@/utils/sessionAnalytics";
+import { getActiveDurationMs } from "@/utils/sessionMetrics";
+import { lockVault, setupVault } from "@/utils/vault";
+
+const MINUTE = 60 * 1000;
+
+beforeAll(async () => {
+  vi.stubGlobal("localStorage", new MemoryStorage());
+  await setupVault("correct horse battery staple");
+  vi.useFakeTimers({ toFake: ["Date"] });
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+  lockVault();
+  vi.unstubAllGlobals();
+});
+
+describe("resumeSession", () => {
+  it("leaves the time a session sat ended out of its duration", async () => {
+    vi.setSystemTime(new Date("2026-10-12T09:00:00Z"));
+    const session = createSession();
+    await saveSession(session);
+
+    vi.setSystemTime(new Date("2026-10-12T09:20:00Z"));
+    await endSession(session);
+
+    vi.setSystemTime(new Date("2026-10-14T18:00:00Z"));
+    const resumed = (await resumeSession(session.id))!;
+    expect(getActiveDurationMs(resumed, Date.now() + 5 * MINUTE)).toBe(25 * MINUTE);
+
+    vi.setSystemTime(new Date("2026-10-14T18:10:00Z"));
+    const ended = await endSession(resumed);
+
+    expect(ended.metrics?.durationMs).toBe(30 * MINUTE);
+    expect(getSessionDurationMinutes((await getSession(session.id))!)).toBe(30);
+  });
+});
@@ -0,0 +1,193 @@
+import type { RiskEvent } from "@/utils/riskClassifier";
+import type { ThoughtRecord } from "@/utils/thoughtRecords";
+import { InputMode, SessionMetrics, computeSessionMetrics, getActiveDurationMs } from "@/utils/sessionMetrics";
+import {
+  EmotionSampleRecord,
+  MessageRecord,
+  SessionRecord,
+  getAllRecords,
+  getRecord,
+  getRecordsByIndex,
+  putRecord,
+  putRecords
+} from "@/utils/db";
+
+export interface SessionMessage {
+  role: 'user' | 'therapist';
+  content: string;
+  timestamp: string;
+  emotion?: {
+    emotion: string;
+    intensity: number;
+  };
+  visualContext?: string;
+  // Client messages: how they were entered and, for voice, how long they took to say
+  inputMode?: InputMode;
+  speakingMs?: number;
+  // Therapist messages: how long the model took to finish and to start responding
+  latencyMs?: number;
+  firstTokenMs?: number;
+}
+
+export interface TherapeuticContext {
+  primaryConcerns: string[];
+  emotionalThemes: string[];
+  progressMarkers: string[];
+  relationshipDepth: number;
+  sessionGoals: string[];
+}
+
+export interface Session {
+  id: string;
+  startTime: string;
+  endTime?: string;
+  // When the session was last reopened, and the time it was open before that
+  resumedAt?: string;
+  activeMs?: number;
+  updatedAt?: string;
+  messages: SessionMessage[];
+  therapeuticContext: TherapeuticContext;
+  riskEvents: RiskEvent[];
+  // Recorded when the session ends
+  metrics?: SessionMetrics;
+  // CBT thought records the client worked through during the session
+  thoughtRecords?: ThoughtRecord[];
+}
+
+// Only the pointer to the active session stays in localStorage; it's read synchronously on load
+const ACTIVE_SESSION_KEY = 'active-session-id';
+
+export const createSession = (): Session => ({
+  id: crypto.randomUUID(),
+  startTime: new Date().toISOString(),
+  messages: [],
+  therapeuticContext: {
+    primaryConcerns: [],
+    emotionalThemes: [],
+    progressMarkers: [],
+    relationshipDepth: 0,
+    sessionGoals: []
+  },
+  riskEvents: []
+});
+
+const toSession = (record: SessionRecord, messages: MessageRecord[]): Session => ({
+  ...record,
+  messages: messages
+    .sort((a, b) => a.position - b.position)
+    .map(({ sessionId, position, ...message }) => message)
+});
+
+export const loadSessions = async (): Promise<Session[]> => {
+  try {
+    const [records, messages] = await Promise.all([
+      getAllRecords('sessions'),
+      getAllRecords('messages')
+    ]);
+    return records.map(record => toSession(record, messages.filter(m => m.sessionId === record.id)));
+  } catch (error) {
+    console.error('Error loading sessions:', error);
+    return [];
+  }
+};
+
+export const getSession = async (id: string): Promise<Session | null> => {
+  try {
+    const [record, messages] = await Promise.all([
+      getRecord('sessions', id),
+      getRecordsByIndex('messages', 'sessionId', id)
+    ]);
+    return record ? toSession(record, messages) : null;
+  } catch (error) {
+    console.error('Error loading session:', error);
+    return null;
+  }
+};
+
+// Messages are append-only, so re-putting them by position never leaves stale rows behind
+export const saveSession = async (session: Session): Promise<void> => {
+  try {
+    const { messages, ...record } = session;
+    await Promise.all([
+      putRecord('sessions', { ...record, updatedAt: new Date().toISOString() }),
+      putRecords('messages', messages.map((message, position) => ({ ...message, sessionId: session.id, position })))
+    ]);
+  } catch (error) {
+    console.error('Error saving session:', error);
+  }
+};
+
+export const getActiveSessionId = (): string | null => localStorage.getItem(ACTIVE_SESSION_KEY);
+
+export const setActiveSessionId = (id: string | null): void => {
+  if (id) {
+    localStorage.setItem(ACTIVE_SESSION_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_SESSION_KEY);
+  }
+};
+
+// The session to continue after a reload, if the active one hasn't ended
+export const restoreActiveSession = async (): Promise<Session | null> => {
+  const activeId = getActiveSessionId();
+  const active = activeId ? await getSession(activeId) : null;
+  return active && !active.endTime ? active : null;
+};
+
+export const endSession = async (session: Session): Promise<Session> => {
+  const endTime = new Date().toISOString();
+  const ended: Session = {
+    ...session,
+    endTime,
+    activeMs: getActiveDurationMs(session, endTime),
+    resumedAt: undefined
+  };
+  ended.metrics = computeSessionMetrics(ended);
+  await saveSession(ended);
+  setActiveSessionId(null);
+  return ended;
+};
+
+export const resumeSession = async (id: string): Promise<Session | null> => {
+  const session = await getSession(id);
+  if (!session) return null;
+
+  // The time it sat ended doesn't count towards its length
+  const resumed = {
+    ...session,
+    endTime: undefined,
+    activeMs: getActiveDurationMs(session),
+    resumedAt: new Date().toISOString()
+  };
+  await saveSession(resumed);
+  setActiveSessionId(resumed.id);
+  return resumed;
+};
+
+export const saveEmotionSample = async (sample: EmotionSampleRecord): Promise<void> => {
+  try {
+    await putRecord('emotionSamples', sample);
+  } catch (error) {
+    console.error('Error saving emotion sample:', error);
+  }
+};
+
+export const loadEmotionSamples = async (sessionId: string): Promise<EmotionSampleRecord[]> => {
+  try {
+    const samples = await getRecordsByIndex('emotionSamples', 'sessionId', sessionId);
+    return samples.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  } catch (error) {
+    console.error('Error loading emotion samples:', error);
+    return [];
+  }
+};
+
+export const loadAllEmotionSamples = async (): Promise<EmotionSampleRecord[]> => {
+  try {
+    const samples = await getAllRecords('emotionSamples');
+    return samples.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  } catch (error) {
+    console.error('Error loading emotion samples:', error);
+    return [];
+  }
+};
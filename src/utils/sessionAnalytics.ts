@@ -0,0 +1,167 @@
+import type { EmotionSampleRecord } from "@/utils/db";
+import type { Session } from "@/utils/session";
+import { EmotionLabel, POSITIVE_EMOTIONS } from "@/utils/emotionAnalysis";
+import { getActiveDurationMs } from "@/utils/sessionMetrics";
+
+export type DateRange = '7d' | '30d' | '90d' | 'all';
+
+export const DATE_RANGES: Record<DateRange, { label: string; days: number | null }> = {
+  '7d': { label: 'Last 7 days', days: 7 },
+  '30d': { label: 'Last 30 days', days: 30 },
+  '90d': { label: 'Last 90 days', days: 90 },
+  'all': { label: 'All time', days: null }
+};
+
+export interface EmotionTrendPoint {
+  date: string;
+  [emotion: string]: number | string;
+}
+
+export interface PeriodStats {
+  sessions: number;
+  minutes: number;
+  positiveShare: number | null;
+  topEmotion: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// Day buckets keep short ranges readable; longer ones would be mostly gaps
+const DAILY_BUCKET_LIMIT_DAYS = 31;
+
+export const getRangeStart = (range: DateRange, now = new Date()): Date | null => {
+  const { days } = DATE_RANGES[range];
+  return days === null ? null : new Date(now.getTime() - days * DAY_MS);
+};
+
+const inWindow = (timestamp: string, start: Date | null, end: Date) => {
+  const time = new Date(timestamp).getTime();
+  return (!start || time >= start.getTime()) && time < end.getTime();
+};
+
+export const filterSessionsByRange = (sessions: Session[], start: Date | null, end = new Date()): Session[] =>
+  sessions.filter(session => session.messages.length > 0 && inWindow(session.startTime, start, end));
+
+export const filterSamplesByRange = (
+  samples: EmotionSampleRecord[],
+  start: Date | null,
+  end = new Date()
+): EmotionSampleRecord[] => samples.filter(sample => inWindow(sample.timestamp, start, end));
+
+/**
+ * Measured length of a session in minutes: the time it was open, up to the last
+ * message for sessions that were never explicitly ended.
+ */
+export const getSessionDurationMinutes = (session: Session): number =>
+  Math.round(getActiveDurationMs(session) / 60000);
+
+// Midnight local time, as a key that sorts chronologically
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const weekKey = (date: Date) => {
+  const monday = new Date(date);
+  monday.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return dayKey(monday);
+};
+
+export const countEmotions = (samples: EmotionSampleRecord[]): Record<string, number> =>
+  samples.reduce((counts, sample) => {
+    counts[sample.emotion] = (counts[sample.emotion] || 0) + 1;
+    return counts;
+  }, {} as Record<string, number>);
+
+export const getTopEmotions = (samples: EmotionSampleRecord[], limit = 5): Array<{ emotion: string; percentage: number }> => {
+  const counts = countEmotions(samples);
+  const total = samples.length;
+  return Object.entries(counts)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, limit)
+    .map(([emotion, count]) => ({ emotion, percentage: Math.round((count / total) * 100) }));
+};
+
+/**
+ * Share of each emotion per day (or per week over longer ranges), as a
+ * percentage of that bucket's samples. Emotions without samples in a bucket
+ * get 0 so every line stays continuous.
+ */
+export const buildEmotionTrends = (
+  samples: EmotionSampleRecord[],
+  emotions: string[],
+  rangeDays: number | null
+): EmotionTrendPoint[] => {
+  const spanDays = rangeDays ?? (samples.length > 0
+    ? (Date.now() - Math.min(...samples.map(s => new Date(s.timestamp).getTime()))) / DAY_MS
+    : 0);
+  const bucketOf = spanDays <= DAILY_BUCKET_LIMIT_DAYS ? dayKey : weekKey;
+
+  const buckets = new Map<string, EmotionSampleRecord[]>();
+  samples.forEach(sample => {
+    const key = bucketOf(new Date(sample.timestamp));
+    buckets.set(key, [...(buckets.get(key) || []), sample]);
+  });
+
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, bucket]) => {
+      const counts = countEmotions(bucket);
+      const point: EmotionTrendPoint = {
+        date: new Date(`${key}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+      };
+      emotions.forEach(emotion => {
+        point[emotion] = Math.round(((counts[emotion] || 0) / bucket.length) * 100);
+      });
+      return point;
+    });
+};
+
+export const getPeriodStats = (sessions: Session[], samples: EmotionSampleRecord[]): PeriodStats => {
+  const positive = samples.filter(sample => POSITIVE_EMOTIONS.includes(sample.emotion as EmotionLabel));
+  const [top] = getTopEmotions(samples, 1);
+
+  return {
+    sessions: sessions.length,
+    minutes: sessions.reduce((sum, session) => sum + getSessionDurationMinutes(session), 0),
+    positiveShare: samples.length > 0 ? Math.round((positive.length / samples.length) * 100) : null,
+    topEmotion: top?.emotion || null
+  };
+};
+
+// The last seven days against the seven before them
+export const compareWeeks = (
+  sessions: Session[],
+  samples: EmotionSampleRecord[],
+  now = new Date()
+): { thisWeek: PeriodStats; lastWeek: PeriodStats } => {
+  const weekStart = new Date(now.getTime() - WEEK_MS);
+  const previousStart = new Date(now.getTime() - 2 * WEEK_MS);
+
+  return {
+    thisWeek: getPeriodStats(
+      filterSessionsByRange(sessions, weekStart, now),
+      filterSamplesByRange(samples, weekStart, now)
+    ),
+    lastWeek: getPeriodStats(
+      filterSessionsByRange(sessions, previousStart, weekStart),
+      filterSamplesByRange(samples, previousStart, weekStart)
+    )
+  };
+};
+
+// Consecutive days with a session, counting back from today (or yesterday, so
+// the streak doesn't reset before today's session)
+export const getSessionStreakDays = (sessions: Session[], now = new Date()): number => {
+  const days = new Set(sessions.filter(s => s.messages.length > 0).map(s => dayKey(new Date(s.startTime))));
+  const cursor = new Date(now);
+  if (!days.has(dayKey(cursor))) {
+    cursor.setDate(cursor.getDate() - 1);
+  }
+
+  let streak = 0;
+  while (days.has(dayKey(cursor))) {
+    streak++;
+    cursor.setDate(cursor.getDate() - 1);
+  }
+  return streak;
+};
@@ -0,0 +1,103 @@
+import type { Session } from "@/utils/session";
+
+export type InputMode = 'voice' | 'text';
+
+// How a client message was entered, recorded as it is sent
+export interface MessageInput {
+  mode: InputMode;
+  // Time the client spent speaking, from the first to the final recognized word
+  speakingMs?: number;
+}
+
+export interface SessionMetrics {
+  durationMs: number;
+  userTurns: number;
+  therapistTurns: number;
+  voiceTurns: number;
+  textTurns: number;
+  userWords: number;
+  therapistWords: number;
+  speakingMs: number;
+  // Time from sending a request to the full response, and to its first streamed chunk
+  averageLatencyMs: number | null;
+  averageFirstTokenMs: number | null;
+}
+
+export type SessionTiming = Pick<Session, 'startTime' | 'endTime' | 'resumedAt' | 'activeMs'> & {
+  messages?: Array<{ timestamp: string }>;
+};
+
+/**
+ * How long a session was actually open, leaving out any time it sat ended before
+ * being resumed. An open session counts up to `until`, or to its last message.
+ */
+export const getActiveDurationMs = (session: SessionTiming, until?: string | number): number => {
+  if (session.endTime) {
+    // Sessions ended before active time was tracked only have their start and end
+    return session.activeMs ?? Math.max(0, new Date(session.endTime).getTime() - new Date(session.startTime).getTime());
+  }
+
+  const segmentStart = new Date(session.resumedAt || session.startTime).getTime();
+  const lastMessage = session.messages?.[session.messages.length - 1];
+  const segmentEnd = until !== undefined ? new Date(until).getTime()
+    : lastMessage ? new Date(lastMessage.timestamp).getTime()
+    : segmentStart;
+  return (session.activeMs || 0) + Math.max(0, segmentEnd - segmentStart);
+};
+
+export const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+
+/**
+ * Measured from what was recorded on each message, so the numbers are the same
+ * whenever they are computed. Messages from before instrumentation count as
+ * text turns without timings.
+ */
+export const computeSessionMetrics = (session: Session): SessionMetrics => {
+  const userMessages = session.messages.filter(m => m.role === 'user');
+  const therapistMessages = session.messages.filter(m => m.role === 'therapist');
+
+  return {
+    durationMs: getActiveDurationMs(session),
+    userTurns: userMessages.length,
+    therapistTurns: therapistMessages.length,
+    voiceTurns: userMessages.filter(m => m.inputMode === 'voice').length,
+    textTurns: userMessages.filter(m => m.inputMode !== 'voice').length,
+    userWords: userMessages.reduce((sum, m) => sum + countWords(m.content), 0),
+    therapistWords: therapistMessages.reduce((sum, m) => sum + countWords(m.content), 0),
+    speakingMs: userMessages.reduce((sum, m) => sum + (m.speakingMs || 0), 0),
+    averageLatencyMs: average(therapistMessages.flatMap(m => m.latencyMs !== undefined ? [m.latencyMs] : [])),
+    averageFirstTokenMs: average(therapistMessages.flatMap(m => m.firstTokenMs !== undefined ? [m.firstTokenMs] : []))
+  };
+};
+
+// A client who writes a third as much as Dr. Sky is fully participating;
+// therapist replies run long, so an even split isn't the bar
+const FULL_PARTICIPATION_SHARE = 0.25;
+
+/**
+ * Participation, 0-100, from the client's share of the words and of the turns
+ * in a stretch of conversation.
+ */
+export const getParticipationScore = (messages: Array<{ text: string; isUser: boolean }>): number => {
+  const userMessages = messages.filter(m => m.isUser);
+  if (userMessages.length === 0) return 0;
+
+  const userWords = userMessages.reduce((sum, m) => sum + countWords(m.text), 0);
+  const totalWords = messages.reduce((sum, m) => sum + countWords(m.text), 0);
+  const wordShare = totalWords > 0 ? userWords / totalWords : 0;
+  // Every therapist reply should follow a client turn
+  const turnShare = Math.min(1, userMessages.length / Math.max(1, messages.length - userMessages.length));
+
+  const score = (Math.min(1, wordShare / FULL_PARTICIPATION_SHARE) + turnShare) / 2;
+  return Math.round(score * 100);
+};
+
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,98 @@
+import { z } from "zod";
+import type { LLMProvider, LLMRequest, LLMTask, ResponseSchema } from "@/utils/llmProvider";
+
+const DEFAULT_ATTEMPTS = 3;
+
+export interface StructuredOptions {
+  task: LLMTask;
+  attempts?: number;
+}
+
+/**
+ * Derives the schema sent to the model from the zod schema used to validate its
+ * answer, so the two can't drift apart. Coercions, defaults and catches are
+ * looked through to the type underneath, and nullable types are marked as such.
+ */
+export const toResponseSchema = (schema: z.ZodTypeAny): ResponseSchema => {
+  const description = schema.description ? { description: schema.description } : {};
+
+  if (schema instanceof z.ZodEffects) return { ...toResponseSchema(schema.innerType()), ...description };
+  if (schema instanceof z.ZodDefault || schema instanceof z.ZodCatch) {
+    return { ...toResponseSchema(schema._def.innerType), ...description };
+  }
+  if (schema instanceof z.ZodOptional) return { ...toResponseSchema(schema.unwrap()), ...description };
+  if (schema instanceof z.ZodNullable) return { ...toResponseSchema(schema.unwrap()), nullable: true, ...description };
+  if (schema instanceof z.ZodString) return { type: 'string', ...description };
+  if (schema instanceof z.ZodNumber) return { type: schema.isInt ? 'integer' : 'number', ...description };
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean', ...description };
+  if (schema instanceof z.ZodEnum) return { type: 'string', enum: [...schema.options], ...description };
+  if (schema instanceof z.ZodArray) return { type: 'array', items: toResponseSchema(schema.element), ...description };
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    return {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toResponseSchema(value)])),
+      // isOptional sees through wrappers, so `.optional().nullable()` isn't required either
+      required: Object.keys(shape).filter(key => !shape[key].isOptional()),
+      ...description
+    };
+  }
+
+  // Named by zod's own type name, which survives minification
+  throw new Error(`Unsupported schema type for a structured response: ${schema._def.typeName}`);
+};
+
+/**
+ * Pulls the JSON value out of a model response, repairing the usual slips:
+ * markdown code fences, prose around the JSON and trailing commas.
+ */
+export const parseJSONResponse = (text: string): unknown => {
+  const unfenced = text.replace(/```(?:json)?/gi, '').trim();
+  const start = unfenced.search(/[[{]/);
+  const end = Math.max(unfenced.lastIndexOf('}'), unfenced.lastIndexOf(']'));
+  if (start === -1 || end < start) {
+    throw new Error('Response contains no JSON');
+  }
+
+  const json = unfenced.slice(start, end + 1).replace(/,\s*([}\]])/g, '$1');
+  return JSON.parse(json);
+};
+
+const describeIssues = (error: z.ZodError): string =>
+  error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`).join('; ');
+
+/**
+ * Asks the model for JSON matching `schema`, validates it, and retries with the
+ * validation errors fed back when the answer doesn't fit.
+ */
+export const generateStructured = async <S extends z.ZodTypeAny>(
+  provider: LLMProvider,
+  prompt: string,
+  schema: S,
+  { task, attempts = DEFAULT_ATTEMPTS }: StructuredOptions
+): Promise<z.infer<S>> => {
+  const responseSchema = toResponseSchema(schema);
+  let request: LLMRequest = prompt;
+  let lastError = '';
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const text = await provider.generateContent(request, { responseSchema, task });
+
+    try {
+      const result = schema.safeParse(parseJSONResponse(text));
+      if (result.success) return result.data;
+      lastError = describeIssues(result.error);
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    console.error(`Structured response attempt ${attempt} failed:`, lastError);
+    request = `${prompt}
+
+Your previous answer could not be used (${lastError}).
+Respond with only a JSON value matching this schema:
+${JSON.stringify(responseSchema)}`;
+  }
+
+  throw new Error(`Invalid structured response: ${lastError}`);
+};
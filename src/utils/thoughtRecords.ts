@@ -0,0 +1,200 @@
+import { z } from "zod";
+import type { LLMProvider } from "@/utils/llmProvider";
+import { generateStructured } from "@/utils/structuredOutput";
+import { Session, SessionMessage, loadSessions, saveSession } from "@/utils/session";
+
+export type CognitiveDistortionId =
+  | 'all-or-nothing'
+  | 'overgeneralization'
+  | 'mental-filter'
+  | 'disqualifying-positive'
+  | 'mind-reading'
+  | 'fortune-telling'
+  | 'catastrophizing'
+  | 'emotional-reasoning'
+  | 'should-statements'
+  | 'labeling'
+  | 'personalization';
+
+export interface CognitiveDistortion {
+  name: string;
+  description: string;
+}
+
+export interface ThoughtRecordEmotion {
+  emotion: string;
+  // 0-100 when the thought came up
+  intensity: number;
+  // 0-100 after working through the record
+  rerated?: number;
+}
+
+export interface ThoughtRecord {
+  id: string;
+  situation: string;
+  automaticThought: string;
+  emotions: ThoughtRecordEmotion[];
+  distortions: CognitiveDistortionId[];
+  evidenceFor: string;
+  evidenceAgainst: string;
+  balancedThought: string;
+  // Whether Dr. Sky drafted it from the conversation before the client edited it
+  prefilled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A record with the session it was written in, for listing across sessions
+export interface SessionThoughtRecord extends ThoughtRecord {
+  sessionId: string;
+}
+
+export type ThoughtRecordDraft = Pick<
+  ThoughtRecord,
+  'situation' | 'automaticThought' | 'emotions' | 'distortions' | 'evidenceFor' | 'evidenceAgainst' | 'balancedThought'
+>;
+
+// The common list from Burns, with jumping to conclusions split into its two forms
+export const COGNITIVE_DISTORTIONS: Record<CognitiveDistortionId, CognitiveDistortion> = {
+  'all-or-nothing': {
+    name: 'All-or-nothing thinking',
+    description: 'Seeing things in black and white, with nothing in between.'
+  },
+  overgeneralization: {
+    name: 'Overgeneralization',
+    description: 'Treating one bad event as a never-ending pattern: "always", "never".'
+  },
+  'mental-filter': {
+    name: 'Mental filter',
+    description: 'Dwelling on one negative detail until it colours everything.'
+  },
+  'disqualifying-positive': {
+    name: 'Disqualifying the positive',
+    description: "Insisting good things don't count."
+  },
+  'mind-reading': {
+    name: 'Mind reading',
+    description: 'Assuming you know what others think of you without checking.'
+  },
+  'fortune-telling': {
+    name: 'Fortune telling',
+    description: 'Predicting things will turn out badly as if it were fact.'
+  },
+  catastrophizing: {
+    name: 'Catastrophizing',
+    description: 'Blowing things out of proportion or expecting the worst.'
+  },
+  'emotional-reasoning': {
+    name: 'Emotional reasoning',
+    description: 'Taking a feeling as proof: "I feel it, so it must be true".'
+  },
+  'should-statements': {
+    name: 'Should statements',
+    description: 'Holding yourself or others to rigid rules of should, must and ought.'
+  },
+  labeling: {
+    name: 'Labeling',
+    description: 'Calling yourself or someone else a name instead of describing what happened.'
+  },
+  personalization: {
+    name: 'Personalization',
+    description: "Blaming yourself for things that weren't entirely in your control."
+  }
+};
+
+export const DISTORTION_IDS = Object.keys(COGNITIVE_DISTORTIONS) as CognitiveDistortionId[];
+
+export const THOUGHT_RECORD_PROMPT_GUIDANCE = `When the client describes a specific upsetting moment with a clear negative thought about it, you may suggest working through a thought record together:
+     - Say what it is in a sentence and ask if they'd like to try, then end your reply with [thought-record]
+     - Only when there's a concrete situation to examine, and not while they're in crisis`;
+
+const draftSchema = z.object({
+  situation: z.string().describe('Where they were, who with and what happened, in a sentence or two'),
+  automaticThought: z.string().describe('The thought that went through their mind, in their own words'),
+  emotions: z.array(z.object({
+    emotion: z.string(),
+    intensity: z.coerce.number().int().min(0).max(100).describe('How strong it was, 0-100')
+  })).max(3),
+  distortions: z.array(z.enum(DISTORTION_IDS as [CognitiveDistortionId, ...CognitiveDistortionId[]])).max(3),
+  evidenceFor: z.string().describe('Facts they mentioned that support the thought, or empty'),
+  evidenceAgainst: z.string().describe('Facts they mentioned that do not fit the thought, or empty'),
+  balancedThought: z.string().describe('Empty unless they already put a balanced view into words')
+});
+
+const RECENT_MESSAGES = 12;
+
+export const createThoughtRecord = (draft?: Partial<ThoughtRecordDraft>): ThoughtRecord => {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    situation: '',
+    automaticThought: '',
+    emotions: [],
+    distortions: [],
+    evidenceFor: '',
+    evidenceAgainst: '',
+    balancedThought: '',
+    ...draft,
+    prefilled: !!draft,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+/**
+ * Drafts a thought record from the recent conversation for the client to check
+ * and finish. Only what the client said is used; the balanced thought is left
+ * for them unless they already voiced one.
+ */
+export const prefillThoughtRecord = async (
+  provider: LLMProvider,
+  messages: SessionMessage[]
+): Promise<ThoughtRecordDraft | null> => {
+  const conversation = messages
+    .slice(-RECENT_MESSAGES)
+    .map(message => `${message.role === 'user' ? 'Client' : 'Therapist'}: ${message.content}`)
+    .join('\n');
+  if (!conversation) return null;
+
+  const prompt = `You are helping a client start a CBT thought record about the most recent upsetting situation they described.
+
+Conversation:
+${conversation}
+
+Fill in each field from what the client said, in the second person ("You were..."), keeping their own words for the automatic thought.
+Don't invent details: leave a field empty when the conversation doesn't cover it.
+Pick cognitive distortions only when the thought clearly shows them, from: ${DISTORTION_IDS.join(', ')}.`;
+
+  try {
+    return await generateStructured(provider, prompt, draftSchema, { task: 'thought-record' });
+  } catch (error) {
+    console.error('Error drafting thought record:', error);
+    return null;
+  }
+};
+
+// Saved on the session it was written in, so it syncs and exports with it
+export const saveThoughtRecord = async (session: Session, record: ThoughtRecord): Promise<void> => {
+  const updated = { ...record, updatedAt: new Date().toISOString() };
+  const existing = session.thoughtRecords || [];
+  session.thoughtRecords = existing.some(r => r.id === record.id)
+    ? existing.map(r => r.id === record.id ? updated : r)
+    : [...existing, updated];
+  await saveSession(session);
+};
+
+export const loadThoughtRecords = async (): Promise<SessionThoughtRecord[]> => {
+  const sessions = await loadSessions();
+  return sessions
+    .flatMap(session => (session.thoughtRecords || []).map(record => ({ ...record, sessionId: session.id })))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const formatThoughtRecordsForPrompt = (records: ThoughtRecord[]): string =>
+  records
+    .map(record => {
+      const distortions = record.distortions.map(id => COGNITIVE_DISTORTIONS[id].name).join(', ');
+      return `- "${record.automaticThought}" (${record.situation})${distortions ? `; distortions: ${distortions}` : ''}${
+        record.balancedThought ? `; balanced thought: "${record.balancedThought}"` : ''}`;
+    })
+    .join('\n  ');
@@ -0,0 +1,40 @@
+// ElevenLabs configuration - use import.meta.env for Vite/Next.js
+const ELEVENLABS_API_KEY = import.meta.env.VITE_ELEVENLABS_API_KEY || '';
+const VOICE_ID = '56AoDkrOh6qfVPDXZ7Pt'; //56AoDkrOh6qfVPDXZ7Pt
+
+export const isSpeechConfigured = (): boolean => !!ELEVENLABS_API_KEY;
+
+// ElevenLabs TTS in Dr. Sky's voice, as MPEG audio ready for decodeAudioData
+export const generateSpeech = async (text: string): Promise<ArrayBuffer> => {
+  if (!ELEVENLABS_API_KEY) {
+    throw new Error('ElevenLabs API key not found');
+  }
+
+  const response = await fetch(
+    `https://api.elevenlabs.io/v1/text-to-speech/${VOICE_ID}/stream`,
+    {
+      method: 'POST',
+      headers: {
+        'Accept': 'audio/mpeg',
+        'Content-Type': 'application/json',
+        'xi-api-key': ELEVENLABS_API_KEY,
+      },
+      body: JSON.stringify({
+        text,
+        model_id: 'eleven_monolingual_v1',
+        voice_settings: {
+          stability: 0.5,
+          similarity_boost: 0.75,
+          style: 0.5,
+          use_speaker_boost: true
+        }
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error('Failed to generate speech');
+  }
+
+  return await response.arrayBuffer();
+};
@@ -0,0 +1,122 @@
+import { supabase } from "@/lib/supabase";
+import { isVaultUnlocked, loadSealedItem, saveSealedItem } from "@/utils/vault";
+
+export interface UserProfile {
+  id: string;
+  displayName: string;
+  pronouns: string;
+  timezone: string;
+  preferredLanguage: string;
+  updatedAt: string;
+}
+
+interface ProfileRow {
+  id: string;
+  display_name: string;
+  pronouns: string;
+  timezone: string;
+  preferred_language: string;
+  updated_at: string;
+}
+
+// Cached on the device so the therapy prompt can use it without a network round trip
+const PROFILE_CACHE_KEY = 'user-profile';
+
+export const createDefaultProfile = (userId: string): UserProfile => ({
+  id: userId,
+  displayName: '',
+  pronouns: '',
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  preferredLanguage: navigator.language || 'en',
+  updatedAt: new Date().toISOString()
+});
+
+const fromRow = (row: ProfileRow): UserProfile => ({
+  id: row.id,
+  displayName: row.display_name || '',
+  pronouns: row.pronouns || '',
+  timezone: row.timezone,
+  preferredLanguage: row.preferred_language,
+  updatedAt: row.updated_at
+});
+
+const toRow = (profile: UserProfile): ProfileRow => ({
+  id: profile.id,
+  display_name: profile.displayName,
+  pronouns: profile.pronouns,
+  timezone: profile.timezone,
+  preferred_language: profile.preferredLanguage,
+  updated_at: profile.updatedAt
+});
+
+export const getCachedUserProfile = async (): Promise<UserProfile | null> => {
+  try {
+    return await loadSealedItem<UserProfile>(PROFILE_CACHE_KEY);
+  } catch (error) {
+    console.error('Error loading user profile:', error);
+    return null;
+  }
+};
+
+// Only cached while the vault is unlocked; the prompt simply goes without it otherwise
+export const cacheUserProfile = async (profile: UserProfile | null): Promise<void> => {
+  try {
+    if (profile) {
+      if (!isVaultUnlocked()) return;
+      await saveSealedItem(PROFILE_CACHE_KEY, profile);
+    } else {
+      localStorage.removeItem(PROFILE_CACHE_KEY);
+    }
+  } catch (error) {
+    console.error('Error caching user profile:', error);
+  }
+};
+
+export const fetchUserProfile = async (userId: string): Promise<UserProfile | null> => {
+  const { data, error } = await supabase.from('profiles').select('*').eq('id', userId).maybeSingle();
+  if (error) throw error;
+  return data ? fromRow(data as ProfileRow) : null;
+};
+
+export const saveUserProfile = async (profile: UserProfile): Promise<UserProfile> => {
+  const saved = { ...profile, updatedAt: new Date().toISOString() };
+  const { error } = await supabase.from('profiles').upsert(toRow(saved));
+  if (error) throw error;
+  await cacheUserProfile(saved);
+  return saved;
+};
+
+const formatLocalTime = (timezone: string): string | null => {
+  try {
+    return new Date().toLocaleString('en-US', {
+      timeZone: timezone,
+      weekday: 'long',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  } catch {
+    return null;
+  }
+};
+
+const formatLanguage = (code: string): string => {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) || code;
+  } catch {
+    return code;
+  }
+};
+
+export const formatUserProfileForPrompt = (profile: UserProfile | null): string => {
+  if (!profile) return '';
+
+  const localTime = formatLocalTime(profile.timezone);
+  const lines = [
+    profile.displayName && `Name: ${profile.displayName}`,
+    profile.pronouns && `Pronouns: ${profile.pronouns}`,
+    localTime && `Local time: ${localTime} (${profile.timezone})`,
+    `Preferred language: ${formatLanguage(profile.preferredLanguage)}`
+  ].filter(Boolean);
+
+  return lines.join('\n  ');
+};
@@ -0,0 +1,200 @@
+/**
+ * Client-side encryption for everything the app stores on this device. A key is
+ * derived from the user's passphrase or PIN with PBKDF2 and only ever held in
+ * memory; data is sealed with AES-GCM. Locking drops the key, so nothing stored
+ * can be read until the passphrase is entered again.
+ */
+
+export interface SealedPayload {
+  iv: string;
+  data: string;
+}
+
+interface VaultConfig {
+  salt: string;
+  iterations: number;
+  // A known value sealed with the key, used to check a passphrase without storing it
+  check: SealedPayload;
+}
+
+const VAULT_CONFIG_KEY = 'vault-config';
+const AUTO_LOCK_KEY = 'vault-auto-lock-minutes';
+const CHECK_VALUE = 'dr-sky-vault';
+
+// OWASP's current recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600000;
+export const MIN_PASSPHRASE_LENGTH = 6;
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+let vaultKey: CryptoKey | null = null;
+let autoLockTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<(unlocked: boolean) => void>();
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const loadConfig = (): VaultConfig | null => {
+  try {
+    const data = localStorage.getItem(VAULT_CONFIG_KEY);
+    return data ? JSON.parse(data) : null;
+  } catch (error) {
+    console.error('Error loading vault config:', error);
+    return null;
+  }
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encrypt = async (key: CryptoKey, plaintext: string): Promise<SealedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(plaintext));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+const decrypt = async (key: CryptoKey, payload: SealedPayload): Promise<string> => {
+  const data = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(payload.iv) },
+    key,
+    fromBase64(payload.data)
+  );
+  return decoder.decode(data);
+};
+
+const notify = () => {
+  listeners.forEach(listener => listener(vaultKey !== null));
+};
+
+export const isVaultConfigured = (): boolean => loadConfig() !== null;
+
+export const isVaultUnlocked = (): boolean => vaultKey !== null;
+
+export const onVaultChange = (listener: (unlocked: boolean) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getAutoLockMinutes = (): number => {
+  const stored = Number(localStorage.getItem(AUTO_LOCK_KEY));
+  return stored > 0 ? stored : DEFAULT_AUTO_LOCK_MINUTES;
+};
+
+export const setAutoLockMinutes = (minutes: number): void => {
+  localStorage.setItem(AUTO_LOCK_KEY, String(minutes));
+  touchVault();
+};
+
+export const lockVault = (): void => {
+  if (autoLockTimer) {
+    clearTimeout(autoLockTimer);
+    autoLockTimer = null;
+  }
+  if (vaultKey) {
+    vaultKey = null;
+    notify();
+  }
+};
+
+// Call on user activity; the vault locks itself after the configured idle time
+export const touchVault = (): void => {
+  if (!vaultKey) return;
+  if (autoLockTimer) clearTimeout(autoLockTimer);
+  autoLockTimer = setTimeout(lockVault, getAutoLockMinutes() * 60 * 1000);
+};
+
+const unlockWith = (key: CryptoKey) => {
+  vaultKey = key;
+  touchVault();
+  notify();
+};
+
+export const setupVault = async (passphrase: string): Promise<void> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const config: VaultConfig = {
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    check: await encrypt(key, CHECK_VALUE)
+  };
+
+  localStorage.setItem(VAULT_CONFIG_KEY, JSON.stringify(config));
+  unlockWith(key);
+};
+
+// Resolves false for a wrong passphrase rather than throwing
+export const unlockVault = async (passphrase: string): Promise<boolean> => {
+  const config = loadConfig();
+  if (!config) throw new Error('Vault has not been set up');
+
+  const key = await deriveKey(passphrase, fromBase64(config.salt), config.iterations);
+  try {
+    if (await decrypt(key, config.check) !== CHECK_VALUE) return false;
+  } catch {
+    // AES-GCM authentication fails when the key is wrong
+    return false;
+  }
+
+  unlockWith(key);
+  return true;
+};
+
+// Forgets the passphrase. Anything sealed with it can no longer be read.
+export const forgetVault = (): void => {
+  lockVault();
+  localStorage.removeItem(VAULT_CONFIG_KEY);
+};
+
+const requireKey = (): CryptoKey => {
+  if (!vaultKey) throw new Error('Vault is locked');
+  return vaultKey;
+};
+
+export const isSealedPayload = (value: unknown): value is SealedPayload =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as SealedPayload).iv === 'string' &&
+  typeof (value as SealedPayload).data === 'string';
+
+export const sealValue = async (value: unknown): Promise<SealedPayload> =>
+  encrypt(requireKey(), JSON.stringify(value));
+
+export const openValue = async <T>(payload: SealedPayload): Promise<T> =>
+  JSON.parse(await decrypt(requireKey(), payload));
+
+// localStorage helpers for the few values kept outside IndexedDB
+export const loadSealedItem = async <T>(key: string): Promise<T | null> => {
+  const data = localStorage.getItem(key);
+  if (!data) return null;
+
+  const parsed = JSON.parse(data);
+  // Values written before the vault existed are read once and sealed on the next save
+  return isSealedPayload(parsed) ? openValue<T>(parsed) : parsed;
+};
+
+export const saveSealedItem = async (key: string, value: unknown): Promise<void> => {
+  localStorage.setItem(key, JSON.stringify(await sealValue(value)));
+};
@@ -0,0 +1,120 @@
+export interface VoiceProsodySample {
+  timestamp: string;
+  arousal: number; // 0 (calm) to 1 (activated)
+  confidence: number; // 0-1
+  energyDb: number;
+  pitchHz?: number;
+}
+
+// Quieter than this is treated as silence and produces no sample
+const SILENCE_DB = -50;
+// Human speech fundamental frequency range
+const MIN_PITCH_HZ = 70;
+const MAX_PITCH_HZ = 400;
+// Samples needed before the speaker's own baseline is trusted
+const BASELINE_SAMPLES = 10;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const computeEnergyDb = (buffer: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    sum += buffer[i] * buffer[i];
+  }
+  const rms = Math.sqrt(sum / buffer.length);
+  return rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+};
+
+// Autocorrelation pitch estimate; returns undefined for unvoiced frames
+export const estimatePitch = (buffer: Float32Array, sampleRate: number): number | undefined => {
+  const minLag = Math.floor(sampleRate / MAX_PITCH_HZ);
+  const maxLag = Math.min(Math.floor(sampleRate / MIN_PITCH_HZ), buffer.length - 1);
+
+  let energy = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    energy += buffer[i] * buffer[i];
+  }
+  if (energy === 0) return undefined;
+
+  let bestLag = -1;
+  let bestCorrelation = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let correlation = 0;
+    for (let i = 0; i < buffer.length - lag; i++) {
+      correlation += buffer[i] * buffer[i + lag];
+    }
+    correlation /= energy;
+    if (correlation > bestCorrelation) {
+      bestCorrelation = correlation;
+      bestLag = lag;
+    }
+  }
+
+  // Weak periodicity means noise or breath rather than voice
+  return bestLag > 0 && bestCorrelation > 0.3 ? sampleRate / bestLag : undefined;
+};
+
+/**
+ * Reads loudness and pitch from the microphone and scores arousal against the
+ * speaker's own running baseline, so a naturally loud voice doesn't read as agitated.
+ */
+export class VoiceProsodyAnalyzer {
+  private stream: MediaStream;
+  private audioContext: AudioContext;
+  private analyser: AnalyserNode;
+  private buffer: Float32Array;
+  private history: Array<{ energyDb: number; pitchHz?: number }> = [];
+
+  private constructor(stream: MediaStream, audioContext: AudioContext) {
+    this.stream = stream;
+    this.audioContext = audioContext;
+    this.analyser = audioContext.createAnalyser();
+    this.analyser.fftSize = 2048;
+    this.buffer = new Float32Array(this.analyser.fftSize);
+    audioContext.createMediaStreamSource(stream).connect(this.analyser);
+  }
+
+  static async create(): Promise<VoiceProsodyAnalyzer> {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const AudioContextClass = (window.AudioContext || window.webkitAudioContext) as typeof AudioContext;
+    return new VoiceProsodyAnalyzer(stream, new AudioContextClass());
+  }
+
+  // Returns null while the user is silent
+  sample(): VoiceProsodySample | null {
+    this.analyser.getFloatTimeDomainData(this.buffer);
+
+    const energyDb = computeEnergyDb(this.buffer);
+    if (energyDb < SILENCE_DB) return null;
+
+    const pitchHz = estimatePitch(this.buffer, this.audioContext.sampleRate);
+    this.history = [...this.history, { energyDb, pitchHz }].slice(-120);
+
+    const energies = this.history.map(h => h.energyDb);
+    const pitches = this.history.map(h => h.pitchHz).filter((p): p is number => p !== undefined);
+    const meanEnergy = energies.reduce((a, b) => a + b, 0) / energies.length;
+    const meanPitch = pitches.length ? pitches.reduce((a, b) => a + b, 0) / pitches.length : undefined;
+
+    // Louder and higher than usual both point to activation
+    const energyDelta = clamp((energyDb - meanEnergy) / 12, -1, 1);
+    const pitchDelta = pitchHz && meanPitch ? clamp((pitchHz - meanPitch) / meanPitch / 0.3, -1, 1) : 0;
+    const arousal = clamp(0.5 + energyDelta * 0.3 + pitchDelta * 0.2, 0, 1);
+
+    const baselineReady = Math.min(1, this.history.length / BASELINE_SAMPLES);
+    const confidence = (pitchHz ? 0.6 : 0.3) * baselineReady;
+
+    return {
+      timestamp: new Date().toISOString(),
+      arousal: round(arousal),
+      confidence: round(confidence),
+      energyDb: round(energyDb),
+      pitchHz: pitchHz ? Math.round(pitchHz) : undefined
+    };
+  }
+
+  close(): void {
+    this.stream.getTracks().forEach(track => track.stop());
+    this.audioContext.close();
+  }
+}
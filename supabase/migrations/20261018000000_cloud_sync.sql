@@ -0,0 +1,66 @@
+-- Per-user copies of the data kept locally in IndexedDB, for syncing across devices.
+-- Every row belongs to the signed-in user who wrote it; row-level security keeps
+-- users from reading or writing anyone else's rows.
+
+create table if not exists public.sessions (
+  id uuid primary key,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  start_time timestamptz not null,
+  end_time timestamptz,
+  messages jsonb not null default '[]'::jsonb,
+  therapeutic_context jsonb not null default '{}'::jsonb,
+  risk_events jsonb not null default '[]'::jsonb,
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.progress_reports (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  session_id uuid,
+  "timestamp" timestamptz not null,
+  data jsonb not null,
+  updated_at timestamptz not null default now(),
+  unique (user_id, "timestamp")
+);
+
+create table if not exists public.goals (
+  id uuid primary key,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  goal text not null,
+  progress integer not null default 0 check (progress between 0 and 100),
+  status text not null check (status in ('not-started', 'in-progress', 'achieved')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.coping_completions (
+  id uuid primary key,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  session_id uuid,
+  title text not null,
+  category text not null,
+  completed_at timestamptz not null,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists sessions_user_updated_idx on public.sessions (user_id, updated_at);
+create index if not exists progress_reports_user_updated_idx on public.progress_reports (user_id, updated_at);
+create index if not exists goals_user_updated_idx on public.goals (user_id, updated_at);
+create index if not exists coping_completions_user_updated_idx on public.coping_completions (user_id, updated_at);
+
+alter table public.sessions enable row level security;
+alter table public.progress_reports enable row level security;
+alter table public.goals enable row level security;
+alter table public.coping_completions enable row level security;
+
+create policy "Users manage their own sessions" on public.sessions
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users manage their own progress reports" on public.progress_reports
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users manage their own goals" on public.goals
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users manage their own coping completions" on public.coping_completions
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
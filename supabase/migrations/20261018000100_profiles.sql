@@ -0,0 +1,16 @@
+-- One profile per account, read into the therapy prompt so Dr. Sky knows how to
+-- address the user, what time it is for them and which language to answer in.
+
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  display_name text not null default '',
+  pronouns text not null default '',
+  timezone text not null default 'UTC',
+  preferred_language text not null default 'en',
+  updated_at timestamptz not null default now()
+);
+
+alter table public.profiles enable row level security;
+
+create policy "Users manage their own profile" on public.profiles
+  for all using (auth.uid() = id) with check (auth.uid() = id);
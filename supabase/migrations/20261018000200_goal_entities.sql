@@ -0,0 +1,12 @@
+-- Goals become entities the user edits: a title and description instead of a
+-- single line of text, an optional target date, the progress recorded in each
+-- session, and a tombstone so a goal removed on one device is removed everywhere.
+
+alter table public.goals rename column goal to title;
+
+alter table public.goals
+  add column if not exists description text not null default '',
+  add column if not exists target_date date,
+  add column if not exists history jsonb not null default '[]'::jsonb,
+  add column if not exists status_set_by_user boolean not null default false,
+  add column if not exists deleted_at timestamptz;
@@ -0,0 +1,22 @@
+-- Scored PHQ-9, GAD-7, PSS-10 and WHO-5 questionnaires. Item answers are kept
+-- so scores can be re-derived and item-level responses reviewed.
+
+create table if not exists public.assessment_results (
+  id uuid primary key,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  session_id uuid,
+  questionnaire_id text not null check (questionnaire_id in ('phq-9', 'gad-7', 'pss-10', 'who-5')),
+  timing text not null check (timing in ('pre-session', 'post-session', 'standalone')),
+  answers jsonb not null,
+  score integer not null,
+  severity text not null,
+  completed_at timestamptz not null,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists assessment_results_user_updated_idx on public.assessment_results (user_id, updated_at);
+
+alter table public.assessment_results enable row level security;
+
+create policy "Users manage their own assessment results" on public.assessment_results
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,5 @@
+-- Measured session metrics recorded when a session ends: duration, turn and
+-- word counts, voice versus text turns, speaking time and model latency.
+
+alter table public.sessions
+  add column if not exists metrics jsonb;
@@ -0,0 +1,24 @@
+-- Opens, completions, skips and ratings of recommended content, which the
+-- recommender learns the user's preferences from. Category, practitioner and
+-- duration are copied from the catalog item at the time of the event.
+
+create table if not exists public.content_feedback (
+  id uuid primary key,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  session_id uuid,
+  item_id text not null,
+  event text not null check (event in ('opened', 'completed', 'skipped', 'rated')),
+  rating smallint check (rating between 1 and 5),
+  category text not null,
+  practitioner text,
+  duration_minutes integer,
+  created_at timestamptz not null,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists content_feedback_user_updated_idx on public.content_feedback (user_id, updated_at);
+
+alter table public.content_feedback enable row level security;
+
+create policy "Users manage their own content feedback" on public.content_feedback
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,34 @@
+-- Daily routine plans and the checklist history used to measure adherence.
+-- Slots are keyed by part of the day; days by the user's local date.
+
+create table if not exists public.routine_slots (
+  id text not null check (id in ('morning', 'afternoon', 'evening')),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  time text not null check (time ~ '^[0-2][0-9]:[0-5][0-9]$'),
+  reminder boolean not null default true,
+  items jsonb not null default '[]',
+  created_at timestamptz not null,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, id)
+);
+
+create table if not exists public.routine_days (
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  date date not null,
+  planned integer not null,
+  completed_item_ids jsonb not null default '[]',
+  updated_at timestamptz not null default now(),
+  primary key (user_id, date)
+);
+
+create index if not exists routine_slots_user_updated_idx on public.routine_slots (user_id, updated_at);
+create index if not exists routine_days_user_updated_idx on public.routine_days (user_id, updated_at);
+
+alter table public.routine_slots enable row level security;
+alter table public.routine_days enable row level security;
+
+create policy "Users manage their own routine slots" on public.routine_slots
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users manage their own routine days" on public.routine_days
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,25 @@
+-- Guided breathing exercises, with the client's calm rated before and after.
+-- Source records whether the client, Dr. Sky or the crisis panel opened the
+-- player, so it's clear which invitations tend to be taken up.
+
+create table if not exists public.breathing_exercises (
+  id uuid primary key,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  session_id uuid,
+  pattern_id text not null check (pattern_id in ('box', '4-7-8', 'coherent')),
+  source text not null check (source in ('client', 'therapist', 'crisis')),
+  duration_seconds integer not null,
+  cycles integer not null,
+  calm_before smallint not null check (calm_before between 0 and 10),
+  calm_after smallint check (calm_after between 0 and 10),
+  started_at timestamptz not null,
+  completed_at timestamptz not null,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists breathing_exercises_user_updated_idx on public.breathing_exercises (user_id, updated_at);
+
+alter table public.breathing_exercises enable row level security;
+
+create policy "Users manage their own breathing exercises" on public.breathing_exercises
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,6 @@
+-- CBT thought records the client worked through during a session, stored with
+-- the session like its risk events: situation, automatic thought, emotions
+-- rated before and after, distortions, evidence and the balanced thought.
+
+alter table public.sessions
+  add column if not exists thought_records jsonb;
@@ -0,0 +1,22 @@
+-- Between-session homework set at the end of a session, with a due date and
+-- check-off. Removed homework keeps a tombstone so other devices drop it too.
+
+create table if not exists public.homework (
+  id uuid primary key,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  session_id uuid,
+  title text not null,
+  description text not null default '',
+  due_date date not null,
+  completed_at timestamptz,
+  created_at timestamptz not null,
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz
+);
+
+create index if not exists homework_user_updated_idx on public.homework (user_id, updated_at);
+
+alter table public.homework enable row level security;
+
+create policy "Users manage their own homework" on public.homework
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,57 @@
+-- Devices pull rows by when the server received them, not by the updated_at a
+-- device wrote: a device that was offline can push edits stamped earlier than
+-- another device's last sync, and those still have to be pulled.
+
+create or replace function public.stamp_synced_at()
+returns trigger
+language plpgsql
+set search_path = ''
+as $$
+begin
+  new.synced_at := now();
+  return new;
+end;
+$$;
+
+alter table public.sessions add column if not exists synced_at timestamptz not null default now();
+alter table public.progress_reports add column if not exists synced_at timestamptz not null default now();
+alter table public.goals add column if not exists synced_at timestamptz not null default now();
+alter table public.coping_completions add column if not exists synced_at timestamptz not null default now();
+alter table public.assessment_results add column if not exists synced_at timestamptz not null default now();
+alter table public.content_feedback add column if not exists synced_at timestamptz not null default now();
+alter table public.routine_slots add column if not exists synced_at timestamptz not null default now();
+alter table public.routine_days add column if not exists synced_at timestamptz not null default now();
+alter table public.breathing_exercises add column if not exists synced_at timestamptz not null default now();
+alter table public.homework add column if not exists synced_at timestamptz not null default now();
+
+create trigger sessions_stamp_synced_at before insert or update on public.sessions
+  for each row execute function public.stamp_synced_at();
+create trigger progress_reports_stamp_synced_at before insert or update on public.progress_reports
+  for each row execute function public.stamp_synced_at();
+create trigger goals_stamp_synced_at before insert or update on public.goals
+  for each row execute function public.stamp_synced_at();
+create trigger coping_completions_stamp_synced_at before insert or update on public.coping_completions
+  for each row execute function public.stamp_synced_at();
+create trigger assessment_results_stamp_synced_at before insert or update on public.assessment_results
+  for each row execute function public.stamp_synced_at();
+create trigger content_feedback_stamp_synced_at before insert or update on public.content_feedback
+  for each row execute function public.stamp_synced_at();
+create trigger routine_slots_stamp_synced_at before insert or update on public.routine_slots
+  for each row execute function public.stamp_synced_at();
+create trigger routine_days_stamp_synced_at before insert or update on public.routine_days
+  for each row execute function public.stamp_synced_at();
+create trigger breathing_exercises_stamp_synced_at before insert or update on public.breathing_exercises
+  for each row execute function public.stamp_synced_at();
+create trigger homework_stamp_synced_at before insert or update on public.homework
+  for each row execute function public.stamp_synced_at();
+
+create index if not exists sessions_user_synced_idx on public.sessions (user_id, synced_at);
+create index if not exists progress_reports_user_synced_idx on public.progress_reports (user_id, synced_at);
+create index if not exists goals_user_synced_idx on public.goals (user_id, synced_at);
+create index if not exists coping_completions_user_synced_idx on public.coping_completions (user_id, synced_at);
+create index if not exists assessment_results_user_synced_idx on public.assessment_results (user_id, synced_at);
+create index if not exists content_feedback_user_synced_idx on public.content_feedback (user_id, synced_at);
+create index if not exists routine_slots_user_synced_idx on public.routine_slots (user_id, synced_at);
+create index if not exists routine_days_user_synced_idx on public.routine_days (user_id, synced_at);
+create index if not exists breathing_exercises_user_synced_idx on public.breathing_exercises (user_id, synced_at);
+create index if not exists homework_user_synced_idx on public.homework (user_id, synced_at);
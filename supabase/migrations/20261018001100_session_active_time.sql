@@ -0,0 +1,6 @@
+-- Resumed sessions: when the session was last reopened, and how long it was
+-- open before that, so its duration leaves out the time it sat ended.
+
+alter table public.sessions
+  add column if not exists resumed_at timestamptz,
+  add column if not exists active_ms bigint;